@@ -21,9 +21,17 @@ import AdminEvents from './pages/admin/AdminEvents';
 import AdminTransactions from './pages/admin/AdminTransactions';
 import AdminSettings from './pages/admin/AdminSettings';
 import AdminConsoles from './pages/admin/AdminConsoles';
+import AdminStations from './pages/admin/AdminStations';
+import AdminExtras from './pages/admin/AdminExtras';
+import AdminPricing from './pages/admin/AdminPricing';
+import AdminPromotions from './pages/admin/AdminPromotions';
+import AdminMembership from './pages/admin/AdminMembership';
+import AdminRewards from './pages/admin/AdminRewards';
+import AdminLeaderboard from './pages/admin/AdminLeaderboard';
 import Consoles from './pages/Consoles';
 import GameDetail from './pages/GameDetail';
 import EventDetail from './pages/EventDetail';
+import Leaderboard from './pages/Leaderboard';
 import ProtectedRoute from './components/ProtectedRoute';
 
 function App() {
@@ -41,8 +49,15 @@ function App() {
             <Route path="users" element={<AdminUsers />} />
             <Route path="bookings" element={<AdminBookings />} />
             <Route path="consoles" element={<AdminConsoles />} />
+            <Route path="stations" element={<AdminStations />} />
+            <Route path="extras" element={<AdminExtras />} />
+            <Route path="pricing" element={<AdminPricing />} />
+            <Route path="promotions" element={<AdminPromotions />} />
+            <Route path="membership" element={<AdminMembership />} />
+            <Route path="rewards" element={<AdminRewards />} />
             <Route path="games" element={<AdminGames />} />
             <Route path="events" element={<AdminEvents />} />
+            <Route path="leaderboard" element={<AdminLeaderboard />} />
             <Route path="transactions" element={<AdminTransactions />} />
             <Route path="settings" element={<AdminSettings />} />
           </Route>
@@ -65,6 +80,7 @@ function App() {
                   <Route path="/consoles" element={<Consoles />} />
                   <Route path="/events" element={<Events />} />
                   <Route path="/events/:id" element={<EventDetail />} />
+                  <Route path="/leaderboard" element={<Leaderboard />} />
                   <Route path="/blog" element={<Blog />} />
                   <Route path="/contact" element={<Contact />} />
                   <Route path="/login" element={<Login />} />
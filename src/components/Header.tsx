@@ -15,7 +15,8 @@ import {
   LogOut,
   ChevronDown,
   Settings,
-  Monitor
+  Monitor,
+  Award
 } from 'lucide-react';
 import { authService } from '../services/api';
 
@@ -80,6 +81,7 @@ const Header = () => {
     { path: '/games', label: 'Games', icon: Gamepad2 },
     { path: '/consoles', label: 'Consoles', icon: Monitor },
     { path: '/events', label: 'Events', icon: Trophy },
+    { path: '/leaderboard', label: 'Leaderboard', icon: Award },
     { path: '/blog', label: 'Blog', icon: BookOpen },
     { path: '/contact', label: 'Contact', icon: Phone }
   ];
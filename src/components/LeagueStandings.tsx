@@ -0,0 +1,59 @@
+import React from 'react';
+import { getGroupName } from '../lib/brackets';
+import { BracketFormat, LeagueStanding } from '../types';
+
+interface LeagueStandingsProps {
+  standings: LeagueStanding[];
+  format: BracketFormat;
+}
+
+const LeagueStandings: React.FC<LeagueStandingsProps> = ({ standings, format }) => {
+  const groups = Array.from(new Set(standings.map(standing => standing.group_number ?? null)));
+  const showBuchholz = format === 'swiss';
+
+  return (
+    <div className="space-y-6">
+      {groups.map(group => (
+        <div key={group ?? 'all'}>
+          {group && <h4 className="text-white font-medium mb-3">{getGroupName(group)}</h4>}
+          <div className="overflow-x-auto">
+            <table className="w-full text-sm">
+              <thead>
+                <tr className="text-gray-400 border-b border-gray-700">
+                  <th className="text-left py-2 pr-2">#</th>
+                  <th className="text-left py-2">Player</th>
+                  <th className="text-center py-2">P</th>
+                  <th className="text-center py-2">W</th>
+                  <th className="text-center py-2">D</th>
+                  <th className="text-center py-2">L</th>
+                  <th className="text-center py-2">+/-</th>
+                  {showBuchholz && <th className="text-center py-2" title="Buchholz">BH</th>}
+                  <th className="text-center py-2">Pts</th>
+                </tr>
+              </thead>
+              <tbody>
+                {standings
+                  .filter(standing => (standing.group_number ?? null) === group)
+                  .map(standing => (
+                    <tr key={standing.participant_id} className="border-b border-gray-800 text-white">
+                      <td className="py-2 pr-2 text-gray-400">{standing.rank}</td>
+                      <td className="py-2">{standing.participant.name}</td>
+                      <td className="text-center py-2">{standing.played}</td>
+                      <td className="text-center py-2">{standing.wins}</td>
+                      <td className="text-center py-2">{standing.draws}</td>
+                      <td className="text-center py-2">{standing.losses}</td>
+                      <td className="text-center py-2">{standing.score_for - standing.score_against}</td>
+                      {showBuchholz && <td className="text-center py-2 text-gray-400">{standing.buchholz}</td>}
+                      <td className="text-center py-2 font-bold text-neon-blue">{standing.points}</td>
+                    </tr>
+                  ))}
+              </tbody>
+            </table>
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default LeagueStandings;
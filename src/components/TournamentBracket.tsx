@@ -0,0 +1,112 @@
+import React from 'react';
+import { Trophy } from 'lucide-react';
+import {
+  getGroupName,
+  getRoundName,
+  groupBracketRounds,
+  groupLeagueRounds,
+  isLeagueFormat
+} from '../lib/brackets';
+import { BracketFormat, TournamentMatch } from '../types';
+
+interface TournamentBracketProps {
+  matches: TournamentMatch[];
+  format: BracketFormat;
+  // Admins get a click handler to record a result or correct a confirmed one
+  onMatchClick?: (match: TournamentMatch) => void;
+}
+
+const TournamentBracket: React.FC<TournamentBracketProps> = ({ matches, format, onMatchClick }) => {
+  const { winners, losers, grandFinal } = groupBracketRounds(matches);
+
+  const renderSlot = (match: TournamentMatch, slot: 1 | 2) => {
+    const participant = slot === 1 ? match.participant1 : match.participant2;
+    const score = slot === 1 ? match.score1 : match.score2;
+    const isWinner = participant != null && participant.id === match.winner_id;
+
+    return (
+      <div className={`flex justify-between items-center px-3 py-2 text-sm ${
+        isWinner ? 'text-neon-green font-bold' : participant ? 'text-white' : 'text-gray-500'
+      }`}>
+        <span className="truncate">
+          {participant?.seed != null && <span className="text-xs text-gray-500 mr-2">{participant.seed}</span>}
+          {participant?.name || (match.status === 'bye' ? 'Bye' : 'TBD')}
+        </span>
+        {score != null && <span className="ml-2">{score}</span>}
+      </div>
+    );
+  };
+
+  const renderMatch = (match: TournamentMatch) => {
+    const clickable = !!onMatchClick && (match.status === 'ready' || match.status === 'completed');
+    return (
+      <div
+        key={match.id}
+        onClick={clickable ? () => onMatchClick(match) : undefined}
+        className={`w-52 bg-dark-bg border rounded-lg divide-y divide-gray-700 ${
+          match.disputed_at && match.status === 'ready'
+            ? 'border-yellow-500/70'
+            : match.status === 'ready'
+            ? 'border-neon-blue/50'
+            : match.status === 'completed'
+            ? 'border-gray-600'
+            : 'border-gray-800 opacity-70'
+        } ${clickable ? 'cursor-pointer hover:border-neon-blue' : ''}`}
+      >
+        {renderSlot(match, 1)}
+        {renderSlot(match, 2)}
+      </div>
+    );
+  };
+
+  const renderRounds = (title: string | null, rounds: TournamentMatch[][]) => (
+    <div>
+      {title && <h4 className="text-white font-medium mb-3">{title}</h4>}
+      <div className="flex space-x-6 overflow-x-auto pb-2">
+        {rounds.map(round => (
+          <div key={`${round[0].bracket}-${round[0].round}`} className="flex flex-col justify-around space-y-4">
+            <div className="text-xs text-gray-400 uppercase">
+              {getRoundName(round[0].bracket, round[0].round, rounds.length, format)}
+            </div>
+            {round.map(renderMatch)}
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+
+  if (isLeagueFormat(format)) {
+    return (
+      <div className="space-y-6">
+        {groupLeagueRounds(matches).map(({ group, rounds }) => (
+          <div key={group ?? 'swiss'}>
+            {renderRounds(group ? getGroupName(group) : null, rounds)}
+          </div>
+        ))}
+      </div>
+    );
+  }
+
+  const champion = [...grandFinal, ...(winners[winners.length - 1] || [])]
+    .reverse()
+    .find(match => match.status === 'completed' && (match.bracket === 'grand_final' || format === 'single_elimination'));
+  const championName = champion
+    ? (champion.winner_id === champion.participant1?.id ? champion.participant1 : champion.participant2)?.name
+    : null;
+
+  return (
+    <div className="space-y-6">
+      {championName && (
+        <div className="flex items-center space-x-2 text-neon-gold font-bold">
+          <Trophy className="w-5 h-5" />
+          <span>Champion: {championName}</span>
+        </div>
+      )}
+      {renderRounds(format === 'double_elimination' ? 'Winners Bracket' : null, winners)}
+      {losers.length > 0 && renderRounds('Losers Bracket', losers)}
+      {grandFinal.length > 0 && renderRounds('Grand Final', [grandFinal])}
+    </div>
+  );
+};
+
+export default TournamentBracket;
@@ -8,7 +8,14 @@ import {
   Trophy, 
   CreditCard,
   Settings,
-  Monitor
+  Monitor,
+  MapPin,
+  Package,
+  Tag,
+  Percent,
+  Crown,
+  Gift,
+  Award
 } from 'lucide-react';
 import AdminHeader from '../components/AdminHeader';
 
@@ -20,8 +27,15 @@ const AdminLayout = () => {
     { path: '/admin/users', label: 'Users', icon: Users },
     { path: '/admin/bookings', label: 'Bookings', icon: Calendar },
     { path: '/admin/consoles', label: 'Consoles', icon: Monitor },
+    { path: '/admin/stations', label: 'Stations', icon: MapPin },
+    { path: '/admin/extras', label: 'Extras', icon: Package },
+    { path: '/admin/pricing', label: 'Pricing', icon: Tag },
+    { path: '/admin/promotions', label: 'Promotions', icon: Percent },
+    { path: '/admin/membership', label: 'Membership', icon: Crown },
+    { path: '/admin/rewards', label: 'Rewards', icon: Gift },
     { path: '/admin/games', label: 'Games', icon: Gamepad2 },
     { path: '/admin/events', label: 'Events', icon: Trophy },
+    { path: '/admin/leaderboard', label: 'Leaderboard', icon: Award },
     { path: '/admin/transactions', label: 'Transactions', icon: CreditCard },
     { path: '/admin/settings', label: 'Settings', icon: Settings }
   ];
@@ -0,0 +1,88 @@
+import { CheckoutSlot, RecurrenceRule, SlotPrice } from '../types';
+
+export interface SlotSelection {
+  consoleStationId: number;
+  time: string;
+  hourlyRate: number;
+  price?: SlotPrice;
+}
+
+export const timeToMinutes = (time: string) => {
+  const [hours, minutes] = time.split(':').map(Number);
+  return hours * 60 + (minutes || 0);
+};
+
+export const minutesToTime = (minutes: number) => {
+  const hours = Math.floor(minutes / 60);
+  return `${String(hours).padStart(2, '0')}:${String(minutes % 60).padStart(2, '0')}`;
+};
+
+/**
+ * Collapses consecutive slots on the same console station into a single
+ * session, e.g. 19:00 + 20:00 + 21:00 becomes one 3-hour booking starting 19:00.
+ * `hourlyRate` on each selection is the price of that one slot; priced slots
+ * are kept as the session's breakdown so the server can check them.
+ */
+export const mergeContiguousSlots = (slots: SlotSelection[], slotMinutes = 60): CheckoutSlot[] => {
+  const sorted = [...slots].sort((a, b) =>
+    a.consoleStationId - b.consoleStationId || timeToMinutes(a.time) - timeToMinutes(b.time)
+  );
+
+  const sessions = sorted.reduce<CheckoutSlot[]>((merged, slot) => {
+    const last = merged[merged.length - 1];
+    const lastEnd = last ? timeToMinutes(last.start_time) + last.duration_hours * 60 : null;
+
+    if (last && last.console_station_id === slot.consoleStationId && lastEnd === timeToMinutes(slot.time)) {
+      last.duration_hours += slotMinutes / 60;
+      last.amount += slot.hourlyRate;
+      if (slot.price) last.breakdown = [...(last.breakdown || []), slot.price];
+    } else {
+      merged.push({
+        console_station_id: slot.consoleStationId,
+        start_time: slot.time,
+        duration_hours: slotMinutes / 60,
+        amount: slot.hourlyRate,
+        ...(slot.price ? { breakdown: [slot.price] } : {})
+      });
+    }
+
+    return merged;
+  }, []);
+
+  // Half-hour slots can carry fractions of a rupiah; the server rounds per session
+  return sessions.map(session => ({ ...session, amount: Math.round(session.amount) }));
+};
+
+export const getSessionEndTime = (session: CheckoutSlot) =>
+  minutesToTime(timeToMinutes(session.start_time) + session.duration_hours * 60);
+
+// Trims "HH:MM:SS" values coming from the API down to "HH:MM"
+export const formatTime = (time?: string) => (time ? time.slice(0, 5) : '-');
+
+export const MAX_SERIES_OCCURRENCES = 52;
+
+// Date arithmetic in local time; toISOString() would shift the day in UTC+7
+export const addDays = (date: string, days: number) => {
+  const next = new Date(`${date}T00:00:00`);
+  next.setDate(next.getDate() + days);
+  const month = String(next.getMonth() + 1).padStart(2, '0');
+  const day = String(next.getDate()).padStart(2, '0');
+  return `${next.getFullYear()}-${month}-${day}`;
+};
+
+/**
+ * Expands a recurrence rule into booking dates (YYYY-MM-DD), starting with
+ * `startDate` itself. Mirrors `booking_series_dates` in the database.
+ */
+export const buildRecurrenceDates = (startDate: string, rule: RecurrenceRule) => {
+  const step = rule.frequency === 'biweekly' ? 14 : 7;
+  const limit = Math.min(rule.occurrences || MAX_SERIES_OCCURRENCES, MAX_SERIES_OCCURRENCES);
+  const dates: string[] = [];
+
+  for (let date = startDate; dates.length < limit; date = addDays(date, step)) {
+    if (rule.until_date && date > rule.until_date) break;
+    dates.push(date);
+  }
+
+  return dates;
+};
@@ -0,0 +1,99 @@
+import { BracketFormat, TournamentMatch } from '../types';
+
+export const BRACKET_FORMATS: Record<BracketFormat, string> = {
+  single_elimination: 'Single elimination',
+  double_elimination: 'Double elimination',
+  round_robin: 'Round robin',
+  swiss: 'Swiss'
+};
+
+// Leagues are scored by standings instead of knocking players out
+export const isLeagueFormat = (format: BracketFormat) =>
+  format === 'round_robin' || format === 'swiss';
+
+// Default Swiss length, as in `generate_league_schedule`
+export const getSwissRounds = (participants: number) =>
+  Math.max(1, Math.min(Math.ceil(Math.log2(participants)), participants - 1));
+
+export const getBracketSize = (participants: number) => {
+  let size = 2;
+  while (size < participants) size *= 2;
+  return size;
+};
+
+/**
+ * Seed numbers in first-round order, e.g. [1, 8, 4, 5, 2, 7, 3, 6] for 8 slots,
+ * so top seeds meet as late as possible. Seeds past the field size are byes.
+ * Mirrors `bracket_seed_order` in the database, which builds the bracket.
+ */
+export const getSeedOrder = (size: number) => {
+  let order = [1];
+  for (let slots = 2; slots <= size; slots *= 2) {
+    order = order.flatMap(seed => [seed, slots + 1 - seed]);
+  }
+  return order;
+};
+
+export const getByeCount = (participants: number) =>
+  participants < 2 ? 0 : getBracketSize(participants) - participants;
+
+export interface BracketRounds {
+  winners: TournamentMatch[][];
+  losers: TournamentMatch[][];
+  grandFinal: TournamentMatch[];
+}
+
+export const groupBracketRounds = (matches: TournamentMatch[]): BracketRounds => {
+  const byRound = (bracket: TournamentMatch['bracket']) => {
+    const inBracket = matches
+      .filter(match => match.bracket === bracket)
+      .sort((a, b) => a.round - b.round || a.position - b.position);
+    const rounds = Array.from(new Set(inBracket.map(match => match.round)));
+    return rounds.map(round => inBracket.filter(match => match.round === round));
+  };
+
+  return {
+    winners: byRound('winners'),
+    losers: byRound('losers'),
+    // The reset match only counts once it is actually played
+    grandFinal: byRound('grand_final').flat().filter(match => match.status !== 'skipped')
+  };
+};
+
+export interface LeagueGroup {
+  // null for Swiss, which has a single field
+  group: number | null;
+  rounds: TournamentMatch[][];
+}
+
+export const groupLeagueRounds = (matches: TournamentMatch[]): LeagueGroup[] => {
+  const sorted = [...matches].sort((a, b) => a.round - b.round || a.position - b.position);
+  const groups = Array.from(new Set(sorted.map(match => match.group_number ?? null)))
+    .sort((a, b) => (a ?? 0) - (b ?? 0));
+
+  return groups.map(group => {
+    const inGroup = sorted.filter(match => (match.group_number ?? null) === group);
+    const rounds = Array.from(new Set(inGroup.map(match => match.round)));
+    return { group, rounds: rounds.map(round => inGroup.filter(match => match.round === round)) };
+  });
+};
+
+export const getGroupName = (group: number) => `Group ${String.fromCharCode(64 + group)}`;
+
+export const getRoundName = (
+  bracket: TournamentMatch['bracket'],
+  round: number,
+  totalRounds: number,
+  format: BracketFormat
+) => {
+  if (bracket === 'group' || bracket === 'swiss') return `Round ${round}`;
+  if (bracket === 'grand_final') return round === 1 ? 'Grand Final' : 'Grand Final Reset';
+  if (bracket === 'losers') return round === totalRounds ? 'Losers Final' : `Losers Round ${round}`;
+
+  const prefix = format === 'double_elimination' ? 'Winners ' : '';
+  const fromEnd = totalRounds - round;
+  if (fromEnd === 0) return `${prefix}Final`;
+  if (fromEnd === 1) return `${prefix}Semifinal`;
+  if (fromEnd === 2) return `${prefix}Quarterfinal`;
+  return `${prefix}Round ${round}`;
+};
@@ -0,0 +1,115 @@
+import { Booking, BusinessHours, BusinessHoursDay, SlotHold } from '../types';
+import { minutesToTime, timeToMinutes } from './booking';
+
+export const WEEKDAY_NAMES = ['Sunday', 'Monday', 'Tuesday', 'Wednesday', 'Thursday', 'Friday', 'Saturday'];
+
+// Same grid the booking page used before hours became configurable
+export const DEFAULT_BUSINESS_HOURS: BusinessHours = {
+  slot_minutes: 60,
+  days: WEEKDAY_NAMES.map((_, weekday) => ({
+    weekday,
+    open_time: '10:00',
+    close_time: '23:00',
+    is_closed: false
+  })),
+  exceptions: []
+};
+
+export interface DayHours {
+  isClosed: boolean;
+  openTime: string;
+  closeTime: string;
+  note?: string;
+}
+
+/**
+ * Resolves the opening hours for a date (YYYY-MM-DD), letting a closure or
+ * extended-hours exception override the regular weekday hours.
+ * Mirrors `business_hours_for` in the database.
+ */
+export const getHoursForDate = (date: string, config: BusinessHours): DayHours => {
+  const exception = config.exceptions.find(e => e.date === date);
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  const day: BusinessHoursDay | undefined = config.days.find(d => d.weekday === weekday);
+
+  if (exception?.type === 'closed') {
+    return { isClosed: true, openTime: '', closeTime: '', note: exception.note };
+  }
+
+  if (exception?.open_time && exception.close_time) {
+    return { isClosed: false, openTime: exception.open_time, closeTime: exception.close_time, note: exception.note };
+  }
+
+  if (!day || day.is_closed) {
+    return { isClosed: true, openTime: '', closeTime: '' };
+  }
+
+  return { isClosed: false, openTime: day.open_time, closeTime: day.close_time };
+};
+
+/**
+ * Builds the start times of every bookable slot on a date. A close time at or
+ * before the open time means the shop closes after midnight; slots still have
+ * to start before midnight since a booking belongs to a single date.
+ */
+export const generateTimeSlots = (date: string, config: BusinessHours) => {
+  const hours = getHoursForDate(date, config);
+  if (hours.isClosed) return [];
+
+  const open = timeToMinutes(hours.openTime);
+  let close = timeToMinutes(hours.closeTime);
+  if (close <= open) close += 24 * 60;
+
+  const slots: string[] = [];
+  for (let start = open; start + config.slot_minutes <= close && start < 24 * 60; start += config.slot_minutes) {
+    slots.push(minutesToTime(start));
+  }
+
+  return slots;
+};
+
+/**
+ * Start times on a date where a session of `durationHours` fits on one station:
+ * every slot it covers is inside opening hours, not booked and not held by
+ * someone else. `ignoreBookingId` is the booking being moved, so its own slots
+ * count as free.
+ */
+export const getFreeStartTimes = (
+  date: string,
+  durationHours: number,
+  consoleStationId: number,
+  config: BusinessHours,
+  bookings: Booking[],
+  holds: SlotHold[],
+  ignoreBookingId?: number
+) => {
+  const now = new Date();
+  const slots = generateTimeSlots(date, config);
+  const length = durationHours * 60;
+
+  return slots.filter(time => {
+    const start = timeToMinutes(time);
+    const end = start + length;
+
+    if (new Date(`${date}T${time}:00`) <= now) return false;
+
+    for (let minute = start; minute < end; minute += config.slot_minutes) {
+      if (!slots.includes(minutesToTime(minute))) return false;
+    }
+
+    const booked = bookings.some(booking => {
+      if (booking.id === ignoreBookingId || booking.status === 'cancelled') return false;
+      if (booking.console_station_id !== consoleStationId) return false;
+      const bookedStart = timeToMinutes(booking.start_time);
+      return bookedStart < end && bookedStart + Number(booking.duration_hours) * 60 > start;
+    });
+
+    const held = holds.some(hold => {
+      if (hold.console_station_id !== consoleStationId || new Date(hold.expires_at) <= now) return false;
+      const heldStart = timeToMinutes(hold.start_time);
+      return heldStart >= start && heldStart < end;
+    });
+
+    return !booked && !held;
+  });
+};
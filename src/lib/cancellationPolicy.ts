@@ -0,0 +1,60 @@
+import { Booking, CancellationPolicy } from '../types';
+
+export const DEFAULT_CANCELLATION_POLICY: CancellationPolicy = {
+  free_cancel_hours: 24,
+  partial_refund_percent: 50,
+  reschedule_cutoff_hours: 2
+};
+
+export interface CancellationQuote {
+  allowed: boolean;
+  refundPercent: number;
+  refundAmount: number;
+  message: string;
+}
+
+const hoursUntilStart = (booking: Booking, now: Date) => {
+  const start = new Date(`${booking.booking_date.slice(0, 10)}T${booking.start_time.slice(0, 5)}:00`);
+  return (start.getTime() - now.getTime()) / 3600000;
+};
+
+/**
+ * Preview of what `cancel_booking` will refund. The backend makes the final call,
+ * this only lets the customer see the outcome before confirming.
+ */
+export const quoteCancellation = (
+  booking: Booking,
+  policy: CancellationPolicy,
+  now = new Date()
+): CancellationQuote => {
+  if (['in_progress', 'completed', 'cancelled'].includes(booking.status)) {
+    return { allowed: false, refundPercent: 0, refundAmount: 0, message: 'Booking ini tidak dapat dibatalkan.' };
+  }
+
+  const hoursBefore = hoursUntilStart(booking, now);
+  let refundPercent = 0;
+  if (hoursBefore >= policy.free_cancel_hours) {
+    refundPercent = 100;
+  } else if (hoursBefore > 0) {
+    refundPercent = policy.partial_refund_percent;
+  }
+
+  // Unpaid bookings are simply released
+  if (booking.payment_status !== 'paid') {
+    return { allowed: true, refundPercent: 0, refundAmount: 0, message: 'Booking belum dibayar, tidak ada refund.' };
+  }
+
+  const refundAmount = Math.floor(((booking.paid_amount ?? booking.total_amount) * refundPercent) / 100);
+  return {
+    allowed: true,
+    refundPercent,
+    refundAmount,
+    message: refundPercent > 0
+      ? `Refund ${refundPercent}% (Rp ${refundAmount.toLocaleString()}).`
+      : 'Tidak ada refund untuk pembatalan ini.'
+  };
+};
+
+export const canReschedule = (booking: Booking, policy: CancellationPolicy, now = new Date()) =>
+  ['pending', 'confirmed'].includes(booking.status) &&
+  hoursUntilStart(booking, now) >= policy.reschedule_cutoff_hours;
@@ -0,0 +1,65 @@
+import {
+  BirthdayRewardSettings,
+  LoyaltyExpirySettings,
+  LoyaltyRedemptionSettings,
+  ReferralRewardSettings,
+  Reward,
+  RewardVoucher
+} from '../types';
+
+export const DEFAULT_LOYALTY_REDEMPTION: LoyaltyRedemptionSettings = {
+  rupiah_per_point: 100,
+  min_points: 100,
+  max_percent_per_order: 50
+};
+
+export const DEFAULT_LOYALTY_EXPIRY: LoyaltyExpirySettings = {
+  expire_after_days: 365,
+  warn_days_before: 30
+};
+
+export const DEFAULT_REFERRAL_REWARDS: ReferralRewardSettings = {
+  referrer_points: 200,
+  referee_points: 100
+};
+
+export const DEFAULT_BIRTHDAY_REWARD: BirthdayRewardSettings = {
+  type: 'points',
+  points: 250,
+  free_hours: 1
+};
+
+export const getReferralLink = (code: string) => `${window.location.origin}/register?ref=${encodeURIComponent(code)}`;
+
+/**
+ * Most points the customer can spend on an order of `orderTotal`, limited by
+ * their balance and the per-order cap. Mirrors `redeem_order_points`, which
+ * enforces the same limits at checkout.
+ */
+export const getMaxRedeemablePoints = (
+  balance: number,
+  orderTotal: number,
+  settings: LoyaltyRedemptionSettings
+) => {
+  const rate = settings.rupiah_per_point || 1;
+  const cap = Math.floor(orderTotal * settings.max_percent_per_order / 100 / rate);
+  const max = Math.max(Math.min(balance, cap), 0);
+  return max >= settings.min_points ? max : 0;
+};
+
+export const pointsToRupiah = (points: number, settings: LoyaltyRedemptionSettings) =>
+  points * settings.rupiah_per_point;
+
+export const REWARD_TYPE_LABELS: Record<Reward['reward_type'], string> = {
+  free_hours: 'Free hours',
+  snack: 'Snack pack',
+  merch: 'Merchandise',
+  event_entry: 'Event entry'
+};
+
+/**
+ * Expired vouchers keep the `active` status in the database; `use_reward_voucher`
+ * refuses them by date, so the date is checked here as well.
+ */
+export const getVoucherStatus = (voucher: RewardVoucher, now = new Date()) =>
+  voucher.status === 'active' && new Date(voucher.expires_at) < now ? 'expired' : voucher.status;
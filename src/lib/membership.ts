@@ -0,0 +1,34 @@
+import { MembershipEvaluationSettings, MembershipLevel, MembershipTier } from '../types';
+
+export const MEMBERSHIP_LEVELS: MembershipLevel[] = ['bronze', 'silver', 'gold', 'platinum'];
+
+export const DEFAULT_MEMBERSHIP_EVALUATION: MembershipEvaluationSettings = {
+  basis: 'points',
+  window_days: 365
+};
+
+export const DEFAULT_BOOKING_WINDOW_DAYS = 30;
+
+export const getTierThreshold = (tier: MembershipTier, basis: MembershipEvaluationSettings['basis']) =>
+  basis === 'hours' ? tier.min_hours : tier.min_points;
+
+// The next tier up and how much more of the basis it needs, or null at the top
+export const getNextTier = (
+  tiers: MembershipTier[],
+  level: MembershipLevel,
+  metricValue: number,
+  basis: MembershipEvaluationSettings['basis']
+) => {
+  const next = tiers
+    .filter(tier => MEMBERSHIP_LEVELS.indexOf(tier.level) > MEMBERSHIP_LEVELS.indexOf(level))
+    .sort((a, b) => MEMBERSHIP_LEVELS.indexOf(a.level) - MEMBERSHIP_LEVELS.indexOf(b.level))[0];
+
+  return next ? { tier: next, remaining: Math.max(getTierThreshold(next, basis) - metricValue, 0) } : null;
+};
+
+/**
+ * Tier discount on the slot time left after the promotion. Mirrors
+ * `apply_tier_benefits`, which applies it at checkout.
+ */
+export const getTierDiscount = (tier: MembershipTier | undefined, slotsAmount: number, promotionDiscount: number) =>
+  tier ? Math.round((slotsAmount - promotionDiscount) * tier.discount_percent / 100) : 0;
@@ -0,0 +1,77 @@
+import { BusinessHours, Console, PricingRule, SlotPrice } from '../types';
+import { timeToMinutes } from './booking';
+
+const isInBand = (time: string, rule: PricingRule) => {
+  if (!rule.start_time || !rule.end_time) return true;
+
+  const minutes = timeToMinutes(time);
+  const start = timeToMinutes(rule.start_time);
+  const end = timeToMinutes(rule.end_time);
+
+  // Bands that run past midnight, e.g. 22:00-02:00
+  return start < end ? minutes >= start && minutes < end : minutes >= start || minutes < end;
+};
+
+const matchesDay = (date: string, rule: PricingRule, config: BusinessHours) => {
+  const weekday = new Date(`${date}T00:00:00`).getDay();
+  const isWeekend = weekday === 0 || weekday === 6;
+
+  switch (rule.day_type) {
+    case 'weekday':
+      return !isWeekend;
+    case 'weekend':
+      return isWeekend;
+    case 'holiday':
+      return config.exceptions.some(e => e.date === date && e.type === 'holiday');
+    default:
+      return true;
+  }
+};
+
+/**
+ * Prices one slot: starts from the console's hourly rate and applies every
+ * matching rule in ascending priority. Mirrors `console_hourly_rate` in the
+ * database, which re-checks the amount at checkout.
+ */
+export const getSlotPrice = (
+  gameConsole: Console,
+  date: string,
+  time: string,
+  rules: PricingRule[],
+  config: BusinessHours
+): SlotPrice => {
+  const matching = rules
+    .filter(rule => rule.is_active)
+    .filter(rule => !rule.console_type || rule.console_type === gameConsole.type)
+    .filter(rule => matchesDay(date, rule, config) && isInBand(time, rule))
+    .sort((a, b) => a.priority - b.priority || a.created_at.localeCompare(b.created_at));
+
+  const rate = Math.max(Math.round(matching.reduce((current, rule) => {
+    switch (rule.adjustment_type) {
+      case 'override':
+        return rule.adjustment_value;
+      case 'percent':
+        return current * (100 + rule.adjustment_value) / 100;
+      default:
+        return current + rule.adjustment_value;
+    }
+  }, gameConsole.hourly_rate)), 0);
+
+  return {
+    start_time: time,
+    rate,
+    amount: rate * config.slot_minutes / 60,
+    rules: matching.map(rule => rule.name)
+  };
+};
+
+export const describeAdjustment = (rule: PricingRule) => {
+  switch (rule.adjustment_type) {
+    case 'override':
+      return `Rp ${rule.adjustment_value.toLocaleString()}/hour`;
+    case 'percent':
+      return `${rule.adjustment_value > 0 ? '+' : ''}${rule.adjustment_value}%`;
+    default:
+      return `${rule.adjustment_value >= 0 ? '+' : '-'}Rp ${Math.abs(rule.adjustment_value).toLocaleString()}/hour`;
+  }
+};
@@ -0,0 +1,60 @@
+import { Promotion } from '../types';
+
+export interface AppliedPromotion {
+  promotion: Promotion;
+  discount: number;
+}
+
+export const isPromotionAvailable = (promotion: Promotion, today: string) =>
+  promotion.is_active &&
+  promotion.valid_from <= today &&
+  promotion.valid_until >= today &&
+  (promotion.max_uses == null || promotion.current_uses < promotion.max_uses);
+
+/**
+ * Discount a promotion gives on the slot time of an order; extras are never
+ * discounted. Mirrors `promotion_discount` in the database, which applies
+ * the promotion at checkout.
+ */
+export const getPromotionDiscount = (promotion: Promotion, slotsAmount: number, totalHours: number) => {
+  if (totalHours < (promotion.min_booking_hours || 1) || slotsAmount <= 0) return 0;
+
+  let discount: number;
+  switch (promotion.discount_type) {
+    case 'percentage':
+      discount = slotsAmount * promotion.discount_value / 100;
+      break;
+    case 'fixed_amount':
+      discount = promotion.discount_value;
+      break;
+    default:
+      // Free hours are worth the order's average hourly price
+      discount = slotsAmount * Math.min(promotion.discount_value, totalHours) / totalHours;
+  }
+
+  return Math.min(slotsAmount, Math.round(discount));
+};
+
+// Promotions without a code; the biggest discount wins
+export const findBestAutomaticPromotion = (
+  promotions: Promotion[],
+  slotsAmount: number,
+  totalHours: number,
+  today: string
+): AppliedPromotion | null =>
+  promotions
+    .filter(promotion => !promotion.code && isPromotionAvailable(promotion, today))
+    .map(promotion => ({ promotion, discount: getPromotionDiscount(promotion, slotsAmount, totalHours) }))
+    .filter(applied => applied.discount > 0)
+    .reduce<AppliedPromotion | null>((best, applied) => (!best || applied.discount > best.discount ? applied : best), null);
+
+export const describePromotion = (promotion: Promotion) => {
+  switch (promotion.discount_type) {
+    case 'percentage':
+      return `${promotion.discount_value}%`;
+    case 'fixed_amount':
+      return `Rp ${promotion.discount_value.toLocaleString()}`;
+    default:
+      return `${promotion.discount_value} free hour${promotion.discount_value === 1 ? '' : 's'}`;
+  }
+};
@@ -1,4 +1,4 @@
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import { motion } from 'framer-motion';
 import { 
   Calendar, 
@@ -10,42 +10,162 @@ import {
   MapPin,
   Phone,
   AlertCircle,
-  Monitor
+  Monitor,
+  Tag,
+  Gift
 } from 'lucide-react';
-import { consoleService, bookingService, api } from '../services/api';
-import { ApiResponse } from '../types';
+import { useSearchParams } from 'react-router-dom';
+import {
+  bookingService,
+  bookingSeriesService,
+  businessHoursService,
+  extrasService,
+  loyaltyService,
+  membershipService,
+  pricingService,
+  promotionService,
+  settingsService,
+  stationService,
+  waitlistService
+} from '../services/api';
+import {
+  addDays,
+  buildRecurrenceDates,
+  getSessionEndTime,
+  MAX_SERIES_OCCURRENCES,
+  mergeContiguousSlots,
+  timeToMinutes
+} from '../lib/booking';
+import { DEFAULT_BUSINESS_HOURS, generateTimeSlots, getHoursForDate } from '../lib/businessHours';
+import { DEFAULT_LOYALTY_REDEMPTION, getMaxRedeemablePoints, pointsToRupiah } from '../lib/loyalty';
+import { DEFAULT_BOOKING_WINDOW_DAYS, getTierDiscount } from '../lib/membership';
+import { getSlotPrice } from '../lib/pricing';
+import { findBestAutomaticPromotion, getPromotionDiscount } from '../lib/promotions';
+import {
+  BookingOrder,
+  BusinessHours,
+  CheckoutPayload,
+  Console,
+  Extra,
+  ExtraSelection,
+  LoyaltyBalance,
+  LoyaltyRedemptionSettings,
+  MembershipStatus,
+  MembershipTier,
+  PricingRule,
+  Promotion,
+  RecurrenceFrequency,
+  RecurrenceRule,
+  SeriesConflict,
+  SeriesPayload,
+  SeriesResult,
+  SlotHold,
+  SlotPrice,
+  Station,
+  User,
+  WaitlistEntry
+} from '../types';
+
+// Identifies this browser tab's holds so guests can hold slots too
+const getHoldToken = () => {
+  let token = sessionStorage.getItem('booking_hold_token');
+  if (!token) {
+    token = crypto.randomUUID();
+    sessionStorage.setItem('booking_hold_token', token);
+  }
+  return token;
+};
+
+const AVAILABILITY_REFRESH_MS = 30000;
+
+interface SelectedSlot {
+  consoleStationId: number;
+  time: string;
+  hourlyRate: number;
+  price: SlotPrice;
+  slotKey: string;
+  gameConsole: Console;
+  station: string;
+  holdId: number;
+  expiresAt: string;
+}
 
 const Booking = () => {
   const [bookingData, setBookingData] = useState({
     date: '',
     players: '1',
-    extras: [],
+    extras: [] as ExtraSelection[],
     name: '',
     phone: '',
     email: ''
   });
   
-  const [user, setUser] = useState(null);
-  const [consoles, setConsoles] = useState([]);
+  const [user, setUser] = useState<User | null>(null);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [extras, setExtras] = useState<Extra[]>([]);
+  const [pricingRules, setPricingRules] = useState<PricingRule[]>([]);
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [promoCode, setPromoCode] = useState('');
+  const [codePromotion, setCodePromotion] = useState<Promotion | null>(null);
+  const [checkingCode, setCheckingCode] = useState(false);
+  const [loyaltySettings, setLoyaltySettings] = useState<LoyaltyRedemptionSettings>(DEFAULT_LOYALTY_REDEMPTION);
+  const [pointsBalance, setPointsBalance] = useState(0);
+  const [pointsToRedeem, setPointsToRedeem] = useState(0);
+  const [membershipTiers, setMembershipTiers] = useState<MembershipTier[]>([]);
+  const [membership, setMembership] = useState<MembershipStatus | null>(null);
+  const [bookingWindowDays, setBookingWindowDays] = useState(DEFAULT_BOOKING_WINDOW_DAYS);
   const [bookedSlots, setBookedSlots] = useState([]);
-  const [selectedSlots, setSelectedSlots] = useState([]);
+  const [heldSlots, setHeldSlots] = useState<SlotHold[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [searchParams] = useSearchParams();
+  const waitlistOfferId = searchParams.get('waitlist');
+  const [holdToken] = useState(getHoldToken);
+  const [selectedSlots, setSelectedSlots] = useState<SelectedSlot[]>([]);
   const [loading, setLoading] = useState(true);
   const [loadingAvailability, setLoadingAvailability] = useState(false);
   const [submitting, setSubmitting] = useState(false);
   const [alert, setAlert] = useState({ show: false, message: '', type: '' });
   const [minDate, setMinDate] = useState('');
+  const [recurrence, setRecurrence] = useState({
+    enabled: false,
+    frequency: 'weekly' as RecurrenceFrequency,
+    endType: 'count' as 'count' | 'until',
+    occurrences: '4',
+    untilDate: ''
+  });
+  const [seriesConflicts, setSeriesConflicts] = useState<SeriesConflict[] | null>(null);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>(DEFAULT_BUSINESS_HOURS);
 
-  const stations = ['Station 1', 'Station 2', 'Station 3'];
-  const timeSlots = ['10:00', '11:00', '12:00', '13:00', '14:00', '15:00', '16:00', '17:00', '18:00', '19:00', '20:00', '21:00', '22:00'];
+  const showAlert = useCallback((message: string, type: string) => {
+    setAlert({ show: true, message, type });
+    setTimeout(() => setAlert({ show: false, message: '', type: '' }), 5000);
+  }, []);
+
+  // Bookable stations grouped by room, in the order the admin listed them
+  const stationGroups = stations
+    .filter(station => station.is_active && station.console)
+    .reduce<Record<string, Station[]>>((groups, station) => {
+      const location = station.location || 'GameZone';
+      return { ...groups, [location]: [...(groups[location] || []), station] };
+    }, {});
+  const dayHours = bookingData.date ? getHoursForDate(bookingData.date, businessHours) : null;
+  const timeSlots = bookingData.date ? generateTimeSlots(bookingData.date, businessHours) : [];
 
   useEffect(() => {
-    fetchConsoles();
+    fetchStations();
+    fetchExtras();
+    fetchPricingRules();
+    fetchPromotions();
+    fetchBusinessHours();
+    fetchBookingWindow();
     setMinDate(new Date().toISOString().split('T')[0]);
     
     const userData = localStorage.getItem('user');
     if (userData) {
       const parsedUser = JSON.parse(userData);
       setUser(parsedUser);
+      fetchLoyalty();
+      fetchMembership();
       setBookingData(prev => ({
         ...prev,
         name: parsedUser.name || '',
@@ -54,31 +174,170 @@ const Booking = () => {
     }
   }, []);
 
+  const loadWaitlistOffer = useCallback(async (waitlistId: number) => {
+    try {
+      const response = await waitlistService.getById(waitlistId);
+      const entry = response.data as WaitlistEntry;
+      if (entry.status !== 'offered' || !entry.offer_expires_at || new Date(entry.offer_expires_at).getTime() <= Date.now()) {
+        showAlert('Penawaran waitlist ini sudah tidak berlaku', 'error');
+        return;
+      }
+
+      setBookingData(prev => ({...prev, date: entry.booking_date}));
+      const expires = new Date(entry.offer_expires_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' });
+      showAlert(`Slot ${entry.start_time.slice(0, 5)} disimpan untuk Anda sampai ${expires}. Pilih slot untuk melanjutkan booking.`, 'success');
+    } catch (error) {
+      console.error('Error loading waitlist offer:', error);
+    }
+  }, [showAlert]);
+
+  // Opened from a waitlist offer notification
+  useEffect(() => {
+    if (waitlistOfferId && localStorage.getItem('user')) {
+      loadWaitlistOffer(parseInt(waitlistOfferId));
+    }
+  }, [waitlistOfferId, loadWaitlistOffer]);
+
   useEffect(() => {
     if (bookingData.date) {
       fetchAvailability();
+      // Keep other customers' bookings and holds fresh while this page is open
+      const interval = setInterval(fetchAvailability, AVAILABILITY_REFRESH_MS);
+      return () => clearInterval(interval);
     }
   }, [bookingData.date]);
 
-  const fetchConsoles = async () => {
+  useEffect(() => {
+    return () => {
+      bookingService.releaseAllHolds(holdToken).catch(() => {});
+    };
+  }, [holdToken]);
+
+  // Conflicts were checked for a different cart or rule; check again on submit
+  useEffect(() => {
+    setSeriesConflicts(null);
+  }, [selectedSlots, recurrence]);
+
+  // Drop selections whose hold ran out before checkout
+  useEffect(() => {
+    if (selectedSlots.length === 0) return;
+
+    const interval = setInterval(() => {
+      const now = Date.now();
+      const active = selectedSlots.filter(slot => new Date(slot.expiresAt).getTime() > now);
+      if (active.length !== selectedSlots.length) {
+        setSelectedSlots(active);
+        showAlert('Waktu hold slot habis, silakan pilih ulang', 'error');
+        fetchAvailability();
+      }
+    }, 5000);
+    return () => clearInterval(interval);
+  }, [selectedSlots, showAlert]);
+
+  const fetchStations = async () => {
     try {
-      const response = await api.get('/consoles?with=stations');
-      setConsoles(response.data || []);
+      const response = await stationService.getAll({ active: true });
+      setStations(response.data || []);
     } catch (error) {
-      console.error('Error fetching consoles:', error);
+      console.error('Error fetching stations:', error);
     } finally {
       setLoading(false);
     }
   };
 
+  const fetchExtras = async () => {
+    try {
+      const response = await extrasService.getAll({ active: true });
+      setExtras(response.data || []);
+    } catch (error) {
+      console.error('Error fetching extras:', error);
+    }
+  };
+
+  const fetchPricingRules = async () => {
+    try {
+      const response = await pricingService.getRules({ active: true });
+      setPricingRules(response.data || []);
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+    }
+  };
+
+  const fetchPromotions = async () => {
+    try {
+      const response = await promotionService.getActive();
+      setPromotions(response.data || []);
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+    }
+  };
+
+  const fetchLoyalty = async () => {
+    try {
+      const [balanceResponse, settingsResponse] = await Promise.all([
+        loyaltyService.getBalance(),
+        settingsService.get('loyalty_redemption').catch(() => ({ data: null }))
+      ]);
+      setPointsBalance((balanceResponse.data as LoyaltyBalance | undefined)?.balance || 0);
+      if (settingsResponse.data) {
+        setLoyaltySettings({ ...DEFAULT_LOYALTY_REDEMPTION, ...settingsResponse.data });
+      }
+    } catch (error) {
+      console.error('Error fetching loyalty points:', error);
+    }
+  };
+
+  const fetchMembership = async () => {
+    try {
+      const [tiersResponse, statusResponse] = await Promise.all([
+        membershipService.getTiers(),
+        membershipService.getStatus()
+      ]);
+      setMembershipTiers(tiersResponse.data || []);
+      setMembership(statusResponse.data || null);
+    } catch (error) {
+      console.error('Error fetching membership:', error);
+    }
+  };
+
+  const fetchBookingWindow = async () => {
+    try {
+      const response = await settingsService.get('booking_window_days');
+      if (response.data) {
+        setBookingWindowDays(Number(response.data) || DEFAULT_BOOKING_WINDOW_DAYS);
+      }
+    } catch (error) {
+      console.error('Error fetching booking window:', error);
+    }
+  };
+
+  const fetchBusinessHours = async () => {
+    try {
+      const response = await businessHoursService.get();
+      if (response.data) {
+        setBusinessHours({ ...DEFAULT_BUSINESS_HOURS, ...(response.data as BusinessHours) });
+      }
+    } catch (error) {
+      console.error('Error fetching business hours:', error);
+    }
+  };
+
   const fetchAvailability = async () => {
     if (!bookingData.date) return;
     
     setLoadingAvailability(true);
     try {
-      const response = await bookingService.checkAvailability({ date: bookingData.date });
+      const [response, holdsResponse, waitlistResponse] = await Promise.all([
+        bookingService.checkAvailability({ date: bookingData.date }),
+        bookingService.getHolds({ date: bookingData.date }),
+        localStorage.getItem('auth_token')
+          ? waitlistService.getAll({ date: bookingData.date })
+          : Promise.resolve({ data: [] })
+      ]);
 
       setBookedSlots(response.data || []);
+      setHeldSlots(holdsResponse.data || []);
+      setWaitlist(waitlistResponse.data || []);
     } catch (error) {
       console.error('Error fetching availability:', error);
       showAlert('Gagal memuat ketersediaan waktu', 'error');
@@ -103,49 +362,219 @@ const Booking = () => {
     return isBooked;
   };
 
-  const isTimeInRange = (time, startTime, endTime) => {
-    const timeHour = parseInt(time.split(':')[0]);
-    const startHour = parseInt(startTime.split(':')[0]);
-    const endHour = parseInt(endTime.split(':')[0]);
-    return timeHour >= startHour && timeHour < endHour;
+  // A slot held by another customer who is still checking out
+  const isTimeSlotHeld = (consoleStationId: number, time: string) => {
+    if (!bookingData.date || !consoleStationId) {
+      return false;
+    }
+
+    return heldSlots.some(hold =>
+      hold.console_station_id === Number(consoleStationId) &&
+      hold.start_time.slice(0, 5) === time &&
+      hold.hold_token !== holdToken &&
+      // Slots kept for this customer by a waitlist offer are free for them
+      (!user || hold.user_id !== user.id) &&
+      new Date(hold.expires_at).getTime() > Date.now()
+    );
+  };
+
+  const getWaitlistEntry = (consoleStationId: number, time: string) => {
+    return waitlist.find(entry =>
+      entry.console_station_id === Number(consoleStationId) &&
+      entry.start_time.slice(0, 5) === time &&
+      ['waiting', 'offered'].includes(entry.status)
+    );
+  };
+
+  const handleJoinWaitlist = async (consoleStationId: number, time: string) => {
+    if (!user) {
+      showAlert('Login terlebih dahulu untuk masuk waitlist', 'error');
+      return;
+    }
+
+    try {
+      const response = await waitlistService.join({
+        console_station_id: Number(consoleStationId),
+        booking_date: bookingData.date,
+        start_time: time
+      });
+      const entry = response.data as WaitlistEntry;
+      setWaitlist(prev => [...prev, entry]);
+      showAlert(
+        `Anda masuk waitlist${entry.position ? ` di urutan #${entry.position}` : ''}. Kami akan memberi notifikasi jika slot tersedia.`,
+        'success'
+      );
+    } catch (error: any) {
+      showAlert(error.response?.data?.message || 'Gagal masuk waitlist', 'error');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    try {
+      await waitlistService.leave(entry.id);
+      setWaitlist(prev => prev.filter(item => item.id !== entry.id));
+      showAlert('Anda keluar dari waitlist', 'success');
+    } catch (error: any) {
+      showAlert(error.response?.data?.message || 'Gagal keluar dari waitlist', 'error');
+    }
+  };
+
+  const isTimeInRange = (time: string, startTime: string, endTime: string) => {
+    const minutes = timeToMinutes(time);
+    const end = timeToMinutes(endTime);
+    // Sessions ending at or after midnight report an end_time of 00:00 or later
+    return minutes >= timeToMinutes(startTime) && (end <= timeToMinutes(startTime) || minutes < end);
   };
 
-  const toggleTimeSlot = (consoleStationId, time, hourlyRate, gameConsole, station) => {
-    const slotKey = `${gameConsole.id}-${station}-${time}`; // Match the key format
-    const existingSlotIndex = selectedSlots.findIndex(slot => 
+  const toggleTimeSlot = async (consoleStationId, time, price: SlotPrice, gameConsole, station) => {
+    const slotKey = `${consoleStationId}-${time}`; // Match the key format
+    const existingSlot = selectedSlots.find(slot => 
       slot.slotKey === slotKey
     );
 
+    if (existingSlot) {
+      setSelectedSlots(selectedSlots.filter(slot => slot.slotKey !== slotKey));
+      bookingService.releaseHold(existingSlot.holdId, holdToken).catch(error => {
+        console.error('Error releasing slot hold:', error);
+      });
+      return;
+    }
 
+    try {
+      const response = await bookingService.holdSlot({
+        console_station_id: parseInt(consoleStationId),
+        booking_date: bookingData.date,
+        start_time: time,
+        hold_token: holdToken
+      });
 
-    if (existingSlotIndex !== -1) {
-      setSelectedSlots(selectedSlots.filter((_, index) => index !== existingSlotIndex));
-    } else {
-      setSelectedSlots([...selectedSlots, { consoleStationId, time, hourlyRate, slotKey, gameConsole, station }]);
+      setSelectedSlots(prev => [...prev, {
+        consoleStationId,
+        time,
+        hourlyRate: price.amount,
+        price,
+        slotKey,
+        gameConsole,
+        station,
+        holdId: (response.data as SlotHold).id,
+        expiresAt: (response.data as SlotHold).expires_at
+      }]);
+    } catch (error: any) {
+      showAlert(error.response?.data?.message || 'Slot sedang dibooking pelanggan lain', 'error');
+      fetchAvailability();
     }
   };
 
-  const extras = [
-    { id: 'headset', name: 'Gaming Headset', price: 5000 },
-    { id: 'snacks', name: 'Snack Package', price: 15000 },
-    { id: 'drinks', name: 'Drinks Package', price: 10000 },
-    { id: 'vr', name: 'VR Experience', price: 20000 }
-  ];
+  const handleDateChange = (date: string) => {
+    // Holds are per date, so a new date starts a fresh selection
+    if (selectedSlots.length > 0) {
+      bookingService.releaseAllHolds(holdToken).catch(() => {});
+      setSelectedSlots([]);
+    }
+    setBookingData({...bookingData, date});
+  };
 
-  const calculateTotal = () => {
-    const slotsPrice = selectedSlots.reduce((sum, slot) => sum + slot.hourlyRate, 0);
-    const extrasPrice = bookingData.extras.reduce((sum, extraId) => {
-      const extra = extras.find(e => e.id === extraId);
-      return sum + (extra ? extra.price : 0);
+  // Extras are charged once per order, regardless of how many slots are booked
+  const calculateExtrasTotal = () => {
+    return bookingData.extras.reduce((sum, selection) => {
+      const extra = extras.find(e => e.id === selection.extra_id);
+      return sum + (extra ? extra.price * selection.quantity : 0);
     }, 0);
-    return slotsPrice + extrasPrice;
   };
 
-  const showAlert = (message: string, type: string) => {
-    setAlert({ show: true, message, type });
-    setTimeout(() => setAlert({ show: false, message: '', type: '' }), 5000);
+  const getExtraQuantity = (extraId: number) =>
+    bookingData.extras.find(selection => selection.extra_id === extraId)?.quantity || 0;
+
+  // A quantity of 0 removes the extra from the order
+  const setExtraQuantity = (extraId: number, quantity: number) => {
+    const selected = bookingData.extras.some(selection => selection.extra_id === extraId);
+    const updated = selected
+      ? bookingData.extras.map(selection => selection.extra_id === extraId ? { ...selection, quantity } : selection)
+      : [...bookingData.extras, { extra_id: extraId, quantity }];
+    setBookingData({
+      ...bookingData,
+      extras: updated.filter(selection => selection.quantity > 0)
+    });
+  };
+
+  const calculateSlotsTotal = () => selectedSlots.reduce((sum, slot) => sum + slot.hourlyRate, 0);
+
+  // A promo code replaces the automatic promotions; only one promotion applies per order
+  const getAppliedPromotion = () => {
+    const slotsAmount = calculateSlotsTotal();
+    const totalHours = selectedSlots.length * businessHours.slot_minutes / 60;
+
+    if (codePromotion) {
+      return { promotion: codePromotion, discount: getPromotionDiscount(codePromotion, slotsAmount, totalHours) };
+    }
+    return findBestAutomaticPromotion(promotions, slotsAmount, totalHours, minDate);
   };
 
+  const appliedPromotion = getAppliedPromotion();
+  const discountAmount = appliedPromotion?.discount || 0;
+
+  const memberTier = membership ? membershipTiers.find(tier => tier.level === membership.level) : undefined;
+  const tierDiscountAmount = getTierDiscount(memberTier, calculateSlotsTotal(), discountAmount);
+  const freeExtras = (memberTier?.free_extras || [])
+    .map(selection => ({ ...selection, extra: extras.find(e => e.id === selection.extra_id) }))
+    .filter(selection => selection.extra);
+
+  // Members can book further ahead than guests
+  const maxDate = minDate ? addDays(minDate, membership?.booking_window_days ?? bookingWindowDays) : '';
+
+  // Points pay for one-off orders only; recurring schedules are paid per session
+  const maxRedeemablePoints = user && !recurrence.enabled
+    ? getMaxRedeemablePoints(
+        pointsBalance,
+        calculateSlotsTotal() + calculateExtrasTotal() - discountAmount - tierDiscountAmount,
+        loyaltySettings
+      )
+    : 0;
+  const pointsRedeemed = pointsToRedeem >= loyaltySettings.min_points ? Math.min(pointsToRedeem, maxRedeemablePoints) : 0;
+  const pointsAmount = pointsToRupiah(pointsRedeemed, loyaltySettings);
+
+  const calculateTotal = () => {
+    return calculateSlotsTotal() + calculateExtrasTotal() - discountAmount - tierDiscountAmount - pointsAmount;
+  };
+
+  const applyPromoCode = async () => {
+    if (!promoCode.trim()) return;
+
+    setCheckingCode(true);
+    try {
+      const response = await promotionService.validateCode(promoCode.trim());
+      setCodePromotion(response.data as Promotion);
+    } catch (error: any) {
+      setCodePromotion(null);
+      showAlert(error.response?.data?.message || 'Kode promo tidak valid', 'error');
+    } finally {
+      setCheckingCode(false);
+    }
+  };
+
+  const removePromoCode = () => {
+    setCodePromotion(null);
+    setPromoCode('');
+  };
+
+  const selectedSessions = mergeContiguousSlots(selectedSlots.map(slot => ({
+    consoleStationId: Number(slot.consoleStationId),
+    time: slot.time,
+    hourlyRate: slot.hourlyRate,
+    price: slot.price
+  })), businessHours.slot_minutes);
+
+  const getRecurrenceRule = (): RecurrenceRule => ({
+    frequency: recurrence.frequency,
+    ...(recurrence.endType === 'count'
+      ? { occurrences: Math.min(parseInt(recurrence.occurrences) || 1, MAX_SERIES_OCCURRENCES) }
+      : { until_date: recurrence.untilDate })
+  });
+
+  const recurrenceDates = recurrence.enabled && bookingData.date
+    ? buildRecurrenceDates(bookingData.date, getRecurrenceRule())
+    : [];
+
   const handleSubmit = async (e: React.FormEvent) => {
     e.preventDefault();
     
@@ -157,47 +586,98 @@ const Booking = () => {
     setSubmitting(true);
 
     try {
-      const totalAmount = calculateTotal();
-      
-      const extrasPrice = bookingData.extras.reduce((sum, extraId) => {
-        const extra = extras.find(e => e.id === extraId);
-        return sum + (extra ? extra.price : 0);
-      }, 0);
-
-      // Create individual booking for each selected slot (like cinema seats)
-      for (const slot of selectedSlots) {
-        // Skip if consoleStationId is not a valid number
-        if (isNaN(parseInt(slot.consoleStationId))) {
-          console.warn('Skipping slot with invalid consoleStationId:', slot);
-          continue;
-        }
-        
-        const bookingPayload = {
-          console_station_id: parseInt(slot.consoleStationId),
-          booking_date: bookingData.date,
-          start_time: slot.time,
-          duration_hours: 1, // Each slot is 1 hour
-          total_amount: slot.hourlyRate + (extrasPrice / selectedSlots.length),
-          notes: `Players: ${bookingData.players}, Extras: ${bookingData.extras.join(', ')}`,
-          ...(user ? {
-            user_id: user.id
-          } : {
-            customer_name: bookingData.name,
-            customer_phone: bookingData.phone,
-            customer_email: bookingData.email
-          })
-        };
+      const validSlots = selectedSlots.filter(slot => !isNaN(Number(slot.consoleStationId)));
+      if (validSlots.length !== selectedSlots.length) {
+        showAlert('Beberapa slot tidak valid, silakan pilih ulang', 'error');
+        return;
+      }
+
+      const slotsAmount = validSlots.reduce((sum, slot) => sum + slot.hourlyRate, 0);
+      const extrasAmount = calculateExtrasTotal();
 
-        await bookingService.create(bookingPayload);
+      if (codePromotion && discountAmount === 0) {
+        showAlert(`Kode promo berlaku untuk minimal ${codePromotion.min_booking_hours} jam bermain`, 'error');
+        return;
       }
 
-      showAlert('Booking berhasil! Kami akan menghubungi Anda segera.', 'success');
+      // One checkout for the whole cart: the backend creates every slot or none
+      const checkoutPayload: CheckoutPayload = {
+        booking_date: bookingData.date,
+        // Consecutive slots on the same station become one longer booking
+        slots: mergeContiguousSlots(validSlots.map(slot => ({
+          consoleStationId: Number(slot.consoleStationId),
+          time: slot.time,
+          hourlyRate: slot.hourlyRate,
+          price: slot.price
+        })), businessHours.slot_minutes),
+        extras: bookingData.extras,
+        players: parseInt(bookingData.players),
+        slots_amount: slotsAmount,
+        extras_amount: extrasAmount,
+        // The backend applies the promotion itself and rejects a code that ran out of uses
+        discount_amount: discountAmount,
+        tier_discount_amount: tierDiscountAmount,
+        points_redeemed: pointsRedeemed,
+        points_amount: pointsAmount,
+        total_amount: slotsAmount + extrasAmount - discountAmount - tierDiscountAmount - pointsAmount,
+        ...(codePromotion ? { promo_code: promoCode.trim() } : {}),
+        notes: `Players: ${bookingData.players}`,
+        hold_token: holdToken,
+        ...(user ? {
+          user_id: user.id
+        } : {
+          customer_name: bookingData.name,
+          customer_phone: bookingData.phone,
+          customer_email: bookingData.email
+        })
+      };
+
+      if (recurrence.enabled) {
+        const seriesPayload: SeriesPayload = {
+          ...checkoutPayload,
+          recurrence: getRecurrenceRule(),
+          // Conflicts already shown to the customer are skipped on the second submit
+          skip_conflicts: seriesConflicts !== null
+        };
+
+        if (seriesConflicts === null) {
+          const preview = await bookingSeriesService.preview(seriesPayload);
+          const conflicts: SeriesConflict[] = preview.data?.conflicts || [];
+          if (conflicts.length > 0) {
+            setSeriesConflicts(conflicts);
+            showAlert(`${conflicts.length} jadwal bentrok dengan booking lain. Tekan Book Now lagi untuk melewati tanggal tersebut.`, 'error');
+            return;
+          }
+        }
+
+        const response = await bookingSeriesService.create(seriesPayload);
+        const result = response.data as SeriesResult | undefined;
+        showAlert(
+          `Booking rutin berhasil! ${result?.created.length ?? 0} jadwal dibuat` +
+            (result?.conflicts.length ? `, ${result.conflicts.length} dilewati karena bentrok.` : '.'),
+          'success'
+        );
+      } else {
+        const response = await bookingService.checkout(checkoutPayload);
+        const reference = (response.data as BookingOrder | undefined)?.reference;
+
+        showAlert(
+          reference
+            ? `Booking berhasil! Kode pesanan: ${reference}. Kami akan menghubungi Anda segera.`
+            : 'Booking berhasil! Kami akan menghubungi Anda segera.',
+          'success'
+        );
+      }
       
       // Refresh availability
       await fetchAvailability();
       
       // Reset form
       setSelectedSlots([]);
+      removePromoCode();
+      fetchPromotions();
+      setPointsToRedeem(0);
+      if (user) fetchLoyalty();
       setBookingData({
         date: '',
         players: '1',
@@ -209,6 +689,8 @@ const Booking = () => {
       
     } catch (error: any) {
       showAlert(error.response?.data?.message || 'Terjadi kesalahan saat booking', 'error');
+      // Nothing was booked; refresh so the conflicting slot shows as taken
+      await fetchAvailability();
     } finally {
       setSubmitting(false);
     }
@@ -270,7 +752,8 @@ const Booking = () => {
                   type="date"
                   value={bookingData.date}
                   min={minDate}
-                  onChange={(e) => setBookingData({...bookingData, date: e.target.value})}
+                  max={maxDate}
+                  onChange={(e) => handleDateChange(e.target.value)}
                   className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
                   required
                 />
@@ -287,15 +770,26 @@ const Booking = () => {
                     )}
                   </h3>
                   
-                  {stations.map(station => (
-                    <div key={station} className="space-y-4">
-                      <h4 className="font-bold text-lg text-neon-purple">{station}</h4>
+                  {dayHours?.isClosed && (
+                    <div className="p-4 rounded-lg border bg-red-900/20 border-red-500/50 text-red-400 flex items-center">
+                      <AlertCircle className="w-5 h-5 mr-2" />
+                      Kami tutup pada tanggal ini{dayHours.note ? ` (${dayHours.note})` : ''}. Silakan pilih tanggal lain.
+                    </div>
+                  )}
+
+                  {!dayHours?.isClosed && !loading && Object.keys(stationGroups).length === 0 && (
+                    <p className="text-gray-400">Belum ada station yang bisa dibooking.</p>
+                  )}
+
+                  {!dayHours?.isClosed && Object.entries(stationGroups).map(([location, groupStations]) => (
+                    <div key={location} className="space-y-4">
+                      <h4 className="font-bold text-lg text-neon-purple">{location}</h4>
                       
                       <div className="overflow-x-auto">
                         <table className="w-full border border-gray-600 rounded-lg overflow-hidden">
                           <thead>
                             <tr className="bg-dark-card">
-                              <th className="px-4 py-3 text-left text-white font-medium border-r border-gray-600">Console</th>
+                              <th className="px-4 py-3 text-left text-white font-medium border-r border-gray-600">Station</th>
                               {timeSlots.map(time => (
                                 <th key={time} className="px-2 py-3 text-center text-white font-medium border-r border-gray-600 min-w-[80px]">
                                   {time}
@@ -304,35 +798,65 @@ const Booking = () => {
                             </tr>
                           </thead>
                           <tbody>
-                            {consoles.filter(gameConsole => gameConsole.stations && gameConsole.stations.some(s => s.name === station)).map(gameConsole => {
-                              const consoleStation = gameConsole.stations.find(s => s.name === station);
-                              const consoleStationId = consoleStation?.pivot?.id;
+                            {groupStations.map(station => {
+                              const gameConsole = station.console as Console;
+                              const consoleStationId = station.id;
                               
                               return (
-                              <tr key={`${gameConsole.id}-${station}`} className="border-t border-gray-600">
+                              <tr key={station.id} className="border-t border-gray-600">
                                 <td className="px-4 py-3 border-r border-gray-600">
-                                  <div className="text-white font-medium">{gameConsole.name}</div>
-                                  <div className="text-sm text-gray-400">{gameConsole.type?.toUpperCase()}</div>
+                                  <div className="text-white font-medium">{station.name}</div>
+                                  <div className="text-sm text-gray-400">
+                                    {gameConsole.name} · {gameConsole.type?.toUpperCase()} · {station.seats} kursi
+                                  </div>
                                   <div className="text-xs text-neon-blue">Rp {gameConsole.hourly_rate?.toLocaleString()}/jam</div>
                                 </td>
                                 {timeSlots.map(time => {
                                   const isBooked = isTimeSlotBooked(consoleStationId, time);
+                                  const isHeld = !isBooked && isTimeSlotHeld(consoleStationId, time);
+                                  const waitlistEntry = isBooked ? getWaitlistEntry(consoleStationId, time) : undefined;
                                   const isUnavailable = gameConsole.status !== 'available';
-                                  const slotKey = `${gameConsole.id}-${station}-${time}`;
+                                  const slotKey = `${consoleStationId}-${time}`;
                                   const isSelected = selectedSlots.some(slot => 
                                     slot.slotKey === slotKey
                                   );
+                                  const slotPrice = getSlotPrice(gameConsole, bookingData.date, time, pricingRules, businessHours);
                                   
                                   return (
                                     <td key={time} className="px-2 py-3 text-center border-r border-gray-600">
-                                      {isBooked ? (
-                                        <div className="relative w-full h-8 rounded text-xs font-medium bg-gradient-to-r from-red-600/80 to-red-800/80 border border-red-500/50 flex items-center justify-center overflow-hidden">
+                                      {isBooked && waitlistEntry ? (
+                                        <button
+                                          type="button"
+                                          onClick={() => handleLeaveWaitlist(waitlistEntry)}
+                                          title="Klik untuk keluar dari waitlist"
+                                          className="relative w-full h-8 rounded text-xs font-medium bg-gradient-to-r from-neon-purple/60 to-purple-800/80 border border-neon-purple/50 flex items-center justify-center overflow-hidden"
+                                        >
+                                          <span className="relative z-10 text-purple-100 font-bold text-[9px]">
+                                            {waitlistEntry.status === 'offered' ? 'OFFERED' : `WAITLIST${waitlistEntry.position ? ` #${waitlistEntry.position}` : ''}`}
+                                          </span>
+                                        </button>
+                                      ) : isBooked ? (
+                                        <button
+                                          type="button"
+                                          onClick={() => handleJoinWaitlist(consoleStationId, time)}
+                                          title="Slot penuh - klik untuk masuk waitlist"
+                                          className="group relative w-full h-8 rounded text-xs font-medium bg-gradient-to-r from-red-600/80 to-red-800/80 border border-red-500/50 flex items-center justify-center overflow-hidden"
+                                        >
                                           <div className="absolute inset-0 bg-red-500/10 animate-pulse"></div>
                                           <div className="relative z-10 flex items-center space-x-1">
                                             <svg className="w-3 h-3 text-red-300" fill="currentColor" viewBox="0 0 20 20">
                                               <path fillRule="evenodd" d="M5 9V7a5 5 0 0110 0v2a2 2 0 012 2v5a2 2 0 01-2 2H5a2 2 0 01-2-2v-5a2 2 0 012-2zm8-2v2H7V7a3 3 0 016 0z" clipRule="evenodd" />
                                             </svg>
-                                            <span className="text-red-200 font-bold text-[10px]">BOOKED</span>
+                                            <span className="text-red-200 font-bold text-[10px] group-hover:hidden">BOOKED</span>
+                                            <span className="text-red-100 font-bold text-[9px] hidden group-hover:inline">WAITLIST</span>
+                                          </div>
+                                        </button>
+                                      ) : isHeld ? (
+                                        <div className="relative w-full h-8 rounded text-xs font-medium bg-gradient-to-r from-amber-600/80 to-amber-800/80 border border-amber-500/50 flex items-center justify-center overflow-hidden">
+                                          <div className="absolute inset-0 bg-amber-500/10 animate-pulse"></div>
+                                          <div className="relative z-10 flex items-center space-x-1">
+                                            <Clock className="w-3 h-3 text-amber-300" />
+                                            <span className="text-amber-200 font-bold text-[9px]">BEING BOOKED</span>
                                           </div>
                                         </div>
                                       ) : isUnavailable ? (
@@ -365,7 +889,8 @@ const Booking = () => {
                                         <button
                                           type="button"
                                           disabled={loadingAvailability || !consoleStationId}
-                                          onClick={() => consoleStationId && toggleTimeSlot(consoleStationId, time, gameConsole.hourly_rate, gameConsole, station)}
+                                          onClick={() => consoleStationId && toggleTimeSlot(consoleStationId, time, slotPrice, gameConsole, station.name)}
+                                          title={`Rp ${slotPrice.rate.toLocaleString()}/jam${slotPrice.rules.length ? ` (${slotPrice.rules.join(', ')})` : ''}`}
                                           className={`group relative w-full h-8 rounded-lg text-xs font-medium transition-all duration-300 transform hover:scale-105 disabled:opacity-50 disabled:cursor-not-allowed disabled:hover:scale-100 ${
                                             !consoleStationId
                                               ? 'bg-gray-800 text-gray-500 cursor-not-allowed'
@@ -383,9 +908,15 @@ const Booking = () => {
                                                 <path fillRule="evenodd" d="M16.707 5.293a1 1 0 010 1.414l-8 8a1 1 0 01-1.414 0l-4-4a1 1 0 011.414-1.414L8 12.586l7.293-7.293a1 1 0 011.414 0z" clipRule="evenodd" />
                                               </svg>
                                             ) : (
-                                              <svg className="w-3 h-3 transition-transform duration-200 group-hover:rotate-90" fill="currentColor" viewBox="0 0 20 20">
-                                                <path fillRule="evenodd" d="M10 3a1 1 0 011 1v5h5a1 1 0 110 2h-5v5a1 1 0 11-2 0v-5H4a1 1 0 110-2h5V4a1 1 0 011-1z" clipRule="evenodd" />
-                                              </svg>
+                                              <span className={`font-bold text-[10px] ${
+                                                slotPrice.rate < gameConsole.hourly_rate
+                                                  ? 'text-neon-green'
+                                                  : slotPrice.rate > gameConsole.hourly_rate
+                                                  ? 'text-amber-300'
+                                                  : ''
+                                              }`}>
+                                                {Math.round(slotPrice.rate / 1000)}k
+                                              </span>
                                             )}
                                           </span>
                                         </button>
@@ -421,6 +952,75 @@ const Booking = () => {
                 </select>
               </div>
 
+              {/* Recurrence - series are managed from the dashboard, so members only */}
+              {user && (
+                <div className="space-y-4">
+                  <label className="flex items-center space-x-3 cursor-pointer">
+                    <input
+                      type="checkbox"
+                      checked={recurrence.enabled}
+                      onChange={(e) => setRecurrence({...recurrence, enabled: e.target.checked})}
+                      className="w-4 h-4 text-neon-blue bg-dark-bg border-gray-600 rounded focus:ring-neon-blue focus:ring-2"
+                    />
+                    <span className="text-sm font-medium text-gray-300">Ulangi booking ini secara rutin</span>
+                  </label>
+
+                  {recurrence.enabled && (
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Frekuensi</label>
+                        <select
+                          value={recurrence.frequency}
+                          onChange={(e) => setRecurrence({...recurrence, frequency: e.target.value as RecurrenceFrequency})}
+                          className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                        >
+                          <option value="weekly">Setiap minggu</option>
+                          <option value="biweekly">Setiap 2 minggu</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Berakhir</label>
+                        <select
+                          value={recurrence.endType}
+                          onChange={(e) => setRecurrence({...recurrence, endType: e.target.value as 'count' | 'until'})}
+                          className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                        >
+                          <option value="count">Setelah N kali</option>
+                          <option value="until">Sampai tanggal</option>
+                        </select>
+                      </div>
+
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {recurrence.endType === 'count' ? 'Jumlah Sesi' : 'Tanggal Akhir'}
+                        </label>
+                        {recurrence.endType === 'count' ? (
+                          <input
+                            type="number"
+                            min="2"
+                            max={MAX_SERIES_OCCURRENCES}
+                            value={recurrence.occurrences}
+                            onChange={(e) => setRecurrence({...recurrence, occurrences: e.target.value})}
+                            className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                            required
+                          />
+                        ) : (
+                          <input
+                            type="date"
+                            min={bookingData.date || minDate}
+                            value={recurrence.untilDate}
+                            onChange={(e) => setRecurrence({...recurrence, untilDate: e.target.value})}
+                            className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                            required
+                          />
+                        )}
+                      </div>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Extras */}
               <div className="space-y-6">
                 <h3 className="font-gaming text-xl font-bold text-neon-green flex items-center">
@@ -429,40 +1029,130 @@ const Booking = () => {
                 </h3>
                 
                 <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                  {extras.map(extra => (
-                    <label
-                      key={extra.id}
-                      className="flex items-center space-x-3 p-4 border border-gray-600 rounded-lg hover:border-neon-green/50 cursor-pointer transition-all duration-300"
-                    >
-                      <input
-                        type="checkbox"
-                        checked={bookingData.extras.includes(extra.id)}
-                        onChange={(e) => {
-                          if (e.target.checked) {
-                            setBookingData({
-                              ...bookingData,
-                              extras: [...bookingData.extras, extra.id]
-                            });
-                          } else {
-                            setBookingData({
-                              ...bookingData,
-                              extras: bookingData.extras.filter(id => id !== extra.id)
-                            });
-                          }
-                        }}
-                        className="w-4 h-4 text-neon-green bg-dark-bg border-gray-600 rounded focus:ring-neon-green focus:ring-2"
-                      />
-                      <div className="flex-1">
-                        <div className="font-medium text-white">{extra.name}</div>
-                        <div className="text-sm text-neon-green font-bold">
-                          +Rp {extra.price.toLocaleString()}
+                  {extras.map(extra => {
+                    const quantity = getExtraQuantity(extra.id);
+                    return (
+                      <div
+                        key={extra.id}
+                        className={`flex items-center space-x-3 p-4 border rounded-lg transition-all duration-300 ${
+                          quantity > 0 ? 'border-neon-green/50' : 'border-gray-600 hover:border-neon-green/50'
+                        }`}
+                      >
+                        <div className="flex-1">
+                          <div className="font-medium text-white">{extra.name}</div>
+                          {extra.description && <div className="text-xs text-gray-400">{extra.description}</div>}
+                          <div className="text-sm text-neon-green font-bold">
+                            +Rp {extra.price.toLocaleString()}
+                          </div>
+                        </div>
+                        <div className="flex items-center space-x-2">
+                          <button
+                            type="button"
+                            onClick={() => setExtraQuantity(extra.id, quantity - 1)}
+                            disabled={quantity === 0}
+                            className="w-8 h-8 rounded-lg bg-dark-bg border border-gray-600 text-white disabled:opacity-50"
+                          >
+                            -
+                          </button>
+                          <span className="w-6 text-center text-white font-medium">{quantity}</span>
+                          <button
+                            type="button"
+                            onClick={() => setExtraQuantity(extra.id, quantity + 1)}
+                            className="w-8 h-8 rounded-lg bg-dark-bg border border-neon-green/50 text-neon-green"
+                          >
+                            +
+                          </button>
                         </div>
                       </div>
-                    </label>
-                  ))}
+                    );
+                  })}
                 </div>
               </div>
 
+              {/* Promo Code */}
+              <div className="space-y-4">
+                <h3 className="font-gaming text-xl font-bold text-neon-purple flex items-center">
+                  <Tag className="w-6 h-6 mr-2" />
+                  Kode Promo
+                </h3>
+
+                {codePromotion ? (
+                  <div className="flex items-center justify-between p-4 border border-neon-purple/50 rounded-lg">
+                    <div>
+                      <div className="font-medium text-white">{codePromotion.title}</div>
+                      <div className="text-sm text-gray-400">Kode {codePromotion.code} dipakai</div>
+                    </div>
+                    <button
+                      type="button"
+                      onClick={removePromoCode}
+                      className="text-sm text-red-400 hover:text-red-300"
+                    >
+                      Hapus
+                    </button>
+                  </div>
+                ) : (
+                  <div className="flex space-x-3">
+                    <input
+                      type="text"
+                      value={promoCode}
+                      onChange={(e) => setPromoCode(e.target.value.toUpperCase())}
+                      placeholder="Masukkan kode promo"
+                      className="flex-1 px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                    />
+                    <button
+                      type="button"
+                      onClick={applyPromoCode}
+                      disabled={checkingCode || !promoCode.trim()}
+                      className="px-6 py-3 border border-neon-purple/50 text-neon-purple rounded-lg hover:bg-neon-purple/10 transition-all duration-300 disabled:opacity-50"
+                    >
+                      {checkingCode ? 'Memeriksa...' : 'Pakai'}
+                    </button>
+                  </div>
+                )}
+              </div>
+
+              {/* Loyalty Points */}
+              {user && pointsBalance > 0 && (
+                <div className="space-y-4">
+                  <h3 className="font-gaming text-xl font-bold text-neon-green flex items-center">
+                    <Gift className="w-6 h-6 mr-2" />
+                    Tukar Poin Loyalty
+                  </h3>
+
+                  <p className="text-sm text-gray-400">
+                    Saldo {pointsBalance.toLocaleString()} poin · 1 poin = Rp {loyaltySettings.rupiah_per_point.toLocaleString()} ·
+                    {' '}maks. {loyaltySettings.max_percent_per_order}% dari total pesanan
+                  </p>
+
+                  {recurrence.enabled ? (
+                    <p className="text-sm text-gray-500">Poin hanya bisa dipakai untuk booking sekali, bukan booking rutin.</p>
+                  ) : maxRedeemablePoints === 0 ? (
+                    <p className="text-sm text-gray-500">
+                      Minimal {loyaltySettings.min_points} poin bisa ditukar. Tambah sesi untuk memakai poin.
+                    </p>
+                  ) : (
+                    <div className="flex items-center space-x-3">
+                      <input
+                        type="number"
+                        min="0"
+                        max={maxRedeemablePoints}
+                        value={pointsToRedeem || ''}
+                        onChange={(e) => setPointsToRedeem(Math.max(0, parseInt(e.target.value) || 0))}
+                        placeholder={`${loyaltySettings.min_points} - ${maxRedeemablePoints}`}
+                        className="flex-1 px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                      />
+                      <button
+                        type="button"
+                        onClick={() => setPointsToRedeem(maxRedeemablePoints)}
+                        className="px-6 py-3 border border-neon-green/50 text-neon-green rounded-lg hover:bg-neon-green/10 transition-all duration-300"
+                      >
+                        Pakai {maxRedeemablePoints.toLocaleString()} poin
+                      </button>
+                    </div>
+                  )}
+                </div>
+              )}
+
               {/* Customer Info - Only show if not logged in */}
               {!user && (
                 <div className="space-y-6">
@@ -537,7 +1227,7 @@ const Booking = () => {
                 ) : (
                   <>
                     <CreditCard className="w-5 h-5" />
-                    <span>Book Now - Rp {calculateTotal().toLocaleString()}</span>
+                    <span>Book Now - Rp {calculateTotal().toLocaleString()}{recurrenceDates.length > 1 ? ' / jadwal' : ''}</span>
                   </>
                 )}
               </button>
@@ -571,37 +1261,89 @@ const Booking = () => {
 
                 {selectedSlots.length > 0 && (
                   <div>
-                    <span className="text-gray-400 block mb-2">Selected Slots ({selectedSlots.length}):</span>
-                    {selectedSlots.map((slot, index) => {
-                      const gameConsole = consoles.find(c => 
-                        c.stations && c.stations.some(s => s.pivot?.id === slot.consoleStationId)
-                      );
-                      const station = gameConsole?.stations?.find(s => s.pivot?.id === slot.consoleStationId);
+                    <span className="text-gray-400 block mb-2">Sessions ({selectedSessions.length}):</span>
+                    {selectedSessions.map((session) => {
+                      const station = stations.find(s => s.id === session.console_station_id);
+                      const gameConsole = station?.console;
                       return (
-                        <div key={slot.slotKey || index} className="flex justify-between items-center ml-4 text-sm mb-1">
-                          <span className="text-gray-300">{gameConsole?.name} ({station?.name}) - {slot.time}</span>
-                          <span className="text-neon-blue">Rp {slot.hourlyRate.toLocaleString()}</span>
+                        <div key={`${session.console_station_id}-${session.start_time}`} className="flex justify-between items-center ml-4 text-sm mb-1">
+                          <span className="text-gray-300">
+                            {gameConsole?.name} ({station?.name}) - {session.start_time}-{getSessionEndTime(session)} ({session.duration_hours} jam)
+                          </span>
+                          <span className="text-neon-blue">Rp {session.amount.toLocaleString()}</span>
                         </div>
                       );
                     })}
                   </div>
                 )}
                 
+                {recurrenceDates.length > 1 && (
+                  <div>
+                    <span className="text-gray-400 block mb-2">
+                      Jadwal Rutin ({recurrenceDates.length}x {recurrence.frequency === 'weekly' ? 'mingguan' : '2 mingguan'}):
+                    </span>
+                    {recurrenceDates.map(date => {
+                      const conflicts = seriesConflicts?.filter(conflict => conflict.booking_date === date) || [];
+                      return (
+                        <div key={date} className="flex justify-between items-center ml-4 text-sm mb-1">
+                          <span className={conflicts.length > 0 ? 'text-red-400 line-through' : 'text-gray-300'}>{date}</span>
+                          {conflicts.length > 0 && (
+                            <span className="text-red-400 text-xs">Bentrok {conflicts.map(c => c.start_time.slice(0, 5)).join(', ')}</span>
+                          )}
+                        </div>
+                      );
+                    })}
+                  </div>
+                )}
+
                 {bookingData.extras.length > 0 && (
                   <div>
                     <span className="text-gray-400 block mb-2">Extras:</span>
-                    {bookingData.extras.map(extraId => {
-                      const extra = extras.find(e => e.id === extraId);
+                    {bookingData.extras.map(selection => {
+                      const extra = extras.find(e => e.id === selection.extra_id);
                       return extra ? (
-                        <div key={extraId} className="flex justify-between items-center ml-4">
-                          <span className="text-sm text-gray-300">{extra.name}</span>
-                          <span className="text-sm text-neon-green">+Rp {extra.price.toLocaleString()}</span>
+                        <div key={selection.extra_id} className="flex justify-between items-center ml-4">
+                          <span className="text-sm text-gray-300">{selection.quantity}x {extra.name}</span>
+                          <span className="text-sm text-neon-green">+Rp {(extra.price * selection.quantity).toLocaleString()}</span>
                         </div>
                       ) : null;
                     })}
                   </div>
                 )}
                 
+                {appliedPromotion && appliedPromotion.discount > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-400">Diskon ({appliedPromotion.promotion.title}):</span>
+                    <span className="text-neon-green font-medium">-Rp {appliedPromotion.discount.toLocaleString()}</span>
+                  </div>
+                )}
+
+                {tierDiscountAmount > 0 && memberTier && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-400">Diskon Member {memberTier.name} ({memberTier.discount_percent}%):</span>
+                    <span className="text-neon-green font-medium">-Rp {tierDiscountAmount.toLocaleString()}</span>
+                  </div>
+                )}
+
+                {selectedSlots.length > 0 && freeExtras.length > 0 && (
+                  <div>
+                    <span className="text-gray-400 block mb-2">Gratis untuk Member {memberTier?.name}:</span>
+                    {freeExtras.map(selection => (
+                      <div key={selection.extra_id} className="flex justify-between items-center ml-4">
+                        <span className="text-sm text-gray-300">{selection.quantity}x {selection.extra?.name}</span>
+                        <span className="text-sm text-neon-green">Gratis</span>
+                      </div>
+                    ))}
+                  </div>
+                )}
+
+                {pointsRedeemed > 0 && (
+                  <div className="flex justify-between items-center">
+                    <span className="text-gray-400">Poin ({pointsRedeemed.toLocaleString()}):</span>
+                    <span className="text-neon-green font-medium">-Rp {pointsAmount.toLocaleString()}</span>
+                  </div>
+                )}
+
                 <div className="border-t border-gray-600 pt-4">
                   <div className="flex justify-between items-center text-lg font-bold">
                     <span className="text-white">Total:</span>
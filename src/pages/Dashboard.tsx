@@ -12,15 +12,94 @@ import {
   Settings,
   BarChart3,
   GamepadIcon,
-  Loader
+  Loader,
+  Share2,
+  Copy
 } from 'lucide-react';
-import { api } from '../services/api';
+import { Link } from 'react-router-dom';
+import {
+  achievementService,
+  api,
+  authService,
+  bookingService,
+  bookingSeriesService,
+  businessHoursService,
+  leaderboardService,
+  loyaltyService,
+  membershipService,
+  referralService,
+  rewardService,
+  settingsService,
+  stationService,
+  waitlistService
+} from '../services/api';
+import { formatTime } from '../lib/booking';
+import { DEFAULT_BUSINESS_HOURS, getFreeStartTimes } from '../lib/businessHours';
+import { canReschedule, DEFAULT_CANCELLATION_POLICY, quoteCancellation } from '../lib/cancellationPolicy';
+import { getReferralLink, getVoucherStatus, REWARD_TYPE_LABELS } from '../lib/loyalty';
+import { getNextTier } from '../lib/membership';
+import {
+  AchievementProgress,
+  Booking,
+  BookingSeries,
+  BusinessHours,
+  CancellationPolicy,
+  LoyaltyBalance,
+  LoyaltySource,
+  LoyaltyTransaction,
+  MembershipStatus,
+  MembershipTier,
+  ReferralStats,
+  RescheduleResult,
+  Reward,
+  RewardVoucher,
+  SeasonAward,
+  Station,
+  WaitlistEntry
+} from '../types';
+
+const LOYALTY_SOURCES: Record<LoyaltySource, string> = {
+  booking: 'Booking',
+  referral: 'Referral',
+  event: 'Event',
+  birthday: 'Birthday',
+  redemption: 'Checkout',
+  expiry: 'Expiry',
+  achievement: 'Achievement',
+  season: 'Season'
+};
 
 const Dashboard = () => {
   const [activeTab, setActiveTab] = useState('overview');
   const [loading, setLoading] = useState(true);
-  const [bookings, setBookings] = useState([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
   const [consoles, setConsoles] = useState([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [series, setSeries] = useState<BookingSeries[]>([]);
+  const [waitlist, setWaitlist] = useState<WaitlistEntry[]>([]);
+  const [loyaltyHistory, setLoyaltyHistory] = useState<LoyaltyTransaction[]>([]);
+  const [loyaltyBalance, setLoyaltyBalance] = useState<LoyaltyBalance | null>(null);
+  const [membership, setMembership] = useState<MembershipStatus | null>(null);
+  const [membershipTiers, setMembershipTiers] = useState<MembershipTier[]>([]);
+  const [referralStats, setReferralStats] = useState<ReferralStats | null>(null);
+  const [achievements, setAchievements] = useState<AchievementProgress[]>([]);
+  const [seasonAwards, setSeasonAwards] = useState<SeasonAward[]>([]);
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [vouchers, setVouchers] = useState<RewardVoucher[]>([]);
+  const [redeemingReward, setRedeemingReward] = useState<number | null>(null);
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>(DEFAULT_BUSINESS_HOURS);
+  const [rescheduling, setRescheduling] = useState<{
+    booking: Booking;
+    booking_date: string;
+    start_time: string;
+  } | null>(null);
+  const [rescheduleTimes, setRescheduleTimes] = useState<string[]>([]);
+  const [editingSeries, setEditingSeries] = useState<{
+    seriesId: number;
+    start_time: string;
+    duration_hours: number;
+  } | null>(null);
   const [userStats, setUserStats] = useState({
     name: 'Guest User',
     email: 'guest@example.com',
@@ -31,6 +110,8 @@ const Dashboard = () => {
     membershipLevel: 'Bronze'
   });
   const [user, setUser] = useState(null);
+  const [dateOfBirth, setDateOfBirth] = useState('');
+  const [savingProfile, setSavingProfile] = useState(false);
 
   useEffect(() => {
     fetchDashboardData();
@@ -45,6 +126,7 @@ const Dashboard = () => {
       if (userData) {
         const parsedUser = JSON.parse(userData);
         setUser(parsedUser);
+        setDateOfBirth(parsedUser.date_of_birth || '');
         setUserStats(prev => ({
           ...prev,
           name: parsedUser.name || 'User',
@@ -52,9 +134,40 @@ const Dashboard = () => {
         }));
       }
       
-      const [bookingsRes, consolesRes] = await Promise.all([
+      const [
+        bookingsRes,
+        consolesRes,
+        seriesRes,
+        waitlistRes,
+        policyRes,
+        balanceRes,
+        historyRes,
+        membershipRes,
+        tiersRes,
+        referralRes,
+        achievementsRes,
+        seasonAwardsRes,
+        rewardsRes,
+        vouchersRes,
+        businessHoursRes,
+        stationsRes
+      ] = await Promise.all([
         api.get('/bookings'),
-        api.get('/consoles')
+        api.get('/consoles'),
+        userData ? bookingSeriesService.getAll().catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        userData ? waitlistService.getAll({ status: 'waiting,offered' }).catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        settingsService.get('cancellation_policy').catch(() => ({ data: null })),
+        userData ? loyaltyService.getBalance().catch(() => ({ data: null })) : Promise.resolve({ data: null }),
+        userData ? loyaltyService.getHistory({ limit: 50 }).catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        userData ? membershipService.getStatus().catch(() => ({ data: null })) : Promise.resolve({ data: null }),
+        membershipService.getTiers().catch(() => ({ data: [] })),
+        userData ? referralService.getMine().catch(() => ({ data: null })) : Promise.resolve({ data: null }),
+        userData ? achievementService.getMine().catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        userData ? leaderboardService.getMyAwards().catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        rewardService.getCatalog().catch(() => ({ data: [] })),
+        userData ? rewardService.getMyVouchers().catch(() => ({ data: [] })) : Promise.resolve({ data: [] }),
+        businessHoursService.get().catch(() => ({ data: null })),
+        stationService.getAll().catch(() => ({ data: [] }))
       ]);
       
       console.log('Bookings API response:', bookingsRes);
@@ -71,7 +184,7 @@ const Dashboard = () => {
         console.log('Current user:', parsedUser);
         console.log('All bookings:', bookingsData);
         
-        userBookings = bookingsData.filter(booking => {
+        userBookings = bookingsData.filter((booking: Booking) => {
           console.log('Checking booking:', booking.id, 'user_id:', booking.user_id, 'parsed user id:', parsedUser.id);
           // Check both user_id and customer info for backwards compatibility
           // Convert both to string for comparison to handle type differences
@@ -82,16 +195,34 @@ const Dashboard = () => {
       
       setBookings(userBookings);
       setConsoles(consolesData);
+      setStations(stationsRes.data || []);
+      setSeries(seriesRes.data || []);
+      setWaitlist(waitlistRes.data || []);
+      setLoyaltyHistory(historyRes.data || []);
+      setLoyaltyBalance(balanceRes.data);
+      setMembership(membershipRes.data);
+      setMembershipTiers(tiersRes.data || []);
+      setReferralStats(referralRes.data);
+      setAchievements(achievementsRes.data || []);
+      setSeasonAwards(seasonAwardsRes.data || []);
+      setRewards(rewardsRes.data || []);
+      setVouchers(vouchersRes.data || []);
+      if (businessHoursRes.data) {
+        setBusinessHours({ ...DEFAULT_BUSINESS_HOURS, ...(businessHoursRes.data as BusinessHours) });
+      }
+      if (policyRes.data) {
+        setCancellationPolicy({ ...DEFAULT_CANCELLATION_POLICY, ...policyRes.data });
+      }
       
       // Calculate user stats from bookings
       const totalBookings = userBookings.length;
-      const totalHours = userBookings.reduce((sum, booking) => sum + (parseInt(booking.duration_hours) || 0), 0);
-      const loyaltyPoints = totalHours * 10; // 10 points per hour
+      const totalHours = userBookings.reduce((sum: number, booking: Booking) => sum + (Number(booking.duration_hours) || 0), 0);
+      const loyaltyBalance = balanceRes.data as LoyaltyBalance | null;
+      const loyaltyPoints = loyaltyBalance?.balance || 0;
       
-      let membershipLevel = 'Bronze';
-      if (loyaltyPoints >= 5000) membershipLevel = 'Platinum';
-      else if (loyaltyPoints >= 2000) membershipLevel = 'Gold';
-      else if (loyaltyPoints >= 500) membershipLevel = 'Silver';
+      const membershipStatus = membershipRes.data as MembershipStatus | null;
+      const currentTier = (tiersRes.data as MembershipTier[] | undefined)?.find(tier => tier.level === membershipStatus?.level);
+      const membershipLevel = currentTier?.name || 'Bronze';
       
       setUserStats(prev => ({
         ...prev,
@@ -109,31 +240,211 @@ const Dashboard = () => {
     }
   };
 
-  const getConsoleName = (consoleId) => {
-    const console = consoles.find(c => c.id === consoleId);
-    return console ? console.name : 'Unknown Console';
+  const getStationName = (booking: Booking) => {
+    const station = booking.station || stations.find(s => s.id === booking.console_station_id);
+    const gameConsole = booking.console || consoles.find(c => c.id === booking.console_id);
+    if (!station) return gameConsole ? gameConsole.name : 'Unknown Station';
+    return gameConsole ? `${station.name} (${gameConsole.name})` : station.name;
   };
 
   const formatDate = (dateString) => {
     return new Date(dateString).toLocaleDateString('id-ID');
   };
 
+  const formatSeriesRule = (item: BookingSeries) => {
+    const day = new Date(`${item.starts_on}T00:00:00`).toLocaleDateString('id-ID', { weekday: 'long' });
+    const every = item.frequency === 'weekly' ? 'Setiap' : 'Setiap 2 minggu,';
+    return `${every} ${day} ${formatTime(item.start_time)} (${item.duration_hours} jam)`;
+  };
+
+  const isUpcoming = (booking: Booking) =>
+    ['pending', 'confirmed'].includes(booking.status) && new Date(booking.booking_date) >= new Date(new Date().toDateString());
+
+  const handleCancelSeries = async (item: BookingSeries) => {
+    if (!window.confirm('Batalkan semua jadwal berikutnya dalam seri ini? Pengembalian dana mengikuti kebijakan pembatalan.')) return;
+    try {
+      await bookingSeriesService.cancel(item.id);
+      fetchDashboardData();
+    } catch (error) {
+      console.error('Error cancelling series:', error);
+      alert('Gagal membatalkan seri booking.');
+    }
+  };
+
+  const handleCancelBooking = async (booking: Booking) => {
+    const quote = quoteCancellation(booking, cancellationPolicy);
+    if (!quote.allowed) {
+      alert(quote.message);
+      return;
+    }
+    if (!window.confirm(`Batalkan booking tanggal ${formatDate(booking.booking_date)}? ${quote.message}`)) return;
+
+    try {
+      await bookingService.cancel(booking.id);
+      fetchDashboardData();
+    } catch (error: any) {
+      console.error('Error cancelling booking:', error);
+      alert(error.response?.data?.message || 'Gagal membatalkan booking.');
+    }
+  };
+
+  // Only offer start times where the whole session fits on the same station
+  const loadRescheduleTimes = async (booking: Booking, date: string) => {
+    try {
+      const [bookingsRes, holdsRes] = await Promise.all([
+        bookingService.checkAvailability({ date }),
+        bookingService.getHolds({ date })
+      ]);
+      const times = getFreeStartTimes(
+        date,
+        Number(booking.duration_hours),
+        booking.console_station_id,
+        businessHours,
+        bookingsRes.data || [],
+        holdsRes.data || [],
+        booking.id
+      );
+      setRescheduleTimes(times);
+      setRescheduling(prev => prev && prev.booking.id === booking.id && prev.booking_date === date
+        ? { ...prev, start_time: times.includes(prev.start_time) ? prev.start_time : times[0] || '' }
+        : prev);
+    } catch (error) {
+      console.error('Error loading free slots:', error);
+      setRescheduleTimes([]);
+    }
+  };
+
+  const startReschedule = (booking: Booking, date: string, startTime = '') => {
+    setRescheduling({ booking, booking_date: date, start_time: startTime });
+    setRescheduleTimes([]);
+    loadRescheduleTimes(booking, date);
+  };
+
+  const handleReschedule = async () => {
+    if (!rescheduling || !rescheduling.start_time) return;
+    const { booking, booking_date, start_time } = rescheduling;
+    try {
+      const response = await bookingService.reschedule(booking.id, { booking_date, start_time });
+      const result = response.data as RescheduleResult | undefined;
+      const difference = result?.price_difference || 0;
+      setRescheduling(null);
+      alert(
+        difference > 0
+          ? `Jadwal berhasil diubah. Tambahan biaya Rp ${difference.toLocaleString()}.`
+          : difference < 0
+          ? `Jadwal berhasil diubah. Selisih Rp ${Math.abs(difference).toLocaleString()} akan dikembalikan.`
+          : 'Jadwal berhasil diubah.'
+      );
+      fetchDashboardData();
+    } catch (error: any) {
+      console.error('Error rescheduling booking:', error);
+      alert(error.response?.data?.message || 'Slot baru tidak tersedia.');
+    }
+  };
+
+  const handleLeaveWaitlist = async (entry: WaitlistEntry) => {
+    try {
+      await waitlistService.leave(entry.id);
+      setWaitlist(prev => prev.filter(item => item.id !== entry.id));
+    } catch (error) {
+      console.error('Error leaving waitlist:', error);
+      alert('Gagal keluar dari waitlist.');
+    }
+  };
+
+  const handleRedeemReward = async (reward: Reward) => {
+    if (!window.confirm(`Tukar ${reward.points_cost} poin dengan ${reward.name}?`)) return;
+    try {
+      setRedeemingReward(reward.id);
+      const response = await rewardService.redeem(reward.id);
+      const voucher = response.data as RewardVoucher | undefined;
+      alert(voucher
+        ? `Berhasil! Tunjukkan kode ${voucher.code} ke kasir.`
+        : 'Berhasil! Voucher Anda ada di daftar voucher.');
+      fetchDashboardData();
+    } catch (error: any) {
+      console.error('Error redeeming reward:', error);
+      alert(error.response?.data?.message || 'Gagal menukar poin.');
+    } finally {
+      setRedeemingReward(null);
+    }
+  };
+
+  const handleSaveProfile = async () => {
+    try {
+      setSavingProfile(true);
+      await authService.updateProfile({ date_of_birth: dateOfBirth || null });
+      const userData = localStorage.getItem('user');
+      if (userData) {
+        localStorage.setItem('user', JSON.stringify({ ...JSON.parse(userData), date_of_birth: dateOfBirth || null }));
+      }
+      alert('Profil berhasil disimpan.');
+    } catch (error: any) {
+      console.error('Error updating profile:', error);
+      alert(error.response?.data?.message || 'Gagal menyimpan profil.');
+    } finally {
+      setSavingProfile(false);
+    }
+  };
+
+  const handleSaveSeriesEdit = async () => {
+    if (!editingSeries) return;
+    const { seriesId, start_time, duration_hours } = editingSeries;
+    try {
+      await bookingSeriesService.update(seriesId, { start_time, duration_hours });
+      setEditingSeries(null);
+      fetchDashboardData();
+    } catch (error: any) {
+      console.error('Error updating series:', error);
+      alert(error.response?.data?.message || 'Jadwal baru bentrok dengan booking lain.');
+    }
+  };
+
+  const renderSeriesEditor = () => editingSeries && (
+    <div className="mt-3 flex flex-wrap items-end gap-3">
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Jam Mulai</label>
+        <input
+          type="time"
+          step={businessHours.slot_minutes * 60}
+          value={editingSeries.start_time}
+          onChange={(e) => setEditingSeries({...editingSeries, start_time: e.target.value})}
+          className="px-3 py-2 bg-dark-bg border border-gray-700 rounded-lg text-white text-sm"
+        />
+      </div>
+      <div>
+        <label className="block text-xs text-gray-400 mb-1">Durasi (jam)</label>
+        <input
+          type="number"
+          min={businessHours.slot_minutes / 60}
+          step={businessHours.slot_minutes / 60}
+          value={editingSeries.duration_hours}
+          onChange={(e) => setEditingSeries({...editingSeries, duration_hours: Number(e.target.value) || 1})}
+          className="w-24 px-3 py-2 bg-dark-bg border border-gray-700 rounded-lg text-white text-sm"
+        />
+      </div>
+      <button
+        onClick={handleSaveSeriesEdit}
+        className="px-3 py-2 bg-neon-blue/20 text-neon-blue rounded-lg text-sm hover:bg-neon-blue/30"
+      >
+        Simpan
+      </button>
+      <button
+        onClick={() => setEditingSeries(null)}
+        className="px-3 py-2 bg-gray-700 text-gray-300 rounded-lg text-sm hover:bg-gray-600"
+      >
+        Batal
+      </button>
+    </div>
+  );
+
   const recentBookings = bookings.slice(0, 3);
 
-  const loyaltyRewards = [
-    { name: 'Free 1 Hour Gaming', points: 500, available: true },
-    { name: 'Snack Package', points: 300, available: true },
-    { name: 'Gaming Headset Rental', points: 200, available: true },
-    { name: 'VIP Room Access', points: 1000, available: false }
-  ];
-
-  const achievements = [
-    { name: 'First Timer', description: 'Complete your first gaming session', earned: userStats.totalBookings > 0 },
-    { name: 'Night Owl', description: 'Game after 10 PM', earned: userStats.totalBookings > 5 },
-    { name: 'Marathon Gamer', description: 'Play for 6+ hours in one session', earned: userStats.totalHours > 50 },
-    { name: 'Social Gamer', description: 'Play with 3+ friends', earned: false },
-    { name: 'Loyalty Master', description: 'Reach 5000 loyalty points', earned: userStats.loyaltyPoints >= 5000 }
-  ];
+  const memberTier = membershipTiers.find(tier => tier.level === membership?.level);
+  const nextTier = membership
+    ? getNextTier(membershipTiers, membership.level, membership.metric_value, membership.evaluation.basis)
+    : null;
+  const basisUnit = membership?.evaluation.basis === 'hours' ? 'hours' : 'points';
 
   return (
     <div className="pt-20 min-h-screen">
@@ -176,6 +487,7 @@ const Dashboard = () => {
                   { id: 'overview', label: 'Overview', icon: BarChart3 },
                   { id: 'bookings', label: 'My Bookings', icon: Calendar },
                   { id: 'loyalty', label: 'Loyalty Points', icon: Gift },
+                  { id: 'referrals', label: 'Refer Friends', icon: Share2 },
                   { id: 'achievements', label: 'Achievements', icon: Trophy },
                   { id: 'settings', label: 'Settings', icon: Settings }
                 ].map((item) => {
@@ -263,10 +575,10 @@ const Dashboard = () => {
                                   <GamepadIcon className="w-6 h-6 text-neon-purple" />
                                   <div>
                                     <p className="text-white font-medium">
-                                      {getConsoleName(booking.console_id)} Gaming - {booking.duration_hours}h
+                                      {getStationName(booking)} - {booking.duration_hours}h
                                     </p>
                                     <p className="text-sm text-gray-400">
-                                      {formatDate(booking.booking_date)} at {booking.start_time}
+                                      {formatDate(booking.booking_date)} at {formatTime(booking.start_time)}
                                     </p>
                                   </div>
                                 </div>
@@ -300,6 +612,84 @@ const Dashboard = () => {
                   {/* Bookings Tab */}
                   {activeTab === 'bookings' && (
                     <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6">
+                      {series.filter(item => item.status === 'active').length > 0 && (
+                        <div className="mb-6">
+                          <h3 className="font-gaming text-xl font-bold text-neon-purple mb-4">Booking Rutin</h3>
+                          <div className="space-y-3">
+                            {series.filter(item => item.status === 'active').map((item) => {
+                              const upcoming = bookings.filter(booking => booking.series_id === item.id && isUpcoming(booking));
+                              const isEditing = editingSeries?.seriesId === item.id;
+                              return (
+                                <div key={item.id} className="p-4 bg-dark-bg rounded-lg border border-neon-purple/30">
+                                  <div className="flex justify-between items-start">
+                                    <div>
+                                      <h4 className="text-white font-medium">{formatSeriesRule(item)}</h4>
+                                      <p className="text-sm text-gray-400">
+                                        {upcoming.length} jadwal mendatang
+                                        {item.until_date ? ` sampai ${formatDate(item.until_date)}` : ''}
+                                      </p>
+                                    </div>
+                                    <div className="flex space-x-2">
+                                      <button
+                                        onClick={() => setEditingSeries({ seriesId: item.id, start_time: formatTime(item.start_time), duration_hours: item.duration_hours })}
+                                        className="px-3 py-1 text-xs rounded-lg bg-neon-blue/20 text-neon-blue hover:bg-neon-blue/30"
+                                      >
+                                        Ubah Seri
+                                      </button>
+                                      <button
+                                        onClick={() => handleCancelSeries(item)}
+                                        className="px-3 py-1 text-xs rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30"
+                                      >
+                                        Batalkan Seri
+                                      </button>
+                                    </div>
+                                  </div>
+                                  {isEditing && renderSeriesEditor()}
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </div>
+                      )}
+
+                      {waitlist.length > 0 && (
+                        <div className="mb-6">
+                          <h3 className="font-gaming text-xl font-bold text-neon-purple mb-4">Waitlist</h3>
+                          <div className="space-y-3">
+                            {waitlist.map((entry) => (
+                              <div key={entry.id} className="flex justify-between items-center p-4 bg-dark-bg rounded-lg border border-neon-purple/30">
+                                <div>
+                                  <h4 className="text-white font-medium">
+                                    {entry.console_name || 'Console'}{entry.station_name ? ` (${entry.station_name})` : ''} - {formatDate(entry.booking_date)} {formatTime(entry.start_time)}
+                                  </h4>
+                                  <p className="text-sm text-gray-400">
+                                    {entry.status === 'offered' && entry.offer_expires_at
+                                      ? `Slot tersedia untuk Anda sampai ${new Date(entry.offer_expires_at).toLocaleTimeString('id-ID', { hour: '2-digit', minute: '2-digit' })}`
+                                      : `Menunggu${entry.position ? ` - urutan #${entry.position}` : ''}`}
+                                  </p>
+                                </div>
+                                <div className="flex space-x-2">
+                                  {entry.status === 'offered' && (
+                                    <Link
+                                      to={`/booking?waitlist=${entry.id}`}
+                                      className="px-3 py-1 text-xs rounded-lg bg-neon-green/20 text-neon-green hover:bg-neon-green/30"
+                                    >
+                                      Ambil Slot
+                                    </Link>
+                                  )}
+                                  <button
+                                    onClick={() => handleLeaveWaitlist(entry)}
+                                    className="px-3 py-1 text-xs rounded-lg bg-red-600/20 text-red-400 hover:bg-red-600/30"
+                                  >
+                                    Keluar
+                                  </button>
+                                </div>
+                              </div>
+                            ))}
+                          </div>
+                        </div>
+                      )}
+
                       <h3 className="font-gaming text-xl font-bold text-neon-blue mb-4">All My Bookings</h3>
                       {bookings.length > 0 ? (
                         <div className="space-y-4">
@@ -308,14 +698,79 @@ const Dashboard = () => {
                               <div className="flex justify-between items-start mb-2">
                                 <div>
                                   <h4 className="text-white font-medium">
-                                    {getConsoleName(booking.console_id)} - {booking.duration_hours} Hours
+                                    {getStationName(booking)} - {booking.duration_hours} Hours
                                   </h4>
                                   <p className="text-sm text-gray-400">
-                                    {formatDate(booking.booking_date)} | {booking.start_time} - {booking.end_time}
+                                    {formatDate(booking.booking_date)} | {formatTime(booking.start_time)} - {formatTime(booking.end_time)}
                                   </p>
                                   {booking.notes && (
                                     <p className="text-sm text-gray-500 mt-1">{booking.notes}</p>
                                   )}
+                                  {/* Occurrences of a series follow the same policy as one-off bookings */}
+                                  {(booking.series_id || isUpcoming(booking)) && (
+                                    <div className="flex items-center space-x-3 mt-2">
+                                      {booking.series_id && (
+                                        <span className="text-xs px-2 py-1 rounded-full bg-neon-purple/20 text-neon-purple">Rutin</span>
+                                      )}
+                                      {isUpcoming(booking) && canReschedule(booking, cancellationPolicy) && (
+                                        <button
+                                          onClick={() => startReschedule(booking, booking.booking_date.slice(0, 10), formatTime(booking.start_time))}
+                                          className="text-xs text-neon-blue hover:underline"
+                                        >
+                                          Reschedule
+                                        </button>
+                                      )}
+                                      {isUpcoming(booking) && (
+                                        <button
+                                          onClick={() => handleCancelBooking(booking)}
+                                          className="text-xs text-red-400 hover:underline"
+                                        >
+                                          Batalkan
+                                        </button>
+                                      )}
+                                    </div>
+                                  )}
+                                  {rescheduling?.booking.id === booking.id && (
+                                    <div className="mt-3 flex flex-wrap items-end gap-3">
+                                      <div>
+                                        <label className="block text-xs text-gray-400 mb-1">Tanggal Baru</label>
+                                        <input
+                                          type="date"
+                                          min={new Date().toISOString().split('T')[0]}
+                                          value={rescheduling.booking_date}
+                                          onChange={(e) => startReschedule(booking, e.target.value)}
+                                          className="px-3 py-2 bg-dark-bg border border-gray-700 rounded-lg text-white text-sm"
+                                        />
+                                      </div>
+                                      <div>
+                                        <label className="block text-xs text-gray-400 mb-1">Jam Mulai</label>
+                                        <select
+                                          value={rescheduling.start_time}
+                                          onChange={(e) => setRescheduling({...rescheduling, start_time: e.target.value})}
+                                          disabled={rescheduleTimes.length === 0}
+                                          className="px-3 py-2 bg-dark-bg border border-gray-700 rounded-lg text-white text-sm"
+                                        >
+                                          {rescheduleTimes.length === 0 && <option value="">Tidak ada slot kosong</option>}
+                                          {rescheduleTimes.map(time => (
+                                            <option key={time} value={time}>{time}</option>
+                                          ))}
+                                        </select>
+                                      </div>
+                                      <button
+                                        onClick={handleReschedule}
+                                        disabled={!rescheduling.start_time}
+                                        className="px-3 py-2 bg-neon-blue/20 text-neon-blue rounded-lg text-sm hover:bg-neon-blue/30 disabled:opacity-50"
+                                      >
+                                        Simpan
+                                      </button>
+                                      <button
+                                        onClick={() => setRescheduling(null)}
+                                        className="px-3 py-2 bg-gray-700 text-gray-300 rounded-lg text-sm hover:bg-gray-600"
+                                      >
+                                        Batal
+                                      </button>
+                                    </div>
+                                  )}
                                 </div>
                                 <div className="text-right">
                                   <p className="text-neon-green font-bold">
@@ -327,6 +782,8 @@ const Dashboard = () => {
                                         ? 'bg-green-900 text-green-300'
                                         : booking.status === 'confirmed'
                                         ? 'bg-blue-900 text-blue-300' 
+                                        : booking.status === 'cancelled'
+                                        ? 'bg-red-900 text-red-300'
                                         : 'bg-yellow-900 text-yellow-300'
                                     }`}>
                                       {booking.status}
@@ -334,6 +791,8 @@ const Dashboard = () => {
                                     <span className={`text-xs px-2 py-1 rounded-full ${
                                       booking.payment_status === 'paid' 
                                         ? 'bg-green-900 text-green-300'
+                                        : booking.payment_status === 'refunded'
+                                        ? 'bg-purple-900 text-purple-300'
                                         : 'bg-red-900 text-red-300'
                                     }`}>
                                       {booking.payment_status}
@@ -360,64 +819,283 @@ const Dashboard = () => {
                       <div className="text-center mb-6">
                         <div className="text-4xl font-bold text-neon-green mb-2">{userStats.loyaltyPoints}</div>
                         <p className="text-gray-400">Available Points</p>
+                        {loyaltyBalance?.expiring_points && loyaltyBalance.next_expiry ? (
+                          <p className="text-sm text-amber-400 mt-2">
+                            {loyaltyBalance.expiring_points} points expire from {formatDate(loyaltyBalance.next_expiry)}
+                          </p>
+                        ) : null}
                         <p className="text-sm text-neon-purple mt-2">{userStats.membershipLevel} Member</p>
                       </div>
+
+                      {membership && memberTier && (
+                        <div className="mb-6 p-4 rounded-lg border border-neon-purple/30 bg-neon-purple/5">
+                          <div className="flex justify-between items-center mb-2">
+                            <h4 className="text-white font-medium">{memberTier.name} Benefits</h4>
+                            <span className="text-xs text-gray-400">
+                              {membership.metric_value} {basisUnit} in the last {membership.evaluation.window_days} days
+                            </span>
+                          </div>
+                          <ul className="text-sm text-gray-300 space-y-1">
+                            <li>{memberTier.discount_percent}% off gaming sessions</li>
+                            <li>Book up to {membership.booking_window_days} days ahead</li>
+                            {memberTier.free_extras.length > 0 && <li>Free extras with every booking</li>}
+                          </ul>
+                          {nextTier && (
+                            <p className="text-sm text-neon-blue mt-3">
+                              {nextTier.remaining} more {basisUnit} to reach {nextTier.tier.name}
+                            </p>
+                          )}
+                          {membership.history.length > 0 && (
+                            <div className="mt-3 pt-3 border-t border-gray-700 space-y-1">
+                              {membership.history.slice(0, 5).map(change => (
+                                <p key={change.id} className="text-xs text-gray-400">
+                                  {formatDate(change.created_at)}: {change.direction === 'promotion' ? 'Promoted' : 'Moved down'} to
+                                  {' '}{membershipTiers.find(tier => tier.level === change.to_level)?.name || change.to_level}
+                                </p>
+                              ))}
+                            </div>
+                          )}
+                        </div>
+                      )}
+                      <h4 className="text-white font-medium mb-3">Rewards Catalog</h4>
                       <div className="space-y-3">
-                        {loyaltyRewards.map((reward, index) => (
-                          <div key={index} className={`p-4 rounded-lg border ${
-                            reward.available 
-                              ? 'border-neon-green/30 bg-neon-green/5' 
-                              : 'border-gray-700 bg-gray-800/50'
-                          }`}>
-                            <div className="flex justify-between items-center">
+                        {rewards.map(reward => {
+                          const outOfStock = reward.stock != null && reward.stock <= 0;
+                          const available = !!user && !outOfStock && userStats.loyaltyPoints >= reward.points_cost;
+                          return (
+                            <div key={reward.id} className={`p-4 rounded-lg border ${
+                              available
+                                ? 'border-neon-green/30 bg-neon-green/5' 
+                                : 'border-gray-700 bg-gray-800/50'
+                            }`}>
+                              <div className="flex justify-between items-center">
+                                <div>
+                                  <h4 className="text-white font-medium">{reward.name}</h4>
+                                  <p className="text-sm text-gray-400">
+                                    {reward.points_cost} points · {REWARD_TYPE_LABELS[reward.reward_type]}
+                                    {reward.event && ` · ${reward.event.title}`}
+                                    {reward.stock != null && ` · ${reward.stock} left`}
+                                  </p>
+                                </div>
+                                <button 
+                                  onClick={() => handleRedeemReward(reward)}
+                                  disabled={!available || redeemingReward === reward.id}
+                                  className={`px-4 py-2 rounded-lg text-sm font-medium ${
+                                    available
+                                      ? 'bg-neon-green text-black hover:bg-neon-green/80'
+                                      : 'bg-gray-700 text-gray-400 cursor-not-allowed'
+                                  }`}
+                                >
+                                  {outOfStock ? 'Out of Stock' : available ? 'Redeem' : 'Not Available'}
+                                </button>
+                              </div>
+                            </div>
+                          );
+                        })}
+                      </div>
+
+                      {vouchers.length > 0 && (
+                        <>
+                          <h4 className="text-white font-medium mt-8 mb-3">My Vouchers</h4>
+                          <div className="divide-y divide-gray-700">
+                            {vouchers.map(voucher => {
+                              const status = getVoucherStatus(voucher);
+                              return (
+                                <div key={voucher.id} className="flex justify-between items-center py-3">
+                                  <div>
+                                    <p className="text-white text-sm">{voucher.reward?.name || 'Reward'}</p>
+                                    <p className="text-xs text-gray-400">
+                                      {status === 'used' && voucher.used_at
+                                        ? `Used ${formatDate(voucher.used_at)}`
+                                        : `Valid until ${formatDate(voucher.expires_at)}`}
+                                    </p>
+                                  </div>
+                                  <div className="text-right">
+                                    <p className={`font-mono font-bold ${status === 'active' ? 'text-neon-green' : 'text-gray-500 line-through'}`}>
+                                      {voucher.code}
+                                    </p>
+                                    <span className="text-xs text-gray-400">{status}</span>
+                                  </div>
+                                </div>
+                              );
+                            })}
+                          </div>
+                        </>
+                      )}
+
+                      <h4 className="text-white font-medium mt-8 mb-3">Points History</h4>
+                      {loyaltyHistory.length > 0 ? (
+                        <div className="divide-y divide-gray-700">
+                          {loyaltyHistory.map(entry => (
+                            <div key={entry.id} className="flex justify-between items-center py-3">
                               <div>
-                                <h4 className="text-white font-medium">{reward.name}</h4>
-                                <p className="text-sm text-gray-400">{reward.points} points required</p>
+                                <p className="text-white text-sm">{entry.description || LOYALTY_SOURCES[entry.source]}</p>
+                                <p className="text-xs text-gray-400">
+                                  {LOYALTY_SOURCES[entry.source]} · {formatDate(entry.created_at)}
+                                  {entry.type === 'earned' && entry.expires_at && ` · expires ${formatDate(entry.expires_at)}`}
+                                </p>
                               </div>
-                              <button 
-                                disabled={!reward.available || userStats.loyaltyPoints < reward.points}
-                                className={`px-4 py-2 rounded-lg text-sm font-medium ${
-                                  reward.available && userStats.loyaltyPoints >= reward.points
-                                    ? 'bg-neon-green text-black hover:bg-neon-green/80'
-                                    : 'bg-gray-700 text-gray-400 cursor-not-allowed'
-                                }`}
+                              <span className={`font-bold ${entry.type === 'earned' ? 'text-neon-green' : entry.type === 'expired' ? 'text-gray-500' : 'text-neon-pink'}`}>
+                                {entry.type === 'earned' ? '+' : '-'}{entry.points}
+                                {entry.type === 'expired' && <span className="text-xs font-normal ml-1">expired</span>}
+                              </span>
+                            </div>
+                          ))}
+                        </div>
+                      ) : (
+                        <p className="text-gray-400 text-sm">No points yet. Complete a gaming session to start earning.</p>
+                      )}
+                    </div>
+                  )}
+
+                  {/* Referrals Tab */}
+                  {activeTab === 'referrals' && (
+                    <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-6">
+                      <h3 className="font-gaming text-xl font-bold text-neon-blue">Refer Friends</h3>
+                      {referralStats ? (
+                        <>
+                          <div className="p-4 rounded-lg border border-neon-green/30 bg-neon-green/5">
+                            <p className="text-sm text-gray-400 mb-2">
+                              Share your code. You both earn points when your friend completes their first paid booking.
+                            </p>
+                            <div className="flex items-center space-x-3">
+                              <span className="text-2xl font-bold font-mono text-neon-green">{referralStats.referral_code}</span>
+                              <button
+                                onClick={() => {
+                                  navigator.clipboard.writeText(getReferralLink(referralStats.referral_code));
+                                  alert('Link referral disalin.');
+                                }}
+                                className="flex items-center space-x-1 px-3 py-2 bg-neon-green/20 text-neon-green rounded-lg text-sm hover:bg-neon-green/30"
                               >
-                                {userStats.loyaltyPoints >= reward.points ? 'Redeem' : 'Not Available'}
+                                <Copy className="w-4 h-4" />
+                                <span>Copy link</span>
                               </button>
                             </div>
                           </div>
-                        ))}
-                      </div>
+
+                          <div className="grid grid-cols-2 md:grid-cols-4 gap-4">
+                            {[
+                              { label: 'Invited', value: referralStats.invited },
+                              { label: 'Waiting', value: referralStats.pending },
+                              { label: 'Rewarded', value: referralStats.rewarded },
+                              { label: 'Points Earned', value: referralStats.points_earned }
+                            ].map(stat => (
+                              <div key={stat.label} className="bg-dark-bg rounded-lg p-4 text-center">
+                                <div className="text-2xl font-bold text-white">{stat.value}</div>
+                                <p className="text-xs text-gray-400">{stat.label}</p>
+                              </div>
+                            ))}
+                          </div>
+
+                          {referralStats.referrals.length > 0 ? (
+                            <div className="divide-y divide-gray-700">
+                              {referralStats.referrals.map(referral => (
+                                <div key={referral.id} className="flex justify-between items-center py-3">
+                                  <div>
+                                    <p className="text-white text-sm">{referral.referee_name}</p>
+                                    <p className="text-xs text-gray-400">Joined {formatDate(referral.created_at)}</p>
+                                  </div>
+                                  <span className={`px-2 py-1 rounded text-xs ${
+                                    referral.status === 'rewarded'
+                                      ? 'bg-green-600/20 text-green-400'
+                                      : referral.status === 'rejected'
+                                      ? 'bg-red-600/20 text-red-400'
+                                      : 'bg-yellow-600/20 text-yellow-400'
+                                  }`}>
+                                    {referral.status === 'rewarded'
+                                      ? 'Rewarded'
+                                      : referral.status === 'rejected'
+                                      ? 'Not eligible'
+                                      : 'Waiting for first booking'}
+                                  </span>
+                                </div>
+                              ))}
+                            </div>
+                          ) : (
+                            <p className="text-gray-400 text-sm">No friends have joined with your code yet.</p>
+                          )}
+                        </>
+                      ) : (
+                        <p className="text-gray-400">Log in to get your referral code.</p>
+                      )}
                     </div>
                   )}
 
                   {/* Achievements Tab */}
                   {activeTab === 'achievements' && (
                     <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6">
+                      {seasonAwards.length > 0 && (
+                        <div className="mb-6">
+                          <h3 className="font-gaming text-xl font-bold text-neon-gold mb-4">Season Badges</h3>
+                          <div className="flex flex-wrap gap-3">
+                            {seasonAwards.map(award => (
+                              <Link
+                                key={award.id}
+                                to={`/leaderboard?season=${award.season.id}`}
+                                className="flex items-center space-x-3 px-4 py-3 rounded-lg border border-neon-gold/30 bg-neon-gold/5 hover:bg-neon-gold/10 transition-colors"
+                              >
+                                <span className="text-2xl">{award.badge_icon || '🏅'}</span>
+                                <div>
+                                  <p className="font-medium text-neon-gold">
+                                    {award.badge_name || `#${award.final_rank} Finish`}
+                                  </p>
+                                  <p className="text-xs text-gray-400">
+                                    {award.season.name} · #{award.final_rank}
+                                    {award.promotion && ` · Voucher ${award.promotion.code}`}
+                                  </p>
+                                </div>
+                              </Link>
+                            ))}
+                          </div>
+                        </div>
+                      )}
                       <h3 className="font-gaming text-xl font-bold text-neon-blue mb-4">Achievements</h3>
-                      <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
-                        {achievements.map((achievement, index) => (
-                          <div key={index} className={`p-4 rounded-lg border ${
-                            achievement.earned 
-                              ? 'border-neon-gold/30 bg-neon-gold/5' 
-                              : 'border-gray-700 bg-gray-800/50'
-                          }`}>
-                            <div className="flex items-center space-x-3">
-                              <Trophy className={`w-8 h-8 ${
-                                achievement.earned ? 'text-neon-gold' : 'text-gray-600'
-                              }`} />
-                              <div>
-                                <h4 className={`font-medium ${
-                                  achievement.earned ? 'text-neon-gold' : 'text-gray-400'
-                                }`}>
-                                  {achievement.name}
-                                </h4>
-                                <p className="text-sm text-gray-500">{achievement.description}</p>
+                      {achievements.length === 0 ? (
+                        <p className="text-gray-400">Log in and play to start unlocking achievements.</p>
+                      ) : (
+                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                          {achievements.map(({ achievement, progress, target, earned_at, points_awarded }) => (
+                            <div key={achievement.id} className={`p-4 rounded-lg border ${
+                              earned_at
+                                ? 'border-neon-gold/30 bg-neon-gold/5' 
+                                : 'border-gray-700 bg-gray-800/50'
+                            }`}>
+                              <div className="flex items-center space-x-3">
+                                <Trophy className={`w-8 h-8 ${
+                                  earned_at ? 'text-neon-gold' : 'text-gray-600'
+                                }`} />
+                                <div className="flex-1">
+                                  <h4 className={`font-medium ${
+                                    earned_at ? 'text-neon-gold' : 'text-gray-400'
+                                  }`}>
+                                    {achievement.name}
+                                  </h4>
+                                  <p className="text-sm text-gray-500">{achievement.description}</p>
+                                </div>
+                                {achievement.reward_points > 0 && (
+                                  <span className="text-xs text-neon-green">+{points_awarded || achievement.reward_points} pts</span>
+                                )}
                               </div>
+                              {earned_at ? (
+                                <p className="text-xs text-gray-500 mt-3">Unlocked on {formatDate(earned_at)}</p>
+                              ) : (
+                                <div className="mt-3">
+                                  <div className="flex justify-between text-xs text-gray-500 mb-1">
+                                    <span>Progress</span>
+                                    <span>{progress} / {target}</span>
+                                  </div>
+                                  <div className="w-full h-2 bg-gray-700 rounded-full">
+                                    <div
+                                      className="h-2 bg-neon-blue rounded-full"
+                                      style={{ width: `${Math.min(100, (progress / target) * 100)}%` }}
+                                    />
+                                  </div>
+                                </div>
+                              )}
                             </div>
-                          </div>
-                        ))}
-                      </div>
+                          ))}
+                        </div>
+                      )}
                     </div>
                   )}
 
@@ -447,6 +1125,29 @@ const Dashboard = () => {
                                 readOnly
                               />
                             </div>
+                            <div>
+                              <label className="block text-sm text-gray-400 mb-1">Date of Birth</label>
+                              <input
+                                type="date"
+                                value={dateOfBirth}
+                                max={new Date().toISOString().split('T')[0]}
+                                onChange={(e) => setDateOfBirth(e.target.value)}
+                                className="w-full px-3 py-2 bg-dark-bg border border-gray-700 rounded-lg text-white"
+                                disabled={!user}
+                              />
+                              <p className="text-xs text-gray-500 mt-1">
+                                Get a birthday reward every year during your birthday month.
+                              </p>
+                            </div>
+                            {user && (
+                              <button
+                                onClick={handleSaveProfile}
+                                disabled={savingProfile}
+                                className="px-3 py-2 bg-neon-blue/20 text-neon-blue rounded-lg text-sm hover:bg-neon-blue/30 disabled:opacity-50"
+                              >
+                                {savingProfile ? 'Saving...' : 'Save Profile'}
+                              </button>
+                            )}
                           </div>
                         </div>
                         <div>
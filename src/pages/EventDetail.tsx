@@ -11,10 +11,25 @@ import {
   ArrowLeft,
   Share2,
   Heart,
+  UserPlus,
+  X,
 } from "lucide-react";
-import { eventService } from "../services/api";
-import { Event, ApiResponse } from "../types";
+import { eventService, teamService, tournamentService } from "../services/api";
+import {
+  Event,
+  ApiResponse,
+  LeagueStanding,
+  MatchReport,
+  MatchReportStatus,
+  Team,
+  TeamInvite,
+  TournamentMatch,
+  User,
+} from "../types";
 import Toast from "../components/Toast";
+import TournamentBracket from "../components/TournamentBracket";
+import LeagueStandings from "../components/LeagueStandings";
+import { getRoundName, isLeagueFormat } from "../lib/brackets";
 import ConfirmModal from "../components/ConfirmModal";
 
 const EventDetail = () => {
@@ -22,7 +37,22 @@ const EventDetail = () => {
   const [event, setEvent] = useState<Event | null>(null);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
-  const [user, setUser] = useState(null);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [standings, setStandings] = useState<LeagueStanding[]>([]);
+  const [myReports, setMyReports] = useState<MatchReport[]>([]);
+  const [reportingMatch, setReportingMatch] = useState<TournamentMatch | null>(
+    null
+  );
+  const [reportForm, setReportForm] = useState({
+    winner_id: "",
+    score1: "",
+    score2: "",
+  });
+  const [user, setUser] = useState<User | null>(null);
+  const [team, setTeam] = useState<Team | null>(null);
+  const [teamInvites, setTeamInvites] = useState<TeamInvite[]>([]);
+  const [teamName, setTeamName] = useState("");
+  const [inviteIdentifier, setInviteIdentifier] = useState("");
   const [toast, setToast] = useState({
     message: "",
     type: "success" as "success" | "error" | "warning",
@@ -44,6 +74,50 @@ const EventDetail = () => {
     }
   }, [id]);
 
+  useEffect(() => {
+    if (event?.bracket_format) {
+      fetchBracket(event, !!user);
+    }
+  }, [event, user]);
+
+  useEffect(() => {
+    if (event?.max_team_size && user) {
+      fetchTeam(event.id);
+    }
+  }, [event, user]);
+
+  const fetchTeam = async (eventId: number) => {
+    try {
+      const [teamResponse, invitesResponse] = await Promise.all([
+        teamService.getMine(eventId),
+        teamService.getInvites(eventId),
+      ]);
+      setTeam(teamResponse.data || null);
+      setTeamInvites(invitesResponse.data || []);
+    } catch (err) {
+      console.error("Error fetching team:", err);
+    }
+  };
+
+  const fetchBracket = async (target: Event, loggedIn: boolean) => {
+    try {
+      const response = await tournamentService.getBracket(target.id);
+      setMatches(response.data || []);
+      if (target.bracket_format && isLeagueFormat(target.bracket_format)) {
+        const standingsResponse = await tournamentService.getStandings(
+          target.id
+        );
+        setStandings(standingsResponse.data || []);
+      }
+      if (loggedIn) {
+        const reportsResponse = await tournamentService.getMyReports(target.id);
+        setMyReports(reportsResponse.data || []);
+      }
+    } catch (err) {
+      console.error("Error fetching bracket:", err);
+    }
+  };
+
   const fetchEventDetail = async (eventId: string) => {
     try {
       setLoading(true);
@@ -65,6 +139,163 @@ const EventDetail = () => {
     setToast({ message, type, isVisible: true });
   };
 
+  const openReport = (match: TournamentMatch) => {
+    const report = myReports.find(
+      (r) =>
+        r.match_id === match.id &&
+        [match.participant1, match.participant2].some(
+          (p) => p?.id === r.participant_id && p?.user_id === user?.id
+        )
+    );
+    setReportingMatch(match);
+    setReportForm({
+      winner_id: report
+        ? report.winner_id === null
+          ? "draw"
+          : String(report.winner_id)
+        : "",
+      score1: report?.score1 != null ? String(report.score1) : "",
+      score2: report?.score2 != null ? String(report.score2) : "",
+    });
+  };
+
+  const handleReportResult = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!reportingMatch || !event) return;
+
+    try {
+      const response = await tournamentService.reportResult(reportingMatch.id, {
+        winner_id:
+          reportForm.winner_id === "draw" ? null : Number(reportForm.winner_id),
+        score1: reportForm.score1 === "" ? null : Number(reportForm.score1),
+        score2: reportForm.score2 === "" ? null : Number(reportForm.score2),
+      });
+      const status: MatchReportStatus = response.data;
+      if (status === "confirmed") {
+        showToast("Result confirmed!", "success");
+      } else if (status === "disputed") {
+        showToast(
+          "Your report differs from your opponent's. An admin will decide the result.",
+          "warning"
+        );
+      } else {
+        showToast(
+          "Result submitted. Waiting for your opponent to confirm.",
+          "success"
+        );
+      }
+      setReportingMatch(null);
+      fetchBracket(event, true);
+    } catch (error: any) {
+      console.error("Error reporting result:", error);
+      showToast(
+        error.response?.data?.message || "Failed to submit result",
+        "error"
+      );
+    }
+  };
+
+  const handleCreateTeam = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event) return;
+    if (!teamName.trim()) {
+      showToast("Enter a team name", "error");
+      return;
+    }
+
+    try {
+      await teamService.create(event.id, { name: teamName.trim() });
+      setTeamName("");
+      showToast("Team created. Invite your teammates next.", "success");
+      fetchTeam(event.id);
+    } catch (error: any) {
+      console.error("Error creating team:", error);
+      showToast(
+        error.response?.data?.message || "Failed to create team",
+        "error"
+      );
+    }
+  };
+
+  const handleInvite = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!event || !team) return;
+
+    try {
+      await teamService.invite(team.id, {
+        identifier: inviteIdentifier.trim(),
+      });
+      setInviteIdentifier("");
+      showToast("Invitation sent", "success");
+      fetchTeam(event.id);
+    } catch (error: any) {
+      console.error("Error inviting player:", error);
+      showToast(
+        error.response?.data?.message || "Failed to send invitation",
+        "error"
+      );
+    }
+  };
+
+  const handleRespondInvite = async (invite: TeamInvite, accept: boolean) => {
+    if (!event) return;
+
+    try {
+      await teamService.respondInvite(invite.id, accept);
+      showToast(
+        accept ? `You joined ${invite.team.name}` : "Invitation declined",
+        "success"
+      );
+      fetchTeam(event.id);
+    } catch (error: any) {
+      console.error("Error responding to invitation:", error);
+      showToast(
+        error.response?.data?.message || "Failed to respond to invitation",
+        "error"
+      );
+    }
+  };
+
+  const handleRemoveMember = async (userId: number) => {
+    if (!event || !team) return;
+    const leaving = userId === user?.id;
+    if (
+      !window.confirm(
+        leaving ? `Leave ${team.name}?` : "Remove this player from the team?"
+      )
+    )
+      return;
+
+    try {
+      await teamService.removeMember(team.id, userId);
+      fetchTeam(event.id);
+    } catch (error: any) {
+      console.error("Error removing team member:", error);
+      showToast(
+        error.response?.data?.message || "Failed to update the team",
+        "error"
+      );
+    }
+  };
+
+  const handleDisband = async () => {
+    if (!event || !team) return;
+    if (!window.confirm(`Disband ${team.name}? Every invite is cancelled.`))
+      return;
+
+    try {
+      await teamService.disband(team.id);
+      setTeam(null);
+      fetchTeam(event.id);
+    } catch (error: any) {
+      console.error("Error disbanding team:", error);
+      showToast(
+        error.response?.data?.message || "Failed to disband team",
+        "error"
+      );
+    }
+  };
+
   const handleRegister = async (event: Event) => {
     // Check if user is logged in
     if (!user) {
@@ -84,6 +315,26 @@ const EventDetail = () => {
       return;
     }
 
+    if (event.max_team_size) {
+      const roster =
+        team?.members.filter((m) => m.status === "accepted").length || 0;
+      if (!team) {
+        showToast("Create or join a team below first", "warning");
+        return;
+      }
+      if (team.captain_id !== user.id) {
+        showToast("Only your team captain can register the team", "warning");
+        return;
+      }
+      if (roster < (event.min_team_size || 1)) {
+        showToast(
+          `Your team needs at least ${event.min_team_size} players`,
+          "warning"
+        );
+        return;
+      }
+    }
+
     // Show confirmation modal
     setConfirmModal({ isOpen: true, event });
   };
@@ -94,6 +345,21 @@ const EventDetail = () => {
 
     setConfirmModal({ isOpen: false, event: null });
 
+    if (event.max_team_size && team) {
+      try {
+        await teamService.register(team.id);
+        showToast(`${team.name} is registered!`, "success");
+        fetchEventDetail(id!);
+      } catch (error: any) {
+        console.error("Team registration error:", error);
+        showToast(
+          error.response?.data?.message || "Registration failed",
+          "error"
+        );
+      }
+      return;
+    }
+
     try {
       const token = localStorage.getItem("auth_token");
 
@@ -179,6 +445,23 @@ const EventDetail = () => {
     );
   }
 
+  const bracketFormat = event.bracket_format;
+  const isTeamEvent = !!event.max_team_size;
+  const isCaptain = !!team && team.captain_id === user?.id;
+  const openRosterSpots = team
+    ? (event.max_team_size || 0) -
+      team.members.filter((m) => m.status !== "declined").length
+    : 0;
+  // Matches still waiting on a result from the logged-in player
+  const myMatches = user
+    ? matches.filter(
+        (m) =>
+          m.status === "ready" &&
+          (m.participant1?.user_id === user.id ||
+            m.participant2?.user_id === user.id)
+      )
+    : [];
+
   return (
     <div className="pt-20 min-h-screen">
       {/* Hero Section with Split Layout - Full Screen */}
@@ -279,7 +562,7 @@ const EventDetail = () => {
                 <div className="bg-dark-card/80 backdrop-blur-sm border border-neon-green/30 rounded-xl p-4 hover:border-neon-green hover:shadow-[0_0_15px_rgba(0,255,136,0.3)] transition-all duration-300">
                   <Users className="w-6 h-6 text-neon-green mb-2" />
                   <h3 className="font-gaming text-sm font-bold text-white mb-1">
-                    Players
+                    {isTeamEvent ? "Teams" : "Players"}
                   </h3>
                   <p className="text-white font-bold text-sm">
                     {event.participants_count || 0}/{event.max_participants}
@@ -295,6 +578,7 @@ const EventDetail = () => {
                     {event.entry_fee === 0
                       ? "FREE"
                       : `Rp ${event.entry_fee.toLocaleString()}`}
+                    {isTeamEvent && event.entry_fee > 0 && " / team"}
                   </p>
                 </div>
               </div>
@@ -308,17 +592,27 @@ const EventDetail = () => {
               {/* Register Button */}
               <button
                 onClick={() => handleRegister(event)}
-                disabled={event.status === "full" || event.status === "closed"}
+                disabled={
+                  event.status === "full" ||
+                  event.status === "closed" ||
+                  team?.status === "registered"
+                }
                 className={`px-8 py-4 rounded-xl font-bold text-lg transition-all duration-300 ${
-                  event.status === "full" || event.status === "closed"
+                  event.status === "full" ||
+                  event.status === "closed" ||
+                  team?.status === "registered"
                     ? "bg-gray-600 text-gray-400 cursor-not-allowed"
                     : "bg-gradient-to-r from-neon-blue to-neon-purple text-white hover:animate-glow hover:scale-105"
                 }`}
               >
-                {event.status === "full"
+                {team?.status === "registered"
+                  ? "✅ Team Registered"
+                  : event.status === "full"
                   ? "❌ Event Full"
                   : event.status === "closed"
                   ? "🔒 Registration Closed"
+                  : isTeamEvent
+                  ? "🎮 Register Team"
                   : "🎮 Register Now"}
               </button>
             </motion.div>
@@ -326,6 +620,316 @@ const EventDetail = () => {
         </div>
       </motion.div>
 
+      {/* Your Team */}
+      {isTeamEvent && user && (
+        <div className="container mx-auto px-4 pt-12">
+          <h2 className="font-gaming text-2xl font-bold text-white mb-2">
+            Your Team
+          </h2>
+          <p className="text-gray-400 mb-6">
+            Teams of{" "}
+            {event.min_team_size === event.max_team_size
+              ? event.max_team_size
+              : `${event.min_team_size} - ${event.max_team_size}`}{" "}
+            players. The captain registers the team and pays the entry fee
+            once.
+          </p>
+
+          {teamInvites.length > 0 && (
+            <div className="space-y-3 mb-6">
+              {teamInvites.map((invite) => (
+                <div
+                  key={invite.id}
+                  className="flex flex-wrap justify-between items-center gap-4 bg-dark-card border border-neon-gold/30 rounded-xl p-4"
+                >
+                  <p className="text-white">
+                    <span className="font-bold">{invite.captain.name}</span>{" "}
+                    invited you to join{" "}
+                    <span className="font-bold text-neon-gold">
+                      {invite.team.name}
+                    </span>
+                  </p>
+                  <div className="flex space-x-2">
+                    <button
+                      onClick={() => handleRespondInvite(invite, false)}
+                      className="px-4 py-2 border border-gray-600 text-gray-300 rounded-lg hover:bg-dark-hover transition-colors"
+                    >
+                      Decline
+                    </button>
+                    <button
+                      onClick={() => handleRespondInvite(invite, true)}
+                      className="px-4 py-2 bg-neon-green text-dark-bg font-bold rounded-lg hover:bg-neon-green/80 transition-colors"
+                    >
+                      Accept
+                    </button>
+                  </div>
+                </div>
+              ))}
+            </div>
+          )}
+
+          {!team ? (
+            <form
+              onSubmit={handleCreateTeam}
+              className="flex flex-wrap gap-4 bg-dark-card border border-neon-purple/20 rounded-xl p-6"
+            >
+              <input
+                type="text"
+                value={teamName}
+                onChange={(e) => setTeamName(e.target.value)}
+                placeholder="Team name"
+                className="flex-1 min-w-[200px] px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                required
+              />
+              <button
+                type="submit"
+                className="px-6 py-3 bg-gradient-to-r from-neon-blue to-neon-purple text-white font-bold rounded-lg hover:animate-glow transition-all duration-300"
+              >
+                Create Team
+              </button>
+            </form>
+          ) : (
+            <div className="bg-dark-card border border-neon-purple/20 rounded-xl p-6">
+              <div className="flex flex-wrap justify-between items-center gap-4 mb-4">
+                <div>
+                  <h3 className="font-gaming text-xl font-bold text-neon-purple">
+                    {team.name}
+                  </h3>
+                  <p className="text-gray-400 text-sm">
+                    {team.status === "registered"
+                      ? "Registered"
+                      : "Forming, not registered yet"}
+                  </p>
+                </div>
+                {isCaptain && team.status === "forming" && (
+                  <button
+                    onClick={handleDisband}
+                    className="px-4 py-2 border border-red-400/30 text-red-400 rounded-lg hover:bg-red-400/10 transition-colors"
+                  >
+                    Disband
+                  </button>
+                )}
+              </div>
+
+              <div className="space-y-2 mb-4">
+                {team.members
+                  .filter((member) => member.status !== "declined")
+                  .map((member) => (
+                    <div
+                      key={member.id}
+                      className="flex justify-between items-center px-4 py-3 bg-dark-bg rounded-lg"
+                    >
+                      <div>
+                        <p className="text-white font-medium">
+                          {member.user.name}
+                          {member.user.id === team.captain_id && (
+                            <span className="ml-2 text-xs text-neon-gold">
+                              Captain
+                            </span>
+                          )}
+                        </p>
+                        <p className="text-gray-500 text-sm">
+                          {member.user.email}
+                        </p>
+                      </div>
+                      <div className="flex items-center space-x-3">
+                        {member.status === "invited" && (
+                          <span className="text-xs text-yellow-400">
+                            Invited
+                          </span>
+                        )}
+                        {member.user.id !== team.captain_id &&
+                          (isCaptain || member.user.id === user.id) && (
+                            <button
+                              onClick={() => handleRemoveMember(member.user.id)}
+                              className="p-1 hover:bg-red-600/20 rounded"
+                              title={
+                                member.user.id === user.id
+                                  ? "Leave team"
+                                  : "Remove"
+                              }
+                            >
+                              <X className="w-4 h-4 text-red-400" />
+                            </button>
+                          )}
+                      </div>
+                    </div>
+                  ))}
+              </div>
+
+              {isCaptain && openRosterSpots > 0 && (
+                <form onSubmit={handleInvite} className="flex flex-wrap gap-4">
+                  <input
+                    type="text"
+                    value={inviteIdentifier}
+                    onChange={(e) => setInviteIdentifier(e.target.value)}
+                    placeholder="Teammate's email or full name"
+                    className="flex-1 min-w-[200px] px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+                    required
+                  />
+                  <button
+                    type="submit"
+                    className="flex items-center space-x-2 px-6 py-3 border border-neon-blue/30 text-neon-blue rounded-lg hover:bg-neon-blue/10 transition-all duration-300"
+                  >
+                    <UserPlus className="w-5 h-5" />
+                    <span>Invite ({openRosterSpots} left)</span>
+                  </button>
+                </form>
+              )}
+            </div>
+          )}
+        </div>
+      )}
+
+      {/* Your Matches */}
+      {bracketFormat && myMatches.length > 0 && (
+        <div className="container mx-auto px-4 pt-12">
+          <h2 className="font-gaming text-2xl font-bold text-white mb-6">
+            Your Matches
+          </h2>
+          <div className="space-y-4">
+            {myMatches.map((match) => {
+              const opponent =
+                match.participant1?.user_id === user?.id
+                  ? match.participant2
+                  : match.participant1;
+              const reported = myReports.some(
+                (r) =>
+                  r.match_id === match.id && r.participant_id !== opponent?.id
+              );
+
+              return (
+                <div
+                  key={match.id}
+                  className="bg-dark-card border border-neon-purple/20 rounded-xl p-6"
+                >
+                  <div className="flex flex-wrap justify-between items-center gap-4">
+                    <div>
+                      <p className="text-gray-400 text-sm">
+                        {getRoundName(
+                          match.bracket,
+                          match.round,
+                          Math.max(
+                            ...matches
+                              .filter((m) => m.bracket === match.bracket)
+                              .map((m) => m.round)
+                          ),
+                          bracketFormat
+                        )}
+                      </p>
+                      <p className="text-white font-bold">
+                        vs {opponent?.name || "TBD"}
+                      </p>
+                      {match.disputed_at ? (
+                        <p className="text-yellow-400 text-sm">
+                          Reports disagree. An admin will decide the result.
+                        </p>
+                      ) : (
+                        reported && (
+                          <p className="text-gray-400 text-sm">
+                            Waiting for your opponent to confirm.
+                          </p>
+                        )
+                      )}
+                    </div>
+                    <button
+                      onClick={() => openReport(match)}
+                      className="px-4 py-2 bg-neon-purple hover:bg-neon-purple/80 rounded-lg transition-colors"
+                    >
+                      {reported ? "Change Report" : "Report Result"}
+                    </button>
+                  </div>
+
+                  {reportingMatch?.id === match.id && (
+                    <form
+                      onSubmit={handleReportResult}
+                      className="grid grid-cols-1 md:grid-cols-4 gap-4 mt-4"
+                    >
+                      <select
+                        value={reportForm.winner_id}
+                        onChange={(e) =>
+                          setReportForm({ ...reportForm, winner_id: e.target.value })
+                        }
+                        className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                        required
+                      >
+                        <option value="">Winner</option>
+                        {[match.participant1, match.participant2].map(
+                          (p) =>
+                            p && (
+                              <option key={p.id} value={p.id}>
+                                {p.name}
+                              </option>
+                            )
+                        )}
+                        {isLeagueFormat(bracketFormat) && (
+                          <option value="draw">Draw</option>
+                        )}
+                      </select>
+                      <input
+                        type="number"
+                        min="0"
+                        value={reportForm.score1}
+                        onChange={(e) =>
+                          setReportForm({ ...reportForm, score1: e.target.value })
+                        }
+                        placeholder={`${match.participant1?.name} score`}
+                        className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                      />
+                      <input
+                        type="number"
+                        min="0"
+                        value={reportForm.score2}
+                        onChange={(e) =>
+                          setReportForm({ ...reportForm, score2: e.target.value })
+                        }
+                        placeholder={`${match.participant2?.name} score`}
+                        className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                      />
+                      <div className="flex space-x-2">
+                        <button
+                          type="button"
+                          onClick={() => setReportingMatch(null)}
+                          className="flex-1 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                        >
+                          Cancel
+                        </button>
+                        <button
+                          type="submit"
+                          className="flex-1 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                        >
+                          Submit
+                        </button>
+                      </div>
+                    </form>
+                  )}
+                </div>
+              );
+            })}
+          </div>
+        </div>
+      )}
+
+      {/* Tournament Bracket */}
+      {event.bracket_format && matches.length > 0 && (
+        <div className="container mx-auto px-4 pt-12">
+          <h2 className="font-gaming text-2xl font-bold text-white mb-6">
+            {isLeagueFormat(event.bracket_format) ? "League" : "Bracket"}
+          </h2>
+          {standings.length > 0 && (
+            <div className="bg-dark-card border border-neon-blue/20 rounded-xl p-6 mb-6">
+              <LeagueStandings
+                standings={standings}
+                format={event.bracket_format}
+              />
+            </div>
+          )}
+          <div className="bg-dark-card border border-neon-blue/20 rounded-xl p-6">
+            <TournamentBracket matches={matches} format={event.bracket_format} />
+          </div>
+        </div>
+      )}
+
       {/* Additional Actions */}
       <div className="container mx-auto px-4 py-12">
         <motion.div
@@ -358,10 +962,16 @@ const EventDetail = () => {
         title="Confirm Registration"
         message={
           confirmModal.event
-            ? `Register for ${confirmModal.event.title}?\n\nEntry Fee: ${
+            ? `Register ${
+                confirmModal.event.max_team_size && team ? `${team.name} ` : ""
+              }for ${confirmModal.event.title}?\n\nEntry Fee: ${
                 confirmModal.event.entry_fee === 0
                   ? "Free"
-                  : `Rp ${confirmModal.event.entry_fee.toLocaleString()}`
+                  : `Rp ${confirmModal.event.entry_fee.toLocaleString()}${
+                      confirmModal.event.max_team_size
+                        ? " (once for the whole team)"
+                        : ""
+                    }`
               }\nDate: ${new Date(
                 confirmModal.event.event_date
               ).toLocaleDateString("id-ID", {
@@ -13,8 +13,8 @@ import {
   Zap,
   Target,
 } from "lucide-react";
-import { eventService } from "../services/api";
-import { Event, ApiResponse } from "../types";
+import { eventService, leaderboardService } from "../services/api";
+import { Event, ApiResponse, PlayerRating } from "../types";
 import Toast from "../components/Toast";
 import ConfirmModal from "../components/ConfirmModal";
 
@@ -26,6 +26,7 @@ const Events = () => {
   const [error, setError] = useState<string | null>(null);
   const [currentFeaturedIndex, setCurrentFeaturedIndex] = useState(0);
   const [user, setUser] = useState(null);
+  const [leaderboard, setLeaderboard] = useState<PlayerRating[]>([]);
   const [toast, setToast] = useState({
     message: "",
     type: "success" as "success" | "error" | "warning",
@@ -64,6 +65,20 @@ const Events = () => {
     }
   }, [fetchEvents]);
 
+  useEffect(() => {
+    if (activeTab !== "leaderboard") return;
+
+    const fetchLeaderboard = async () => {
+      try {
+        const response = await leaderboardService.getRatings({ limit: 5 });
+        setLeaderboard(response.data || []);
+      } catch (err) {
+        console.error("Error fetching leaderboard:", err);
+      }
+    };
+    fetchLeaderboard();
+  }, [activeTab]);
+
   const getEventIcon = (title: string) => {
     const icons: { [key: string]: string } = {
       "FIFA 24 Championship": "⚽",
@@ -108,14 +123,6 @@ const Events = () => {
     },
   ];
 
-  const leaderboard = [
-    { rank: 1, name: "ProGamer123", points: 2450, tournaments: 8, wins: 5 },
-    { rank: 2, name: "GameMaster", points: 2180, tournaments: 7, wins: 4 },
-    { rank: 3, name: "ElitePlayer", points: 1950, tournaments: 6, wins: 3 },
-    { rank: 4, name: "SkillzUp", points: 1720, tournaments: 5, wins: 2 },
-    { rank: 5, name: "ChampionX", points: 1500, tournaments: 4, wins: 2 },
-  ];
-
   const getStatusColor = (status: string) => {
     switch (status) {
       case "open":
@@ -695,19 +702,27 @@ const Events = () => {
             transition={{ duration: 0.8 }}
             className="bg-dark-card border border-neon-purple/20 rounded-lg p-6"
           >
-            <h3 className="font-gaming text-xl font-bold text-neon-purple mb-6">
-              Top Players
-            </h3>
+            <div className="flex justify-between items-center mb-6">
+              <h3 className="font-gaming text-xl font-bold text-neon-purple">
+                Top Players
+              </h3>
+              <Link
+                to="/leaderboard"
+                className="text-sm text-neon-blue hover:text-neon-blue/80 transition-colors"
+              >
+                View full leaderboard
+              </Link>
+            </div>
 
             <div className="space-y-3">
               {leaderboard.map((player, index) => (
                 <motion.div
-                  key={player.rank}
+                  key={player.id}
                   initial={{ opacity: 0, x: -50 }}
                   animate={{ opacity: 1, x: 0 }}
                   transition={{ duration: 0.8, delay: 0.1 * index }}
                   className={`flex items-center justify-between p-4 rounded-lg ${
-                    player.rank <= 3
+                    player.current_rank <= 3
                       ? "bg-gradient-to-r from-yellow-400/10 to-yellow-600/10 border border-yellow-400/30"
                       : "bg-dark-bg border border-gray-600"
                   }`}
@@ -715,34 +730,34 @@ const Events = () => {
                   <div className="flex items-center space-x-4">
                     <div
                       className={`w-8 h-8 rounded-full flex items-center justify-center font-bold ${
-                        player.rank === 1
+                        player.current_rank === 1
                           ? "bg-yellow-400 text-dark-bg"
-                          : player.rank === 2
+                          : player.current_rank === 2
                           ? "bg-gray-300 text-dark-bg"
-                          : player.rank === 3
+                          : player.current_rank === 3
                           ? "bg-yellow-600 text-white"
                           : "bg-gray-600 text-white"
                       }`}
                     >
-                      {player.rank}
+                      {player.current_rank}
                     </div>
                     <div>
-                      <h4 className="font-bold text-white">{player.name}</h4>
+                      <h4 className="font-bold text-white">{player.user.name}</h4>
                       <p className="text-sm text-gray-400">
-                        {player.tournaments} tournaments • {player.wins} wins
+                        {player.matches_played} matches • {player.wins} wins
                       </p>
                     </div>
                   </div>
 
                   <div className="text-right">
                     <div className="text-neon-purple font-bold">
-                      {player.points} pts
+                      {Math.round(player.rating)}
                     </div>
-                    {player.rank <= 3 && (
+                    {player.current_rank <= 3 && (
                       <div className="text-xs text-yellow-400">
-                        {player.rank === 1
+                        {player.current_rank === 1
                           ? "🥇"
-                          : player.rank === 2
+                          : player.current_rank === 2
                           ? "🥈"
                           : "🥉"}
                       </div>
@@ -0,0 +1,288 @@
+import { useState, useEffect } from 'react';
+import { useSearchParams } from 'react-router-dom';
+import { motion } from 'framer-motion';
+import { Archive, Award, Trophy, TrendingUp } from 'lucide-react';
+import { gameService, leaderboardService } from '../services/api';
+import { Game, LeaderboardFilters, PlayerRating, Season, SeasonStanding } from '../types';
+
+const consoles = [
+  { id: '', name: 'All Consoles' },
+  { id: 'ps3', name: 'PlayStation 3' },
+  { id: 'ps4', name: 'PlayStation 4' },
+  { id: 'ps5', name: 'PlayStation 5' }
+];
+
+type LeaderboardRow = Pick<
+  PlayerRating,
+  'id' | 'user' | 'rating' | 'peak_rating' | 'matches_played' | 'wins' | 'draws' | 'losses'
+> & { rank: number | null };
+
+const formatRankRange = (from: number, to: number) => (from === to ? `#${from}` : `#${from} - #${to}`);
+
+const Leaderboard = () => {
+  // Filters live in the URL so a filtered leaderboard can be shared
+  const [searchParams, setSearchParams] = useSearchParams();
+  const [ratings, setRatings] = useState<PlayerRating[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [seasonsLoaded, setSeasonsLoaded] = useState(false);
+  const [standings, setStandings] = useState<SeasonStanding[]>([]);
+  const [loading, setLoading] = useState(true);
+
+  const gameId = searchParams.get('game') || '';
+  const consoleType = searchParams.get('console') || '';
+  const seasonId = searchParams.get('season') || '';
+  const selectedSeason = seasons.find(season => String(season.id) === seasonId);
+  // Ended seasons show their frozen final standings instead of live ratings
+  const archived = Boolean(selectedSeason?.archived_at);
+
+  useEffect(() => {
+    fetchOptions();
+  }, []);
+
+  useEffect(() => {
+    // Wait for the seasons to know whether the selected one is archived
+    if (seasonId && !seasonsLoaded) return;
+
+    const filters = {
+      game_id: gameId ? Number(gameId) : undefined,
+      console_type: consoleType ? (consoleType as Game['console_type']) : undefined
+    };
+    if (archived) {
+      fetchStandings(Number(seasonId), filters);
+    } else {
+      fetchRatings({ ...filters, season_id: seasonId ? Number(seasonId) : undefined });
+    }
+  }, [gameId, consoleType, seasonId, seasonsLoaded, archived]);
+
+  const fetchOptions = async () => {
+    try {
+      const [gamesResponse, seasonsResponse] = await Promise.all([
+        gameService.getAll(),
+        leaderboardService.getSeasons()
+      ]);
+      setGames(gamesResponse.data || []);
+      setSeasons(seasonsResponse.data || []);
+    } catch (err) {
+      console.error('Error fetching leaderboard filters:', err);
+    } finally {
+      setSeasonsLoaded(true);
+    }
+  };
+
+  const fetchRatings = async (filters: LeaderboardFilters) => {
+    try {
+      setLoading(true);
+      const response = await leaderboardService.getRatings(filters);
+      setRatings(response.data || []);
+    } catch (err) {
+      console.error('Error fetching leaderboard:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const fetchStandings = async (id: number, filters: Omit<LeaderboardFilters, 'season_id'>) => {
+    try {
+      setLoading(true);
+      const response = await leaderboardService.getSeasonStandings(id, filters);
+      setStandings(response.data || []);
+    } catch (err) {
+      console.error('Error fetching season standings:', err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const rows: LeaderboardRow[] = archived
+    ? [...standings]
+        // Players short of the minimum matches are listed unranked at the bottom
+        .sort((a, b) => (a.final_rank ?? Infinity) - (b.final_rank ?? Infinity))
+        .map(standing => ({ ...standing, rank: standing.final_rank }))
+    : ratings.map(rating => ({ ...rating, rank: rating.current_rank }));
+
+  const setFilter = (key: string, value: string) => {
+    const next = new URLSearchParams(searchParams);
+    if (value) {
+      next.set(key, value);
+    } else {
+      next.delete(key);
+    }
+    // A game already implies its console
+    if (key === 'game' && value) next.delete('console');
+    if (key === 'console' && value) next.delete('game');
+    setSearchParams(next);
+  };
+
+  return (
+    <div className="pt-20 min-h-screen">
+      <div className="container mx-auto px-4 py-12">
+        <motion.div
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8 }}
+          className="text-center mb-12"
+        >
+          <h1 className="font-gaming text-4xl md:text-5xl font-bold mb-4">
+            <span className="bg-gradient-neon bg-clip-text text-transparent">
+              Leaderboard
+            </span>
+          </h1>
+          <p className="text-gray-400 text-lg max-w-2xl mx-auto">
+            Skill ratings from every tournament and casual match played at Gamezon
+          </p>
+        </motion.div>
+
+        <motion.div
+          initial={{ opacity: 0, y: 50 }}
+          animate={{ opacity: 1, y: 0 }}
+          transition={{ duration: 0.8, delay: 0.2 }}
+          className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 mb-8"
+        >
+          <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+            <select
+              value={seasonId}
+              onChange={(e) => setFilter('season', e.target.value)}
+              className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+            >
+              <option value="">All Time</option>
+              {seasons.map(season => (
+                <option key={season.id} value={season.id}>
+                  {season.name}{season.archived_at ? ' (Final)' : ''}
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={gameId}
+              onChange={(e) => setFilter('game', e.target.value)}
+              className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+            >
+              <option value="">All Games</option>
+              {games.map(game => (
+                <option key={game.id} value={game.id}>
+                  {game.title} ({game.console_type.toUpperCase()})
+                </option>
+              ))}
+            </select>
+
+            <select
+              value={consoleType}
+              onChange={(e) => setFilter('console', e.target.value)}
+              className="w-full px-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white"
+            >
+              {consoles.map(console => (
+                <option key={console.id} value={console.id}>{console.name}</option>
+              ))}
+            </select>
+          </div>
+        </motion.div>
+
+        {selectedSeason && (
+          <div className="bg-dark-card border border-neon-gold/20 rounded-lg p-6 mb-8">
+            <div className="flex flex-col md:flex-row md:items-center md:justify-between gap-2 mb-4">
+              <div>
+                <h2 className="font-gaming text-xl font-bold text-white">{selectedSeason.name}</h2>
+                <p className="text-gray-400 text-sm">
+                  {new Date(selectedSeason.starts_on).toLocaleDateString('id-ID')} -{' '}
+                  {new Date(selectedSeason.ends_on).toLocaleDateString('id-ID')}
+                  {selectedSeason.min_matches > 0 && ` · ${selectedSeason.min_matches} matches to be ranked`}
+                </p>
+              </div>
+              {archived && (
+                <span className="inline-flex items-center space-x-2 text-sm text-gray-300">
+                  <Archive className="w-4 h-4" />
+                  <span>Final standings</span>
+                </span>
+              )}
+            </div>
+            {selectedSeason.rewards && selectedSeason.rewards.length > 0 && (
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-3">
+                {selectedSeason.rewards.map(reward => (
+                  <div key={`${reward.rank_from}-${reward.rank_to}`} className="p-3 bg-dark-bg rounded-lg">
+                    <div className="flex items-center space-x-2 text-neon-gold font-bold mb-1">
+                      <Award className="w-4 h-4" />
+                      <span>{formatRankRange(reward.rank_from, reward.rank_to)}</span>
+                    </div>
+                    <ul className="text-sm text-gray-300 space-y-1">
+                      {reward.badge_name && <li>{reward.badge_icon} {reward.badge_name} badge</li>}
+                      {reward.points > 0 && <li>{reward.points} loyalty points</li>}
+                      {reward.free_hours > 0 && <li>{reward.free_hours} free hours</li>}
+                    </ul>
+                  </div>
+                ))}
+              </div>
+            )}
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-12">
+            <div className="animate-spin rounded-full h-12 w-12 border-b-2 border-neon-blue mx-auto mb-4"></div>
+            <p className="text-gray-400">Loading leaderboard...</p>
+          </div>
+        ) : rows.length === 0 ? (
+          <div className="text-center py-12">
+            <Trophy className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg">No rated matches yet</p>
+          </div>
+        ) : (
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-x-auto">
+            <table className="w-full">
+              <thead>
+                <tr className="text-gray-400 text-sm border-b border-gray-700">
+                  <th className="text-left px-6 py-4">Rank</th>
+                  <th className="text-left px-6 py-4">Player</th>
+                  <th className="text-center px-6 py-4">Matches</th>
+                  <th className="text-center px-6 py-4">W / D / L</th>
+                  <th className="text-center px-6 py-4">Peak</th>
+                  <th className="text-right px-6 py-4">Rating</th>
+                </tr>
+              </thead>
+              <tbody>
+                {rows.map(row => (
+                  <tr
+                    key={row.id}
+                    className={`border-b border-gray-800 ${
+                      row.rank !== null && row.rank <= 3 ? 'bg-gradient-to-r from-yellow-400/10 to-transparent' : ''
+                    }`}
+                  >
+                    <td className="px-6 py-4">
+                      <span className={`font-bold ${
+                        row.rank === 1
+                          ? 'text-yellow-400'
+                          : row.rank === 2
+                          ? 'text-gray-300'
+                          : row.rank === 3
+                          ? 'text-yellow-600'
+                          : 'text-gray-400'
+                      }`}>
+                        {row.rank === null ? '-' : `#${row.rank}`}
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-white font-medium">{row.user.name}</td>
+                    <td className="px-6 py-4 text-center text-gray-300">{row.matches_played}</td>
+                    <td className="px-6 py-4 text-center text-gray-300">
+                      {row.wins} / {row.draws} / {row.losses}
+                    </td>
+                    <td className="px-6 py-4 text-center text-gray-400">
+                      <span className="inline-flex items-center space-x-1">
+                        <TrendingUp className="w-4 h-4" />
+                        <span>{Math.round(row.peak_rating)}</span>
+                      </span>
+                    </td>
+                    <td className="px-6 py-4 text-right font-bold text-neon-purple">
+                      {Math.round(row.rating)}
+                    </td>
+                  </tr>
+                ))}
+              </tbody>
+            </table>
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default Leaderboard;
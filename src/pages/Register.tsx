@@ -1,15 +1,18 @@
 import React, { useState } from 'react';
-import { Link, useNavigate } from 'react-router-dom';
+import { Link, useNavigate, useSearchParams } from 'react-router-dom';
 import { motion } from 'framer-motion';
-import { User, Mail, Lock, Eye, EyeOff, UserPlus } from 'lucide-react';
+import { User, Mail, Lock, Eye, EyeOff, UserPlus, Gift } from 'lucide-react';
 import { authService } from '../services/api';
 
 const Register = () => {
+  const [searchParams] = useSearchParams();
   const [formData, setFormData] = useState({
     name: '',
     email: '',
     password: '',
-    password_confirmation: ''
+    password_confirmation: '',
+    // Shared links look like /register?ref=CODE
+    referral_code: (searchParams.get('ref') || '').toUpperCase()
   });
   const [showPassword, setShowPassword] = useState(false);
   const [loading, setLoading] = useState(false);
@@ -22,7 +25,10 @@ const Register = () => {
     setError('');
 
     try {
-      const response = await authService.register(formData);
+      const response = await authService.register({
+        ...formData,
+        referral_code: formData.referral_code.trim() || undefined
+      });
       localStorage.setItem('auth_token', response.data.token);
       localStorage.setItem('user', JSON.stringify(response.data.user));
       navigate('/dashboard');
@@ -130,6 +136,27 @@ const Register = () => {
             </div>
           </div>
 
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">
+              Referral Code (optional)
+            </label>
+            <div className="relative">
+              <Gift className="absolute left-3 top-1/2 transform -translate-y-1/2 text-gray-400 w-5 h-5" />
+              <input
+                type="text"
+                value={formData.referral_code}
+                onChange={(e) => setFormData({ ...formData, referral_code: e.target.value.toUpperCase() })}
+                className="w-full pl-10 pr-4 py-3 bg-dark-bg border border-gray-600 rounded-lg focus:border-neon-blue focus:ring-1 focus:ring-neon-blue text-white font-mono"
+                placeholder="Friend's referral code"
+              />
+            </div>
+            {formData.referral_code && (
+              <p className="text-xs text-gray-400 mt-1">
+                You and your friend both earn points after your first completed paid booking.
+              </p>
+            )}
+          </div>
+
           <button
             type="submit"
             disabled={loading}
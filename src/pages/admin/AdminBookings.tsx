@@ -1,10 +1,16 @@
 import React, { useState, useEffect } from 'react';
-import { Eye, Edit } from 'lucide-react';
-import { api } from '../../services/api';
+import { Eye, Edit, Gamepad2, X } from 'lucide-react';
+import { api, bookingService, gameService, stationService } from '../../services/api';
+import { formatTime } from '../../lib/booking';
+import { Booking, BookingGame, Game, Station } from '../../types';
 
 const AdminBookings = () => {
-  const [bookings, setBookings] = useState([]);
+  const [bookings, setBookings] = useState<Booking[]>([]);
+  const [stations, setStations] = useState<Station[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
   const [loading, setLoading] = useState(true);
+  const [loggingBooking, setLoggingBooking] = useState<Booking | null>(null);
+  const [loggedGameIds, setLoggedGameIds] = useState<number[]>([]);
 
   const formatDate = (dateString) => {
     if (!dateString) return '-';
@@ -16,6 +22,11 @@ const AdminBookings = () => {
     });
   };
 
+  const getStationName = (booking: Booking) => {
+    const station = booking.station || stations.find(s => s.id === booking.console_station_id);
+    return station ? station.name : 'Unknown Station';
+  };
+
   useEffect(() => {
     fetchBookings();
   }, []);
@@ -23,8 +34,14 @@ const AdminBookings = () => {
   const fetchBookings = async () => {
     try {
       setLoading(true);
-      const response = await api.get('/admin/bookings');
+      const [response, stationsResponse, gamesResponse] = await Promise.all([
+        api.get('/admin/bookings'),
+        stationService.getAll().catch(() => ({ data: [] })),
+        gameService.getAll().catch(() => ({ data: [] }))
+      ]);
       setBookings(response.data || []);
+      setStations(stationsResponse.data || []);
+      setGames(gamesResponse.data || []);
     } catch (error) {
       console.error('Error fetching bookings:', error);
     } finally {
@@ -32,6 +49,39 @@ const AdminBookings = () => {
     }
   };
 
+  const openGameLog = async (booking: Booking) => {
+    setLoggingBooking(booking);
+    setLoggedGameIds([]);
+    try {
+      const response = await bookingService.getGames(booking.id);
+      setLoggedGameIds((response.data as BookingGame[] || []).map(item => item.game_id));
+    } catch (error) {
+      console.error('Error fetching logged games:', error);
+    }
+  };
+
+  const toggleLoggedGame = (gameId: number) => {
+    setLoggedGameIds(prev => prev.includes(gameId) ? prev.filter(id => id !== gameId) : [...prev, gameId]);
+  };
+
+  const handleSaveGameLog = async () => {
+    if (!loggingBooking) return;
+    try {
+      await bookingService.logGames(loggingBooking.id, loggedGameIds);
+      setLoggingBooking(null);
+    } catch (error) {
+      console.error('Error logging games:', error);
+      alert('Error logging games.');
+    }
+  };
+
+  // Games for the console the session was played on; already logged ones stay listed
+  const loggableGames = loggingBooking
+    ? games.filter(game =>
+        loggedGameIds.includes(game.id) ||
+        (game.is_active && (!loggingBooking.console?.type || game.console_type === loggingBooking.console.type)))
+    : [];
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -51,7 +101,8 @@ const AdminBookings = () => {
                 <th className="text-left py-3 px-4 text-gray-400">ID</th>
                 <th className="text-left py-3 px-4 text-gray-400">Customer</th>
                 <th className="text-left py-3 px-4 text-gray-400">Date</th>
-                <th className="text-left py-3 px-4 text-gray-400">Console</th>
+                <th className="text-left py-3 px-4 text-gray-400">Time</th>
+                <th className="text-left py-3 px-4 text-gray-400">Station</th>
                 <th className="text-left py-3 px-4 text-gray-400">Duration</th>
                 <th className="text-left py-3 px-4 text-gray-400">Amount</th>
                 <th className="text-left py-3 px-4 text-gray-400">Status</th>
@@ -64,9 +115,20 @@ const AdminBookings = () => {
                   <td className="py-3 px-4 text-white">#{booking.id}</td>
                   <td className="py-3 px-4 text-white">{booking.customer_name || 'User'}</td>
                   <td className="py-3 px-4 text-gray-400">{formatDate(booking.booking_date)}</td>
-                  <td className="py-3 px-4 text-gray-400">Console {booking.console_id}</td>
+                  <td className="py-3 px-4 text-gray-400">{formatTime(booking.start_time)} - {formatTime(booking.end_time)}</td>
+                  <td className="py-3 px-4 text-gray-400">
+                    {getStationName(booking)}
+                    {booking.console && <div className="text-xs text-gray-500">{booking.console.name}</div>}
+                  </td>
                   <td className="py-3 px-4 text-gray-400">{booking.duration_hours}h</td>
-                  <td className="py-3 px-4 text-neon-green">Rp {booking.total_amount?.toLocaleString()}</td>
+                  <td className="py-3 px-4 text-neon-green">
+                    Rp {booking.total_amount?.toLocaleString()}
+                    {booking.extras && booking.extras.length > 0 && (
+                      <div className="text-xs text-gray-400">
+                        {booking.extras.map(item => `${item.quantity}x ${item.extra?.name || 'Extra'}`).join(', ')}
+                      </div>
+                    )}
+                  </td>
                   <td className="py-3 px-4">
                     <span className={`px-2 py-1 rounded text-xs ${
                       booking.status === 'confirmed' 
@@ -86,6 +148,15 @@ const AdminBookings = () => {
                       <button className="p-1 hover:bg-neon-green/20 rounded">
                         <Edit className="w-4 h-4 text-neon-green" />
                       </button>
+                      {booking.status !== 'cancelled' && (
+                        <button
+                          onClick={() => openGameLog(booking)}
+                          className="p-1 hover:bg-neon-purple/20 rounded"
+                          title="Log games played"
+                        >
+                          <Gamepad2 className="w-4 h-4 text-neon-purple" />
+                        </button>
+                      )}
                     </div>
                   </td>
                 </tr>
@@ -94,6 +165,60 @@ const AdminBookings = () => {
           </table>
         </div>
       </div>
+
+      {loggingBooking && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50 p-4">
+          <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 w-full max-w-lg max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-4">
+              <div>
+                <h2 className="text-xl font-bold text-white">Games Played</h2>
+                <p className="text-sm text-gray-400">
+                  #{loggingBooking.id} - {getStationName(loggingBooking)}, {formatDate(loggingBooking.booking_date)}
+                </p>
+              </div>
+              <button
+                onClick={() => setLoggingBooking(null)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <div className="space-y-2">
+              {loggableGames.map(game => (
+                <label key={game.id} className="flex items-center space-x-2 text-gray-300">
+                  <input
+                    type="checkbox"
+                    checked={loggedGameIds.includes(game.id)}
+                    onChange={() => toggleLoggedGame(game.id)}
+                    className="rounded"
+                  />
+                  <span>{game.title}</span>
+                  <span className="text-xs text-gray-500">{game.genre}</span>
+                </label>
+              ))}
+              {loggableGames.length === 0 && (
+                <p className="text-gray-400 text-sm">No games for this console.</p>
+              )}
+            </div>
+
+            <div className="flex justify-end space-x-2 pt-4">
+              <button
+                onClick={() => setLoggingBooking(null)}
+                className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+              >
+                Cancel
+              </button>
+              <button
+                onClick={handleSaveGameLog}
+                className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+              >
+                Save Games
+              </button>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -10,7 +10,6 @@ const AdminConsoles = () => {
   const [editingConsole, setEditingConsole] = useState(null);
   const [formData, setFormData] = useState({
     name: '',
-    station: 'Station 1',
     type: 'ps5',
     hourly_rate: '',
     status: 'available',
@@ -67,7 +66,6 @@ const AdminConsoles = () => {
     const specs = console.specifications || { storage: '', controllers: '', features: [] };
     setFormData({
       name: console.name || '',
-      station: console.station || 'Station 1',
       type: console.type || 'ps5',
       hourly_rate: console.hourly_rate ? String(console.hourly_rate) : '',
       status: console.status || 'available',
@@ -116,7 +114,6 @@ const AdminConsoles = () => {
   const resetForm = () => {
     setFormData({
       name: '',
-      station: 'Station 1',
       type: 'ps5',
       hourly_rate: '',
       status: 'available',
@@ -254,7 +251,6 @@ const AdminConsoles = () => {
                   </div>
                 </div>
                 <h3 className="font-bold text-white">{console.name}</h3>
-                <p className="text-gray-400 text-sm">{console.station}</p>
               </div>
               
               {/* Console Details */}
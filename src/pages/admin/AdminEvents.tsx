@@ -1,10 +1,35 @@
 import React, { useState, useEffect } from 'react';
-import { Plus, Edit, Trash2 } from 'lucide-react';
-import { api } from '../../services/api';
+import { Plus, Edit, Trash2, GitBranch, ChevronUp, ChevronDown, RefreshCw, X, AlertTriangle } from 'lucide-react';
+import { api, eventService, gameService, tournamentService } from '../../services/api';
+import TournamentBracket from '../../components/TournamentBracket';
+import LeagueStandings from '../../components/LeagueStandings';
+import { BRACKET_FORMATS, getByeCount, getRoundName, getSwissRounds, isLeagueFormat } from '../../lib/brackets';
+import {
+  BracketFormat,
+  Event,
+  EventParticipant,
+  Game,
+  LeagueStanding,
+  MatchDispute,
+  MatchResultOverride,
+  TournamentMatch
+} from '../../types';
 
 const AdminEvents = () => {
-  const [events, setEvents] = useState([]);
+  const [events, setEvents] = useState<Event[]>([]);
   const [loading, setLoading] = useState(true);
+  const [bracketEvent, setBracketEvent] = useState<Event | null>(null);
+  const [participants, setParticipants] = useState<EventParticipant[]>([]);
+  const [matches, setMatches] = useState<TournamentMatch[]>([]);
+  const [standings, setStandings] = useState<LeagueStanding[]>([]);
+  const [bracketFormat, setBracketFormat] = useState<BracketFormat>('single_elimination');
+  const [leagueOptions, setLeagueOptions] = useState({ groups: '1', rounds: '' });
+  const [selectedMatch, setSelectedMatch] = useState<TournamentMatch | null>(null);
+  const [resultForm, setResultForm] = useState({ winner_id: '', score1: '', score2: '', reason: '' });
+  const [disputes, setDisputes] = useState<MatchDispute[]>([]);
+  const [overrides, setOverrides] = useState<MatchResultOverride[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [teamSize, setTeamSize] = useState({ min: '', max: '' });
 
   const formatDate = (dateString) => {
     if (!dateString) return '-';
@@ -18,6 +43,8 @@ const AdminEvents = () => {
 
   useEffect(() => {
     fetchEvents();
+    fetchDisputes();
+    fetchGames();
   }, []);
 
   const fetchEvents = async () => {
@@ -32,6 +59,213 @@ const AdminEvents = () => {
     }
   };
 
+  const fetchGames = async () => {
+    try {
+      const response = await gameService.getAll();
+      setGames(response.data || []);
+    } catch (error) {
+      console.error('Error fetching games:', error);
+    }
+  };
+
+  const handleGameChange = async (gameId: string) => {
+    if (!bracketEvent) return;
+
+    try {
+      const game_id = gameId ? Number(gameId) : null;
+      await eventService.update(String(bracketEvent.id), { game_id });
+      const updated = { ...bracketEvent, game_id };
+      setBracketEvent(updated);
+      setEvents(events.map(event => event.id === updated.id ? updated : event));
+    } catch (error: any) {
+      console.error('Error updating event game:', error);
+      alert(error.response?.data?.message || 'Failed to update game');
+    }
+  };
+
+  const handleTeamSizeSave = async () => {
+    if (!bracketEvent) return;
+    if (Boolean(teamSize.min) !== Boolean(teamSize.max) || Number(teamSize.max) < Number(teamSize.min)) {
+      alert('Set both roster limits, with the maximum at least the minimum, or leave both empty for solo players');
+      return;
+    }
+
+    try {
+      const min_team_size = teamSize.min ? Number(teamSize.min) : null;
+      const max_team_size = teamSize.max ? Number(teamSize.max) : null;
+      await eventService.update(String(bracketEvent.id), { min_team_size, max_team_size });
+      const updated = { ...bracketEvent, min_team_size, max_team_size };
+      setBracketEvent(updated);
+      setEvents(events.map(event => event.id === updated.id ? updated : event));
+    } catch (error: any) {
+      console.error('Error updating team size:', error);
+      alert(error.response?.data?.message || 'Failed to update team size');
+    }
+  };
+
+  const fetchDisputes = async () => {
+    try {
+      const response = await tournamentService.getDisputes();
+      setDisputes(response.data || []);
+    } catch (error) {
+      console.error('Error fetching disputes:', error);
+    }
+  };
+
+  const fetchMatches = async (event: Event) => {
+    const [bracketResponse, overridesResponse] = await Promise.all([
+      tournamentService.getBracket(event.id),
+      tournamentService.getOverrides(event.id)
+    ]);
+    setMatches(bracketResponse.data || []);
+    setOverrides(overridesResponse.data || []);
+    if (event.bracket_format && isLeagueFormat(event.bracket_format)) {
+      const standingsResponse = await tournamentService.getStandings(event.id);
+      setStandings(standingsResponse.data || []);
+    } else {
+      setStandings([]);
+    }
+  };
+
+  const openBracket = async (event: Event, match?: TournamentMatch) => {
+    setBracketEvent(event);
+    setBracketFormat(event.bracket_format || 'single_elimination');
+    setLeagueOptions({
+      groups: String(event.group_count || 1),
+      rounds: event.swiss_rounds ? String(event.swiss_rounds) : ''
+    });
+    setTeamSize({
+      min: event.min_team_size ? String(event.min_team_size) : '',
+      max: event.max_team_size ? String(event.max_team_size) : ''
+    });
+    setSelectedMatch(null);
+    if (match) selectMatch(match);
+    try {
+      const participantsResponse = await tournamentService.getParticipants(event.id);
+      const registered: EventParticipant[] = (participantsResponse.data || [])
+        .filter((participant: EventParticipant) => participant.status !== 'cancelled');
+      // Seeded players first, the rest in registration order
+      registered.sort((a, b) =>
+        (a.seed ?? Infinity) - (b.seed ?? Infinity) ||
+        new Date(a.registration_date).getTime() - new Date(b.registration_date).getTime()
+      );
+      setParticipants(registered);
+      await fetchMatches(event);
+    } catch (error) {
+      console.error('Error fetching bracket:', error);
+    }
+  };
+
+  const moveParticipant = (index: number, offset: number) => {
+    const target = index + offset;
+    if (target < 0 || target >= participants.length) return;
+    const reordered = [...participants];
+    [reordered[index], reordered[target]] = [reordered[target], reordered[index]];
+    setParticipants(reordered);
+  };
+
+  const handleGenerateBracket = async () => {
+    if (!bracketEvent) return;
+    if (participants.length < 2) {
+      alert('At least two participants are needed for a bracket');
+      return;
+    }
+    if (matches.length > 0 && !window.confirm('Generating a new bracket discards all recorded results. Continue?')) {
+      return;
+    }
+
+    try {
+      const groups = bracketFormat === 'round_robin' ? Number(leagueOptions.groups) || 1 : undefined;
+      const rounds = bracketFormat === 'swiss' && leagueOptions.rounds ? Number(leagueOptions.rounds) : undefined;
+      await tournamentService.generateBracket(bracketEvent.id, {
+        format: bracketFormat,
+        seeds: participants.map(participant => participant.id),
+        groups,
+        rounds
+      });
+      const updated = {
+        ...bracketEvent,
+        bracket_format: bracketFormat,
+        group_count: groups ?? null,
+        swiss_rounds: bracketFormat === 'swiss' ? rounds ?? getSwissRounds(participants.length) : null
+      };
+      setBracketEvent(updated);
+      setEvents(events.map(event => event.id === updated.id ? updated : event));
+      await fetchMatches(updated);
+      alert('Bracket generated successfully');
+    } catch (error: any) {
+      console.error('Error generating bracket:', error);
+      alert(error.response?.data?.message || 'Failed to generate bracket');
+    }
+  };
+
+  const handleRebuildBracket = async () => {
+    if (!bracketEvent) return;
+    if (!window.confirm('Rebuild the bracket from its seeds and replay all recorded results?')) return;
+
+    try {
+      await tournamentService.rebuildBracket(bracketEvent.id);
+      await fetchMatches(bracketEvent);
+    } catch (error: any) {
+      console.error('Error rebuilding bracket:', error);
+      alert(error.response?.data?.message || 'Failed to rebuild bracket');
+    }
+  };
+
+  const resolveDispute = (dispute: MatchDispute) => {
+    const event = events.find(e => e.id === dispute.event.id);
+    if (event) openBracket(event, dispute);
+  };
+
+  // Completed matches open prefilled, for corrections
+  const selectMatch = (match: TournamentMatch) => {
+    setSelectedMatch(match);
+    setResultForm({
+      winner_id: match.status !== 'completed' ? '' : match.winner_id == null ? 'draw' : String(match.winner_id),
+      score1: match.status === 'completed' && match.score1 != null ? String(match.score1) : '',
+      score2: match.status === 'completed' && match.score2 != null ? String(match.score2) : '',
+      reason: ''
+    });
+  };
+
+  const getParticipantName = (participantId?: number | null) => {
+    if (participantId == null) return 'Draw';
+    return participants.find(participant => participant.id === participantId)?.name
+      || matches.flatMap(match => [match.participant1, match.participant2])
+        .find(participant => participant?.id === participantId)?.name
+      || 'Unknown';
+  };
+
+  const formatScore = (score1?: number | null, score2?: number | null) =>
+    score1 != null || score2 != null ? ` (${score1 ?? '-'} - ${score2 ?? '-'})` : '';
+
+  const handleRecordResult = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!selectedMatch || !bracketEvent) return;
+    if (
+      selectedMatch.status === 'completed' &&
+      !isLeagueFormat(bracketEvent.bracket_format || bracketFormat) &&
+      !window.confirm('Correcting a knockout result replays the bracket. Later results that no longer fit are dropped. Continue?')
+    ) {
+      return;
+    }
+
+    try {
+      await tournamentService.recordResult(selectedMatch.id, {
+        winner_id: resultForm.winner_id === 'draw' ? null : Number(resultForm.winner_id),
+        score1: resultForm.score1 === '' ? null : Number(resultForm.score1),
+        score2: resultForm.score2 === '' ? null : Number(resultForm.score2),
+        reason: resultForm.reason || undefined
+      });
+      // Recording a result can fill later rounds or pair the next Swiss round, so reload everything
+      await Promise.all([fetchMatches(bracketEvent), fetchDisputes()]);
+      setSelectedMatch(null);
+    } catch (error: any) {
+      console.error('Error recording result:', error);
+      alert(error.response?.data?.message || 'Failed to record result');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <div className="flex justify-between items-center">
@@ -42,12 +276,59 @@ const AdminEvents = () => {
         </button>
       </div>
 
+      {disputes.length > 0 && (
+        <div className="bg-dark-card border border-yellow-500/30 rounded-lg p-6">
+          <div className="flex items-center space-x-2 mb-4">
+            <AlertTriangle className="w-5 h-5 text-yellow-400" />
+            <h2 className="font-bold text-white text-lg">Result Disputes ({disputes.length})</h2>
+          </div>
+          <div className="space-y-3">
+            {disputes.map(dispute => (
+              <div key={dispute.id} className="flex flex-wrap justify-between items-center gap-4 p-4 bg-dark-bg rounded-lg">
+                <div>
+                  <p className="text-white font-medium">
+                    {dispute.event.title}: {dispute.participant1?.name} vs {dispute.participant2?.name}
+                  </p>
+                  {dispute.reports.map(report => {
+                    const reporter = [dispute.participant1, dispute.participant2]
+                      .find(participant => participant?.id === report.participant_id);
+                    const winner = [dispute.participant1, dispute.participant2]
+                      .find(participant => participant?.id === report.winner_id);
+                    return (
+                      <p key={report.id} className="text-gray-400 text-sm">
+                        {reporter?.name} reported {winner ? `${winner.name} won` : 'a draw'}
+                        {formatScore(report.score1, report.score2)}
+                      </p>
+                    );
+                  })}
+                </div>
+                <button
+                  onClick={() => resolveDispute(dispute)}
+                  className="px-4 py-2 bg-yellow-600 hover:bg-yellow-700 rounded-lg transition-colors"
+                >
+                  Resolve
+                </button>
+              </div>
+            ))}
+          </div>
+        </div>
+      )}
+
       <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
         {events.map((event) => (
           <div key={event.id} className="bg-dark-card border border-neon-gold/20 rounded-lg p-6">
             <div className="flex justify-between items-start mb-4">
               <h3 className="font-bold text-white text-lg">{event.title}</h3>
               <div className="flex space-x-1">
+                {event.event_type === 'tournament' && (
+                  <button
+                    onClick={() => openBracket(event)}
+                    className="p-1 hover:bg-neon-blue/20 rounded"
+                    title="Bracket"
+                  >
+                    <GitBranch className="w-4 h-4 text-neon-blue" />
+                  </button>
+                )}
                 <button className="p-1 hover:bg-neon-green/20 rounded">
                   <Edit className="w-4 h-4 text-neon-green" />
                 </button>
@@ -66,6 +347,16 @@ const AdminEvents = () => {
                 <span className="text-gray-400">Prize Pool:</span>
                 <span className="text-neon-gold">Rp {event.prize_pool?.toLocaleString()}</span>
               </div>
+              {event.max_team_size && (
+                <div className="flex justify-between">
+                  <span className="text-gray-400">Teams:</span>
+                  <span className="text-white">
+                    {event.min_team_size === event.max_team_size
+                      ? event.max_team_size
+                      : `${event.min_team_size}-${event.max_team_size}`} players
+                  </span>
+                </div>
+              )}
               <div className="flex justify-between">
                 <span className="text-gray-400">Status:</span>
                 <span className={`px-2 py-1 rounded text-xs ${
@@ -78,6 +369,317 @@ const AdminEvents = () => {
           </div>
         ))}
       </div>
+
+      {bracketEvent && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-gold/20 rounded-lg p-6 w-full max-w-6xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-gold">
+                {bracketEvent.title} Bracket
+              </h2>
+              <button
+                onClick={() => setBracketEvent(null)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <div className="grid grid-cols-1 lg:grid-cols-3 gap-6">
+              <div className="space-y-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Game</label>
+                  <select
+                    value={bracketEvent.game_id || ''}
+                    onChange={(e) => handleGameChange(e.target.value)}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="">No game (overall rating only)</option>
+                    {games.map(game => (
+                      <option key={game.id} value={game.id}>
+                        {game.title} ({game.console_type.toUpperCase()})
+                      </option>
+                    ))}
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Players per Team</label>
+                  <div className="flex space-x-2">
+                    <input
+                      type="number"
+                      min="1"
+                      value={teamSize.min}
+                      onChange={(e) => setTeamSize({...teamSize, min: e.target.value})}
+                      placeholder="Min"
+                      disabled={participants.length > 0}
+                      className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+                    />
+                    <input
+                      type="number"
+                      min="1"
+                      value={teamSize.max}
+                      onChange={(e) => setTeamSize({...teamSize, max: e.target.value})}
+                      placeholder="Max"
+                      disabled={participants.length > 0}
+                      className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+                    />
+                    <button
+                      onClick={handleTeamSizeSave}
+                      disabled={participants.length > 0}
+                      className="px-3 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+                    >
+                      Save
+                    </button>
+                  </div>
+                  <p className="text-xs text-gray-500 mt-1">
+                    {participants.length > 0
+                      ? 'Fixed once registrations have come in'
+                      : 'Leave empty for solo players'}
+                  </p>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Format</label>
+                  <select
+                    value={bracketFormat}
+                    onChange={(e) => setBracketFormat(e.target.value as BracketFormat)}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    {Object.entries(BRACKET_FORMATS).map(([format, label]) => (
+                      <option key={format} value={format}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+
+                {bracketFormat === 'round_robin' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Groups</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={Math.max(1, Math.floor(participants.length / 2))}
+                      value={leagueOptions.groups}
+                      onChange={(e) => setLeagueOptions({...leagueOptions, groups: e.target.value})}
+                      className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    />
+                  </div>
+                )}
+
+                {bracketFormat === 'swiss' && (
+                  <div>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Rounds</label>
+                    <input
+                      type="number"
+                      min="1"
+                      max={Math.max(1, participants.length - 1)}
+                      value={leagueOptions.rounds}
+                      onChange={(e) => setLeagueOptions({...leagueOptions, rounds: e.target.value})}
+                      placeholder={String(getSwissRounds(participants.length))}
+                      className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    />
+                  </div>
+                )}
+
+                <div>
+                  <div className="flex justify-between text-sm mb-2">
+                    <span className="font-medium text-gray-300">Seeding</span>
+                    <span className="text-gray-400">
+                      {participants.length} {bracketEvent.max_team_size ? 'teams' : 'players'}
+                      {!isLeagueFormat(bracketFormat) && `, ${getByeCount(participants.length)} byes`}
+                    </span>
+                  </div>
+                  <div className="space-y-1">
+                    {participants.map((participant, index) => (
+                      <div key={participant.id} className="flex items-center justify-between px-3 py-2 bg-dark-bg rounded-lg">
+                        <span className="text-white text-sm">
+                          <span className="text-gray-500 mr-2">{index + 1}</span>
+                          {participant.team?.name || participant.name}
+                        </span>
+                        <div className="flex space-x-1">
+                          <button
+                            onClick={() => moveParticipant(index, -1)}
+                            disabled={index === 0}
+                            className="p-1 hover:bg-dark-hover rounded disabled:opacity-30"
+                          >
+                            <ChevronUp className="w-4 h-4 text-gray-400" />
+                          </button>
+                          <button
+                            onClick={() => moveParticipant(index, 1)}
+                            disabled={index === participants.length - 1}
+                            className="p-1 hover:bg-dark-hover rounded disabled:opacity-30"
+                          >
+                            <ChevronDown className="w-4 h-4 text-gray-400" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                    {participants.length === 0 && (
+                      <p className="text-gray-500 text-sm">No registered participants</p>
+                    )}
+                  </div>
+                </div>
+
+                <div className="flex space-x-2">
+                  <button
+                    onClick={handleGenerateBracket}
+                    className="flex-1 flex items-center justify-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                  >
+                    <GitBranch className="w-4 h-4" />
+                    <span>Generate</span>
+                  </button>
+                  {bracketEvent.bracket_format && !isLeagueFormat(bracketEvent.bracket_format) && matches.length > 0 && (
+                    <button
+                      onClick={handleRebuildBracket}
+                      className="flex items-center space-x-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                    >
+                      <RefreshCw className="w-4 h-4" />
+                      <span>Rebuild</span>
+                    </button>
+                  )}
+                </div>
+              </div>
+
+              <div className="lg:col-span-2 space-y-4">
+                {matches.length > 0 ? (
+                  <TournamentBracket
+                    matches={matches}
+                    format={bracketEvent.bracket_format || bracketFormat}
+                    onMatchClick={selectMatch}
+                  />
+                ) : (
+                  <p className="text-gray-500">Set the seeding and generate the bracket to start the tournament</p>
+                )}
+
+                {selectedMatch && (
+                  <form onSubmit={handleRecordResult} className="p-4 bg-dark-bg rounded-lg space-y-4">
+                    <h3 className="text-white font-medium">
+                      {selectedMatch.status === 'completed' ? 'Correct Result' : 'Record Result'}
+                    </h3>
+                    {disputes.find(dispute => dispute.id === selectedMatch.id)?.reports.map(report => (
+                      <p key={report.id} className="text-yellow-400 text-sm">
+                        {getParticipantName(report.participant_id)} reported{' '}
+                        {report.winner_id ? `${getParticipantName(report.winner_id)} won` : 'a draw'}
+                        {formatScore(report.score1, report.score2)}
+                      </p>
+                    ))}
+                    <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">Winner</label>
+                        <select
+                          value={resultForm.winner_id}
+                          onChange={(e) => setResultForm({...resultForm, winner_id: e.target.value})}
+                          className="w-full px-3 py-2 bg-dark-card border border-gray-600 rounded-lg text-white"
+                          required
+                        >
+                          <option value="">Select winner</option>
+                          {[selectedMatch.participant1, selectedMatch.participant2].map(participant => participant && (
+                            <option key={participant.id} value={participant.id}>{participant.name}</option>
+                          ))}
+                          {(selectedMatch.bracket === 'group' || selectedMatch.bracket === 'swiss') && (
+                            <option value="draw">Draw</option>
+                          )}
+                        </select>
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {selectedMatch.participant1?.name} Score
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={resultForm.score1}
+                          onChange={(e) => setResultForm({...resultForm, score1: e.target.value})}
+                          className="w-full px-3 py-2 bg-dark-card border border-gray-600 rounded-lg text-white"
+                        />
+                      </div>
+                      <div>
+                        <label className="block text-sm font-medium text-gray-300 mb-2">
+                          {selectedMatch.participant2?.name} Score
+                        </label>
+                        <input
+                          type="number"
+                          min="0"
+                          value={resultForm.score2}
+                          onChange={(e) => setResultForm({...resultForm, score2: e.target.value})}
+                          className="w-full px-3 py-2 bg-dark-card border border-gray-600 rounded-lg text-white"
+                        />
+                      </div>
+                    </div>
+                    <div>
+                      <label className="block text-sm font-medium text-gray-300 mb-2">Reason</label>
+                      <input
+                        type="text"
+                        value={resultForm.reason}
+                        onChange={(e) => setResultForm({...resultForm, reason: e.target.value})}
+                        placeholder="Kept in the result history"
+                        className="w-full px-3 py-2 bg-dark-card border border-gray-600 rounded-lg text-white"
+                      />
+                    </div>
+                    <div className="flex justify-end space-x-2">
+                      <button
+                        type="button"
+                        onClick={() => setSelectedMatch(null)}
+                        className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                      >
+                        Cancel
+                      </button>
+                      <button
+                        type="submit"
+                        className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                      >
+                        Save Result
+                      </button>
+                    </div>
+                  </form>
+                )}
+
+                {standings.length > 0 && bracketEvent.bracket_format && (
+                  <div>
+                    <h3 className="text-white font-medium mb-3">Standings</h3>
+                    <LeagueStandings standings={standings} format={bracketEvent.bracket_format} />
+                  </div>
+                )}
+
+                {overrides.length > 0 && (
+                  <div>
+                    <h3 className="text-white font-medium mb-3">Result History</h3>
+                    <div className="space-y-2">
+                      {overrides.map(override => (
+                        <div key={override.id} className="p-3 bg-dark-bg rounded-lg text-sm">
+                          <div className="flex justify-between text-gray-400">
+                            <span>
+                              {getRoundName(
+                                override.bracket,
+                                override.round,
+                                Math.max(...matches.filter(match => match.bracket === override.bracket).map(match => match.round), override.round),
+                                bracketEvent.bracket_format || bracketFormat
+                              )}
+                              {override.staff && ` by ${override.staff.name}`}
+                            </span>
+                            <span>{new Date(override.created_at).toLocaleString('id-ID')}</span>
+                          </div>
+                          <p className="text-white">
+                            {override.previous_status === 'completed' && (
+                              <span className="text-gray-500 line-through mr-2">
+                                {override.previous_winner?.name || 'Draw'}
+                                {formatScore(override.previous_score1, override.previous_score2)}
+                              </span>
+                            )}
+                            {override.winner?.name || 'Draw'}
+                            {formatScore(override.score1, override.score2)}
+                          </p>
+                          {override.reason && <p className="text-gray-400">{override.reason}</p>}
+                        </div>
+                      ))}
+                    </div>
+                  </div>
+                )}
+              </div>
+            </div>
+          </div>
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,276 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Package, CheckCircle, XCircle, X } from 'lucide-react';
+import { extrasService } from '../../services/api';
+import { Extra } from '../../types';
+
+const CATEGORIES: Extra['category'][] = ['accessory', 'food', 'drink', 'service'];
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  price: '',
+  category: 'accessory' as Extra['category'],
+  is_active: true
+};
+
+const AdminExtras = () => {
+  const [extras, setExtras] = useState<Extra[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingExtra, setEditingExtra] = useState<Extra | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchExtras();
+  }, []);
+
+  const fetchExtras = async () => {
+    try {
+      setLoading(true);
+      const response = await extrasService.getAll();
+      setExtras(response.data || []);
+    } catch (error) {
+      console.error('Error fetching extras:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingExtra(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (extra: Extra) => {
+    setEditingExtra(extra);
+    setFormData({
+      name: extra.name || '',
+      description: extra.description || '',
+      price: String(extra.price ?? ''),
+      category: extra.category || 'accessory',
+      is_active: extra.is_active
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const extraData = {
+      ...formData,
+      price: parseInt(formData.price) || 0
+    };
+
+    try {
+      if (editingExtra) {
+        await extrasService.update(editingExtra.id, extraData);
+      } else {
+        await extrasService.create(extraData);
+      }
+      setShowModal(false);
+      setEditingExtra(null);
+      fetchExtras();
+    } catch (error) {
+      console.error('Error saving extra:', error);
+      alert('Error saving extra.');
+    }
+  };
+
+  const handleToggleActive = async (extra: Extra) => {
+    try {
+      await extrasService.update(extra.id, { is_active: !extra.is_active });
+      fetchExtras();
+    } catch (error) {
+      console.error('Error updating extra:', error);
+      alert('Error updating extra.');
+    }
+  };
+
+  const handleDelete = async (extra: Extra) => {
+    if (window.confirm(`Are you sure you want to delete "${extra.name}"? Extras already on bookings should be deactivated instead.`)) {
+      try {
+        await extrasService.delete(extra.id);
+        fetchExtras();
+      } catch (error) {
+        console.error('Error deleting extra:', error);
+        alert('Error deleting extra.');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="font-gaming text-3xl font-bold text-white mt-6">Extras Catalog</h1>
+        <button
+          onClick={openCreate}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Extra</span>
+        </button>
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Extra</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Category</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Price</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {extras.map(extra => (
+                <tr key={extra.id} className="hover:bg-dark-hover">
+                  <td className="px-6 py-4">
+                    <div className="text-white font-medium">{extra.name}</div>
+                    {extra.description && <div className="text-sm text-gray-400">{extra.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-gray-300 capitalize">{extra.category}</td>
+                  <td className="px-6 py-4 text-neon-green font-bold">Rp {extra.price?.toLocaleString()}</td>
+                  <td className="px-6 py-4">
+                    <button onClick={() => handleToggleActive(extra)} title="Toggle availability">
+                      {extra.is_active ? (
+                        <span className="flex items-center text-green-400"><CheckCircle className="w-4 h-4 mr-1" />Active</span>
+                      ) : (
+                        <span className="flex items-center text-gray-400"><XCircle className="w-4 h-4 mr-1" />Inactive</span>
+                      )}
+                    </button>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(extra)}
+                        className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(extra)}
+                        className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {extras.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <Package className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No extras yet</p>
+            <p className="text-gray-500">Add snacks, drinks or accessories customers can order with a booking</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingExtra ? 'Edit Extra' : 'Add New Extra'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) => setFormData({...formData, name: e.target.value})}
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  required
+                />
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Price</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.price}
+                    onChange={(e) => setFormData({...formData, price: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Category</label>
+                  <select
+                    value={formData.category}
+                    onChange={(e) => setFormData({...formData, category: e.target.value as Extra['category']})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white capitalize"
+                  >
+                    {CATEGORIES.map(category => (
+                      <option key={category} value={category}>{category}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({...formData, is_active: e.target.checked})}
+                  className="rounded"
+                />
+                <span>Active (offered at booking)</span>
+              </label>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  {editingExtra ? 'Update Extra' : 'Create Extra'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminExtras;
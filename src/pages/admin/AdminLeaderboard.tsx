@@ -0,0 +1,688 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Trash2, RefreshCw, Swords, X, Edit, Archive, CalendarRange } from 'lucide-react';
+import { api, gameService, leaderboardService } from '../../services/api';
+import { CasualMatch, Game, Season, SeasonReward, User } from '../../types';
+
+const EMPTY_FORM = {
+  game_id: '',
+  player1_id: '',
+  player2_id: '',
+  winner_id: '',
+  score1: '',
+  score2: ''
+};
+
+const EMPTY_SEASON_FORM = {
+  name: '',
+  starts_on: '',
+  ends_on: '',
+  carry_over: '0.5',
+  min_matches: '5'
+};
+
+const EMPTY_REWARD: SeasonReward = {
+  rank_from: 1,
+  rank_to: 1,
+  points: 0,
+  free_hours: 0,
+  voucher_valid_days: 30,
+  badge_name: '',
+  badge_icon: ''
+};
+
+const getSeasonStatus = (season: Season) => {
+  const today = new Date().toISOString().split('T')[0];
+  if (season.archived_at) return { label: 'Archived', className: 'bg-gray-600/20 text-gray-300' };
+  if (season.ends_on < today) return { label: 'Ended', className: 'bg-yellow-600/20 text-yellow-400' };
+  if (season.starts_on > today) return { label: 'Upcoming', className: 'bg-neon-blue/20 text-neon-blue' };
+  return { label: 'Active', className: 'bg-neon-green/20 text-neon-green' };
+};
+
+const AdminLeaderboard = () => {
+  const [matches, setMatches] = useState<CasualMatch[]>([]);
+  const [games, setGames] = useState<Game[]>([]);
+  const [users, setUsers] = useState<User[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [recomputing, setRecomputing] = useState(false);
+  const [seasons, setSeasons] = useState<Season[]>([]);
+  const [showSeasonModal, setShowSeasonModal] = useState(false);
+  const [editingSeason, setEditingSeason] = useState<Season | null>(null);
+  const [seasonForm, setSeasonForm] = useState(EMPTY_SEASON_FORM);
+  const [seasonRewards, setSeasonRewards] = useState<SeasonReward[]>([]);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [matchesResponse, gamesResponse, usersResponse, seasonsResponse] = await Promise.all([
+        leaderboardService.getCasualMatches(),
+        gameService.getAll(),
+        api.get('/admin/users'),
+        leaderboardService.getSeasons()
+      ]);
+      setMatches(matchesResponse.data || []);
+      setSeasons(seasonsResponse.data || []);
+      setGames(gamesResponse.data || []);
+      setUsers(usersResponse.data || []);
+    } catch (error) {
+      console.error('Error fetching casual matches:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (formData.player1_id === formData.player2_id) {
+      alert('Pick two different players');
+      return;
+    }
+
+    try {
+      await leaderboardService.recordCasualMatch({
+        game_id: Number(formData.game_id),
+        player1_id: Number(formData.player1_id),
+        player2_id: Number(formData.player2_id),
+        winner_id: formData.winner_id === 'draw' ? null : Number(formData.winner_id),
+        score1: formData.score1 === '' ? null : Number(formData.score1),
+        score2: formData.score2 === '' ? null : Number(formData.score2)
+      });
+      setShowModal(false);
+      setFormData(EMPTY_FORM);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error recording casual match:', error);
+      alert(error.response?.data?.message || 'Failed to record match');
+    }
+  };
+
+  const handleDelete = async (match: CasualMatch) => {
+    if (window.confirm('Delete this match? Every rating will be recalculated without it.')) {
+      try {
+        await leaderboardService.deleteCasualMatch(match.id);
+        setMatches(matches.filter(m => m.id !== match.id));
+      } catch (error: any) {
+        console.error('Error deleting casual match:', error);
+        alert(error.response?.data?.message || 'Failed to delete match');
+      }
+    }
+  };
+
+  const handleRecompute = async () => {
+    if (!window.confirm('Recalculate every rating from the full match history?')) return;
+
+    try {
+      setRecomputing(true);
+      const response = await leaderboardService.recompute();
+      alert(`Ratings recalculated from ${response.data} matches`);
+    } catch (error: any) {
+      console.error('Error recomputing ratings:', error);
+      alert(error.response?.data?.message || 'Failed to recalculate ratings');
+    } finally {
+      setRecomputing(false);
+    }
+  };
+
+  const openSeasonModal = (season?: Season) => {
+    setEditingSeason(season || null);
+    setSeasonForm(season ? {
+      name: season.name,
+      starts_on: season.starts_on,
+      ends_on: season.ends_on,
+      carry_over: String(season.carry_over),
+      min_matches: String(season.min_matches)
+    } : EMPTY_SEASON_FORM);
+    setSeasonRewards(season?.rewards || []);
+    setShowSeasonModal(true);
+  };
+
+  const updateReward = (index: number, changes: Partial<SeasonReward>) => {
+    setSeasonRewards(seasonRewards.map((reward, i) => (i === index ? { ...reward, ...changes } : reward)));
+  };
+
+  const addReward = () => {
+    // Continue the ranks from the last tier
+    const last = seasonRewards[seasonRewards.length - 1];
+    const next = last ? last.rank_to + 1 : 1;
+    setSeasonRewards([...seasonRewards, { ...EMPTY_REWARD, rank_from: next, rank_to: next }]);
+  };
+
+  const handleSeasonSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (seasonForm.ends_on < seasonForm.starts_on) {
+      alert('The season must end after it starts');
+      return;
+    }
+    if (seasonRewards.some(reward => reward.rank_to < reward.rank_from)) {
+      alert('Each reward tier must end at or after its first rank');
+      return;
+    }
+
+    const payload = {
+      name: seasonForm.name,
+      starts_on: seasonForm.starts_on,
+      ends_on: seasonForm.ends_on,
+      carry_over: Number(seasonForm.carry_over),
+      min_matches: Number(seasonForm.min_matches),
+      rewards: seasonRewards.map(reward => ({
+        ...reward,
+        badge_name: reward.badge_name || null,
+        badge_icon: reward.badge_icon || null
+      }))
+    };
+
+    try {
+      if (editingSeason) {
+        await leaderboardService.updateSeason(editingSeason.id, payload);
+      } else {
+        await leaderboardService.createSeason(payload);
+      }
+      setShowSeasonModal(false);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error saving season:', error);
+      alert(error.response?.data?.message || 'Failed to save season');
+    }
+  };
+
+  const handleDeleteSeason = async (season: Season) => {
+    if (window.confirm(`Delete ${season.name}? Its season ratings are removed with it.`)) {
+      try {
+        await leaderboardService.deleteSeason(season.id);
+        setSeasons(seasons.filter(s => s.id !== season.id));
+      } catch (error: any) {
+        console.error('Error deleting season:', error);
+        alert(error.response?.data?.message || 'Failed to delete season');
+      }
+    }
+  };
+
+  const handleArchiveSeason = async (season: Season) => {
+    if (!window.confirm(`Archive ${season.name} now? Final standings are frozen and rewards are granted.`)) return;
+
+    try {
+      const response = await leaderboardService.archiveSeason(season.id);
+      alert(`${season.name} archived; ${response.data} players rewarded`);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error archiving season:', error);
+      alert(error.response?.data?.message || 'Failed to archive season');
+    }
+  };
+
+  const player = (id: string) => users.find(user => String(user.id) === id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="font-gaming text-3xl font-bold text-white">Leaderboard</h1>
+        <div className="flex space-x-2">
+          <button
+            onClick={handleRecompute}
+            disabled={recomputing}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <RefreshCw className={`w-4 h-4 ${recomputing ? 'animate-spin' : ''}`} />
+            <span>Recalculate</span>
+          </button>
+          <button
+            onClick={() => setShowModal(true)}
+            className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>Log Casual Match</span>
+          </button>
+        </div>
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-700 flex justify-between items-center">
+          <div>
+            <h2 className="font-bold text-white text-lg">Seasons</h2>
+            <p className="text-gray-400 text-sm">Ended seasons are archived and rewarded every night</p>
+          </div>
+          <button
+            onClick={() => openSeasonModal()}
+            className="flex items-center space-x-2 px-4 py-2 bg-neon-purple hover:bg-neon-purple/80 rounded-lg transition-colors"
+          >
+            <Plus className="w-4 h-4" />
+            <span>New Season</span>
+          </button>
+        </div>
+        {loading ? (
+          <div className="p-6 text-gray-400">Loading...</div>
+        ) : seasons.length === 0 ? (
+          <div className="text-center py-12">
+            <CalendarRange className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No seasons</p>
+            <p className="text-gray-500">Ratings are only kept all-time until a season is scheduled</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-gray-400 text-sm border-b border-gray-700">
+                <th className="text-left px-6 py-3">Season</th>
+                <th className="text-left px-6 py-3">Dates</th>
+                <th className="text-left px-6 py-3">Carry Over</th>
+                <th className="text-left px-6 py-3">Rewards</th>
+                <th className="text-left px-6 py-3">Status</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {seasons.map(season => {
+                const status = getSeasonStatus(season);
+                return (
+                  <tr key={season.id} className="border-b border-gray-800 text-white">
+                    <td className="px-6 py-3 font-medium">{season.name}</td>
+                    <td className="px-6 py-3 text-gray-400">
+                      {new Date(season.starts_on).toLocaleDateString('id-ID')} - {new Date(season.ends_on).toLocaleDateString('id-ID')}
+                    </td>
+                    <td className="px-6 py-3">{Math.round(season.carry_over * 100)}%</td>
+                    <td className="px-6 py-3">{season.rewards?.length || 0} tiers</td>
+                    <td className="px-6 py-3">
+                      <span className={`px-2 py-1 rounded text-xs ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-6 py-3">
+                      <div className="flex justify-end space-x-2">
+                        {status.label === 'Ended' && (
+                          <button
+                            onClick={() => handleArchiveSeason(season)}
+                            className="p-1 hover:bg-neon-gold/20 rounded"
+                            title="Archive now"
+                          >
+                            <Archive className="w-4 h-4 text-neon-gold" />
+                          </button>
+                        )}
+                        {!season.archived_at && (
+                          <button
+                            onClick={() => openSeasonModal(season)}
+                            className="p-1 hover:bg-neon-blue/20 rounded"
+                          >
+                            <Edit className="w-4 h-4 text-neon-blue" />
+                          </button>
+                        )}
+                        <button
+                          onClick={() => handleDeleteSeason(season)}
+                          className="p-1 hover:bg-red-600/20 rounded"
+                        >
+                          <Trash2 className="w-4 h-4 text-red-400" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        <div className="p-6 border-b border-gray-700">
+          <h2 className="font-bold text-white text-lg">Casual Matches</h2>
+          <p className="text-gray-400 text-sm">Tournament results are rated automatically once confirmed</p>
+        </div>
+        {loading ? (
+          <div className="p-6 text-gray-400">Loading...</div>
+        ) : matches.length === 0 ? (
+          <div className="text-center py-12">
+            <Swords className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No casual matches</p>
+            <p className="text-gray-500">Log a match played at the counter to rate it</p>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead>
+              <tr className="text-gray-400 text-sm border-b border-gray-700">
+                <th className="text-left px-6 py-3">Played</th>
+                <th className="text-left px-6 py-3">Game</th>
+                <th className="text-left px-6 py-3">Match</th>
+                <th className="text-left px-6 py-3">Result</th>
+                <th className="px-6 py-3"></th>
+              </tr>
+            </thead>
+            <tbody>
+              {matches.map(match => (
+                <tr key={match.id} className="border-b border-gray-800 text-white">
+                  <td className="px-6 py-3 text-gray-400">
+                    {new Date(match.played_at).toLocaleString('id-ID')}
+                  </td>
+                  <td className="px-6 py-3">{match.game?.title}</td>
+                  <td className="px-6 py-3">
+                    {match.player1?.name} vs {match.player2?.name}
+                    {(match.score1 != null || match.score2 != null) && (
+                      <span className="text-gray-400 ml-2">({match.score1 ?? '-'} - {match.score2 ?? '-'})</span>
+                    )}
+                  </td>
+                  <td className="px-6 py-3">
+                    {match.winner_id == null
+                      ? 'Draw'
+                      : `${match.winner_id === match.player1_id ? match.player1?.name : match.player2?.name} won`}
+                  </td>
+                  <td className="px-6 py-3 text-right">
+                    <button
+                      onClick={() => handleDelete(match)}
+                      className="p-1 hover:bg-red-600/20 rounded"
+                    >
+                      <Trash2 className="w-4 h-4 text-red-400" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">Log Casual Match</h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Game</label>
+                <select
+                  value={formData.game_id}
+                  onChange={(e) => setFormData({...formData, game_id: e.target.value})}
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  required
+                >
+                  <option value="">Select game</option>
+                  {games.map(game => (
+                    <option key={game.id} value={game.id}>
+                      {game.title} ({game.console_type.toUpperCase()})
+                    </option>
+                  ))}
+                </select>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                {(['player1_id', 'player2_id'] as const).map((field, index) => (
+                  <div key={field}>
+                    <label className="block text-sm font-medium text-gray-300 mb-2">Player {index + 1}</label>
+                    <select
+                      value={formData[field]}
+                      onChange={(e) => setFormData({...formData, [field]: e.target.value, winner_id: ''})}
+                      className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                      required
+                    >
+                      <option value="">Select player</option>
+                      {users.map(user => (
+                        <option key={user.id} value={user.id}>{user.name} ({user.email})</option>
+                      ))}
+                    </select>
+                  </div>
+                ))}
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Result</label>
+                  <select
+                    value={formData.winner_id}
+                    onChange={(e) => setFormData({...formData, winner_id: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  >
+                    <option value="">Select result</option>
+                    {[formData.player1_id, formData.player2_id].filter(Boolean).map(id => (
+                      <option key={id} value={id}>{player(id)?.name} won</option>
+                    ))}
+                    <option value="draw">Draw</option>
+                  </select>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Player 1 Score</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.score1}
+                    onChange={(e) => setFormData({...formData, score1: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Player 2 Score</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.score2}
+                    onChange={(e) => setFormData({...formData, score2: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  Record Match
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+
+      {showSeasonModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-3xl max-h-[90vh] overflow-y-auto">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingSeason ? 'Edit Season' : 'New Season'}
+              </h2>
+              <button
+                onClick={() => setShowSeasonModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSeasonSubmit} className="space-y-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                <input
+                  type="text"
+                  value={seasonForm.name}
+                  onChange={(e) => setSeasonForm({...seasonForm, name: e.target.value})}
+                  placeholder="Season 1"
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  required
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Starts On</label>
+                  <input
+                    type="date"
+                    value={seasonForm.starts_on}
+                    onChange={(e) => setSeasonForm({...seasonForm, starts_on: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Ends On</label>
+                  <input
+                    type="date"
+                    value={seasonForm.ends_on}
+                    onChange={(e) => setSeasonForm({...seasonForm, ends_on: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Rating Carry Over</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="1"
+                    step="0.05"
+                    value={seasonForm.carry_over}
+                    onChange={(e) => setSeasonForm({...seasonForm, carry_over: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                  <p className="text-xs text-gray-500 mt-1">0 resets everyone to the initial rating, 1 keeps last season's rating</p>
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Matches to Be Ranked</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={seasonForm.min_matches}
+                    onChange={(e) => setSeasonForm({...seasonForm, min_matches: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <div className="flex justify-between items-center mb-2">
+                  <label className="block text-sm font-medium text-gray-300">Rewards</label>
+                  <button
+                    type="button"
+                    onClick={addReward}
+                    className="flex items-center space-x-1 text-sm text-neon-blue hover:text-neon-blue/80"
+                  >
+                    <Plus className="w-4 h-4" />
+                    <span>Add Tier</span>
+                  </button>
+                </div>
+                {seasonRewards.length === 0 ? (
+                  <p className="text-sm text-gray-500">No rewards for this season</p>
+                ) : (
+                  <div className="space-y-3">
+                    {seasonRewards.map((reward, index) => (
+                      <div key={index} className="grid grid-cols-2 md:grid-cols-7 gap-2 items-end p-3 bg-dark-bg rounded-lg">
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">From #</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={reward.rank_from}
+                            onChange={(e) => updateReward(index, { rank_from: Number(e.target.value) })}
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">To #</label>
+                          <input
+                            type="number"
+                            min="1"
+                            value={reward.rank_to}
+                            onChange={(e) => updateReward(index, { rank_to: Number(e.target.value) })}
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                            required
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Points</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={reward.points}
+                            onChange={(e) => updateReward(index, { points: Number(e.target.value) })}
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Free Hours</label>
+                          <input
+                            type="number"
+                            min="0"
+                            value={reward.free_hours}
+                            onChange={(e) => updateReward(index, { free_hours: Number(e.target.value) })}
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Icon</label>
+                          <input
+                            type="text"
+                            value={reward.badge_icon || ''}
+                            onChange={(e) => updateReward(index, { badge_icon: e.target.value })}
+                            placeholder="🏆"
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                          />
+                        </div>
+                        <div>
+                          <label className="block text-xs text-gray-400 mb-1">Badge</label>
+                          <input
+                            type="text"
+                            value={reward.badge_name || ''}
+                            onChange={(e) => updateReward(index, { badge_name: e.target.value })}
+                            placeholder="Champion"
+                            className="w-full px-2 py-1 bg-dark-card border border-gray-600 rounded text-white"
+                          />
+                        </div>
+                        <div className="flex justify-end">
+                          <button
+                            type="button"
+                            onClick={() => setSeasonRewards(seasonRewards.filter((_, i) => i !== index))}
+                            className="p-2 hover:bg-red-600/20 rounded"
+                          >
+                            <Trash2 className="w-4 h-4 text-red-400" />
+                          </button>
+                        </div>
+                      </div>
+                    ))}
+                  </div>
+                )}
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowSeasonModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-purple hover:bg-neon-purple/80 rounded-lg transition-colors"
+                >
+                  {editingSeason ? 'Save Season' : 'Create Season'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminLeaderboard;
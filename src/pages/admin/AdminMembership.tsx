@@ -0,0 +1,354 @@
+import React, { useState, useEffect } from 'react';
+import { Edit, Save, RefreshCw, X } from 'lucide-react';
+import { extrasService, membershipService, settingsService } from '../../services/api';
+import {
+  DEFAULT_BOOKING_WINDOW_DAYS,
+  DEFAULT_MEMBERSHIP_EVALUATION,
+  MEMBERSHIP_LEVELS
+} from '../../lib/membership';
+import { Extra, MembershipEvaluationSettings, MembershipTier } from '../../types';
+
+const AdminMembership = () => {
+  const [tiers, setTiers] = useState<MembershipTier[]>([]);
+  const [extras, setExtras] = useState<Extra[]>([]);
+  const [evaluation, setEvaluation] = useState<MembershipEvaluationSettings>(DEFAULT_MEMBERSHIP_EVALUATION);
+  const [bookingWindowDays, setBookingWindowDays] = useState(DEFAULT_BOOKING_WINDOW_DAYS);
+  const [loading, setLoading] = useState(true);
+  const [savingSettings, setSavingSettings] = useState(false);
+  const [evaluating, setEvaluating] = useState(false);
+  const [editingTier, setEditingTier] = useState<MembershipTier | null>(null);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [tiersResponse, extrasResponse, evaluationResponse, windowResponse] = await Promise.all([
+        membershipService.getTiers(),
+        extrasService.getAll(),
+        settingsService.get('membership_evaluation'),
+        settingsService.get('booking_window_days')
+      ]);
+      setTiers(
+        ((tiersResponse.data || []) as MembershipTier[])
+          .sort((a, b) => MEMBERSHIP_LEVELS.indexOf(a.level) - MEMBERSHIP_LEVELS.indexOf(b.level))
+      );
+      setExtras(extrasResponse.data || []);
+      if (evaluationResponse.data) {
+        setEvaluation({ ...DEFAULT_MEMBERSHIP_EVALUATION, ...evaluationResponse.data });
+      }
+      if (windowResponse.data) {
+        setBookingWindowDays(Number(windowResponse.data) || DEFAULT_BOOKING_WINDOW_DAYS);
+      }
+    } catch (error) {
+      console.error('Error fetching membership tiers:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSaveSettings = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingSettings(true);
+      await Promise.all([
+        settingsService.update('membership_evaluation', evaluation),
+        settingsService.update('booking_window_days', bookingWindowDays)
+      ]);
+      alert('Membership settings saved. Tiers are re-evaluated tonight, or use Re-evaluate now.');
+    } catch (error) {
+      console.error('Error saving membership settings:', error);
+      alert('Error saving membership settings.');
+    } finally {
+      setSavingSettings(false);
+    }
+  };
+
+  const handleEvaluateAll = async () => {
+    if (!window.confirm('Re-evaluate every customer now? Customers whose tier changes are notified.')) return;
+
+    try {
+      setEvaluating(true);
+      await membershipService.evaluateAll();
+      alert('All memberships re-evaluated.');
+    } catch (error: any) {
+      console.error('Error evaluating memberships:', error);
+      alert(error.response?.data?.message || 'Error evaluating memberships.');
+    } finally {
+      setEvaluating(false);
+    }
+  };
+
+  const handleSaveTier = async (e: React.FormEvent) => {
+    e.preventDefault();
+    if (!editingTier) return;
+
+    try {
+      await membershipService.updateTier(editingTier.level, {
+        name: editingTier.name,
+        min_points: editingTier.min_points,
+        min_hours: editingTier.min_hours,
+        discount_percent: editingTier.discount_percent,
+        priority_booking_days: editingTier.priority_booking_days,
+        free_extras: editingTier.free_extras
+      });
+      setEditingTier(null);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error saving tier:', error);
+      alert(error.response?.data?.message || 'Error saving tier.');
+    }
+  };
+
+  const toggleFreeExtra = (extraId: number) => {
+    if (!editingTier) return;
+    const included = editingTier.free_extras.some(selection => selection.extra_id === extraId);
+    setEditingTier({
+      ...editingTier,
+      free_extras: included
+        ? editingTier.free_extras.filter(selection => selection.extra_id !== extraId)
+        : [...editingTier.free_extras, { extra_id: extraId, quantity: 1 }]
+    });
+  };
+
+  const describeFreeExtras = (tier: MembershipTier) =>
+    tier.free_extras
+      .map(selection => {
+        const extra = extras.find(e => e.id === selection.extra_id);
+        return extra ? `${selection.quantity}x ${extra.name}` : null;
+      })
+      .filter(Boolean)
+      .join(', ') || '-';
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="font-gaming text-3xl font-bold text-white mt-6">Membership Tiers</h1>
+          <p className="text-gray-400 text-sm">
+            Customers reach a tier by {evaluation.basis === 'hours' ? 'completed hours' : 'earned points'} over the last {evaluation.window_days} days.
+          </p>
+        </div>
+        <button
+          onClick={handleEvaluateAll}
+          disabled={evaluating}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <RefreshCw className={`w-4 h-4 ${evaluating ? 'animate-spin' : ''}`} />
+          <span>Re-evaluate now</span>
+        </button>
+      </div>
+
+      <form onSubmit={handleSaveSettings} className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-4">
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Tiers are based on</label>
+            <select
+              value={evaluation.basis}
+              onChange={(e) => setEvaluation({ ...evaluation, basis: e.target.value as MembershipEvaluationSettings['basis'] })}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+            >
+              <option value="points">Earned points</option>
+              <option value="hours">Completed hours</option>
+            </select>
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Rolling window (days)</label>
+            <input
+              type="number"
+              min="1"
+              value={evaluation.window_days}
+              onChange={(e) => setEvaluation({ ...evaluation, window_days: Math.max(1, parseInt(e.target.value) || 1) })}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Base booking window (days ahead)</label>
+            <input
+              type="number"
+              min="0"
+              value={bookingWindowDays}
+              onChange={(e) => setBookingWindowDays(Math.max(0, parseInt(e.target.value) || 0))}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+        </div>
+
+        <button
+          type="submit"
+          disabled={savingSettings}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{savingSettings ? 'Saving...' : 'Save Settings'}</span>
+        </button>
+      </form>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Tier</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Threshold</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Discount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Priority Booking</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Free Extras</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {tiers.map(tier => (
+                <tr key={tier.level} className="hover:bg-dark-hover">
+                  <td className="px-6 py-4 text-white font-medium">{tier.name}</td>
+                  <td className="px-6 py-4 text-gray-300">
+                    {evaluation.basis === 'hours' ? `${tier.min_hours} hours` : `${tier.min_points} points`}
+                  </td>
+                  <td className="px-6 py-4 text-neon-green font-bold">{tier.discount_percent}%</td>
+                  <td className="px-6 py-4 text-gray-300">+{tier.priority_booking_days} days</td>
+                  <td className="px-6 py-4 text-gray-300 text-sm">{describeFreeExtras(tier)}</td>
+                  <td className="px-6 py-4">
+                    <button
+                      onClick={() => setEditingTier(tier)}
+                      className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                    >
+                      <Edit className="w-4 h-4" />
+                    </button>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+      </div>
+
+      {editingTier && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">Edit {editingTier.name} Tier</h2>
+              <button
+                onClick={() => setEditingTier(null)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSaveTier} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={editingTier.name}
+                    onChange={(e) => setEditingTier({ ...editingTier, name: e.target.value })}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Min. Points</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingTier.min_points}
+                    onChange={(e) => setEditingTier({ ...editingTier, min_points: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Min. Hours</label>
+                  <input
+                    type="number"
+                    min="0"
+                    step="0.5"
+                    value={editingTier.min_hours}
+                    onChange={(e) => setEditingTier({ ...editingTier, min_hours: Math.max(0, Number(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Discount on sessions (%)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    max="100"
+                    value={editingTier.discount_percent}
+                    onChange={(e) => setEditingTier({ ...editingTier, discount_percent: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Extra booking days ahead</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={editingTier.priority_booking_days}
+                    onChange={(e) => setEditingTier({ ...editingTier, priority_booking_days: Math.max(0, parseInt(e.target.value) || 0) })}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Free extras with every booking</label>
+                <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+                  {extras.map(extra => (
+                    <label key={extra.id} className="flex items-center space-x-2 text-gray-300">
+                      <input
+                        type="checkbox"
+                        checked={editingTier.free_extras.some(selection => selection.extra_id === extra.id)}
+                        onChange={() => toggleFreeExtra(extra.id)}
+                        className="rounded"
+                      />
+                      <span>{extra.name}</span>
+                    </label>
+                  ))}
+                </div>
+              </div>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setEditingTier(null)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  Update Tier
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminMembership;
@@ -0,0 +1,359 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Tag, X } from 'lucide-react';
+import { pricingService } from '../../services/api';
+import { describeAdjustment } from '../../lib/pricing';
+import { formatTime } from '../../lib/booking';
+import { PricingRule } from '../../types';
+
+const DAY_TYPES: Record<PricingRule['day_type'], string> = {
+  all: 'Every day',
+  weekday: 'Weekdays',
+  weekend: 'Weekends',
+  holiday: 'Holidays'
+};
+
+const EMPTY_FORM = {
+  name: '',
+  console_type: '',
+  day_type: 'all' as PricingRule['day_type'],
+  start_time: '',
+  end_time: '',
+  adjustment_type: 'percent' as PricingRule['adjustment_type'],
+  adjustment_value: '',
+  priority: '0',
+  is_active: true
+};
+
+const AdminPricing = () => {
+  const [rules, setRules] = useState<PricingRule[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingRule, setEditingRule] = useState<PricingRule | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchRules();
+  }, []);
+
+  const fetchRules = async () => {
+    try {
+      setLoading(true);
+      const response = await pricingService.getRules();
+      setRules(response.data || []);
+    } catch (error) {
+      console.error('Error fetching pricing rules:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingRule(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (rule: PricingRule) => {
+    setEditingRule(rule);
+    setFormData({
+      name: rule.name,
+      console_type: rule.console_type || '',
+      day_type: rule.day_type,
+      start_time: rule.start_time ? formatTime(rule.start_time) : '',
+      end_time: rule.end_time ? formatTime(rule.end_time) : '',
+      adjustment_type: rule.adjustment_type,
+      adjustment_value: String(rule.adjustment_value),
+      priority: String(rule.priority ?? 0),
+      is_active: rule.is_active
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (Boolean(formData.start_time) !== Boolean(formData.end_time)) {
+      alert('Set both a start and an end time, or leave both empty for the whole day.');
+      return;
+    }
+
+    const ruleData: Partial<PricingRule> = {
+      name: formData.name,
+      console_type: (formData.console_type || null) as PricingRule['console_type'],
+      day_type: formData.day_type,
+      start_time: formData.start_time || null,
+      end_time: formData.end_time || null,
+      adjustment_type: formData.adjustment_type,
+      adjustment_value: parseInt(formData.adjustment_value) || 0,
+      priority: parseInt(formData.priority) || 0,
+      is_active: formData.is_active
+    };
+
+    try {
+      if (editingRule) {
+        await pricingService.updateRule(editingRule.id, ruleData);
+      } else {
+        await pricingService.createRule(ruleData);
+      }
+      setShowModal(false);
+      setEditingRule(null);
+      fetchRules();
+    } catch (error) {
+      console.error('Error saving pricing rule:', error);
+      alert('Error saving pricing rule.');
+    }
+  };
+
+  const handleDelete = async (rule: PricingRule) => {
+    if (window.confirm(`Are you sure you want to delete "${rule.name}"?`)) {
+      try {
+        await pricingService.deleteRule(rule.id);
+        fetchRules();
+      } catch (error) {
+        console.error('Error deleting pricing rule:', error);
+        alert('Error deleting pricing rule.');
+      }
+    }
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="font-gaming text-3xl font-bold text-white mt-6">Pricing Rules</h1>
+          <p className="text-gray-400 text-sm">
+            Rules adjust each console's hourly rate in ascending priority. Overrides replace the rate, later rules adjust it further.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Rule</span>
+        </button>
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Priority</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Rule</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Applies to</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Adjustment</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {[...rules].sort((a, b) => a.priority - b.priority).map(rule => (
+                <tr key={rule.id} className="hover:bg-dark-hover">
+                  <td className="px-6 py-4 text-gray-300">{rule.priority}</td>
+                  <td className="px-6 py-4 text-white font-medium">{rule.name}</td>
+                  <td className="px-6 py-4 text-gray-300 text-sm">
+                    {rule.console_type ? rule.console_type.toUpperCase() : 'All consoles'} · {DAY_TYPES[rule.day_type]}
+                    {rule.start_time && rule.end_time && ` · ${formatTime(rule.start_time)}-${formatTime(rule.end_time)}`}
+                  </td>
+                  <td className={`px-6 py-4 font-bold ${
+                    rule.adjustment_type !== 'override' && rule.adjustment_value < 0 ? 'text-neon-green' : 'text-amber-400'
+                  }`}>
+                    {describeAdjustment(rule)}
+                  </td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded text-xs ${
+                      rule.is_active ? 'bg-green-600/20 text-green-400' : 'bg-gray-600/20 text-gray-400'
+                    }`}>
+                      {rule.is_active ? 'Active' : 'Inactive'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(rule)}
+                        className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(rule)}
+                        className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {rules.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <Tag className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No pricing rules</p>
+            <p className="text-gray-500">Every slot is charged at the console's hourly rate</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingRule ? 'Edit Pricing Rule' : 'Add Pricing Rule'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    placeholder="e.g., Happy Hour"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Priority</label>
+                  <input
+                    type="number"
+                    value={formData.priority}
+                    onChange={(e) => setFormData({...formData, priority: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Console Type</label>
+                  <select
+                    value={formData.console_type}
+                    onChange={(e) => setFormData({...formData, console_type: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="">All consoles</option>
+                    <option value="ps5">PS5</option>
+                    <option value="ps4">PS4</option>
+                    <option value="ps3">PS3</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Days</label>
+                  <select
+                    value={formData.day_type}
+                    onChange={(e) => setFormData({...formData, day_type: e.target.value as PricingRule['day_type']})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    {Object.entries(DAY_TYPES).map(([value, label]) => (
+                      <option key={value} value={value}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">From (optional)</label>
+                  <input
+                    type="time"
+                    value={formData.start_time}
+                    onChange={(e) => setFormData({...formData, start_time: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Until (optional)</label>
+                  <input
+                    type="time"
+                    value={formData.end_time}
+                    onChange={(e) => setFormData({...formData, end_time: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Adjustment</label>
+                  <select
+                    value={formData.adjustment_type}
+                    onChange={(e) => setFormData({...formData, adjustment_type: e.target.value as PricingRule['adjustment_type']})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="percent">Percentage (negative for discount)</option>
+                    <option value="fixed">Fixed amount per hour</option>
+                    <option value="override">Override hourly rate</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {formData.adjustment_type === 'percent' ? 'Percent' : 'Amount (Rp)'}
+                  </label>
+                  <input
+                    type="number"
+                    min={formData.adjustment_type === 'override' ? '0' : undefined}
+                    value={formData.adjustment_value}
+                    onChange={(e) => setFormData({...formData, adjustment_value: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({...formData, is_active: e.target.checked})}
+                  className="rounded"
+                />
+                <span>Active</span>
+              </label>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  {editingRule ? 'Update Rule' : 'Create Rule'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPricing;
@@ -0,0 +1,371 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Percent, X } from 'lucide-react';
+import { promotionService } from '../../services/api';
+import { describePromotion } from '../../lib/promotions';
+import { Promotion } from '../../types';
+
+const EMPTY_FORM = {
+  title: '',
+  description: '',
+  code: '',
+  discount_type: 'percentage' as Promotion['discount_type'],
+  discount_value: '',
+  min_booking_hours: '1',
+  valid_from: '',
+  valid_until: '',
+  max_uses: '',
+  is_active: true
+};
+
+const AdminPromotions = () => {
+  const [promotions, setPromotions] = useState<Promotion[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingPromotion, setEditingPromotion] = useState<Promotion | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchPromotions();
+  }, []);
+
+  const fetchPromotions = async () => {
+    try {
+      setLoading(true);
+      const response = await promotionService.getAll();
+      setPromotions(response.data || []);
+    } catch (error) {
+      console.error('Error fetching promotions:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingPromotion(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (promotion: Promotion) => {
+    setEditingPromotion(promotion);
+    setFormData({
+      title: promotion.title,
+      description: promotion.description || '',
+      code: promotion.code || '',
+      discount_type: promotion.discount_type,
+      discount_value: String(promotion.discount_value),
+      min_booking_hours: String(promotion.min_booking_hours ?? 1),
+      valid_from: promotion.valid_from,
+      valid_until: promotion.valid_until,
+      max_uses: promotion.max_uses != null ? String(promotion.max_uses) : '',
+      is_active: promotion.is_active
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    if (formData.valid_until < formData.valid_from) {
+      alert('The promotion must end on or after its start date.');
+      return;
+    }
+
+    const promotionData: Partial<Promotion> = {
+      title: formData.title,
+      description: formData.description || undefined,
+      code: formData.code.trim().toUpperCase() || null,
+      discount_type: formData.discount_type,
+      discount_value: parseInt(formData.discount_value) || 0,
+      min_booking_hours: parseInt(formData.min_booking_hours) || 1,
+      valid_from: formData.valid_from,
+      valid_until: formData.valid_until,
+      max_uses: formData.max_uses ? parseInt(formData.max_uses) : null,
+      is_active: formData.is_active
+    };
+
+    try {
+      if (editingPromotion) {
+        await promotionService.update(editingPromotion.id, promotionData);
+      } else {
+        await promotionService.create(promotionData);
+      }
+      setShowModal(false);
+      setEditingPromotion(null);
+      fetchPromotions();
+    } catch (error: any) {
+      console.error('Error saving promotion:', error);
+      alert(error.response?.data?.message || 'Error saving promotion.');
+    }
+  };
+
+  const handleDelete = async (promotion: Promotion) => {
+    if (window.confirm(`Are you sure you want to delete "${promotion.title}"?`)) {
+      try {
+        await promotionService.delete(promotion.id);
+        fetchPromotions();
+      } catch (error) {
+        console.error('Error deleting promotion:', error);
+        alert('Error deleting promotion.');
+      }
+    }
+  };
+
+  const today = new Date().toISOString().split('T')[0];
+
+  const getStatus = (promotion: Promotion) => {
+    if (!promotion.is_active) return { label: 'Inactive', className: 'bg-gray-600/20 text-gray-400' };
+    if (promotion.valid_until < today) return { label: 'Expired', className: 'bg-gray-600/20 text-gray-400' };
+    if (promotion.max_uses != null && promotion.current_uses >= promotion.max_uses) {
+      return { label: 'Used up', className: 'bg-red-600/20 text-red-400' };
+    }
+    if (promotion.valid_from > today) return { label: 'Scheduled', className: 'bg-blue-600/20 text-blue-400' };
+    return { label: 'Active', className: 'bg-green-600/20 text-green-400' };
+  };
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="font-gaming text-3xl font-bold text-white mt-6">Promotions</h1>
+          <p className="text-gray-400 text-sm">
+            Promotions with a code apply when the customer enters it. Promotions without a code apply automatically; only the biggest discount is used.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Promotion</span>
+        </button>
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Promotion</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Code</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Discount</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Valid</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Uses</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {promotions.map(promotion => {
+                const status = getStatus(promotion);
+                return (
+                  <tr key={promotion.id} className="hover:bg-dark-hover">
+                    <td className="px-6 py-4">
+                      <div className="text-white font-medium">{promotion.title}</div>
+                      <div className="text-gray-400 text-sm">Min. {promotion.min_booking_hours} hour(s)</div>
+                    </td>
+                    <td className="px-6 py-4 text-gray-300 font-mono">{promotion.code || <span className="text-gray-500 font-sans">Automatic</span>}</td>
+                    <td className="px-6 py-4 text-neon-green font-bold">{describePromotion(promotion)}</td>
+                    <td className="px-6 py-4 text-gray-300 text-sm">{promotion.valid_from} – {promotion.valid_until}</td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {promotion.current_uses}{promotion.max_uses != null ? ` / ${promotion.max_uses}` : ''}
+                    </td>
+                    <td className="px-6 py-4">
+                      <span className={`px-2 py-1 rounded text-xs ${status.className}`}>{status.label}</span>
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleEdit(promotion)}
+                          className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(promotion)}
+                          className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {promotions.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <Percent className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No promotions</p>
+            <p className="text-gray-500">Create a promo code or an automatic discount</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingPromotion ? 'Edit Promotion' : 'Add Promotion'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Title</label>
+                  <input
+                    type="text"
+                    value={formData.title}
+                    onChange={(e) => setFormData({...formData, title: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Code (empty to apply automatically)</label>
+                  <input
+                    type="text"
+                    value={formData.code}
+                    onChange={(e) => setFormData({...formData, code: e.target.value.toUpperCase()})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white font-mono"
+                  />
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  rows={2}
+                />
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Discount</label>
+                  <select
+                    value={formData.discount_type}
+                    onChange={(e) => setFormData({...formData, discount_type: e.target.value as Promotion['discount_type']})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="percentage">Percentage</option>
+                    <option value="fixed_amount">Fixed amount</option>
+                    <option value="free_hours">Free hours</option>
+                  </select>
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">
+                    {formData.discount_type === 'percentage' ? 'Percent' : formData.discount_type === 'fixed_amount' ? 'Amount (Rp)' : 'Hours'}
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    max={formData.discount_type === 'percentage' ? '100' : undefined}
+                    value={formData.discount_value}
+                    onChange={(e) => setFormData({...formData, discount_value: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Min. Hours</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.min_booking_hours}
+                    onChange={(e) => setFormData({...formData, min_booking_hours: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Valid From</label>
+                  <input
+                    type="date"
+                    value={formData.valid_from}
+                    onChange={(e) => setFormData({...formData, valid_from: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Valid Until</label>
+                  <input
+                    type="date"
+                    value={formData.valid_until}
+                    onChange={(e) => setFormData({...formData, valid_until: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Max Uses (empty for unlimited)</label>
+                  <input
+                    type="number"
+                    min={editingPromotion ? String(Math.max(editingPromotion.current_uses, 1)) : '1'}
+                    value={formData.max_uses}
+                    onChange={(e) => setFormData({...formData, max_uses: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({...formData, is_active: e.target.checked})}
+                  className="rounded"
+                />
+                <span>Active</span>
+              </label>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  {editingPromotion ? 'Update Promotion' : 'Create Promotion'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminPromotions;
@@ -0,0 +1,464 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, Gift, X, Search } from 'lucide-react';
+import { eventService, rewardService } from '../../services/api';
+import { getVoucherStatus, REWARD_TYPE_LABELS } from '../../lib/loyalty';
+import { Event, Reward, RewardVoucher } from '../../types';
+
+const EMPTY_FORM = {
+  name: '',
+  description: '',
+  reward_type: 'snack' as Reward['reward_type'],
+  points_cost: '',
+  value: '1',
+  event_id: '',
+  stock: '',
+  valid_days: '30',
+  is_active: true
+};
+
+const AdminRewards = () => {
+  const [rewards, setRewards] = useState<Reward[]>([]);
+  const [events, setEvents] = useState<Event[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingReward, setEditingReward] = useState<Reward | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+  const [voucherCode, setVoucherCode] = useState('');
+  const [voucher, setVoucher] = useState<RewardVoucher | null>(null);
+  const [checkingVoucher, setCheckingVoucher] = useState(false);
+
+  useEffect(() => {
+    fetchRewards();
+  }, []);
+
+  const fetchRewards = async () => {
+    try {
+      setLoading(true);
+      const [rewardsResponse, eventsResponse] = await Promise.all([
+        rewardService.getAll(),
+        eventService.getAll({ status: 'upcoming' })
+      ]);
+      setRewards(rewardsResponse.data || []);
+      setEvents(eventsResponse.data || []);
+    } catch (error) {
+      console.error('Error fetching rewards:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingReward(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (reward: Reward) => {
+    setEditingReward(reward);
+    setFormData({
+      name: reward.name,
+      description: reward.description || '',
+      reward_type: reward.reward_type,
+      points_cost: String(reward.points_cost),
+      value: reward.value != null ? String(reward.value) : '1',
+      event_id: reward.event_id != null ? String(reward.event_id) : '',
+      stock: reward.stock != null ? String(reward.stock) : '',
+      valid_days: String(reward.valid_days),
+      is_active: reward.is_active
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const rewardData: Partial<Reward> = {
+      name: formData.name,
+      description: formData.description || undefined,
+      reward_type: formData.reward_type,
+      points_cost: parseInt(formData.points_cost) || 0,
+      value: formData.reward_type === 'free_hours' ? parseInt(formData.value) || 1 : null,
+      event_id: formData.reward_type === 'event_entry' ? parseInt(formData.event_id) || null : null,
+      stock: formData.stock ? parseInt(formData.stock) : null,
+      valid_days: parseInt(formData.valid_days) || 30,
+      is_active: formData.is_active
+    };
+
+    try {
+      if (editingReward) {
+        await rewardService.update(editingReward.id, rewardData);
+      } else {
+        await rewardService.create(rewardData);
+      }
+      setShowModal(false);
+      setEditingReward(null);
+      fetchRewards();
+    } catch (error: any) {
+      console.error('Error saving reward:', error);
+      alert(error.response?.data?.message || 'Error saving reward.');
+    }
+  };
+
+  const handleDelete = async (reward: Reward) => {
+    if (window.confirm(`Are you sure you want to delete "${reward.name}"?`)) {
+      try {
+        await rewardService.delete(reward.id);
+        fetchRewards();
+      } catch (error) {
+        console.error('Error deleting reward:', error);
+        alert('Error deleting reward. Rewards with vouchers can only be deactivated.');
+      }
+    }
+  };
+
+  const handleCheckVoucher = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setCheckingVoucher(true);
+      const response = await rewardService.getVoucher(voucherCode.trim().toUpperCase());
+      setVoucher(response.data || null);
+    } catch (error: any) {
+      console.error('Error checking voucher:', error);
+      setVoucher(null);
+      alert(error.response?.data?.message || 'Voucher not found.');
+    } finally {
+      setCheckingVoucher(false);
+    }
+  };
+
+  const handleUseVoucher = async () => {
+    if (!voucher) return;
+    try {
+      const response = await rewardService.useVoucher(voucher.code);
+      setVoucher({ ...voucher, ...response.data });
+      alert(`Voucher ${voucher.code} marked as used.`);
+    } catch (error: any) {
+      console.error('Error using voucher:', error);
+      alert(error.response?.data?.message || 'Error using voucher.');
+    }
+  };
+
+  const handleCancelVoucher = async () => {
+    if (!voucher) return;
+    if (window.confirm(`Cancel voucher ${voucher.code} and give ${voucher.points_spent} points back?`)) {
+      try {
+        const response = await rewardService.cancelVoucher(voucher.id);
+        setVoucher({ ...voucher, ...response.data });
+        fetchRewards();
+      } catch (error: any) {
+        console.error('Error cancelling voucher:', error);
+        alert(error.response?.data?.message || 'Error cancelling voucher.');
+      }
+    }
+  };
+
+  const voucherStatus = voucher ? getVoucherStatus(voucher) : null;
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <div>
+          <h1 className="font-gaming text-3xl font-bold text-white mt-6">Rewards</h1>
+          <p className="text-gray-400 text-sm">
+            Customers exchange loyalty points for these rewards and get a voucher code to show at the counter.
+          </p>
+        </div>
+        <button
+          onClick={openCreate}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Reward</span>
+        </button>
+      </div>
+
+      <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-4">
+        <h2 className="font-gaming text-xl font-bold text-neon-blue">Validate Voucher</h2>
+        <form onSubmit={handleCheckVoucher} className="flex space-x-2">
+          <input
+            type="text"
+            value={voucherCode}
+            onChange={(e) => setVoucherCode(e.target.value.toUpperCase())}
+            placeholder="RW-XXXXXXXX"
+            className="flex-1 px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white font-mono"
+            required
+          />
+          <button
+            type="submit"
+            disabled={checkingVoucher}
+            className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Search className="w-4 h-4" />
+            <span>Check</span>
+          </button>
+        </form>
+
+        {voucher && (
+          <div className="flex justify-between items-center p-4 bg-dark-bg rounded-lg">
+            <div>
+              <div className="text-white font-medium">{voucher.reward?.name || 'Reward'}</div>
+              <div className="text-gray-400 text-sm">
+                {voucher.customer_name || 'Customer'} · {voucher.points_spent} points ·{' '}
+                {voucherStatus === 'used' && voucher.used_at
+                  ? `used ${new Date(voucher.used_at).toLocaleString('id-ID')}`
+                  : `valid until ${new Date(voucher.expires_at).toLocaleDateString('id-ID')}`}
+              </div>
+            </div>
+            <div className="flex items-center space-x-2">
+              <span className={`px-2 py-1 rounded text-xs ${
+                voucherStatus === 'active' ? 'bg-green-600/20 text-green-400' : 'bg-gray-600/20 text-gray-400'
+              }`}>
+                {voucherStatus}
+              </span>
+              {voucherStatus === 'active' && (
+                <>
+                  <button
+                    onClick={handleUseVoucher}
+                    className="px-4 py-2 bg-neon-green hover:bg-neon-green/80 text-black rounded-lg transition-colors"
+                  >
+                    Mark Used
+                  </button>
+                  <button
+                    onClick={handleCancelVoucher}
+                    className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                  >
+                    Cancel
+                  </button>
+                </>
+              )}
+            </div>
+          </div>
+        )}
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Reward</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Type</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Points</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Stock</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Valid</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {rewards.map(reward => (
+                <tr key={reward.id} className="hover:bg-dark-hover">
+                  <td className="px-6 py-4">
+                    <div className="text-white font-medium">{reward.name}</div>
+                    {reward.description && <div className="text-gray-400 text-sm">{reward.description}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-gray-300">
+                    {REWARD_TYPE_LABELS[reward.reward_type]}
+                    {reward.reward_type === 'free_hours' && ` (${reward.value}h)`}
+                    {reward.event && <div className="text-gray-400 text-sm">{reward.event.title}</div>}
+                  </td>
+                  <td className="px-6 py-4 text-neon-green font-bold">{reward.points_cost}</td>
+                  <td className="px-6 py-4 text-gray-300">
+                    {reward.stock != null ? reward.stock : <span className="text-gray-500">Unlimited</span>}
+                  </td>
+                  <td className="px-6 py-4 text-gray-300 text-sm">{reward.valid_days} days</td>
+                  <td className="px-6 py-4">
+                    <span className={`px-2 py-1 rounded text-xs ${
+                      !reward.is_active
+                        ? 'bg-gray-600/20 text-gray-400'
+                        : reward.stock === 0
+                        ? 'bg-red-600/20 text-red-400'
+                        : 'bg-green-600/20 text-green-400'
+                    }`}>
+                      {!reward.is_active ? 'Inactive' : reward.stock === 0 ? 'Out of stock' : 'Active'}
+                    </span>
+                  </td>
+                  <td className="px-6 py-4">
+                    <div className="flex space-x-2">
+                      <button
+                        onClick={() => handleEdit(reward)}
+                        className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                      >
+                        <Edit className="w-4 h-4" />
+                      </button>
+                      <button
+                        onClick={() => handleDelete(reward)}
+                        className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                      >
+                        <Trash2 className="w-4 h-4" />
+                      </button>
+                    </div>
+                  </td>
+                </tr>
+              ))}
+            </tbody>
+          </table>
+        )}
+
+        {rewards.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <Gift className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No rewards</p>
+            <p className="text-gray-500">Add something customers can spend their points on</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-2xl">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingReward ? 'Edit Reward' : 'Add Reward'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Type</label>
+                  <select
+                    value={formData.reward_type}
+                    onChange={(e) => setFormData({...formData, reward_type: e.target.value as Reward['reward_type']})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    {Object.entries(REWARD_TYPE_LABELS).map(([type, label]) => (
+                      <option key={type} value={type}>{label}</option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <div>
+                <label className="block text-sm font-medium text-gray-300 mb-2">Description</label>
+                <textarea
+                  value={formData.description}
+                  onChange={(e) => setFormData({...formData, description: e.target.value})}
+                  className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  rows={2}
+                />
+              </div>
+
+              {formData.reward_type === 'free_hours' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Hours</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.value}
+                    onChange={(e) => setFormData({...formData, value: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              )}
+
+              {formData.reward_type === 'event_entry' && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Event</label>
+                  <select
+                    value={formData.event_id}
+                    onChange={(e) => setFormData({...formData, event_id: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  >
+                    <option value="">Select an event</option>
+                    {events.map(event => (
+                      <option key={event.id} value={event.id}>{event.title} ({event.event_date})</option>
+                    ))}
+                  </select>
+                </div>
+              )}
+
+              <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Point Cost</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.points_cost}
+                    onChange={(e) => setFormData({...formData, points_cost: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Stock (empty for unlimited)</label>
+                  <input
+                    type="number"
+                    min="0"
+                    value={formData.stock}
+                    onChange={(e) => setFormData({...formData, stock: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Voucher Valid (days)</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.valid_days}
+                    onChange={(e) => setFormData({...formData, valid_days: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({...formData, is_active: e.target.checked})}
+                  className="rounded"
+                />
+                <span>Active</span>
+              </label>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  {editingReward ? 'Update Reward' : 'Create Reward'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminRewards;
@@ -1,14 +1,584 @@
-import React from 'react';
+import React, { useState, useEffect } from 'react';
+import { Save, RotateCcw, Plus, Trash2 } from 'lucide-react';
+import { businessHoursService, settingsService } from '../../services/api';
+import { DEFAULT_CANCELLATION_POLICY } from '../../lib/cancellationPolicy';
+import { DEFAULT_BUSINESS_HOURS, WEEKDAY_NAMES } from '../../lib/businessHours';
+import {
+  DEFAULT_BIRTHDAY_REWARD,
+  DEFAULT_LOYALTY_EXPIRY,
+  DEFAULT_LOYALTY_REDEMPTION,
+  DEFAULT_REFERRAL_REWARDS
+} from '../../lib/loyalty';
+import { formatTime } from '../../lib/booking';
+import {
+  BirthdayRewardSettings,
+  BusinessHourException,
+  BusinessHours,
+  BusinessHoursDay,
+  CancellationPolicy,
+  LoyaltyExpirySettings,
+  LoyaltyRedemptionSettings,
+  ReferralRewardSettings,
+  SlotMinutes
+} from '../../types';
+
+const EMPTY_EXCEPTION: Omit<BusinessHourException, 'id'> = {
+  date: '',
+  type: 'closed',
+  open_time: '10:00',
+  close_time: '23:00',
+  note: ''
+};
 
 const AdminSettings = () => {
+  const [cancellationPolicy, setCancellationPolicy] = useState<CancellationPolicy>(DEFAULT_CANCELLATION_POLICY);
+  const [loading, setLoading] = useState(true);
+  const [saving, setSaving] = useState(false);
+  const [businessHours, setBusinessHours] = useState<BusinessHours>(DEFAULT_BUSINESS_HOURS);
+  const [newException, setNewException] = useState(EMPTY_EXCEPTION);
+  const [savingHours, setSavingHours] = useState(false);
+  const [loyaltyRedemption, setLoyaltyRedemption] = useState<LoyaltyRedemptionSettings>(DEFAULT_LOYALTY_REDEMPTION);
+  const [loyaltyExpiry, setLoyaltyExpiry] = useState<LoyaltyExpirySettings>(DEFAULT_LOYALTY_EXPIRY);
+  const [referralRewards, setReferralRewards] = useState<ReferralRewardSettings>(DEFAULT_REFERRAL_REWARDS);
+  const [birthdayReward, setBirthdayReward] = useState<BirthdayRewardSettings>(DEFAULT_BIRTHDAY_REWARD);
+  const [savingLoyalty, setSavingLoyalty] = useState(false);
+
+  useEffect(() => {
+    fetchSettings();
+  }, []);
+
+  const fetchSettings = async () => {
+    try {
+      setLoading(true);
+      const [policyResponse, hoursResponse, loyaltyResponse, expiryResponse, referralResponse, birthdayResponse] = await Promise.all([
+        settingsService.get('cancellation_policy'),
+        businessHoursService.get(),
+        settingsService.get('loyalty_redemption'),
+        settingsService.get('loyalty_expiry'),
+        settingsService.get('referral_rewards'),
+        settingsService.get('birthday_reward')
+      ]);
+      if (policyResponse.data) {
+        setCancellationPolicy({ ...DEFAULT_CANCELLATION_POLICY, ...policyResponse.data });
+      }
+      if (hoursResponse.data) {
+        setBusinessHours({ ...DEFAULT_BUSINESS_HOURS, ...hoursResponse.data });
+      }
+      if (loyaltyResponse.data) {
+        setLoyaltyRedemption({ ...DEFAULT_LOYALTY_REDEMPTION, ...loyaltyResponse.data });
+      }
+      if (expiryResponse.data) {
+        setLoyaltyExpiry({ ...DEFAULT_LOYALTY_EXPIRY, ...expiryResponse.data });
+      }
+      if (referralResponse.data) {
+        setReferralRewards({ ...DEFAULT_REFERRAL_REWARDS, ...referralResponse.data });
+      }
+      if (birthdayResponse.data) {
+        setBirthdayReward({ ...DEFAULT_BIRTHDAY_REWARD, ...birthdayResponse.data });
+      }
+    } catch (error) {
+      console.error('Error fetching settings:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const handleSavePolicy = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSaving(true);
+      await settingsService.update('cancellation_policy', cancellationPolicy);
+      alert('Cancellation policy saved.');
+    } catch (error) {
+      console.error('Error saving cancellation policy:', error);
+      alert('Error saving cancellation policy.');
+    } finally {
+      setSaving(false);
+    }
+  };
+
+  const updatePolicy = (field: keyof CancellationPolicy, value: string) => {
+    setCancellationPolicy({ ...cancellationPolicy, [field]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  const handleSaveLoyalty = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingLoyalty(true);
+      await Promise.all([
+        settingsService.update('loyalty_redemption', loyaltyRedemption),
+        settingsService.update('loyalty_expiry', loyaltyExpiry),
+        settingsService.update('referral_rewards', referralRewards),
+        settingsService.update('birthday_reward', birthdayReward)
+      ]);
+      alert('Loyalty settings saved.');
+    } catch (error) {
+      console.error('Error saving loyalty settings:', error);
+      alert('Error saving loyalty settings.');
+    } finally {
+      setSavingLoyalty(false);
+    }
+  };
+
+  const updateLoyalty = (field: keyof LoyaltyRedemptionSettings, value: string) => {
+    setLoyaltyRedemption({ ...loyaltyRedemption, [field]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  const updateExpiry = (field: keyof LoyaltyExpirySettings, value: string) => {
+    setLoyaltyExpiry({ ...loyaltyExpiry, [field]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  const updateReferral = (field: keyof ReferralRewardSettings, value: string) => {
+    setReferralRewards({ ...referralRewards, [field]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  const updateBirthday = (field: 'points' | 'free_hours', value: string) => {
+    setBirthdayReward({ ...birthdayReward, [field]: Math.max(0, parseInt(value) || 0) });
+  };
+
+  const updateDay = (weekday: number, changes: Partial<BusinessHoursDay>) => {
+    setBusinessHours({
+      ...businessHours,
+      days: businessHours.days.map(day => day.weekday === weekday ? { ...day, ...changes } : day)
+    });
+  };
+
+  const handleSaveHours = async (e: React.FormEvent) => {
+    e.preventDefault();
+    try {
+      setSavingHours(true);
+      await businessHoursService.update({
+        slot_minutes: businessHours.slot_minutes,
+        days: businessHours.days
+      });
+      alert('Business hours saved.');
+    } catch (error: any) {
+      console.error('Error saving business hours:', error);
+      alert(error.response?.data?.message || 'Error saving business hours.');
+    } finally {
+      setSavingHours(false);
+    }
+  };
+
+  const handleAddException = async () => {
+    if (!newException.date) {
+      alert('Pick a date for the exception.');
+      return;
+    }
+
+    try {
+      const response = await businessHoursService.createException(
+        newException.type === 'extended'
+          ? newException
+          : { date: newException.date, type: newException.type, note: newException.note }
+      );
+      setBusinessHours({
+        ...businessHours,
+        exceptions: [...businessHours.exceptions, response.data as BusinessHourException]
+          .sort((a, b) => a.date.localeCompare(b.date))
+      });
+      setNewException(EMPTY_EXCEPTION);
+    } catch (error: any) {
+      console.error('Error adding exception:', error);
+      alert(error.response?.data?.message || 'Error adding exception.');
+    }
+  };
+
+  const handleDeleteException = async (exception: BusinessHourException) => {
+    if (!window.confirm(`Remove the exception on ${exception.date}?`)) return;
+
+    try {
+      await businessHoursService.deleteException(exception.id);
+      setBusinessHours({
+        ...businessHours,
+        exceptions: businessHours.exceptions.filter(item => item.id !== exception.id)
+      });
+    } catch (error) {
+      console.error('Error deleting exception:', error);
+      alert('Error deleting exception.');
+    }
+  };
+
   return (
     <div className="space-y-6">
       <h1 className="font-gaming text-3xl font-bold text-white">Settings</h1>
-      <div className="bg-dark-card border border-neon-blue/20 rounded-lg p-6">
-        <p className="text-gray-400">System settings coming soon...</p>
-      </div>
+
+      <form onSubmit={handleSavePolicy} className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-4">
+        <div className="flex justify-between items-center">
+          <div>
+            <h2 className="font-gaming text-xl font-bold text-neon-blue">Cancellation Policy</h2>
+            <p className="text-gray-400 text-sm">Applies when customers cancel or reschedule from their dashboard.</p>
+          </div>
+          {loading && <div className="animate-spin rounded-full h-5 w-5 border-b-2 border-neon-blue"></div>}
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Free cancellation (hours before)</label>
+            <input
+              type="number"
+              min="0"
+              value={cancellationPolicy.free_cancel_hours}
+              onChange={(e) => updatePolicy('free_cancel_hours', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Partial refund after that (%)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={cancellationPolicy.partial_refund_percent}
+              onChange={(e) => updatePolicy('partial_refund_percent', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Reschedule cutoff (hours before)</label>
+            <input
+              type="number"
+              min="0"
+              value={cancellationPolicy.reschedule_cutoff_hours}
+              onChange={(e) => updatePolicy('reschedule_cutoff_hours', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          Full refund up to {cancellationPolicy.free_cancel_hours}h before the session,
+          {' '}{cancellationPolicy.partial_refund_percent}% refund after that, no refund once the session is in progress.
+        </p>
+
+        <div className="flex space-x-2">
+          <button
+            type="button"
+            onClick={() => setCancellationPolicy(DEFAULT_CANCELLATION_POLICY)}
+            className="flex items-center space-x-2 px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+          >
+            <RotateCcw className="w-4 h-4" />
+            <span>Reset</span>
+          </button>
+          <button
+            type="submit"
+            disabled={saving}
+            className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+          >
+            <Save className="w-4 h-4" />
+            <span>{saving ? 'Saving...' : 'Save Policy'}</span>
+          </button>
+        </div>
+      </form>
+
+      <form onSubmit={handleSaveLoyalty} className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="font-gaming text-xl font-bold text-neon-blue">Loyalty Points</h2>
+          <p className="text-gray-400 text-sm">How much points are worth at checkout and how long customers have to spend them.</p>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Value per point (Rp)</label>
+            <input
+              type="number"
+              min="1"
+              value={loyaltyRedemption.rupiah_per_point}
+              onChange={(e) => updateLoyalty('rupiah_per_point', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Minimum redemption (points)</label>
+            <input
+              type="number"
+              min="0"
+              value={loyaltyRedemption.min_points}
+              onChange={(e) => updateLoyalty('min_points', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Cap per order (% of total)</label>
+            <input
+              type="number"
+              min="0"
+              max="100"
+              value={loyaltyRedemption.max_percent_per_order}
+              onChange={(e) => updateLoyalty('max_percent_per_order', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          {loyaltyRedemption.min_points} points minimum, each worth Rp {loyaltyRedemption.rupiah_per_point.toLocaleString()},
+          {' '}covering up to {loyaltyRedemption.max_percent_per_order}% of an order. Points come back if the order is cancelled.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Points expire after (days)</label>
+            <input
+              type="number"
+              min="1"
+              value={loyaltyExpiry.expire_after_days}
+              onChange={(e) => updateExpiry('expire_after_days', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Warn customers (days before, 0 to disable)</label>
+            <input
+              type="number"
+              min="0"
+              value={loyaltyExpiry.warn_days_before}
+              onChange={(e) => updateExpiry('warn_days_before', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+        </div>
+
+        <p className="text-sm text-gray-500">
+          A new expiry period applies to points earned from now on; points already credited keep their date.
+        </p>
+
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Referral reward for the referrer (points)</label>
+            <input
+              type="number"
+              min="0"
+              value={referralRewards.referrer_points}
+              onChange={(e) => updateReferral('referrer_points', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Referral reward for the new customer (points)</label>
+            <input
+              type="number"
+              min="0"
+              value={referralRewards.referee_points}
+              onChange={(e) => updateReferral('referee_points', e.target.value)}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+              required
+            />
+          </div>
+        </div>
+
+        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-300 mb-2">Birthday reward</label>
+            <select
+              value={birthdayReward.type}
+              onChange={(e) => setBirthdayReward({ ...birthdayReward, type: e.target.value as BirthdayRewardSettings['type'] })}
+              className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+            >
+              <option value="points">Points</option>
+              <option value="voucher">Free-hour voucher</option>
+            </select>
+          </div>
+
+          {birthdayReward.type === 'points' ? (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Birthday points</label>
+              <input
+                type="number"
+                min="0"
+                value={birthdayReward.points}
+                onChange={(e) => updateBirthday('points', e.target.value)}
+                className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                required
+              />
+            </div>
+          ) : (
+            <div>
+              <label className="block text-sm font-medium text-gray-300 mb-2">Free hours</label>
+              <input
+                type="number"
+                min="1"
+                value={birthdayReward.free_hours}
+                onChange={(e) => updateBirthday('free_hours', e.target.value)}
+                className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                required
+              />
+            </div>
+          )}
+        </div>
+        <p className="text-sm text-gray-500">
+          Granted once a year to customers with a date of birth, valid until the end of their birthday month.
+        </p>
+
+        <button
+          type="submit"
+          disabled={savingLoyalty}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{savingLoyalty ? 'Saving...' : 'Save Loyalty Settings'}</span>
+        </button>
+      </form>
+
+      <form onSubmit={handleSaveHours} className="bg-dark-card border border-neon-blue/20 rounded-lg p-6 space-y-4">
+        <div>
+          <h2 className="font-gaming text-xl font-bold text-neon-blue">Business Hours</h2>
+          <p className="text-gray-400 text-sm">
+            Builds the booking grid. A close time at or before the open time means closing after midnight.
+          </p>
+        </div>
+
+        <div className="w-48">
+          <label className="block text-sm font-medium text-gray-300 mb-2">Slot length</label>
+          <select
+            value={businessHours.slot_minutes}
+            onChange={(e) => setBusinessHours({ ...businessHours, slot_minutes: Number(e.target.value) as SlotMinutes })}
+            className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+          >
+            <option value={60}>60 minutes</option>
+            <option value={30}>30 minutes</option>
+          </select>
+        </div>
+
+        <div className="space-y-2">
+          {businessHours.days.map(day => (
+            <div key={day.weekday} className="grid grid-cols-4 gap-4 items-center">
+              <span className="text-white">{WEEKDAY_NAMES[day.weekday]}</span>
+              <input
+                type="time"
+                value={formatTime(day.open_time)}
+                disabled={day.is_closed}
+                onChange={(e) => updateDay(day.weekday, { open_time: e.target.value })}
+                className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+                required
+              />
+              <input
+                type="time"
+                value={formatTime(day.close_time)}
+                disabled={day.is_closed}
+                onChange={(e) => updateDay(day.weekday, { close_time: e.target.value })}
+                className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+                required
+              />
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={day.is_closed}
+                  onChange={(e) => updateDay(day.weekday, { is_closed: e.target.checked })}
+                  className="rounded"
+                />
+                <span>Closed</span>
+              </label>
+            </div>
+          ))}
+        </div>
+
+        <button
+          type="submit"
+          disabled={savingHours}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors disabled:opacity-50"
+        >
+          <Save className="w-4 h-4" />
+          <span>{savingHours ? 'Saving...' : 'Save Hours'}</span>
+        </button>
+
+        <div className="border-t border-gray-700 pt-4 space-y-3">
+          <h3 className="font-bold text-white">Closures, Extended Hours & Holidays</h3>
+
+          {businessHours.exceptions.length === 0 ? (
+            <p className="text-sm text-gray-500">No special dates.</p>
+          ) : (
+            businessHours.exceptions.map(exception => (
+              <div key={exception.id} className="flex justify-between items-center p-3 bg-dark-bg rounded-lg">
+                <div>
+                  <span className="text-white font-medium">{exception.date}</span>
+                  <span className={`ml-3 text-sm ${
+                    exception.type === 'closed' ? 'text-red-400' : exception.type === 'holiday' ? 'text-amber-400' : 'text-green-400'
+                  }`}>
+                    {exception.type === 'closed'
+                      ? 'Closed'
+                      : exception.type === 'holiday'
+                      ? 'Holiday pricing'
+                      : `Open ${formatTime(exception.open_time)} - ${formatTime(exception.close_time)}`}
+                  </span>
+                  {exception.note && <span className="ml-3 text-sm text-gray-400">{exception.note}</span>}
+                </div>
+                <button
+                  type="button"
+                  onClick={() => handleDeleteException(exception)}
+                  className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                >
+                  <Trash2 className="w-4 h-4" />
+                </button>
+              </div>
+            ))
+          )}
+
+          <div className="grid grid-cols-1 md:grid-cols-6 gap-2">
+            <input
+              type="date"
+              value={newException.date}
+              onChange={(e) => setNewException({ ...newException, date: e.target.value })}
+              className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+            />
+            <select
+              value={newException.type}
+              onChange={(e) => setNewException({ ...newException, type: e.target.value as BusinessHourException['type'] })}
+              className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+            >
+              <option value="closed">Closed</option>
+              <option value="extended">Special hours</option>
+              <option value="holiday">Holiday (regular hours)</option>
+            </select>
+            <input
+              type="time"
+              value={newException.open_time}
+              disabled={newException.type !== 'extended'}
+              onChange={(e) => setNewException({ ...newException, open_time: e.target.value })}
+              className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+            />
+            <input
+              type="time"
+              value={newException.close_time}
+              disabled={newException.type !== 'extended'}
+              onChange={(e) => setNewException({ ...newException, close_time: e.target.value })}
+              className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white disabled:opacity-50"
+            />
+            <input
+              type="text"
+              placeholder="Note (e.g. Lebaran)"
+              value={newException.note}
+              onChange={(e) => setNewException({ ...newException, note: e.target.value })}
+              className="px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+            />
+            <button
+              type="button"
+              onClick={handleAddException}
+              className="flex items-center justify-center space-x-2 px-4 py-2 bg-neon-purple hover:bg-neon-purple/80 rounded-lg transition-colors"
+            >
+              <Plus className="w-4 h-4" />
+              <span>Add</span>
+            </button>
+          </div>
+        </div>
+      </form>
     </div>
   );
 };
 
-export default AdminSettings;
\ No newline at end of file
+export default AdminSettings;
@@ -0,0 +1,291 @@
+import React, { useState, useEffect } from 'react';
+import { Plus, Edit, Trash2, MapPin, CheckCircle, XCircle, Users, X } from 'lucide-react';
+import { consoleService, stationService } from '../../services/api';
+import { Console, Station } from '../../types';
+
+const EMPTY_FORM = {
+  name: '',
+  location: '',
+  seats: '1',
+  console_id: '',
+  is_active: true
+};
+
+const AdminStations = () => {
+  const [stations, setStations] = useState<Station[]>([]);
+  const [consoles, setConsoles] = useState<Console[]>([]);
+  const [loading, setLoading] = useState(true);
+  const [showModal, setShowModal] = useState(false);
+  const [editingStation, setEditingStation] = useState<Station | null>(null);
+  const [formData, setFormData] = useState(EMPTY_FORM);
+
+  useEffect(() => {
+    fetchData();
+  }, []);
+
+  const fetchData = async () => {
+    try {
+      setLoading(true);
+      const [stationsResponse, consolesResponse] = await Promise.all([
+        stationService.getAll(),
+        consoleService.getAll()
+      ]);
+      setStations(stationsResponse.data || []);
+      setConsoles(consolesResponse.data || []);
+    } catch (error) {
+      console.error('Error fetching stations:', error);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  const openCreate = () => {
+    setEditingStation(null);
+    setFormData(EMPTY_FORM);
+    setShowModal(true);
+  };
+
+  const handleEdit = (station: Station) => {
+    setEditingStation(station);
+    setFormData({
+      name: station.name || '',
+      location: station.location || '',
+      seats: String(station.seats || 1),
+      console_id: station.console_id ? String(station.console_id) : '',
+      is_active: station.is_active
+    });
+    setShowModal(true);
+  };
+
+  const handleSubmit = async (e: React.FormEvent) => {
+    e.preventDefault();
+    const stationData = {
+      name: formData.name,
+      location: formData.location || undefined,
+      seats: parseInt(formData.seats) || 1,
+      // null detaches the console; undefined would leave it attached
+      console_id: formData.console_id ? Number(formData.console_id) : null,
+      is_active: formData.is_active
+    };
+
+    try {
+      if (editingStation) {
+        await stationService.update(editingStation.id, stationData);
+      } else {
+        await stationService.create(stationData);
+      }
+      setShowModal(false);
+      setEditingStation(null);
+      fetchData();
+    } catch (error: any) {
+      console.error('Error saving station:', error);
+      alert(error.response?.data?.message || 'Error saving station.');
+    }
+  };
+
+  const handleDelete = async (station: Station) => {
+    if (window.confirm(`Are you sure you want to delete "${station.name}"? Deactivate it instead to keep its booking history linked.`)) {
+      try {
+        await stationService.delete(station.id);
+        fetchData();
+      } catch (error) {
+        console.error('Error deleting station:', error);
+        alert('Error deleting station.');
+      }
+    }
+  };
+
+  // A console can only sit at one station at a time
+  const isConsoleTaken = (consoleId: number) =>
+    stations.some(station => station.console_id === consoleId && station.id !== editingStation?.id);
+
+  return (
+    <div className="space-y-6">
+      <div className="flex justify-between items-center">
+        <h1 className="font-gaming text-3xl font-bold text-white mt-6">Station Management</h1>
+        <button
+          onClick={openCreate}
+          className="flex items-center space-x-2 px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+        >
+          <Plus className="w-4 h-4" />
+          <span>Add Station</span>
+        </button>
+      </div>
+
+      <div className="bg-dark-card border border-neon-purple/20 rounded-lg overflow-hidden">
+        {loading ? (
+          <div className="flex justify-center py-12">
+            <div className="animate-spin rounded-full h-8 w-8 border-b-2 border-neon-blue"></div>
+          </div>
+        ) : (
+          <table className="w-full">
+            <thead className="bg-dark-bg">
+              <tr>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Station</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Location</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Seats</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Console</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Status</th>
+                <th className="px-6 py-3 text-left text-xs font-medium text-gray-400 uppercase">Actions</th>
+              </tr>
+            </thead>
+            <tbody className="divide-y divide-gray-700">
+              {stations.map(station => {
+                const attached = station.console || consoles.find(c => c.id === station.console_id);
+                return (
+                  <tr key={station.id} className="hover:bg-dark-hover">
+                    <td className="px-6 py-4 text-white font-medium">{station.name}</td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {station.location ? (
+                        <span className="flex items-center"><MapPin className="w-4 h-4 mr-1 text-neon-purple" />{station.location}</span>
+                      ) : '-'}
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">
+                      <span className="flex items-center"><Users className="w-4 h-4 mr-1" />{station.seats}</span>
+                    </td>
+                    <td className="px-6 py-4 text-gray-300">
+                      {attached ? `${attached.name} (${attached.type?.toUpperCase()})` : <span className="text-yellow-400">No console</span>}
+                    </td>
+                    <td className="px-6 py-4">
+                      {station.is_active ? (
+                        <span className="flex items-center text-green-400"><CheckCircle className="w-4 h-4 mr-1" />Active</span>
+                      ) : (
+                        <span className="flex items-center text-gray-400"><XCircle className="w-4 h-4 mr-1" />Inactive</span>
+                      )}
+                    </td>
+                    <td className="px-6 py-4">
+                      <div className="flex space-x-2">
+                        <button
+                          onClick={() => handleEdit(station)}
+                          className="p-2 text-neon-green hover:bg-neon-green/20 rounded"
+                        >
+                          <Edit className="w-4 h-4" />
+                        </button>
+                        <button
+                          onClick={() => handleDelete(station)}
+                          className="p-2 text-red-400 hover:bg-red-400/20 rounded"
+                        >
+                          <Trash2 className="w-4 h-4" />
+                        </button>
+                      </div>
+                    </td>
+                  </tr>
+                );
+              })}
+            </tbody>
+          </table>
+        )}
+
+        {stations.length === 0 && !loading && (
+          <div className="text-center py-12">
+            <MapPin className="w-16 h-16 text-gray-600 mx-auto mb-4" />
+            <p className="text-gray-400 text-lg mb-2">No stations yet</p>
+            <p className="text-gray-500">Add a station and attach a console to make it bookable</p>
+          </div>
+        )}
+      </div>
+
+      {showModal && (
+        <div className="fixed inset-0 bg-black/50 flex items-center justify-center z-50">
+          <div className="bg-dark-card border border-neon-purple/20 rounded-lg p-6 w-full max-w-lg">
+            <div className="flex justify-between items-center mb-6">
+              <h2 className="font-gaming text-xl font-bold text-neon-purple">
+                {editingStation ? 'Edit Station' : 'Add New Station'}
+              </h2>
+              <button
+                onClick={() => setShowModal(false)}
+                className="p-2 hover:bg-dark-hover rounded-lg transition-colors"
+              >
+                <X className="w-5 h-5 text-gray-400" />
+              </button>
+            </div>
+
+            <form onSubmit={handleSubmit} className="space-y-4">
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Name</label>
+                  <input
+                    type="text"
+                    value={formData.name}
+                    onChange={(e) => setFormData({...formData, name: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Location / Room</label>
+                  <input
+                    type="text"
+                    placeholder="e.g., VIP Room"
+                    value={formData.location}
+                    onChange={(e) => setFormData({...formData, location: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  />
+                </div>
+              </div>
+
+              <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Seats</label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.seats}
+                    onChange={(e) => setFormData({...formData, seats: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                    required
+                  />
+                </div>
+
+                <div>
+                  <label className="block text-sm font-medium text-gray-300 mb-2">Console</label>
+                  <select
+                    value={formData.console_id}
+                    onChange={(e) => setFormData({...formData, console_id: e.target.value})}
+                    className="w-full px-3 py-2 bg-dark-bg border border-gray-600 rounded-lg text-white"
+                  >
+                    <option value="">No console</option>
+                    {consoles.map(gameConsole => (
+                      <option key={gameConsole.id} value={gameConsole.id} disabled={isConsoleTaken(gameConsole.id)}>
+                        {gameConsole.name} ({gameConsole.type?.toUpperCase()}){isConsoleTaken(gameConsole.id) ? ' - in use' : ''}
+                      </option>
+                    ))}
+                  </select>
+                </div>
+              </div>
+
+              <label className="flex items-center space-x-2 text-gray-300">
+                <input
+                  type="checkbox"
+                  checked={formData.is_active}
+                  onChange={(e) => setFormData({...formData, is_active: e.target.checked})}
+                  className="rounded"
+                />
+                <span>Active (shown in the booking grid)</span>
+              </label>
+
+              <div className="flex justify-end space-x-2 pt-4">
+                <button
+                  type="button"
+                  onClick={() => setShowModal(false)}
+                  className="px-4 py-2 bg-gray-600 hover:bg-gray-700 rounded-lg transition-colors"
+                >
+                  Cancel
+                </button>
+                <button
+                  type="submit"
+                  className="px-4 py-2 bg-neon-blue hover:bg-neon-blue/80 rounded-lg transition-colors"
+                >
+                  {editingStation ? 'Update Station' : 'Create Station'}
+                </button>
+              </div>
+            </form>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AdminStations;
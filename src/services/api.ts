@@ -1,4 +1,23 @@
 import axios from "axios";
+import {
+  BusinessHourException,
+  BusinessHoursDay,
+  CasualMatchPayload,
+  CheckoutPayload,
+  BracketFormat,
+  Extra,
+  LeaderboardFilters,
+  MatchResultPayload,
+  MembershipTier,
+  PricingRule,
+  Promotion,
+  Reward,
+  SeasonPayload,
+  SeriesPayload,
+  SlotHoldPayload,
+  Station,
+  User,
+} from "../types";
 
 const API_BASE_URL =
   import.meta.env.VITE_API_URL || "http://localhost:8000/api/v1";
@@ -59,6 +78,21 @@ export const consoleService = {
   delete: (id: string) => api.delete(`/consoles/${id}`),
 };
 
+export const stationService = {
+  getAll: (params?: { active?: boolean }) => api.get("/stations", { params }),
+  getById: (id: number) => api.get(`/stations/${id}`),
+  create: (data: Partial<Station>) => api.post("/stations", data),
+  update: (id: number, data: Partial<Station>) => api.put(`/stations/${id}`, data),
+  delete: (id: number) => api.delete(`/stations/${id}`),
+};
+
+export const extrasService = {
+  getAll: (params?: { active?: boolean }) => api.get("/extras", { params }),
+  create: (data: Partial<Extra>) => api.post("/extras", data),
+  update: (id: number, data: Partial<Extra>) => api.put(`/extras/${id}`, data),
+  delete: (id: number) => api.delete(`/extras/${id}`),
+};
+
 export const gameService = {
   getAll: async (params?: any) => {
     try {
@@ -93,6 +127,63 @@ export const eventService = {
   delete: (id: string) => api.delete(`/events/${id}`),
 };
 
+export const tournamentService = {
+  getParticipants: (eventId: number) => api.get(`/events/${eventId}/participants`),
+  getBracket: (eventId: number) => api.get(`/events/${eventId}/bracket`),
+  getStandings: (eventId: number) => api.get(`/events/${eventId}/standings`),
+  // Seeds are participant ids, top seed first; omitted participants follow in registration order.
+  // `groups` applies to round robin, `rounds` to Swiss
+  generateBracket: (
+    eventId: number,
+    data: { format: BracketFormat; seeds?: number[]; groups?: number; rounds?: number }
+  ) => api.post(`/admin/events/${eventId}/bracket`, data),
+  rebuildBracket: (eventId: number) =>
+    api.post(`/admin/events/${eventId}/bracket/rebuild`),
+  getMyReports: (eventId: number) => api.get(`/events/${eventId}/match-reports`),
+  reportResult: (matchId: number, data: MatchResultPayload) =>
+    api.post(`/tournament-matches/${matchId}/report`, data),
+  getDisputes: () => api.get("/admin/match-disputes"),
+  getOverrides: (eventId: number) => api.get(`/admin/events/${eventId}/result-overrides`),
+  // Decides a ready or disputed match, or corrects a confirmed one; every call is audited
+  recordResult: (matchId: number, data: MatchResultPayload) =>
+    api.post(`/admin/tournament-matches/${matchId}/result`, data),
+};
+
+export const teamService = {
+  // The logged-in player's team for an event with its roster; null when they have none
+  getMine: (eventId: number) => api.get(`/events/${eventId}/teams/me`),
+  getInvites: (eventId: number) => api.get(`/events/${eventId}/teams/invites`),
+  create: (eventId: number, data: { name: string }) => api.post(`/events/${eventId}/teams`, data),
+  // `identifier` is the player's email or full name
+  invite: (teamId: number, data: { identifier: string }) => api.post(`/teams/${teamId}/members`, data),
+  respondInvite: (memberId: number, accept: boolean) =>
+    api.post(`/team-members/${memberId}/respond`, { accept }),
+  // The captain removes a player or cancels an invite; players remove themselves to leave
+  removeMember: (teamId: number, userId: number) => api.delete(`/teams/${teamId}/members/${userId}`),
+  disband: (teamId: number) => api.delete(`/teams/${teamId}`),
+  // Registers the team as one participant; the entry fee is charged once
+  register: (teamId: number) => api.post(`/teams/${teamId}/register`),
+};
+
+export const leaderboardService = {
+  getRatings: (params?: LeaderboardFilters) => api.get("/leaderboard", { params }),
+  getSeasons: () => api.get("/seasons"),
+  getCasualMatches: () => api.get("/admin/casual-matches"),
+  recordCasualMatch: (data: CasualMatchPayload) => api.post("/admin/casual-matches", data),
+  // Deleting a casual match recomputes every rating
+  deleteCasualMatch: (id: number) => api.delete(`/admin/casual-matches/${id}`),
+  recompute: () => api.post("/admin/leaderboard/recompute"),
+  // Final standings of an archived season
+  getSeasonStandings: (seasonId: number, params?: Omit<LeaderboardFilters, "season_id">) =>
+    api.get(`/seasons/${seasonId}/standings`, { params }),
+  getMyAwards: () => api.get("/seasons/awards/me"),
+  createSeason: (data: SeasonPayload) => api.post("/admin/seasons", data),
+  updateSeason: (id: number, data: SeasonPayload) => api.put(`/admin/seasons/${id}`, data),
+  deleteSeason: (id: number) => api.delete(`/admin/seasons/${id}`),
+  // Archives an ended season now instead of waiting for the nightly rollover
+  archiveSeason: (id: number) => api.post(`/admin/seasons/${id}/archive`),
+};
+
 export const bookingService = {
   getAll: (params?: any) => api.get("/bookings", { params }),
   getById: (id: string) => api.get(`/bookings/${id}`),
@@ -101,6 +192,124 @@ export const bookingService = {
   delete: (id: string) => api.delete(`/bookings/${id}`),
   checkAvailability: (params: any) =>
     api.get("/bookings/check-availability", { params }),
+  // Customer self-service; the backend applies the cancellation policy
+  cancel: (id: number) => api.post(`/bookings/${id}/cancel`),
+  reschedule: (
+    id: number,
+    data: { booking_date: string; start_time: string }
+  ) => api.post(`/bookings/${id}/reschedule`, data),
+  getRefunds: (id: number) => api.get(`/bookings/${id}/refunds`),
+  // Staff log the games played in a session at the counter; replaces the logged list
+  getGames: (id: number) => api.get(`/admin/bookings/${id}/games`),
+  logGames: (id: number, gameIds: number[]) =>
+    api.put(`/admin/bookings/${id}/games`, { game_ids: gameIds }),
+  // Creates every slot in the cart in one transaction; returns a BookingOrder
+  checkout: (data: CheckoutPayload) => api.post("/bookings/checkout", data),
+  // Short-lived holds placed while a customer is picking slots
+  getHolds: (params: { date: string }) => api.get("/bookings/holds", { params }),
+  holdSlot: (data: SlotHoldPayload) => api.post("/bookings/holds", data),
+  releaseHold: (id: number, holdToken: string) =>
+    api.delete(`/bookings/holds/${id}`, { params: { hold_token: holdToken } }),
+  releaseAllHolds: (holdToken: string) =>
+    api.delete("/bookings/holds", { params: { hold_token: holdToken } }),
+};
+
+export const waitlistService = {
+  getAll: (params?: any) => api.get("/waitlist", { params }),
+  getById: (id: number) => api.get(`/waitlist/${id}`),
+  join: (data: {
+    console_station_id: number;
+    booking_date: string;
+    start_time: string;
+  }) => api.post("/waitlist", data),
+  // Cancels the entry; an open offer passes to the next customer in line
+  leave: (id: number) => api.post(`/waitlist/${id}/leave`),
+};
+
+export const bookingSeriesService = {
+  getAll: (params?: any) => api.get("/booking-series", { params }),
+  getById: (id: number) => api.get(`/booking-series/${id}`),
+  // Dry run: returns the occurrences that would clash without booking anything
+  preview: (data: SeriesPayload) => api.post("/booking-series/preview", data),
+  create: (data: SeriesPayload) => api.post("/booking-series", data),
+  update: (
+    id: number,
+    data: { start_time: string; duration_hours: number }
+  ) => api.put(`/booking-series/${id}`, data),
+  // Cancels every upcoming occurrence under the cancellation policy
+  cancel: (id: number) => api.post(`/booking-series/${id}/cancel`),
+};
+
+export const settingsService = {
+  get: (key: string) => api.get(`/settings/${key}`),
+  update: (key: string, value: unknown) =>
+    api.put(`/admin/settings/${key}`, { value }),
+};
+
+export const businessHoursService = {
+  get: (params?: { from?: string; to?: string }) => api.get("/business-hours", { params }),
+  update: (data: { slot_minutes: number; days: BusinessHoursDay[] }) =>
+    api.put("/admin/business-hours", data),
+  createException: (data: Omit<BusinessHourException, "id">) =>
+    api.post("/admin/business-hours/exceptions", data),
+  deleteException: (id: number) =>
+    api.delete(`/admin/business-hours/exceptions/${id}`),
+};
+
+export const pricingService = {
+  getRules: (params?: { active?: boolean }) => api.get("/pricing-rules", { params }),
+  createRule: (data: Partial<PricingRule>) => api.post("/admin/pricing-rules", data),
+  updateRule: (id: number, data: Partial<PricingRule>) =>
+    api.put(`/admin/pricing-rules/${id}`, data),
+  deleteRule: (id: number) => api.delete(`/admin/pricing-rules/${id}`),
+};
+
+export const promotionService = {
+  getActive: () => api.get("/promotions/active"),
+  validateCode: (code: string) => api.get(`/promotions/code/${encodeURIComponent(code)}`),
+  getAll: () => api.get("/admin/promotions"),
+  create: (data: Partial<Promotion>) => api.post("/admin/promotions", data),
+  update: (id: number, data: Partial<Promotion>) =>
+    api.put(`/admin/promotions/${id}`, data),
+  delete: (id: number) => api.delete(`/admin/promotions/${id}`),
+};
+
+export const loyaltyService = {
+  getBalance: () => api.get("/loyalty/balance"),
+  getHistory: (params?: { type?: string; limit?: number }) =>
+    api.get("/loyalty/history", { params }),
+};
+
+export const membershipService = {
+  getTiers: () => api.get("/membership/tiers"),
+  getStatus: () => api.get("/membership/me"),
+  updateTier: (level: string, data: Partial<MembershipTier>) =>
+    api.put(`/admin/membership/tiers/${level}`, data),
+  evaluateAll: () => api.post("/admin/membership/evaluate"),
+};
+
+export const referralService = {
+  getMine: () => api.get("/referrals/me"),
+};
+
+export const rewardService = {
+  getCatalog: () => api.get("/rewards"),
+  getMyVouchers: () => api.get("/rewards/vouchers"),
+  redeem: (id: number) => api.post(`/rewards/${id}/redeem`),
+  getAll: () => api.get("/admin/rewards"),
+  create: (data: Partial<Reward>) => api.post("/admin/rewards", data),
+  update: (id: number, data: Partial<Reward>) => api.put(`/admin/rewards/${id}`, data),
+  delete: (id: number) => api.delete(`/admin/rewards/${id}`),
+  // Staff at the counter: look a code up, then mark it used
+  getVoucher: (code: string) =>
+    api.get(`/admin/reward-vouchers/${encodeURIComponent(code)}`),
+  useVoucher: (code: string) =>
+    api.post(`/admin/reward-vouchers/${encodeURIComponent(code)}/use`),
+  cancelVoucher: (id: number) => api.post(`/admin/reward-vouchers/${id}/cancel`),
+};
+
+export const achievementService = {
+  getMine: () => api.get("/achievements/me"),
 };
 
 export const dashboardService = {
@@ -112,6 +321,7 @@ export const authService = {
   login: (data: unknown) => api.post("/login", data),
   logout: () => api.post("/logout"),
   me: () => api.get("/me"),
+  updateProfile: (data: Pick<User, "date_of_birth">) => api.put("/me", data),
 };
 
 export { api };
@@ -1,3 +1,11 @@
+export interface User {
+  id: number;
+  name: string;
+  email: string;
+  phone?: string;
+  date_of_birth?: string | null;
+}
+
 export interface Console {
   id: number;
   name: string;
@@ -15,6 +23,18 @@ export interface Console {
   updated_at: string;
 }
 
+export interface Station {
+  id: number;
+  name: string;
+  location?: string;
+  seats: number;
+  console_id?: number | null;
+  console?: Console;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
 export interface Game {
   id: number;
   title: string;
@@ -47,25 +67,708 @@ export interface Event {
   status: 'upcoming' | 'ongoing' | 'completed' | 'cancelled';
   image_url?: string;
   is_featured: boolean;
+  // Set once a bracket has been generated
+  bracket_format?: BracketFormat | null;
+  group_count?: number | null;
+  swiss_rounds?: number | null;
+  // Tournament matches count towards this game's rating
+  game_id?: number | null;
+  // Roster limits of a team event; null for individual events
+  min_team_size?: number | null;
+  max_team_size?: number | null;
+  created_at: string;
+  updated_at: string;
+}
+
+export type BracketFormat = 'single_elimination' | 'double_elimination' | 'round_robin' | 'swiss';
+
+export interface EventParticipant {
+  id: number;
+  event_id: number;
+  user_id: number;
+  name: string;
+  status: 'registered' | 'confirmed' | 'cancelled' | 'completed';
+  // 1 is the top seed
+  seed?: number | null;
+  group_number?: number | null;
+  rank?: number | null;
+  score?: number | null;
+  // Team events register one participant per team; `user_id` is the captain
+  team_id?: number | null;
+  team?: Pick<Team, 'id' | 'name'> | null;
+  // Charged once per registration, so once per team
+  entry_fee?: number;
+  registration_date: string;
+}
+
+export type TeamStatus = 'forming' | 'registered';
+
+export type TeamMemberStatus = 'invited' | 'accepted' | 'declined';
+
+export interface TeamMember {
+  id: number;
+  team_id: number;
+  user: Pick<User, 'id' | 'name' | 'email'>;
+  status: TeamMemberStatus;
+  responded_at?: string | null;
+  created_at: string;
+}
+
+export interface Team {
+  id: number;
+  event_id: number;
+  name: string;
+  captain_id: number;
+  status: TeamStatus;
+  members: TeamMember[];
+  created_at: string;
+}
+
+// An open invitation for the logged-in player
+export interface TeamInvite extends Omit<TeamMember, 'user'> {
+  team: Pick<Team, 'id' | 'name'>;
+  captain: Pick<User, 'id' | 'name'>;
+}
+
+export interface TournamentMatch {
+  id: number;
+  event_id: number;
+  bracket: 'winners' | 'losers' | 'grand_final' | 'group' | 'swiss';
+  group_number?: number | null;
+  round: number;
+  position: number;
+  participant1_id?: number | null;
+  participant2_id?: number | null;
+  participant1?: Pick<EventParticipant, 'id' | 'user_id' | 'name' | 'seed'> | null;
+  participant2?: Pick<EventParticipant, 'id' | 'user_id' | 'name' | 'seed'> | null;
+  score1?: number | null;
+  score2?: number | null;
+  winner_id?: number | null;
+  loser_id?: number | null;
+  status: 'pending' | 'ready' | 'completed' | 'bye' | 'skipped';
+  next_match_id?: number | null;
+  loser_next_match_id?: number | null;
+  // Set when the players' reports disagree
+  disputed_at?: string | null;
+  completed_at?: string | null;
+}
+
+export interface MatchResultPayload {
+  // null records a draw, which only league matches allow
+  winner_id: number | null;
+  score1?: number | null;
+  score2?: number | null;
+  // Staff only; kept in the override audit trail
+  reason?: string;
+}
+
+export interface MatchReport {
+  id: number;
+  match_id: number;
+  participant_id: number;
+  winner_id: number | null;
+  score1?: number | null;
+  score2?: number | null;
   created_at: string;
   updated_at: string;
 }
 
+// pending: waiting for the opponent, confirmed: both reports agree, disputed: staff decide
+export type MatchReportStatus = 'pending' | 'confirmed' | 'disputed';
+
+export interface MatchDispute extends TournamentMatch {
+  event: Pick<Event, 'id' | 'title' | 'bracket_format'>;
+  reports: MatchReport[];
+}
+
+export interface MatchResultOverride {
+  id: number;
+  match_id?: number | null;
+  event_id: number;
+  bracket: TournamentMatch['bracket'];
+  round: number;
+  position: number;
+  previous_status: TournamentMatch['status'];
+  previous_winner?: Pick<EventParticipant, 'id' | 'name'> | null;
+  previous_score1?: number | null;
+  previous_score2?: number | null;
+  winner?: Pick<EventParticipant, 'id' | 'name'> | null;
+  score1?: number | null;
+  score2?: number | null;
+  reason?: string | null;
+  staff?: Pick<User, 'id' | 'name'> | null;
+  created_at: string;
+}
+
+export interface LeagueStanding {
+  participant_id: number;
+  participant: Pick<EventParticipant, 'id' | 'name' | 'seed'>;
+  group_number?: number | null;
+  played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  score_for: number;
+  score_against: number;
+  points: number;
+  // Sum of the opponents' points; a Swiss tiebreaker
+  buchholz: number;
+  rank: number;
+}
+
+export interface Season {
+  id: number;
+  name: string;
+  starts_on: string;
+  ends_on: string;
+  // Share of the distance from the initial rating kept at the soft reset (0 - 1)
+  carry_over: number;
+  // Matches needed to be ranked in the final standings
+  min_matches: number;
+  // Set once the final standings are archived and rewards granted
+  archived_at?: string | null;
+  rewards?: SeasonReward[];
+  created_at: string;
+}
+
+export interface SeasonReward {
+  id?: number;
+  rank_from: number;
+  rank_to: number;
+  points: number;
+  free_hours: number;
+  voucher_valid_days: number;
+  badge_name?: string | null;
+  badge_icon?: string | null;
+}
+
+export type SeasonPayload = Pick<Season, 'name' | 'starts_on' | 'ends_on' | 'carry_over' | 'min_matches'> & {
+  rewards: SeasonReward[];
+};
+
+// A row of an archived season; frozen when the season ended
+export interface SeasonStanding {
+  id: number;
+  season_id: number;
+  user: Pick<User, 'id' | 'name'>;
+  game_id?: number | null;
+  console_type?: Game['console_type'] | null;
+  // null when the player fell short of the season's minimum matches
+  final_rank: number | null;
+  rating: number;
+  peak_rating: number;
+  matches_played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+}
+
+export interface SeasonAward {
+  id: number;
+  season: Pick<Season, 'id' | 'name' | 'ends_on'>;
+  final_rank: number;
+  points: number;
+  badge_name?: string | null;
+  badge_icon?: string | null;
+  promotion?: Pick<Promotion, 'id' | 'code' | 'valid_until'> | null;
+  created_at: string;
+}
+
+export interface PlayerRating {
+  id: number;
+  user: Pick<User, 'id' | 'name'>;
+  // All null is the all-time overall rating
+  season_id?: number | null;
+  game_id?: number | null;
+  console_type?: Game['console_type'] | null;
+  rating: number;
+  peak_rating: number;
+  matches_played: number;
+  wins: number;
+  draws: number;
+  losses: number;
+  current_rank: number;
+  last_played_at?: string | null;
+}
+
+export interface LeaderboardFilters {
+  season_id?: number;
+  game_id?: number;
+  console_type?: Game['console_type'];
+  limit?: number;
+}
+
+export interface CasualMatch {
+  id: number;
+  game_id: number;
+  game?: Pick<Game, 'id' | 'title' | 'console_type'>;
+  player1_id: number;
+  player2_id: number;
+  player1?: Pick<User, 'id' | 'name'>;
+  player2?: Pick<User, 'id' | 'name'>;
+  // null is a draw
+  winner_id: number | null;
+  score1?: number | null;
+  score2?: number | null;
+  played_at: string;
+  created_at: string;
+}
+
+export type CasualMatchPayload = Pick<
+  CasualMatch,
+  'game_id' | 'player1_id' | 'player2_id' | 'winner_id' | 'score1' | 'score2'
+> & { played_at?: string };
+
 export interface Booking {
   id: number;
   user_id: number;
   console_id: number;
+  console_station_id: number;
   booking_date: string;
   start_time: string;
   duration_hours: number;
   end_time?: string;
   total_amount: number;
+  // Slot price less the booking's share of order discounts (booking_paid_amount)
+  paid_amount?: number;
   status: 'pending' | 'confirmed' | 'in_progress' | 'completed' | 'cancelled';
   payment_status: 'pending' | 'paid' | 'refunded';
   notes?: string;
   created_at: string;
   updated_at: string;
   console?: Console;
+  station?: Station;
+  order_id?: number;
+  series_id?: number;
+  customer_name?: string;
+  customer_phone?: string;
+  customer_email?: string;
+  extras?: BookingExtra[];
+}
+
+export interface Extra {
+  id: number;
+  name: string;
+  description?: string;
+  price: number;
+  category: 'accessory' | 'food' | 'drink' | 'service';
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface ExtraSelection {
+  extra_id: number;
+  quantity: number;
+}
+
+export interface BookingExtra extends ExtraSelection {
+  id: number;
+  booking_id: number;
+  order_id?: number;
+  // Units given free by the membership tier, not part of total_price
+  free_quantity?: number;
+  unit_price: number;
+  total_price: number;
+  extra?: Extra;
+}
+
+// A game staff saw played during a session; counts towards game achievements
+export interface BookingGame {
+  id: number;
+  booking_id: number;
+  game_id: number;
+  logged_by?: number;
+  created_at: string;
+  game?: Pick<Game, 'id' | 'title' | 'console_type'>;
+}
+
+export interface SlotPrice {
+  start_time: string;
+  rate: number;
+  amount: number;
+  rules: string[];
+}
+
+export interface CheckoutSlot {
+  console_station_id: number;
+  start_time: string;
+  duration_hours: number;
+  amount: number;
+  breakdown?: SlotPrice[];
+}
+
+export interface CheckoutPayload {
+  booking_date: string;
+  slots: CheckoutSlot[];
+  extras: ExtraSelection[];
+  players: number;
+  slots_amount: number;
+  extras_amount: number;
+  discount_amount: number;
+  tier_discount_amount: number;
+  points_redeemed: number;
+  points_amount: number;
+  total_amount: number;
+  promo_code?: string;
+  notes?: string;
+  user_id?: number;
+  customer_name?: string;
+  customer_phone?: string;
+  customer_email?: string;
+  hold_token?: string;
+}
+
+export interface SlotHold {
+  id: number;
+  console_station_id: number;
+  booking_date: string;
+  start_time: string;
+  hold_token: string;
+  user_id?: number;
+  expires_at: string;
+  created_at: string;
+}
+
+export interface WaitlistEntry {
+  id: number;
+  user_id: number;
+  console_station_id: number;
+  console_name?: string;
+  station_name?: string;
+  booking_date: string;
+  start_time: string;
+  status: 'waiting' | 'offered' | 'accepted' | 'expired' | 'cancelled';
+  position?: number;
+  offered_at?: string;
+  offer_expires_at?: string;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface SlotHoldPayload {
+  console_station_id: number;
+  booking_date: string;
+  start_time: string;
+  hold_token: string;
+}
+
+export type RecurrenceFrequency = 'weekly' | 'biweekly';
+
+export interface RecurrenceRule {
+  frequency: RecurrenceFrequency;
+  occurrences?: number;
+  until_date?: string;
+}
+
+export interface SeriesPayload extends CheckoutPayload {
+  recurrence: RecurrenceRule;
+  skip_conflicts: boolean;
+}
+
+export interface SeriesConflict {
+  booking_date: string;
+  console_station_id: number;
+  start_time: string;
+}
+
+export interface BookingSeries {
+  id: number;
+  user_id?: number;
+  console_station_id: number;
+  start_time: string;
+  duration_hours: number;
+  frequency: RecurrenceFrequency;
+  starts_on: string;
+  occurrences?: number;
+  until_date?: string;
+  status: 'active' | 'cancelled' | 'completed';
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  bookings?: Booking[];
+}
+
+export interface SeriesResult {
+  series: BookingSeries[];
+  created: string[];
+  conflicts: SeriesConflict[];
+}
+
+export interface BookingOrder {
+  id: number;
+  reference: string;
+  user_id?: number;
+  customer_name?: string;
+  customer_phone?: string;
+  customer_email?: string;
+  booking_date: string;
+  players: number;
+  slots_amount: number;
+  extras_amount: number;
+  total_amount: number;
+  status: 'pending' | 'confirmed' | 'cancelled';
+  payment_status: 'pending' | 'paid' | 'refunded';
+  notes?: string;
+  created_at: string;
+  updated_at: string;
+  bookings: Booking[];
+}
+
+export interface CancellationPolicy {
+  free_cancel_hours: number;
+  partial_refund_percent: number;
+  reschedule_cutoff_hours: number;
+}
+
+export interface LoyaltyRedemptionSettings {
+  rupiah_per_point: number;
+  min_points: number;
+  max_percent_per_order: number;
+}
+
+export type LoyaltySource =
+  | 'booking'
+  | 'referral'
+  | 'event'
+  | 'birthday'
+  | 'redemption'
+  | 'expiry'
+  | 'achievement'
+  | 'season';
+
+export interface LoyaltyTransaction {
+  id: number;
+  points: number;
+  type: 'earned' | 'redeemed' | 'expired';
+  source: LoyaltySource;
+  description?: string;
+  booking_id?: number;
+  order_id?: number;
+  expires_at?: string;
+  created_at: string;
+}
+
+export interface LoyaltyBalance {
+  balance: number;
+  earned: number;
+  redeemed: number;
+  expired: number;
+  // Points lapsing within the warning window and the first date they do
+  expiring_points?: number;
+  next_expiry?: string;
+}
+
+export interface LoyaltyExpirySettings {
+  expire_after_days: number;
+  warn_days_before: number;
+}
+
+export type MembershipLevel = 'bronze' | 'silver' | 'gold' | 'platinum';
+
+export interface MembershipTier {
+  level: MembershipLevel;
+  name: string;
+  min_points: number;
+  min_hours: number;
+  discount_percent: number;
+  priority_booking_days: number;
+  free_extras: ExtraSelection[];
+  updated_at?: string;
+}
+
+export interface MembershipEvaluationSettings {
+  basis: 'points' | 'hours';
+  window_days: number;
+}
+
+export interface MembershipTierChange {
+  id: number;
+  from_level?: MembershipLevel | null;
+  to_level: MembershipLevel;
+  direction: 'promotion' | 'demotion';
+  basis: MembershipEvaluationSettings['basis'];
+  metric_value: number;
+  created_at: string;
+}
+
+export interface MembershipStatus {
+  level: MembershipLevel;
+  // Earned points or completed hours inside the evaluation window
+  metric_value: number;
+  evaluation: MembershipEvaluationSettings;
+  booking_window_days: number;
+  history: MembershipTierChange[];
+}
+
+export interface Referral {
+  id: number;
+  referee_name: string;
+  status: 'pending' | 'rewarded' | 'rejected';
+  rejection_reason?: string;
+  rewarded_at?: string;
+  created_at: string;
+}
+
+export interface ReferralStats {
+  referral_code: string;
+  invited: number;
+  pending: number;
+  rewarded: number;
+  points_earned: number;
+  referrals: Referral[];
+}
+
+export interface ReferralRewardSettings {
+  referrer_points: number;
+  referee_points: number;
+}
+
+export interface Reward {
+  id: number;
+  name: string;
+  description?: string;
+  reward_type: 'free_hours' | 'snack' | 'merch' | 'event_entry';
+  points_cost: number;
+  // Hours for free_hours rewards
+  value?: number | null;
+  event_id?: number | null;
+  event?: Pick<Event, 'id' | 'title' | 'event_date'>;
+  // Empty for unlimited
+  stock?: number | null;
+  valid_days: number;
+  image_url?: string;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface RewardVoucher {
+  id: number;
+  reward_id: number;
+  reward?: Reward;
+  user_id: number;
+  customer_name?: string;
+  code: string;
+  points_spent: number;
+  status: 'active' | 'used' | 'cancelled';
+  expires_at: string;
+  used_at?: string | null;
+  created_at: string;
+}
+
+export type AchievementRule =
+  | 'sessions'
+  | 'hours'
+  | 'longest_session'
+  | 'night_sessions'
+  | 'weekend_sessions'
+  | 'group_sessions'
+  | 'distinct_games'
+  | 'genre_complete'
+  | 'events_joined'
+  | 'tournament_wins'
+  | 'loyalty_points';
+
+export interface Achievement {
+  id: number;
+  name: string;
+  description: string;
+  icon?: string;
+  rule_type: AchievementRule;
+  rule_params: Record<string, string | number>;
+  target: number;
+  reward_points: number;
+  sort_order: number;
+  is_active: boolean;
+}
+
+export interface AchievementProgress {
+  achievement: Achievement;
+  // Capped at target; genre_complete targets follow the game library
+  progress: number;
+  target: number;
+  earned_at?: string | null;
+  points_awarded?: number;
+}
+
+export interface BirthdayRewardSettings {
+  type: 'points' | 'voucher';
+  points: number;
+  free_hours: number;
+}
+
+export interface BookingRefund {
+  id: number;
+  booking_id: number;
+  amount: number;
+  refund_percent: number;
+  reason: 'cancellation' | 'reschedule';
+  created_at: string;
+}
+
+export interface RescheduleResult {
+  booking: Booking;
+  price_difference: number;
+}
+
+export interface BusinessHoursDay {
+  weekday: number;
+  open_time: string;
+  close_time: string;
+  is_closed: boolean;
+}
+
+export interface BusinessHourException {
+  id: number;
+  date: string;
+  type: 'closed' | 'extended' | 'holiday';
+  open_time?: string;
+  close_time?: string;
+  note?: string;
+}
+
+export type SlotMinutes = 30 | 60;
+
+export interface BusinessHours {
+  slot_minutes: SlotMinutes;
+  days: BusinessHoursDay[];
+  exceptions: BusinessHourException[];
+}
+
+export interface PricingRule {
+  id: number;
+  name: string;
+  console_type?: Console['type'] | null;
+  day_type: 'all' | 'weekday' | 'weekend' | 'holiday';
+  start_time?: string | null;
+  end_time?: string | null;
+  adjustment_type: 'percent' | 'fixed' | 'override';
+  adjustment_value: number;
+  priority: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
+}
+
+export interface Promotion {
+  id: number;
+  title: string;
+  description?: string;
+  // Promotions without a code apply automatically at checkout
+  code?: string | null;
+  // Personal codes, such as birthday vouchers, only work for this customer
+  user_id?: number | null;
+  discount_type: 'percentage' | 'fixed_amount' | 'free_hours';
+  discount_value: number;
+  min_booking_hours: number;
+  valid_from: string;
+  valid_until: string;
+  max_uses?: number | null;
+  current_uses: number;
+  is_active: boolean;
+  created_at: string;
+  updated_at: string;
 }
 
 export interface ApiResponse<T> {
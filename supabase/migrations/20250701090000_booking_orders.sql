@@ -0,0 +1,157 @@
+/*
+  # Booking Orders (atomic multi-slot checkout)
+
+  1. New Tables
+    - `booking_orders` - One checkout (cart) grouping several bookings under a single reference
+
+  2. Changes
+    - `bookings.order_id` - Links each booking row to the order that created it
+    - `bookings.user_id` - Nullable so guests can check out with their contact details
+
+  3. Functions
+    - `generate_order_reference()` - Human friendly reference, e.g. GZ-20250701-4F2A
+    - `request_user_id(uuid)` - The customer a call acts for, taken from the session
+    - `create_booking_order(...)` - Creates the order and every booking in one transaction.
+      Any conflicting slot raises an exception so nothing is persisted.
+*/
+
+-- Booking orders table
+CREATE TABLE IF NOT EXISTS booking_orders (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reference text UNIQUE NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  customer_name text,
+  customer_phone text,
+  customer_email text,
+  booking_date date NOT NULL,
+  players integer DEFAULT 1 CHECK (players > 0),
+  slots_amount integer NOT NULL DEFAULT 0,
+  extras_amount integer NOT NULL DEFAULT 0,
+  total_amount integer NOT NULL,
+  status text DEFAULT 'pending' CHECK (status IN ('pending', 'confirmed', 'cancelled')),
+  payment_status text DEFAULT 'pending' CHECK (payment_status IN ('pending', 'paid', 'refunded')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (user_id IS NOT NULL OR (customer_name IS NOT NULL AND customer_phone IS NOT NULL))
+);
+
+ALTER TABLE bookings ALTER COLUMN user_id DROP NOT NULL;
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES booking_orders(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_booking_orders_user_id ON booking_orders(user_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_order_id ON bookings(order_id);
+
+ALTER TABLE booking_orders ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking orders" ON booking_orders
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION generate_order_reference()
+RETURNS text AS $$
+BEGIN
+  RETURN 'GZ-' || to_char(now(), 'YYYYMMDD') || '-' || upper(substr(md5(gen_random_uuid()::text), 1, 4));
+END;
+$$ LANGUAGE plpgsql VOLATILE;
+
+/*
+  The API server calls with the service role and passes the customer it acts
+  for; any other caller is the signed-in user (or a guest when anonymous).
+*/
+CREATE OR REPLACE FUNCTION request_user_id(p_user_id uuid)
+RETURNS uuid AS $$
+  SELECT CASE WHEN auth.role() = 'service_role' THEN p_user_id ELSE auth.uid() END;
+$$ LANGUAGE sql STABLE;
+
+/*
+  p_slots:  [{ "console_id": uuid, "start_time": "HH:MM", "duration_hours": int, "amount": int }]
+  p_extras: [{ "extra_id": uuid, "quantity": int }]
+
+  Slot prices are re-read from consoles.hourly_rate and extras are priced once
+  for the whole order, so the client-side totals are only a preview. Guests
+  (no user) must give a name and phone number, which are kept on the order.
+*/
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_rate integer;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  SELECT COALESCE(SUM(e.price * COALESCE((x->>'quantity')::integer, 1)), 0)
+    INTO v_extras_amount
+    FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) x
+    JOIN extras e ON e.id = (x->>'extra_id')::uuid AND e.is_active = true;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT hourly_rate INTO v_rate
+      FROM consoles
+      WHERE id = (v_slot->>'console_id')::uuid AND is_active = true;
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'Console % is not available', v_slot->>'console_id';
+    END IF;
+
+    -- The UNIQUE(console_id, booking_date, start_time) constraint aborts the
+    -- whole transaction when another customer already holds this slot.
+    INSERT INTO bookings (user_id, console_id, order_id, booking_date, start_time, duration_hours, total_amount, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_id')::uuid,
+      v_order.id,
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::integer, 1),
+      v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1),
+      p_notes
+    );
+
+    v_slots_amount := v_slots_amount + v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1);
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
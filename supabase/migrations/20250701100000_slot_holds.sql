@@ -0,0 +1,228 @@
+/*
+  # Temporary Slot Holds
+
+  1. New Tables
+    - `slot_holds` - Short-lived reservation of a console slot while a customer is checking out
+
+  2. Functions
+    - `release_expired_slot_holds()` - Deletes holds past their expiry, returns how many were removed
+    - `place_slot_hold(...)` - Places or refreshes a hold; fails when another customer holds the slot
+    - `current_hold_token()` - Hold token of the checkout running in this transaction
+    - `enforce_slot_hold()` - Trigger that stops a booking from taking a slot held under another
+      token and consumes the booker's own hold
+    - `create_booking_order(...)` - Redefined to take the checkout's hold token
+
+  3. Scheduling
+    - pg_cron job that releases expired holds every minute
+*/
+
+CREATE EXTENSION IF NOT EXISTS pg_cron;
+
+-- Slot holds table
+CREATE TABLE IF NOT EXISTS slot_holds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  console_id uuid NOT NULL REFERENCES consoles(id) ON DELETE CASCADE,
+  booking_date date NOT NULL,
+  start_time time NOT NULL,
+  user_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  hold_token text NOT NULL,
+  expires_at timestamptz NOT NULL DEFAULT (now() + interval '10 minutes'),
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(console_id, booking_date, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_slot_holds_date ON slot_holds(booking_date);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_expires_at ON slot_holds(expires_at);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_token ON slot_holds(hold_token);
+
+ALTER TABLE slot_holds ENABLE ROW LEVEL SECURITY;
+
+-- Everyone needs to see which slots are being booked; the token is not a secret worth hiding
+CREATE POLICY "Anyone can view active slot holds" ON slot_holds
+  FOR SELECT USING (expires_at > now());
+
+CREATE OR REPLACE FUNCTION release_expired_slot_holds()
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  DELETE FROM slot_holds WHERE expires_at <= now();
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION place_slot_hold(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_hold_token text,
+  p_user_id uuid DEFAULT NULL,
+  p_minutes integer DEFAULT 10
+)
+RETURNS slot_holds AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_hold slot_holds;
+BEGIN
+  DELETE FROM slot_holds
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND start_time = p_start_time
+      AND expires_at <= now();
+
+  IF EXISTS (
+    SELECT 1 FROM bookings
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND status <> 'cancelled'
+      AND p_start_time >= start_time
+      AND p_start_time < end_time
+  ) THEN
+    RAISE EXCEPTION 'Slot is already booked';
+  END IF;
+
+  INSERT INTO slot_holds (console_id, booking_date, start_time, user_id, hold_token, expires_at)
+  VALUES (p_console_id, p_booking_date, p_start_time, v_user_id, p_hold_token, now() + make_interval(mins => p_minutes))
+  ON CONFLICT (console_id, booking_date, start_time) DO UPDATE
+    SET expires_at = EXCLUDED.expires_at
+    WHERE slot_holds.hold_token = EXCLUDED.hold_token
+  RETURNING * INTO v_hold;
+
+  IF v_hold.id IS NULL THEN
+    RAISE EXCEPTION 'Slot is being booked by another customer';
+  END IF;
+
+  RETURN v_hold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Holds belong to a browser session, not a user, so guests and signed-in customers are treated alike
+CREATE OR REPLACE FUNCTION current_hold_token()
+RETURNS text AS $$
+  SELECT NULLIF(current_setting('app.hold_token', true), '');
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION enforce_slot_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF EXISTS (
+    SELECT 1 FROM slot_holds
+    WHERE console_id = NEW.console_id
+      AND booking_date = NEW.booking_date
+      AND start_time >= NEW.start_time
+      AND start_time < calculate_end_time(NEW.start_time, NEW.duration_hours)
+      AND expires_at > now()
+      AND hold_token IS DISTINCT FROM current_hold_token()
+  ) THEN
+    RAISE EXCEPTION 'Slot is being booked by another customer';
+  END IF;
+
+  DELETE FROM slot_holds
+    WHERE console_id = NEW.console_id
+      AND booking_date = NEW.booking_date
+      AND start_time >= NEW.start_time
+      AND start_time < calculate_end_time(NEW.start_time, NEW.duration_hours);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_slot_hold
+  BEFORE INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_slot_hold();
+
+DROP FUNCTION IF EXISTS create_booking_order(uuid, date, jsonb, jsonb, integer, text, text, text, text);
+
+-- p_hold_token is the checkout's own hold token, so the slots it holds can be booked
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_rate integer;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  SELECT COALESCE(SUM(e.price * COALESCE((x->>'quantity')::integer, 1)), 0)
+    INTO v_extras_amount
+    FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) x
+    JOIN extras e ON e.id = (x->>'extra_id')::uuid AND e.is_active = true;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Read by trigger_enforce_slot_hold for the rest of this transaction
+  PERFORM set_config('app.hold_token', COALESCE(p_hold_token, ''), true);
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT hourly_rate INTO v_rate
+      FROM consoles
+      WHERE id = (v_slot->>'console_id')::uuid AND is_active = true;
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'Console % is not available', v_slot->>'console_id';
+    END IF;
+
+    -- The UNIQUE(console_id, booking_date, start_time) constraint aborts the
+    -- whole transaction when another customer already holds this slot.
+    INSERT INTO bookings (user_id, console_id, order_id, booking_date, start_time, duration_hours, total_amount, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_id')::uuid,
+      v_order.id,
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::integer, 1),
+      v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1),
+      p_notes
+    );
+
+    v_slots_amount := v_slots_amount + v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1);
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule('release-expired-slot-holds', '* * * * *', $$SELECT release_expired_slot_holds()$$);
@@ -0,0 +1,25 @@
+/*
+  # Multi-hour Bookings Without Overlap
+
+  1. Changes
+    - Bookings now span `duration_hours` instead of one row per hour, so the
+      UNIQUE(console_id, booking_date, start_time) constraint no longer catches
+      a 19:00-22:00 session colliding with a 20:00 one.
+    - Adds an exclusion constraint on the booked time range per console,
+      ignoring cancelled bookings.
+    - Drops that UNIQUE constraint: it also counted cancelled bookings, so a
+      cancelled slot could never be booked again.
+*/
+
+CREATE EXTENSION IF NOT EXISTS btree_gist;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+    console_id WITH =,
+    tsrange(
+      booking_date + start_time,
+      booking_date + start_time + make_interval(hours => duration_hours)
+    ) WITH &&
+  ) WHERE (status <> 'cancelled');
+
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_console_id_booking_date_start_time_key;
@@ -0,0 +1,346 @@
+/*
+  # Recurring Booking Series
+
+  1. New Tables
+    - `booking_series` - A weekly or biweekly recurrence of the same console/time; a cart with
+      several slots becomes one series per slot
+
+  2. Changes
+    - `bookings.series_id` - Occurrence rows point back to their series
+
+  3. Functions
+    - `booking_series_dates(...)` - Expands a recurrence rule into concrete dates
+    - `booking_series_conflicts(...)` - Occurrence slots that are already taken (the preview)
+    - `create_booking_order(...)` - Redefined so a slot can name the series it belongs to
+    - `create_booking_series(...)` - Books every free occurrence as its own order, with the cart's
+      extras, and reports the conflicting ones
+    - `update_booking_series(...)` - Moves all upcoming occurrences of the caller's series to a new
+      start time/duration
+    - `cancel_booking_series(...)` - Cancels all upcoming occurrences and closes the series
+*/
+
+-- Booking series table
+CREATE TABLE IF NOT EXISTS booking_series (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  console_id uuid NOT NULL REFERENCES consoles(id),
+  start_time time NOT NULL,
+  duration_hours integer NOT NULL CHECK (duration_hours > 0),
+  frequency text NOT NULL CHECK (frequency IN ('weekly', 'biweekly')),
+  starts_on date NOT NULL,
+  occurrences integer CHECK (occurrences > 0 AND occurrences <= 52),
+  until_date date,
+  status text DEFAULT 'active' CHECK (status IN ('active', 'cancelled', 'completed')),
+  notes text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (occurrences IS NOT NULL OR until_date IS NOT NULL)
+);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS series_id uuid REFERENCES booking_series(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_booking_series_user_id ON booking_series(user_id);
+CREATE INDEX IF NOT EXISTS idx_bookings_series_id ON bookings(series_id);
+
+ALTER TABLE booking_series ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own booking series" ON booking_series
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION booking_series_dates(
+  p_starts_on date,
+  p_frequency text,
+  p_occurrences integer,
+  p_until_date date
+)
+RETURNS SETOF date AS $$
+  SELECT d::date
+  FROM generate_series(
+    p_starts_on,
+    COALESCE(p_until_date, p_starts_on + (52 * 7)),
+    CASE WHEN p_frequency = 'biweekly' THEN interval '2 weeks' ELSE interval '1 week' END
+  ) d
+  LIMIT LEAST(COALESCE(p_occurrences, 52), 52);
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION booking_slot_is_free(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_duration_hours integer,
+  p_ignore_booking_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND status <> 'cancelled'
+      AND id IS DISTINCT FROM p_ignore_booking_id
+      AND start_time < calculate_end_time(p_start_time, p_duration_hours)
+      AND end_time > p_start_time
+  );
+$$ LANGUAGE sql STABLE;
+
+-- Slots take an optional "series_id" so every occurrence is an order like any other checkout
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_rate integer;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  SELECT COALESCE(SUM(e.price * COALESCE((x->>'quantity')::integer, 1)), 0)
+    INTO v_extras_amount
+    FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) x
+    JOIN extras e ON e.id = (x->>'extra_id')::uuid AND e.is_active = true;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Read by trigger_enforce_slot_hold for the rest of this transaction
+  PERFORM set_config('app.hold_token', COALESCE(p_hold_token, ''), true);
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT hourly_rate INTO v_rate
+      FROM consoles
+      WHERE id = (v_slot->>'console_id')::uuid AND is_active = true;
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'Console % is not available', v_slot->>'console_id';
+    END IF;
+
+    INSERT INTO bookings (user_id, console_id, order_id, series_id, booking_date, start_time, duration_hours, total_amount, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_id')::uuid,
+      v_order.id,
+      (SELECT id FROM booking_series WHERE id = (v_slot->>'series_id')::uuid AND user_id = v_user_id),
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::integer, 1),
+      v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1),
+      p_notes
+    );
+
+    v_slots_amount := v_slots_amount + v_rate * COALESCE((v_slot->>'duration_hours')::integer, 1);
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+/*
+  p_slots is the checkout cart of the first date; returns the occurrences that
+  cannot be booked as [{ "booking_date", "console_id", "start_time" }].
+*/
+CREATE OR REPLACE FUNCTION booking_series_conflicts(
+  p_booking_date date,
+  p_slots jsonb,
+  p_frequency text,
+  p_occurrences integer DEFAULT NULL,
+  p_until_date date DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('booking_date', d, 'console_id', s->>'console_id', 'start_time', s->>'start_time')
+    ORDER BY d, s->>'start_time'
+  ), '[]'::jsonb)
+  FROM booking_series_dates(p_booking_date, p_frequency, p_occurrences, p_until_date) d
+  CROSS JOIN jsonb_array_elements(p_slots) s
+  WHERE NOT booking_slot_is_free(
+    (s->>'console_id')::uuid, d, (s->>'start_time')::time, COALESCE((s->>'duration_hours')::integer, 1)
+  );
+$$ LANGUAGE sql STABLE;
+
+/*
+  Takes the same cart as create_booking_order plus the recurrence and returns
+  { "series": [booking_series], "created": [dates], "conflicts": [...] }.
+  Prices are read per date, so the client-side "amount" is not checked here.
+  With p_skip_conflicts = false any conflict aborts the whole series instead.
+*/
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_frequency text DEFAULT 'weekly',
+  p_occurrences integer DEFAULT NULL,
+  p_until_date date DEFAULT NULL,
+  p_skip_conflicts boolean DEFAULT true,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_series booking_series;
+  v_series_list jsonb := '[]'::jsonb;
+  v_slot jsonb;
+  v_slots jsonb := '[]'::jsonb;
+  v_date_slots jsonb;
+  v_date date;
+  v_created date[] := '{}';
+  v_conflicts jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to book a recurring series';
+  ELSIF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Series must contain at least one slot';
+  END IF;
+
+  v_conflicts := booking_series_conflicts(p_booking_date, p_slots, p_frequency, p_occurrences, p_until_date);
+
+  IF NOT p_skip_conflicts AND jsonb_array_length(v_conflicts) > 0 THEN
+    RAISE EXCEPTION 'Series has % conflicting sessions', jsonb_array_length(v_conflicts);
+  END IF;
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    INSERT INTO booking_series (user_id, console_id, start_time, duration_hours, frequency, starts_on, occurrences, until_date, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_id')::uuid,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::integer, 1),
+      p_frequency,
+      p_booking_date,
+      p_occurrences,
+      p_until_date,
+      p_notes
+    )
+    RETURNING * INTO v_series;
+
+    v_series_list := v_series_list || jsonb_build_array(to_jsonb(v_series));
+    v_slots := v_slots || jsonb_build_array((v_slot - 'amount') || jsonb_build_object('series_id', v_series.id));
+  END LOOP;
+
+  FOR v_date IN SELECT * FROM booking_series_dates(p_booking_date, p_frequency, p_occurrences, p_until_date) LOOP
+    SELECT jsonb_agg(s) INTO v_date_slots
+      FROM jsonb_array_elements(v_slots) s
+      WHERE NOT v_conflicts @> jsonb_build_array(jsonb_build_object(
+        'booking_date', v_date, 'console_id', s->>'console_id', 'start_time', s->>'start_time'
+      ));
+
+    IF v_date_slots IS NOT NULL THEN
+      PERFORM create_booking_order(v_user_id, v_date, v_date_slots, p_extras, p_players, p_notes, NULL, NULL, NULL, p_hold_token);
+      v_created := v_created || v_date;
+    END IF;
+  END LOOP;
+
+  IF array_length(v_created, 1) IS NULL THEN
+    RAISE EXCEPTION 'Every occurrence in this series is already booked';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series', v_series_list,
+    'created', to_jsonb(v_created),
+    'conflicts', v_conflicts
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION update_booking_series(
+  p_series_id uuid,
+  p_user_id uuid,
+  p_start_time time,
+  p_duration_hours integer
+)
+RETURNS booking_series AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_series booking_series;
+  v_rate integer;
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_series FROM booking_series
+    WHERE id = p_series_id AND user_id = v_user_id AND status = 'active';
+  IF v_series.id IS NULL THEN
+    RAISE EXCEPTION 'Series % is not active', p_series_id;
+  END IF;
+
+  SELECT hourly_rate INTO v_rate FROM consoles WHERE id = v_series.console_id;
+
+  FOR v_booking IN
+    SELECT * FROM bookings
+    WHERE series_id = p_series_id AND booking_date >= CURRENT_DATE AND status IN ('pending', 'confirmed')
+  LOOP
+    IF NOT booking_slot_is_free(v_booking.console_id, v_booking.booking_date, p_start_time, p_duration_hours, v_booking.id) THEN
+      RAISE EXCEPTION 'New time conflicts with an existing booking on %', v_booking.booking_date;
+    END IF;
+
+    UPDATE bookings
+      SET start_time = p_start_time,
+          duration_hours = p_duration_hours,
+          total_amount = v_rate * p_duration_hours,
+          updated_at = now()
+      WHERE id = v_booking.id;
+  END LOOP;
+
+  UPDATE booking_series
+    SET start_time = p_start_time, duration_hours = p_duration_hours, updated_at = now()
+    WHERE id = p_series_id
+    RETURNING * INTO v_series;
+
+  RETURN v_series;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_count integer;
+BEGIN
+  UPDATE bookings
+    SET status = 'cancelled', updated_at = now()
+    WHERE series_id = p_series_id
+      AND booking_date >= CURRENT_DATE
+      AND status IN ('pending', 'confirmed');
+  GET DIAGNOSTICS v_count = ROW_COUNT;
+
+  UPDATE booking_series SET status = 'cancelled', updated_at = now() WHERE id = p_series_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,271 @@
+/*
+  # Waitlist for Fully-booked Slots
+
+  1. New Tables
+    - `booking_waitlist` - Customers queued for a console/date/hour that is already booked
+
+  2. Functions
+    - `offer_next_waitlist_entry(...)` - Offers a freed slot to the first waiting customer, holds the
+      slot for them until the offer expires and sends a `notifications` row
+    - `expire_waitlist_offers()` - Expires unanswered offers and passes the slot to the next in line
+    - `leave_waitlist(...)` - Cancels the caller's entry
+    - `place_slot_hold(...)` - Redefined so a customer can take over a hold placed on their behalf
+
+  3. Triggers
+    - Cancelling a booking offers each freed hour to the waitlist
+    - Booking an offered slot marks the waitlist entry as accepted
+    - Leaving with an open offer releases the held slot and offers it to the next in line
+*/
+
+-- Waitlist table
+CREATE TABLE IF NOT EXISTS booking_waitlist (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  console_id uuid NOT NULL REFERENCES consoles(id) ON DELETE CASCADE,
+  booking_date date NOT NULL,
+  start_time time NOT NULL,
+  status text DEFAULT 'waiting' CHECK (status IN ('waiting', 'offered', 'accepted', 'expired', 'cancelled')),
+  offered_at timestamptz,
+  offer_expires_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(user_id, console_id, booking_date, start_time)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_slot ON booking_waitlist(console_id, booking_date, start_time);
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_user_id ON booking_waitlist(user_id);
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_status ON booking_waitlist(status);
+
+ALTER TABLE booking_waitlist ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own waitlist entries" ON booking_waitlist
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Offers are only made by offer_next_waitlist_entry, so clients can only queue and cancel
+CREATE POLICY "Users can join the waitlist" ON booking_waitlist
+  FOR INSERT WITH CHECK (
+    auth.uid() = user_id
+    AND status = 'waiting'
+    AND offered_at IS NULL
+    AND offer_expires_at IS NULL
+  );
+
+CREATE POLICY "Users can leave the waitlist" ON booking_waitlist
+  FOR UPDATE
+  USING (auth.uid() = user_id AND status IN ('waiting', 'offered'))
+  WITH CHECK (auth.uid() = user_id AND status = 'cancelled');
+
+CREATE OR REPLACE FUNCTION offer_next_waitlist_entry(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_offer_minutes integer DEFAULT 30
+)
+RETURNS booking_waitlist AS $$
+DECLARE
+  v_entry booking_waitlist;
+BEGIN
+  IF ((p_booking_date + p_start_time) AT TIME ZONE 'Asia/Jakarta') <= now() THEN
+    RETURN NULL;
+  END IF;
+
+  -- Someone already has an open offer for this slot
+  IF EXISTS (
+    SELECT 1 FROM booking_waitlist
+    WHERE console_id = p_console_id AND booking_date = p_booking_date AND start_time = p_start_time
+      AND status = 'offered' AND offer_expires_at > now()
+  ) THEN
+    RETURN NULL;
+  END IF;
+
+  SELECT * INTO v_entry FROM booking_waitlist
+    WHERE console_id = p_console_id AND booking_date = p_booking_date AND start_time = p_start_time
+      AND status = 'waiting'
+    ORDER BY created_at
+    LIMIT 1
+    FOR UPDATE SKIP LOCKED;
+
+  IF v_entry.id IS NULL THEN
+    RETURN NULL;
+  END IF;
+
+  UPDATE booking_waitlist
+    SET status = 'offered',
+        offered_at = now(),
+        offer_expires_at = now() + make_interval(mins => p_offer_minutes),
+        updated_at = now()
+    WHERE id = v_entry.id
+    RETURNING * INTO v_entry;
+
+  -- Keep the slot for this customer while the offer is open
+  INSERT INTO slot_holds (console_id, booking_date, start_time, user_id, hold_token, expires_at)
+  VALUES (p_console_id, p_booking_date, p_start_time, v_entry.user_id, 'waitlist:' || v_entry.id, v_entry.offer_expires_at)
+  ON CONFLICT (console_id, booking_date, start_time) DO UPDATE
+    SET user_id = EXCLUDED.user_id, hold_token = EXCLUDED.hold_token, expires_at = EXCLUDED.expires_at;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES (
+    v_entry.user_id,
+    'Slot waitlist tersedia!',
+    'Slot ' || to_char(p_booking_date, 'DD Mon YYYY') || ' jam ' || to_char(p_start_time, 'HH24:MI') ||
+      ' sekarang tersedia untuk Anda sampai ' || to_char(v_entry.offer_expires_at, 'HH24:MI') || '.',
+    'booking',
+    '/booking?waitlist=' || v_entry.id
+  );
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION expire_waitlist_offers()
+RETURNS integer AS $$
+DECLARE
+  v_entry booking_waitlist;
+  v_count integer := 0;
+BEGIN
+  FOR v_entry IN
+    UPDATE booking_waitlist
+      SET status = 'expired', updated_at = now()
+      WHERE status = 'offered' AND offer_expires_at <= now()
+      RETURNING *
+  LOOP
+    DELETE FROM slot_holds WHERE hold_token = 'waitlist:' || v_entry.id;
+    PERFORM offer_next_waitlist_entry(v_entry.console_id, v_entry.booking_date, v_entry.start_time);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION leave_waitlist(p_entry_id uuid, p_user_id uuid)
+RETURNS booking_waitlist AS $$
+DECLARE
+  v_entry booking_waitlist;
+BEGIN
+  UPDATE booking_waitlist
+    SET status = 'cancelled', updated_at = now()
+    WHERE id = p_entry_id
+      AND user_id = request_user_id(p_user_id)
+      AND status IN ('waiting', 'offered')
+    RETURNING * INTO v_entry;
+
+  IF v_entry.id IS NULL THEN
+    RAISE EXCEPTION 'Waitlist entry not found';
+  END IF;
+
+  RETURN v_entry;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- The customer may already have taken the hold over with their checkout token
+CREATE OR REPLACE FUNCTION pass_on_waitlist_offer()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF OLD.status = 'offered' AND NEW.status = 'cancelled' THEN
+    DELETE FROM slot_holds
+      WHERE hold_token = 'waitlist:' || NEW.id
+         OR (console_id = NEW.console_id
+             AND booking_date = NEW.booking_date
+             AND start_time = NEW.start_time
+             AND user_id = NEW.user_id);
+
+    PERFORM offer_next_waitlist_entry(NEW.console_id, NEW.booking_date, NEW.start_time);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_pass_on_waitlist_offer
+  AFTER UPDATE OF status ON booking_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION pass_on_waitlist_offer();
+
+CREATE OR REPLACE FUNCTION offer_waitlist_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_hour integer;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    FOR v_hour IN 0..(NEW.duration_hours - 1) LOOP
+      PERFORM offer_next_waitlist_entry(
+        NEW.console_id,
+        NEW.booking_date,
+        (NEW.start_time + make_interval(hours => v_hour))::time
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_offer_waitlist_on_cancel
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_waitlist_on_cancel();
+
+CREATE OR REPLACE FUNCTION accept_waitlist_on_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE booking_waitlist
+    SET status = 'accepted', updated_at = now()
+    WHERE user_id = NEW.user_id
+      AND console_id = NEW.console_id
+      AND booking_date = NEW.booking_date
+      AND start_time >= NEW.start_time
+      AND start_time < NEW.end_time
+      AND status IN ('waiting', 'offered');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_accept_waitlist_on_booking
+  AFTER INSERT ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION accept_waitlist_on_booking();
+
+-- A hold placed for a waitlisted customer can be taken over by that customer's checkout session
+CREATE OR REPLACE FUNCTION place_slot_hold(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_hold_token text,
+  p_user_id uuid DEFAULT NULL,
+  p_minutes integer DEFAULT 10
+)
+RETURNS slot_holds AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_hold slot_holds;
+BEGIN
+  DELETE FROM slot_holds
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND start_time = p_start_time
+      AND expires_at <= now();
+
+  IF NOT booking_slot_is_free(p_console_id, p_booking_date, p_start_time, 1) THEN
+    RAISE EXCEPTION 'Slot is already booked';
+  END IF;
+
+  INSERT INTO slot_holds (console_id, booking_date, start_time, user_id, hold_token, expires_at)
+  VALUES (p_console_id, p_booking_date, p_start_time, v_user_id, p_hold_token, now() + make_interval(mins => p_minutes))
+  ON CONFLICT (console_id, booking_date, start_time) DO UPDATE
+    SET hold_token = EXCLUDED.hold_token,
+        expires_at = GREATEST(slot_holds.expires_at, EXCLUDED.expires_at)
+    WHERE slot_holds.hold_token = EXCLUDED.hold_token
+       OR (EXCLUDED.user_id IS NOT NULL AND slot_holds.user_id = EXCLUDED.user_id)
+  RETURNING * INTO v_hold;
+
+  IF v_hold.id IS NULL THEN
+    RAISE EXCEPTION 'Slot is being booked by another customer';
+  END IF;
+
+  RETURN v_hold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule('expire-waitlist-offers', '* * * * *', $$SELECT expire_waitlist_offers()$$);
@@ -0,0 +1,290 @@
+/*
+  # Self-service Cancellation and Reschedule
+
+  1. New Tables
+    - `app_settings` - Key/value settings managed from the admin panel
+    - `booking_refunds` - What was refunded for a cancelled or repriced booking, and under which policy
+
+  2. Functions
+    - `get_setting(key)` - Reads a setting value
+    - `booking_refund_percent(...)` - Applies the cancellation policy to a booking
+    - `booking_paid_amount(booking)` - What the customer paid for a booking's slot time; refunds are a share of this
+    - `cancel_booking(...)` - Cancels a booking, sets payment_status and records the refund
+    - `reschedule_booking(...)` - Moves a booking to a free slot and reprices it
+    - `cancel_booking_series(...)` - Redefined to cancel each upcoming occurrence through `cancel_booking`,
+      so a series follows the same policy and refunds as one-off bookings
+    - `enforce_slot_hold()` - Redefined to also check holds when a booking moves to another slot
+    - `offer_waitlist_on_reschedule()` - Trigger offering the slots a moved booking left behind to the waitlist
+
+  3. Settings
+    - `cancellation_policy`:
+        free_cancel_hours      - full refund when cancelled at least this many hours before start
+        partial_refund_percent - refund after that, until the session starts
+        reschedule_cutoff_hours - latest a booking can be moved before it starts
+*/
+
+-- App settings table
+CREATE TABLE IF NOT EXISTS app_settings (
+  key text PRIMARY KEY,
+  value jsonb NOT NULL,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Booking refunds table
+CREATE TABLE IF NOT EXISTS booking_refunds (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  amount integer NOT NULL CHECK (amount >= 0),
+  refund_percent integer NOT NULL CHECK (refund_percent >= 0 AND refund_percent <= 100),
+  reason text NOT NULL CHECK (reason IN ('cancellation', 'reschedule')),
+  policy jsonb,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_refunds_booking_id ON booking_refunds(booking_id);
+
+ALTER TABLE app_settings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE booking_refunds ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view app settings" ON app_settings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can view refunds of their own bookings" ON booking_refunds
+  FOR SELECT USING (EXISTS (SELECT 1 FROM bookings b WHERE b.id = booking_id AND b.user_id = auth.uid()));
+
+INSERT INTO app_settings (key, value) VALUES
+('cancellation_policy', '{"free_cancel_hours": 24, "partial_refund_percent": 50, "reschedule_cutoff_hours": 2}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION get_setting(p_key text)
+RETURNS jsonb AS $$
+  SELECT value FROM app_settings WHERE key = p_key;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION booking_refund_percent(p_booking bookings)
+RETURNS integer AS $$
+DECLARE
+  v_policy jsonb := get_setting('cancellation_policy');
+  v_hours_before numeric;
+BEGIN
+  IF p_booking.status IN ('in_progress', 'completed', 'cancelled') THEN
+    RETURN 0;
+  END IF;
+
+  v_hours_before := EXTRACT(EPOCH FROM (((p_booking.booking_date + p_booking.start_time) AT TIME ZONE 'Asia/Jakarta') - now())) / 3600;
+
+  IF v_hours_before >= COALESCE((v_policy->>'free_cancel_hours')::numeric, 24) THEN
+    RETURN 100;
+  ELSIF v_hours_before > 0 THEN
+    RETURN COALESCE((v_policy->>'partial_refund_percent')::integer, 0);
+  END IF;
+
+  RETURN 0;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Orders have no discounts yet, so a booking was paid at its own price
+CREATE OR REPLACE FUNCTION booking_paid_amount(p_booking bookings)
+RETURNS integer AS $$
+  SELECT p_booking.total_amount;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION cancel_booking(p_booking_id uuid, p_user_id uuid)
+RETURNS booking_refunds AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_booking bookings;
+  v_percent integer;
+  v_refund booking_refunds;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  ELSIF v_booking.status IN ('in_progress', 'completed', 'cancelled') THEN
+    RAISE EXCEPTION 'Booking can no longer be cancelled (status: %)', v_booking.status;
+  END IF;
+
+  v_percent := booking_refund_percent(v_booking);
+
+  -- Nothing to give back for bookings that were never paid
+  IF v_booking.payment_status <> 'paid' THEN
+    v_percent := 0;
+  END IF;
+
+  UPDATE bookings
+    SET status = 'cancelled',
+        payment_status = CASE WHEN v_percent > 0 THEN 'refunded' ELSE payment_status END,
+        updated_at = now()
+    WHERE id = p_booking_id;
+
+  INSERT INTO booking_refunds (booking_id, amount, refund_percent, reason, policy)
+  VALUES (p_booking_id, booking_paid_amount(v_booking) * v_percent / 100, v_percent, 'cancellation', get_setting('cancellation_policy'))
+  RETURNING * INTO v_refund;
+
+  RETURN v_refund;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS cancel_booking_series(uuid);
+CREATE OR REPLACE FUNCTION cancel_booking_series(p_series_id uuid, p_user_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_booking bookings;
+  v_count integer := 0;
+BEGIN
+  IF NOT EXISTS (SELECT 1 FROM booking_series WHERE id = p_series_id AND user_id = v_user_id) THEN
+    RAISE EXCEPTION 'Series not found';
+  END IF;
+
+  FOR v_booking IN
+    SELECT * FROM bookings
+    WHERE series_id = p_series_id
+      AND booking_date >= CURRENT_DATE
+      AND status IN ('pending', 'confirmed')
+    ORDER BY booking_date, start_time
+  LOOP
+    PERFORM cancel_booking(v_booking.id, v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  UPDATE booking_series SET status = 'cancelled', updated_at = now() WHERE id = p_series_id;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+/*
+  Returns { "booking": bookings, "price_difference": int }. A positive difference is
+  owed by the customer; a negative one on a paid booking is recorded as a refund.
+*/
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_user_id uuid,
+  p_booking_date date,
+  p_start_time time
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_booking bookings;
+  v_policy jsonb := get_setting('cancellation_policy');
+  v_rate integer;
+  v_new_amount integer;
+  v_difference integer;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  ELSIF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking can no longer be rescheduled (status: %)', v_booking.status;
+  ELSIF ((v_booking.booking_date + v_booking.start_time) AT TIME ZONE 'Asia/Jakarta') - now()
+        < make_interval(hours => COALESCE((v_policy->>'reschedule_cutoff_hours')::integer, 0)) THEN
+    RAISE EXCEPTION 'Booking starts too soon to be rescheduled';
+  ELSIF ((p_booking_date + p_start_time) AT TIME ZONE 'Asia/Jakarta') <= now() THEN
+    RAISE EXCEPTION 'New time must be in the future';
+  END IF;
+
+  IF NOT booking_slot_is_free(v_booking.console_id, p_booking_date, p_start_time, v_booking.duration_hours, v_booking.id) THEN
+    RAISE EXCEPTION 'New slot is already booked';
+  END IF;
+
+  SELECT hourly_rate INTO v_rate FROM consoles WHERE id = v_booking.console_id;
+  v_new_amount := v_rate * v_booking.duration_hours;
+  v_difference := v_new_amount - v_booking.total_amount;
+
+  UPDATE bookings
+    SET booking_date = p_booking_date,
+        start_time = p_start_time,
+        total_amount = v_new_amount,
+        updated_at = now()
+    WHERE id = p_booking_id
+    RETURNING * INTO v_booking;
+
+  IF v_difference < 0 AND v_booking.payment_status = 'paid' THEN
+    INSERT INTO booking_refunds (booking_id, amount, refund_percent, reason, policy)
+    VALUES (p_booking_id, -v_difference, 0, 'reschedule', v_policy);
+  END IF;
+
+  RETURN jsonb_build_object('booking', to_jsonb(v_booking), 'price_difference', v_difference);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Holds also apply when a booking moves, not only when it is created
+CREATE OR REPLACE FUNCTION enforce_slot_hold()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF TG_OP = 'UPDATE'
+     AND NEW.console_id = OLD.console_id
+     AND NEW.booking_date = OLD.booking_date
+     AND NEW.start_time = OLD.start_time
+     AND NEW.duration_hours = OLD.duration_hours THEN
+    RETURN NEW;
+  END IF;
+
+  IF EXISTS (
+    SELECT 1 FROM slot_holds
+    WHERE console_id = NEW.console_id
+      AND booking_date = NEW.booking_date
+      AND start_time >= NEW.start_time
+      AND start_time < calculate_end_time(NEW.start_time, NEW.duration_hours)
+      AND expires_at > now()
+      AND hold_token IS DISTINCT FROM current_hold_token()
+  ) THEN
+    RAISE EXCEPTION 'Slot is being booked by another customer';
+  END IF;
+
+  DELETE FROM slot_holds
+    WHERE console_id = NEW.console_id
+      AND booking_date = NEW.booking_date
+      AND start_time >= NEW.start_time
+      AND start_time < calculate_end_time(NEW.start_time, NEW.duration_hours);
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+DROP TRIGGER IF EXISTS trigger_enforce_slot_hold ON bookings;
+
+CREATE TRIGGER trigger_enforce_slot_hold
+  BEFORE INSERT OR UPDATE OF console_id, booking_date, start_time, duration_hours ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_slot_hold();
+
+-- Offers the slots a moved booking left behind to the waitlist
+CREATE OR REPLACE FUNCTION offer_waitlist_on_reschedule()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_slot_minutes integer := COALESCE((get_setting('slot_minutes') #>> '{}')::integer, 60);
+  v_offset integer;
+  v_start time;
+BEGIN
+  IF NEW.status = 'cancelled' OR OLD.status = 'cancelled' THEN
+    RETURN NEW;
+  END IF;
+
+  FOR v_offset IN 0..((OLD.duration_hours * 60)::integer - 1) BY v_slot_minutes LOOP
+    v_start := (OLD.start_time + make_interval(mins => v_offset))::time;
+
+    IF NOT EXISTS (
+      SELECT 1 FROM bookings
+      WHERE console_id = OLD.console_id
+        AND booking_date = OLD.booking_date
+        AND status <> 'cancelled'
+        AND v_start >= start_time
+        AND v_start - start_time < duration_hours * interval '1 hour'
+    ) THEN
+      PERFORM offer_next_waitlist_entry(OLD.console_id, OLD.booking_date, v_start);
+    END IF;
+  END LOOP;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_offer_waitlist_on_reschedule
+  AFTER UPDATE OF console_id, booking_date, start_time, duration_hours ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION offer_waitlist_on_reschedule();
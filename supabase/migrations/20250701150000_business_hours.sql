@@ -0,0 +1,380 @@
+/*
+  # Business Hours, Closures and Slot Granularity
+
+  1. New Tables
+    - `business_hours` - Regular opening hours per weekday (0 = Sunday)
+    - `business_hour_exceptions` - Special closures (e.g. Lebaran) and extended-hours dates
+
+  2. Settings
+    - `slot_minutes` - Length of one bookable slot, 30 or 60
+
+  3. Changes
+    - `bookings.duration_hours` becomes numeric so 30-minute slots can be booked (1.5 hours etc.)
+    - `calculate_end_time`, `booking_slot_is_free` and the overlap constraint follow the numeric duration
+
+  4. Functions
+    - `business_hours_for(date)` - Effective open/close times for a date after exceptions
+    - `enforce_business_hours()` - Trigger rejecting bookings outside opening hours or off the slot grid
+    - `place_slot_hold(...)` - Redefined to check the slot length instead of a fixed hour
+    - `create_booking_order(...)`, `update_booking_series(...)` - Redefined to accept fractional durations
+    - `booking_series_conflicts(...)` - Redefined to accept fractional durations and to count closed
+      days as conflicts
+    - `offer_waitlist_on_cancel()` - Offers every freed slot, stepping by the slot length
+*/
+
+-- Business hours table
+CREATE TABLE IF NOT EXISTS business_hours (
+  weekday integer PRIMARY KEY CHECK (weekday >= 0 AND weekday <= 6),
+  open_time time NOT NULL DEFAULT '10:00',
+  close_time time NOT NULL DEFAULT '23:00',
+  is_closed boolean DEFAULT false,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Business hour exceptions table
+CREATE TABLE IF NOT EXISTS business_hour_exceptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  date date UNIQUE NOT NULL,
+  type text NOT NULL CHECK (type IN ('closed', 'extended')),
+  open_time time,
+  close_time time,
+  note text,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (type = 'closed' OR (open_time IS NOT NULL AND close_time IS NOT NULL))
+);
+
+ALTER TABLE business_hours ENABLE ROW LEVEL SECURITY;
+ALTER TABLE business_hour_exceptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view business hours" ON business_hours
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view business hour exceptions" ON business_hour_exceptions
+  FOR SELECT USING (true);
+
+-- Matches the old hard-coded grid: last slot starts at 22:00
+INSERT INTO business_hours (weekday, open_time, close_time)
+SELECT d, '10:00', '23:00' FROM generate_series(0, 6) d
+ON CONFLICT (weekday) DO NOTHING;
+
+INSERT INTO app_settings (key, value) VALUES ('slot_minutes', '60')
+ON CONFLICT (key) DO NOTHING;
+
+-- Numeric durations
+ALTER TABLE bookings DROP CONSTRAINT IF EXISTS bookings_no_overlap;
+ALTER TABLE bookings ALTER COLUMN duration_hours TYPE numeric(4,1);
+ALTER TABLE booking_series ALTER COLUMN duration_hours TYPE numeric(4,1);
+
+DROP FUNCTION IF EXISTS calculate_end_time(time, integer);
+CREATE OR REPLACE FUNCTION calculate_end_time(start_time time, duration_hours numeric)
+RETURNS time AS $$
+BEGIN
+  RETURN (start_time + duration_hours * interval '1 hour')::time;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+ALTER TABLE bookings
+  ADD CONSTRAINT bookings_no_overlap EXCLUDE USING gist (
+    console_id WITH =,
+    tsrange(
+      booking_date + start_time,
+      booking_date + start_time + duration_hours * interval '1 hour'
+    ) WITH &&
+  ) WHERE (status <> 'cancelled');
+
+DROP FUNCTION IF EXISTS booking_slot_is_free(uuid, date, time, integer, uuid);
+CREATE OR REPLACE FUNCTION booking_slot_is_free(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_duration_hours numeric,
+  p_ignore_booking_id uuid DEFAULT NULL
+)
+RETURNS boolean AS $$
+  SELECT NOT EXISTS (
+    SELECT 1 FROM bookings
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND status <> 'cancelled'
+      AND id IS DISTINCT FROM p_ignore_booking_id
+      AND (booking_date + start_time) < (p_booking_date + p_start_time + p_duration_hours * interval '1 hour')
+      AND (booking_date + start_time + duration_hours * interval '1 hour') > (p_booking_date + p_start_time)
+  );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION business_hours_for(p_date date)
+RETURNS TABLE (open_time time, close_time time, is_closed boolean, note text) AS $$
+  SELECT
+    COALESCE(e.open_time, h.open_time),
+    COALESCE(e.close_time, h.close_time),
+    COALESCE(e.type = 'closed', h.is_closed, true),
+    e.note
+  FROM (SELECT p_date AS d) x
+  LEFT JOIN business_hours h ON h.weekday = EXTRACT(DOW FROM x.d)::integer
+  LEFT JOIN business_hour_exceptions e ON e.date = x.d;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION enforce_business_hours()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_hours record;
+  v_slot_minutes integer := COALESCE((get_setting('slot_minutes') #>> '{}')::integer, 60);
+  v_start timestamp := NEW.booking_date + NEW.start_time;
+  v_end timestamp := NEW.booking_date + NEW.start_time + NEW.duration_hours * interval '1 hour';
+  v_open timestamp;
+  v_close timestamp;
+BEGIN
+  SELECT * INTO v_hours FROM business_hours_for(NEW.booking_date);
+
+  IF v_hours.is_closed THEN
+    RAISE EXCEPTION 'We are closed on %', NEW.booking_date USING DETAIL = COALESCE(v_hours.note, '');
+  END IF;
+
+  v_open := NEW.booking_date + v_hours.open_time;
+  v_close := NEW.booking_date + v_hours.close_time;
+  -- A close time at or before the open time means the shop closes after midnight
+  IF v_close <= v_open THEN
+    v_close := v_close + interval '1 day';
+  END IF;
+
+  IF v_start < v_open OR v_end > v_close THEN
+    RAISE EXCEPTION 'Booking must be between % and %', v_hours.open_time, v_hours.close_time;
+  END IF;
+
+  IF (EXTRACT(EPOCH FROM (v_start - v_open)) / 60)::integer % v_slot_minutes <> 0
+     OR (NEW.duration_hours * 60)::integer % v_slot_minutes <> 0 THEN
+    RAISE EXCEPTION 'Booking must follow the % minute slot grid', v_slot_minutes;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_business_hours
+  BEFORE INSERT OR UPDATE OF booking_date, start_time, duration_hours ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_business_hours();
+
+CREATE OR REPLACE FUNCTION place_slot_hold(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_hold_token text,
+  p_user_id uuid DEFAULT NULL,
+  p_minutes integer DEFAULT 10
+)
+RETURNS slot_holds AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_hold slot_holds;
+  v_slot_hours numeric := COALESCE((get_setting('slot_minutes') #>> '{}')::numeric, 60) / 60;
+BEGIN
+  DELETE FROM slot_holds
+    WHERE console_id = p_console_id
+      AND booking_date = p_booking_date
+      AND start_time = p_start_time
+      AND expires_at <= now();
+
+  IF NOT booking_slot_is_free(p_console_id, p_booking_date, p_start_time, v_slot_hours) THEN
+    RAISE EXCEPTION 'Slot is already booked';
+  END IF;
+
+  INSERT INTO slot_holds (console_id, booking_date, start_time, user_id, hold_token, expires_at)
+  VALUES (p_console_id, p_booking_date, p_start_time, v_user_id, p_hold_token, now() + make_interval(mins => p_minutes))
+  ON CONFLICT (console_id, booking_date, start_time) DO UPDATE
+    SET hold_token = EXCLUDED.hold_token,
+        expires_at = GREATEST(slot_holds.expires_at, EXCLUDED.expires_at)
+    WHERE slot_holds.hold_token = EXCLUDED.hold_token
+       OR (EXCLUDED.user_id IS NOT NULL AND slot_holds.user_id = EXCLUDED.user_id)
+  RETURNING * INTO v_hold;
+
+  IF v_hold.id IS NULL THEN
+    RAISE EXCEPTION 'Slot is being booked by another customer';
+  END IF;
+
+  RETURN v_hold;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION offer_waitlist_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_slot_minutes integer := COALESCE((get_setting('slot_minutes') #>> '{}')::integer, 60);
+  v_offset integer;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' THEN
+    FOR v_offset IN 0..((NEW.duration_hours * 60)::integer - 1) BY v_slot_minutes LOOP
+      PERFORM offer_next_waitlist_entry(
+        NEW.console_id,
+        NEW.booking_date,
+        (NEW.start_time + make_interval(mins => v_offset))::time
+      );
+    END LOOP;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_rate integer;
+  v_duration numeric;
+  v_amount integer;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  SELECT COALESCE(SUM(e.price * COALESCE((x->>'quantity')::integer, 1)), 0)
+    INTO v_extras_amount
+    FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) x
+    JOIN extras e ON e.id = (x->>'extra_id')::uuid AND e.is_active = true;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Read by trigger_enforce_slot_hold for the rest of this transaction
+  PERFORM set_config('app.hold_token', COALESCE(p_hold_token, ''), true);
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT hourly_rate INTO v_rate
+      FROM consoles
+      WHERE id = (v_slot->>'console_id')::uuid AND is_active = true;
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'Console % is not available', v_slot->>'console_id';
+    END IF;
+
+    v_duration := COALESCE((v_slot->>'duration_hours')::numeric, 1);
+    v_amount := round(v_rate * v_duration);
+
+    -- Opening hours and the slot grid are checked by trigger_enforce_business_hours
+    INSERT INTO bookings (user_id, console_id, order_id, series_id, booking_date, start_time, duration_hours, total_amount, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_id')::uuid,
+      v_order.id,
+      (SELECT id FROM booking_series WHERE id = (v_slot->>'series_id')::uuid AND user_id = v_user_id),
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      v_duration,
+      v_amount,
+      p_notes
+    );
+
+    v_slots_amount := v_slots_amount + v_amount;
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Closed days count as conflicts instead of aborting the series
+CREATE OR REPLACE FUNCTION booking_series_conflicts(
+  p_booking_date date,
+  p_slots jsonb,
+  p_frequency text,
+  p_occurrences integer DEFAULT NULL,
+  p_until_date date DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('booking_date', d, 'console_id', s->>'console_id', 'start_time', s->>'start_time')
+    ORDER BY d, s->>'start_time'
+  ), '[]'::jsonb)
+  FROM booking_series_dates(p_booking_date, p_frequency, p_occurrences, p_until_date) d
+  CROSS JOIN jsonb_array_elements(p_slots) s
+  WHERE (SELECT is_closed FROM business_hours_for(d))
+     OR NOT booking_slot_is_free(
+       (s->>'console_id')::uuid, d, (s->>'start_time')::time, COALESCE((s->>'duration_hours')::numeric, 1)
+     );
+$$ LANGUAGE sql STABLE;
+
+DROP FUNCTION IF EXISTS update_booking_series(uuid, uuid, time, integer);
+CREATE OR REPLACE FUNCTION update_booking_series(
+  p_series_id uuid,
+  p_user_id uuid,
+  p_start_time time,
+  p_duration_hours numeric
+)
+RETURNS booking_series AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_series booking_series;
+  v_rate integer;
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_series FROM booking_series
+    WHERE id = p_series_id AND user_id = v_user_id AND status = 'active';
+  IF v_series.id IS NULL THEN
+    RAISE EXCEPTION 'Series % is not active', p_series_id;
+  END IF;
+
+  SELECT hourly_rate INTO v_rate FROM consoles WHERE id = v_series.console_id;
+
+  FOR v_booking IN
+    SELECT * FROM bookings
+    WHERE series_id = p_series_id AND booking_date >= CURRENT_DATE AND status IN ('pending', 'confirmed')
+  LOOP
+    IF NOT booking_slot_is_free(v_booking.console_id, v_booking.booking_date, p_start_time, p_duration_hours, v_booking.id) THEN
+      RAISE EXCEPTION 'New time conflicts with an existing booking on %', v_booking.booking_date;
+    END IF;
+
+    UPDATE bookings
+      SET start_time = p_start_time,
+          duration_hours = p_duration_hours,
+          total_amount = round(v_rate * p_duration_hours),
+          updated_at = now()
+      WHERE id = v_booking.id;
+  END LOOP;
+
+  UPDATE booking_series
+    SET start_time = p_start_time, duration_hours = p_duration_hours, updated_at = now()
+    WHERE id = p_series_id
+    RETURNING * INTO v_series;
+
+  RETURN v_series;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
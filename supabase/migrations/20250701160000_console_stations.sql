@@ -0,0 +1,216 @@
+/*
+  # Console Stations
+
+  1. New Tables
+    - `console_stations` - Physical gaming stations (name, room, seats) with the console attached to them
+
+  2. Changes
+    - `bookings`, `booking_series`, `slot_holds` and `booking_waitlist` get `console_station_id`
+    - A console can only be attached to one station, so the existing per-console
+      availability checks and the overlap constraint also hold per station
+
+  3. Functions
+    - `sync_console_station()` - Keeps `console_id` and `console_station_id` in step on every
+      table that references a station, and rejects inactive stations
+    - `booking_series_conflicts(...)`, `create_booking_series(...)` - Redefined to take the same
+      station slots as the checkout
+*/
+
+-- Console stations table
+CREATE TABLE IF NOT EXISTS console_stations (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  location text,
+  seats integer DEFAULT 1 CHECK (seats > 0),
+  console_id uuid UNIQUE REFERENCES consoles(id) ON DELETE SET NULL,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_console_stations_is_active ON console_stations(is_active);
+
+ALTER TABLE console_stations ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active console stations" ON console_stations
+  FOR SELECT USING (is_active = true);
+
+-- One station per existing console so current bookings keep working
+INSERT INTO console_stations (name, console_id)
+SELECT 'Station ' || row_number() OVER (ORDER BY created_at), id
+FROM consoles
+WHERE NOT EXISTS (SELECT 1 FROM console_stations);
+
+ALTER TABLE bookings ADD COLUMN IF NOT EXISTS console_station_id uuid REFERENCES console_stations(id) ON DELETE SET NULL;
+ALTER TABLE booking_series ADD COLUMN IF NOT EXISTS console_station_id uuid REFERENCES console_stations(id) ON DELETE SET NULL;
+ALTER TABLE slot_holds ADD COLUMN IF NOT EXISTS console_station_id uuid REFERENCES console_stations(id) ON DELETE CASCADE;
+ALTER TABLE booking_waitlist ADD COLUMN IF NOT EXISTS console_station_id uuid REFERENCES console_stations(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_bookings_console_station_id ON bookings(console_station_id);
+CREATE INDEX IF NOT EXISTS idx_slot_holds_console_station_id ON slot_holds(console_station_id);
+CREATE INDEX IF NOT EXISTS idx_booking_waitlist_console_station_id ON booking_waitlist(console_station_id);
+
+UPDATE bookings b SET console_station_id = s.id FROM console_stations s WHERE s.console_id = b.console_id;
+UPDATE booking_series b SET console_station_id = s.id FROM console_stations s WHERE s.console_id = b.console_id;
+UPDATE slot_holds h SET console_station_id = s.id FROM console_stations s WHERE s.console_id = h.console_id;
+UPDATE booking_waitlist w SET console_station_id = s.id FROM console_stations s WHERE s.console_id = w.console_id;
+
+/*
+  Existing functions keep working with console_id; rows written with only a
+  console_station_id get the attached console filled in and vice versa.
+*/
+CREATE OR REPLACE FUNCTION sync_console_station()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_station console_stations;
+BEGIN
+  -- Deleting a station detaches its booking history instead of blocking the delete
+  IF TG_OP = 'UPDATE' AND NEW.console_station_id IS NULL AND OLD.console_station_id IS NOT NULL THEN
+    RETURN NEW;
+  END IF;
+
+  IF NEW.console_station_id IS NOT NULL THEN
+    SELECT * INTO v_station FROM console_stations WHERE id = NEW.console_station_id;
+  ELSE
+    SELECT * INTO v_station FROM console_stations WHERE console_id = NEW.console_id;
+  END IF;
+
+  IF v_station.id IS NULL THEN
+    RAISE EXCEPTION 'Console % is not attached to a station', NEW.console_id;
+  ELSIF v_station.console_id IS NULL THEN
+    RAISE EXCEPTION 'Station % has no console attached', v_station.name;
+  ELSIF NOT v_station.is_active THEN
+    RAISE EXCEPTION 'Station % is not available', v_station.name;
+  END IF;
+
+  NEW.console_station_id := v_station.id;
+  NEW.console_id := v_station.console_id;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Triggers fire in name order; the "a_" keeps this ahead of the hold, hours and price checks
+CREATE TRIGGER trigger_a_sync_console_station
+  BEFORE INSERT OR UPDATE OF console_id, console_station_id ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_console_station();
+
+CREATE TRIGGER trigger_a_sync_console_station
+  BEFORE INSERT OR UPDATE OF console_id, console_station_id ON booking_series
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_console_station();
+
+CREATE TRIGGER trigger_a_sync_console_station
+  BEFORE INSERT OR UPDATE OF console_id, console_station_id ON slot_holds
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_console_station();
+
+CREATE TRIGGER trigger_a_sync_console_station
+  BEFORE INSERT OR UPDATE OF console_id, console_station_id ON booking_waitlist
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_console_station();
+
+-- Conflicts are reported per station: [{ "booking_date", "console_station_id", "start_time" }]
+CREATE OR REPLACE FUNCTION booking_series_conflicts(
+  p_booking_date date,
+  p_slots jsonb,
+  p_frequency text,
+  p_occurrences integer DEFAULT NULL,
+  p_until_date date DEFAULT NULL
+)
+RETURNS jsonb AS $$
+  SELECT COALESCE(jsonb_agg(
+    jsonb_build_object('booking_date', d, 'console_station_id', s->>'console_station_id', 'start_time', s->>'start_time')
+    ORDER BY d, s->>'start_time'
+  ), '[]'::jsonb)
+  FROM booking_series_dates(p_booking_date, p_frequency, p_occurrences, p_until_date) d
+  CROSS JOIN jsonb_array_elements(p_slots) s
+  LEFT JOIN console_stations cs ON cs.id = (s->>'console_station_id')::uuid
+  WHERE (SELECT is_closed FROM business_hours_for(d))
+     OR cs.console_id IS NULL
+     OR NOT booking_slot_is_free(
+       cs.console_id, d, (s->>'start_time')::time, COALESCE((s->>'duration_hours')::numeric, 1)
+     );
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION create_booking_series(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_frequency text DEFAULT 'weekly',
+  p_occurrences integer DEFAULT NULL,
+  p_until_date date DEFAULT NULL,
+  p_skip_conflicts boolean DEFAULT true,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_series booking_series;
+  v_series_list jsonb := '[]'::jsonb;
+  v_slot jsonb;
+  v_slots jsonb := '[]'::jsonb;
+  v_date_slots jsonb;
+  v_date date;
+  v_created date[] := '{}';
+  v_conflicts jsonb;
+BEGIN
+  IF v_user_id IS NULL THEN
+    RAISE EXCEPTION 'Sign in to book a recurring series';
+  ELSIF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Series must contain at least one slot';
+  END IF;
+
+  v_conflicts := booking_series_conflicts(p_booking_date, p_slots, p_frequency, p_occurrences, p_until_date);
+
+  IF NOT p_skip_conflicts AND jsonb_array_length(v_conflicts) > 0 THEN
+    RAISE EXCEPTION 'Series has % conflicting sessions', jsonb_array_length(v_conflicts);
+  END IF;
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    INSERT INTO booking_series (user_id, console_station_id, start_time, duration_hours, frequency, starts_on, occurrences, until_date, notes)
+    VALUES (
+      v_user_id,
+      (v_slot->>'console_station_id')::uuid,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::numeric, 1),
+      p_frequency,
+      p_booking_date,
+      p_occurrences,
+      p_until_date,
+      p_notes
+    )
+    RETURNING * INTO v_series;
+
+    v_series_list := v_series_list || jsonb_build_array(to_jsonb(v_series));
+    v_slots := v_slots || jsonb_build_array((v_slot - 'amount') || jsonb_build_object('series_id', v_series.id));
+  END LOOP;
+
+  FOR v_date IN SELECT * FROM booking_series_dates(p_booking_date, p_frequency, p_occurrences, p_until_date) LOOP
+    SELECT jsonb_agg(s) INTO v_date_slots
+      FROM jsonb_array_elements(v_slots) s
+      WHERE NOT v_conflicts @> jsonb_build_array(jsonb_build_object(
+        'booking_date', v_date, 'console_station_id', s->>'console_station_id', 'start_time', s->>'start_time'
+      ));
+
+    IF v_date_slots IS NOT NULL THEN
+      PERFORM create_booking_order(v_user_id, v_date, v_date_slots, p_extras, p_players, p_notes, NULL, NULL, NULL, p_hold_token);
+      v_created := v_created || v_date;
+    END IF;
+  END LOOP;
+
+  IF array_length(v_created, 1) IS NULL THEN
+    RAISE EXCEPTION 'Every occurrence in this series is already booked';
+  END IF;
+
+  RETURN jsonb_build_object(
+    'series', v_series_list,
+    'created', to_jsonb(v_created),
+    'conflicts', v_conflicts
+  );
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
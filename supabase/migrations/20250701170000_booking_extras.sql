@@ -0,0 +1,140 @@
+/*
+  # Booking Extras from the Catalog
+
+  1. Changes
+    - `booking_extras.order_id` - Extras are bought once per order, so each row also points at the order
+    - Users can read the extras of their own bookings
+
+  2. Functions
+    - `create_booking_order(...)` - Redefined to reject unknown or inactive extras and to store
+      every extra in `booking_extras` at the catalog price, attached to the order's first booking.
+      Slots now name a `console_station_id`, as the booking grid is built from stations
+*/
+
+ALTER TABLE booking_extras ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES booking_orders(id) ON DELETE CASCADE;
+
+CREATE INDEX IF NOT EXISTS idx_booking_extras_order_id ON booking_extras(order_id);
+
+CREATE POLICY "Users can view extras of their own bookings" ON booking_extras
+  FOR SELECT USING (EXISTS (SELECT 1 FROM bookings b WHERE b.id = booking_id AND b.user_id = auth.uid()));
+
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_extra jsonb;
+  v_console_id uuid;
+  v_rate integer;
+  v_price integer;
+  v_duration numeric;
+  v_amount integer;
+  v_first_booking_id uuid;
+  v_booking_id uuid;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Read by trigger_enforce_slot_hold for the rest of this transaction
+  PERFORM set_config('app.hold_token', COALESCE(p_hold_token, ''), true);
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT c.id, c.hourly_rate INTO v_console_id, v_rate
+      FROM console_stations s
+      JOIN consoles c ON c.id = s.console_id
+      WHERE s.id = (v_slot->>'console_station_id')::uuid AND s.is_active = true AND c.is_active = true;
+
+    IF v_rate IS NULL THEN
+      RAISE EXCEPTION 'Station % is not available', v_slot->>'console_station_id';
+    END IF;
+
+    v_duration := COALESCE((v_slot->>'duration_hours')::numeric, 1);
+    v_amount := round(v_rate * v_duration);
+
+    INSERT INTO bookings (
+      user_id, console_id, console_station_id, order_id, series_id, booking_date, start_time, duration_hours, total_amount, notes
+    )
+    VALUES (
+      v_user_id,
+      v_console_id,
+      (v_slot->>'console_station_id')::uuid,
+      v_order.id,
+      (SELECT id FROM booking_series WHERE id = (v_slot->>'series_id')::uuid AND user_id = v_user_id),
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      v_duration,
+      v_amount,
+      p_notes
+    )
+    RETURNING id INTO v_booking_id;
+
+    v_first_booking_id := COALESCE(v_first_booking_id, v_booking_id);
+    v_slots_amount := v_slots_amount + v_amount;
+  END LOOP;
+
+  FOR v_extra IN SELECT * FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) LOOP
+    SELECT price INTO v_price
+      FROM extras
+      WHERE id = (v_extra->>'extra_id')::uuid AND is_active = true;
+
+    IF v_price IS NULL THEN
+      RAISE EXCEPTION 'Extra % is not available', v_extra->>'extra_id';
+    END IF;
+
+    -- total_price is filled in by trigger_update_booking_extra_total
+    INSERT INTO booking_extras (booking_id, order_id, extra_id, quantity, unit_price)
+    VALUES (
+      v_first_booking_id,
+      v_order.id,
+      (v_extra->>'extra_id')::uuid,
+      COALESCE((v_extra->>'quantity')::integer, 1),
+      v_price
+    );
+
+    v_extras_amount := v_extras_amount + v_price * COALESCE((v_extra->>'quantity')::integer, 1);
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,314 @@
+/*
+  # Peak / Off-peak Pricing Rules
+
+  1. New Tables
+    - `pricing_rules` - Admin-managed adjustments to `consoles.hourly_rate`, matched by console type,
+      weekday/weekend/holiday and an optional time-of-day band (e.g. happy hour 10:00-14:00)
+
+  2. Changes
+    - `business_hour_exceptions.type` accepts `holiday`, a date that is open (regular hours unless
+      times are given) but priced with holiday rules
+
+  3. Functions
+    - `console_hourly_rate(console, date, time)` - Effective hourly rate for a slot after all matching rules
+    - `booking_price(console, date, start, duration)` - Sum of the slot prices of a booking
+    - `update_booking_price()` - Trigger pricing every booking from the rules whenever its slot changes
+    - `create_booking_order(...)` - Redefined to reject slots whose client-side price no longer matches
+    - `reschedule_booking(...)` - Redefined to reprice the new slot with the rules
+
+  4. Rule order
+    Matching rules apply in ascending `priority`: `override` replaces the rate, `percent` adjusts it
+    by a percentage (negative for discounts) and `fixed` adds an amount. Mirrored in src/lib/pricing.ts.
+*/
+
+-- Pricing rules table
+CREATE TABLE IF NOT EXISTS pricing_rules (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  console_type text CHECK (console_type IN ('ps3', 'ps4', 'ps5')),
+  day_type text NOT NULL DEFAULT 'all' CHECK (day_type IN ('all', 'weekday', 'weekend', 'holiday')),
+  start_time time,
+  end_time time,
+  adjustment_type text NOT NULL CHECK (adjustment_type IN ('percent', 'fixed', 'override')),
+  adjustment_value integer NOT NULL,
+  priority integer DEFAULT 0,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK ((start_time IS NULL) = (end_time IS NULL))
+);
+
+CREATE INDEX IF NOT EXISTS idx_pricing_rules_is_active ON pricing_rules(is_active);
+
+ALTER TABLE pricing_rules ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active pricing rules" ON pricing_rules
+  FOR SELECT USING (is_active = true);
+
+ALTER TABLE business_hour_exceptions DROP CONSTRAINT IF EXISTS business_hour_exceptions_type_check;
+ALTER TABLE business_hour_exceptions DROP CONSTRAINT IF EXISTS business_hour_exceptions_check;
+ALTER TABLE business_hour_exceptions
+  ADD CONSTRAINT business_hour_exceptions_type_check CHECK (type IN ('closed', 'extended', 'holiday')),
+  ADD CONSTRAINT business_hour_exceptions_check CHECK (type <> 'extended' OR (open_time IS NOT NULL AND close_time IS NOT NULL));
+
+CREATE OR REPLACE FUNCTION console_hourly_rate(p_console_id uuid, p_date date, p_time time)
+RETURNS integer AS $$
+DECLARE
+  v_console consoles;
+  v_rule pricing_rules;
+  v_rate numeric;
+  v_is_weekend boolean := EXTRACT(DOW FROM p_date) IN (0, 6);
+  v_is_holiday boolean;
+BEGIN
+  SELECT * INTO v_console FROM consoles WHERE id = p_console_id;
+  v_rate := v_console.hourly_rate;
+
+  SELECT EXISTS (SELECT 1 FROM business_hour_exceptions WHERE date = p_date AND type = 'holiday')
+    INTO v_is_holiday;
+
+  FOR v_rule IN
+    SELECT * FROM pricing_rules
+    WHERE is_active = true
+      AND (console_type IS NULL OR console_type = v_console.type)
+      AND (
+        day_type = 'all'
+        OR (day_type = 'weekday' AND NOT v_is_weekend)
+        OR (day_type = 'weekend' AND v_is_weekend)
+        OR (day_type = 'holiday' AND v_is_holiday)
+      )
+      AND (
+        start_time IS NULL
+        OR (start_time < end_time AND p_time >= start_time AND p_time < end_time)
+        -- Bands that run past midnight, e.g. 22:00-02:00
+        OR (start_time >= end_time AND (p_time >= start_time OR p_time < end_time))
+      )
+    ORDER BY priority, created_at
+  LOOP
+    v_rate := CASE v_rule.adjustment_type
+      WHEN 'override' THEN v_rule.adjustment_value
+      WHEN 'percent' THEN v_rate * (100 + v_rule.adjustment_value) / 100
+      ELSE v_rate + v_rule.adjustment_value
+    END;
+  END LOOP;
+
+  RETURN GREATEST(round(v_rate), 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION booking_price(
+  p_console_id uuid,
+  p_booking_date date,
+  p_start_time time,
+  p_duration_hours numeric
+)
+RETURNS integer AS $$
+DECLARE
+  v_slot_minutes integer := COALESCE((get_setting('slot_minutes') #>> '{}')::integer, 60);
+  v_offset integer;
+  v_total numeric := 0;
+BEGIN
+  FOR v_offset IN 0..((p_duration_hours * 60)::integer - 1) BY v_slot_minutes LOOP
+    v_total := v_total + console_hourly_rate(
+      p_console_id,
+      p_booking_date,
+      (p_start_time + make_interval(mins => v_offset))::time
+    ) * v_slot_minutes / 60.0;
+  END LOOP;
+
+  RETURN round(v_total);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+-- Fires after trigger_a_sync_console_station so console_id is always filled in
+CREATE OR REPLACE FUNCTION update_booking_price()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.total_amount := booking_price(NEW.console_id, NEW.booking_date, NEW.start_time, NEW.duration_hours);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_update_booking_price
+  BEFORE INSERT OR UPDATE OF console_id, booking_date, start_time, duration_hours ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION update_booking_price();
+
+/*
+  p_slots: [{ "console_station_id": uuid, "start_time": "HH:MM", "duration_hours": numeric, "amount": int,
+              "breakdown": [{ "start_time", "rate", "amount" }] }]
+
+  "amount" is the price the customer saw; the order is rejected when the rules
+  now give a different price so nobody is charged more than they confirmed.
+*/
+CREATE OR REPLACE FUNCTION create_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_order booking_orders;
+  v_slot jsonb;
+  v_extra jsonb;
+  v_console_id uuid;
+  v_price integer;
+  v_amount integer;
+  v_first_booking_id uuid;
+  v_booking_id uuid;
+  v_slots_amount integer := 0;
+  v_extras_amount integer := 0;
+BEGIN
+  IF p_slots IS NULL OR jsonb_array_length(p_slots) = 0 THEN
+    RAISE EXCEPTION 'Order must contain at least one slot';
+  ELSIF v_user_id IS NULL AND (btrim(COALESCE(p_customer_name, '')) = '' OR btrim(COALESCE(p_customer_phone, '')) = '') THEN
+    RAISE EXCEPTION 'Guests must give a name and phone number';
+  END IF;
+
+  INSERT INTO booking_orders (
+    reference, user_id, customer_name, customer_phone, customer_email, booking_date, players, total_amount, notes
+  )
+  VALUES (
+    generate_order_reference(),
+    v_user_id,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_name) END,
+    CASE WHEN v_user_id IS NULL THEN btrim(p_customer_phone) END,
+    CASE WHEN v_user_id IS NULL THEN NULLIF(btrim(p_customer_email), '') END,
+    p_booking_date,
+    COALESCE(p_players, 1),
+    0,
+    p_notes
+  )
+  RETURNING * INTO v_order;
+
+  -- Read by trigger_enforce_slot_hold for the rest of this transaction
+  PERFORM set_config('app.hold_token', COALESCE(p_hold_token, ''), true);
+
+  FOR v_slot IN SELECT * FROM jsonb_array_elements(p_slots) LOOP
+    SELECT c.id INTO v_console_id
+      FROM console_stations s
+      JOIN consoles c ON c.id = s.console_id
+      WHERE s.id = (v_slot->>'console_station_id')::uuid AND s.is_active = true AND c.is_active = true;
+
+    IF v_console_id IS NULL THEN
+      RAISE EXCEPTION 'Station % is not available', v_slot->>'console_station_id';
+    END IF;
+
+    -- total_amount is set by trigger_update_booking_price
+    INSERT INTO bookings (
+      user_id, console_id, console_station_id, order_id, series_id, booking_date, start_time, duration_hours, total_amount, notes
+    )
+    VALUES (
+      v_user_id,
+      v_console_id,
+      (v_slot->>'console_station_id')::uuid,
+      v_order.id,
+      (SELECT id FROM booking_series WHERE id = (v_slot->>'series_id')::uuid AND user_id = v_user_id),
+      p_booking_date,
+      (v_slot->>'start_time')::time,
+      COALESCE((v_slot->>'duration_hours')::numeric, 1),
+      0,
+      p_notes
+    )
+    RETURNING id, total_amount INTO v_booking_id, v_amount;
+
+    IF v_slot ? 'amount' AND (v_slot->>'amount')::integer <> v_amount THEN
+      RAISE EXCEPTION 'Price for the % session has changed to %', v_slot->>'start_time', v_amount;
+    END IF;
+
+    v_first_booking_id := COALESCE(v_first_booking_id, v_booking_id);
+    v_slots_amount := v_slots_amount + v_amount;
+  END LOOP;
+
+  FOR v_extra IN SELECT * FROM jsonb_array_elements(COALESCE(p_extras, '[]'::jsonb)) LOOP
+    SELECT price INTO v_price
+      FROM extras
+      WHERE id = (v_extra->>'extra_id')::uuid AND is_active = true;
+
+    IF v_price IS NULL THEN
+      RAISE EXCEPTION 'Extra % is not available', v_extra->>'extra_id';
+    END IF;
+
+    -- total_price is filled in by trigger_update_booking_extra_total
+    INSERT INTO booking_extras (booking_id, order_id, extra_id, quantity, unit_price)
+    VALUES (
+      v_first_booking_id,
+      v_order.id,
+      (v_extra->>'extra_id')::uuid,
+      COALESCE((v_extra->>'quantity')::integer, 1),
+      v_price
+    );
+
+    v_extras_amount := v_extras_amount + v_price * COALESCE((v_extra->>'quantity')::integer, 1);
+  END LOOP;
+
+  UPDATE booking_orders
+    SET slots_amount = v_slots_amount,
+        extras_amount = v_extras_amount,
+        total_amount = v_slots_amount + v_extras_amount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reschedule_booking(
+  p_booking_id uuid,
+  p_user_id uuid,
+  p_booking_date date,
+  p_start_time time
+)
+RETURNS jsonb AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_booking bookings;
+  v_policy jsonb := get_setting('cancellation_policy');
+  v_old_amount integer;
+  v_difference integer;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id AND user_id = v_user_id FOR UPDATE;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  ELSIF v_booking.status NOT IN ('pending', 'confirmed') THEN
+    RAISE EXCEPTION 'Booking can no longer be rescheduled (status: %)', v_booking.status;
+  ELSIF ((v_booking.booking_date + v_booking.start_time) AT TIME ZONE 'Asia/Jakarta') - now()
+        < make_interval(hours => COALESCE((v_policy->>'reschedule_cutoff_hours')::integer, 0)) THEN
+    RAISE EXCEPTION 'Booking starts too soon to be rescheduled';
+  ELSIF ((p_booking_date + p_start_time) AT TIME ZONE 'Asia/Jakarta') <= now() THEN
+    RAISE EXCEPTION 'New time must be in the future';
+  END IF;
+
+  IF NOT booking_slot_is_free(v_booking.console_id, p_booking_date, p_start_time, v_booking.duration_hours, v_booking.id) THEN
+    RAISE EXCEPTION 'New slot is already booked';
+  END IF;
+
+  v_old_amount := v_booking.total_amount;
+
+  -- The new price comes from trigger_update_booking_price
+  UPDATE bookings
+    SET booking_date = p_booking_date,
+        start_time = p_start_time,
+        updated_at = now()
+    WHERE id = p_booking_id
+    RETURNING * INTO v_booking;
+
+  v_difference := v_booking.total_amount - v_old_amount;
+
+  IF v_difference < 0 AND v_booking.payment_status = 'paid' THEN
+    INSERT INTO booking_refunds (booking_id, amount, refund_percent, reason, policy)
+    VALUES (p_booking_id, -v_difference, 0, 'reschedule', v_policy);
+  END IF;
+
+  RETURN jsonb_build_object('booking', to_jsonb(v_booking), 'price_difference', v_difference);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
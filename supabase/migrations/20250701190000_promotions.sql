@@ -0,0 +1,209 @@
+/*
+  # Promo Codes and Automatic Promotions
+
+  1. Changes
+    - `promotions.code` - Customers type this at checkout; promotions without a code apply automatically
+    - `booking_orders.promotion_id` and `booking_orders.discount_amount`
+
+  2. New Tables
+    - `promotion_redemptions` - One row per order a promotion was applied to
+
+  3. Functions
+    - `promotion_discount(...)` - Discount a promotion gives on the slots of an order
+    - `apply_order_promotion(order, code)` - Applies the code, or else the best automatic promotion,
+      claiming a use atomically against `max_uses`
+    - `checkout_booking_order(...)` - `create_booking_order` plus `apply_order_promotion` in one transaction
+    - `booking_paid_amount(booking)` - Redefined to take off the booking's share of the order discount,
+      so a cancelled booking refunds what was paid rather than its list price
+
+  4. Discounts
+    Promotions only discount slot time, never extras:
+      percentage   - discount_value percent of the slots amount
+      fixed_amount - discount_value rupiah, up to the slots amount
+      free_hours   - discount_value hours at the order's average hourly price
+    Mirrored in src/lib/promotions.ts.
+*/
+
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS code text;
+
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL;
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS discount_amount integer NOT NULL DEFAULT 0;
+
+-- Promotion redemptions table
+CREATE TABLE IF NOT EXISTS promotion_redemptions (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  promotion_id uuid NOT NULL REFERENCES promotions(id) ON DELETE CASCADE,
+  order_id uuid NOT NULL UNIQUE REFERENCES booking_orders(id) ON DELETE CASCADE,
+  user_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  discount_amount integer NOT NULL CHECK (discount_amount >= 0),
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_promotion_redemptions_promotion_id ON promotion_redemptions(promotion_id);
+
+ALTER TABLE promotion_redemptions ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own promotion redemptions" ON promotion_redemptions
+  FOR SELECT USING (auth.uid() = user_id);
+
+-- Codes are matched case-insensitively
+CREATE UNIQUE INDEX IF NOT EXISTS idx_promotions_code_upper ON promotions(upper(code));
+
+CREATE OR REPLACE FUNCTION promotion_discount(
+  p_promotion promotions,
+  p_slots_amount integer,
+  p_total_hours numeric
+)
+RETURNS integer AS $$
+BEGIN
+  IF p_total_hours < COALESCE(p_promotion.min_booking_hours, 1) OR p_slots_amount <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  RETURN LEAST(p_slots_amount, round(CASE p_promotion.discount_type
+    WHEN 'percentage' THEN p_slots_amount * p_promotion.discount_value / 100.0
+    WHEN 'fixed_amount' THEN p_promotion.discount_value
+    ELSE p_slots_amount * LEAST(p_promotion.discount_value, p_total_hours) / p_total_hours
+  END));
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION apply_order_promotion(p_order_id uuid, p_code text DEFAULT NULL)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+  v_promotion promotions;
+  v_total_hours numeric;
+  v_discount integer := 0;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_order_id FOR UPDATE;
+  SELECT COALESCE(SUM(duration_hours), 0) INTO v_total_hours FROM bookings WHERE order_id = p_order_id;
+
+  IF p_code IS NOT NULL AND btrim(p_code) <> '' THEN
+    SELECT * INTO v_promotion FROM promotions WHERE upper(code) = upper(btrim(p_code));
+    IF v_promotion.id IS NULL THEN
+      RAISE EXCEPTION 'Promo code % does not exist', p_code;
+    END IF;
+
+    v_discount := promotion_discount(v_promotion, v_order.slots_amount, v_total_hours);
+    IF v_discount = 0 THEN
+      RAISE EXCEPTION 'Promo code % needs at least % hours of play', p_code, v_promotion.min_booking_hours;
+    END IF;
+  ELSE
+    -- Best automatic promotion that still has uses left
+    SELECT p.* INTO v_promotion
+      FROM promotions p
+      WHERE p.code IS NULL
+        AND p.is_active = true
+        AND CURRENT_DATE BETWEEN p.valid_from AND p.valid_until
+        AND (p.max_uses IS NULL OR p.current_uses < p.max_uses)
+      ORDER BY promotion_discount(p, v_order.slots_amount, v_total_hours) DESC
+      LIMIT 1;
+
+    IF v_promotion.id IS NULL THEN
+      RETURN v_order;
+    END IF;
+
+    v_discount := promotion_discount(v_promotion, v_order.slots_amount, v_total_hours);
+    IF v_discount = 0 THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  -- Claiming the use and checking max_uses in one statement keeps concurrent checkouts from overshooting
+  UPDATE promotions
+    SET current_uses = current_uses + 1, updated_at = now()
+    WHERE id = v_promotion.id
+      AND is_active = true
+      AND CURRENT_DATE BETWEEN valid_from AND valid_until
+      AND (max_uses IS NULL OR current_uses < max_uses)
+    RETURNING * INTO v_promotion;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promotion is no longer available';
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+  VALUES (v_promotion.id, v_order.id, v_order.user_id, v_discount);
+
+  UPDATE booking_orders
+    SET promotion_id = v_promotion.id,
+        discount_amount = v_discount,
+        total_amount = slots_amount + extras_amount - v_discount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION checkout_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+BEGIN
+  v_order := create_booking_order(
+    p_user_id, p_booking_date, p_slots, p_extras, p_players, p_notes,
+    p_customer_name, p_customer_phone, p_customer_email, p_hold_token
+  );
+  RETURN apply_order_promotion(v_order.id, p_promo_code);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Cancelling every booking of an order gives its promotion use back
+CREATE OR REPLACE FUNCTION release_promotion_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_redemption promotion_redemptions;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.order_id IS NOT NULL
+     AND NOT EXISTS (SELECT 1 FROM bookings WHERE order_id = NEW.order_id AND status <> 'cancelled') THEN
+    DELETE FROM promotion_redemptions WHERE order_id = NEW.order_id RETURNING * INTO v_redemption;
+
+    IF v_redemption.id IS NOT NULL THEN
+      UPDATE promotions
+        SET current_uses = GREATEST(current_uses - 1, 0), updated_at = now()
+        WHERE id = v_redemption.promotion_id;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_release_promotion_on_cancel
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION release_promotion_on_cancel();
+
+-- The discount is spread over the order's bookings in proportion to their slot price
+CREATE OR REPLACE FUNCTION booking_paid_amount(p_booking bookings)
+RETURNS integer AS $$
+DECLARE
+  v_order booking_orders;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_booking.order_id;
+
+  IF v_order.id IS NULL OR v_order.slots_amount = 0 THEN
+    RETURN p_booking.total_amount;
+  END IF;
+
+  RETURN GREATEST(
+    p_booking.total_amount - round(v_order.discount_amount * p_booking.total_amount / v_order.slots_amount::numeric),
+    0
+  );
+END;
+$$ LANGUAGE plpgsql STABLE;
@@ -0,0 +1,199 @@
+/*
+  # Redeem Loyalty Points at Checkout
+
+  1. Changes
+    - `booking_orders.points_redeemed` and `booking_orders.points_amount` - Points spent on the order and their rupiah value
+    - `loyalty_points.order_id` - Order a redemption (or its restoration) belongs to
+
+  2. Functions
+    - `redeem_order_points(order, points)` - Spends points on an order within the per-order cap
+    - `checkout_booking_order(...)` - Redefined with `p_points`; points are spent after the promotion is applied
+    - `restore_points_on_cancel()` - Gives each cancelled booking's share of the redeemed points back
+    - `booking_paid_amount(booking)` - Redefined to the cash part of the booking, so points are
+      restored as points and never refunded as money
+
+  3. Settings
+    - `loyalty_redemption`:
+        rupiah_per_point      - value of one point at checkout
+        min_points            - smallest redemption
+        max_percent_per_order - share of the order total that may be paid with points
+
+  Redemptions are `redeemed` rows with source `redemption`; restorations are `earned`
+  rows with the same source. `users.loyalty_points` holds the spendable balance.
+*/
+
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS points_redeemed integer NOT NULL DEFAULT 0;
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS points_amount integer NOT NULL DEFAULT 0;
+
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS order_id uuid REFERENCES booking_orders(id) ON DELETE SET NULL;
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_order_id ON loyalty_points(order_id);
+
+INSERT INTO app_settings (key, value) VALUES
+('loyalty_redemption', '{"rupiah_per_point": 100, "min_points": 100, "max_percent_per_order": 50}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION redeem_order_points(p_order_id uuid, p_points integer)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+  v_settings jsonb := get_setting('loyalty_redemption');
+  v_rate integer := COALESCE((v_settings->>'rupiah_per_point')::integer, 100);
+  v_max_points integer;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF COALESCE(p_points, 0) <= 0 THEN
+    RETURN v_order;
+  ELSIF p_points < COALESCE((v_settings->>'min_points')::integer, 0) THEN
+    RAISE EXCEPTION 'Redeem at least % points', v_settings->>'min_points';
+  END IF;
+
+  v_max_points := floor(
+    v_order.total_amount * COALESCE((v_settings->>'max_percent_per_order')::integer, 100) / 100.0 / v_rate
+  );
+  IF p_points > v_max_points THEN
+    RAISE EXCEPTION 'At most % points can be redeemed on this order', v_max_points;
+  END IF;
+
+  -- Locking the user row keeps two checkouts from spending the same points
+  SELECT loyalty_points INTO v_balance FROM users WHERE id = v_order.user_id FOR UPDATE;
+  IF COALESCE(v_balance, 0) < p_points THEN
+    RAISE EXCEPTION 'Not enough loyalty points (balance: %)', COALESCE(v_balance, 0);
+  END IF;
+
+  UPDATE users SET loyalty_points = loyalty_points - p_points, updated_at = now() WHERE id = v_order.user_id;
+
+  INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id)
+  VALUES (
+    v_order.user_id,
+    p_points,
+    'redeemed',
+    'redemption',
+    'Redeemed on order ' || v_order.reference,
+    (SELECT id FROM bookings WHERE order_id = v_order.id ORDER BY start_time LIMIT 1),
+    v_order.id
+  );
+
+  UPDATE booking_orders
+    SET points_redeemed = p_points,
+        points_amount = p_points * v_rate,
+        total_amount = total_amount - p_points * v_rate,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+DROP FUNCTION IF EXISTS checkout_booking_order(uuid, date, jsonb, jsonb, integer, text, text, text, text, text, text);
+
+CREATE OR REPLACE FUNCTION checkout_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_points integer DEFAULT 0
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+BEGIN
+  v_order := create_booking_order(
+    p_user_id, p_booking_date, p_slots, p_extras, p_players, p_notes,
+    p_customer_name, p_customer_phone, p_customer_email, p_hold_token
+  );
+  v_order := apply_order_promotion(v_order.id, p_promo_code);
+  RETURN redeem_order_points(v_order.id, p_points);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+/*
+  Each cancelled booking gives back its share of the redeemed points, in the same
+  proportion as its share of the cash paid. The last booking of the order to be
+  cancelled gives back whatever is left, so a fully cancelled order restores every point.
+*/
+CREATE OR REPLACE FUNCTION restore_points_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order booking_orders;
+  v_restored integer;
+  v_points integer;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.order_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM booking_orders WHERE id = NEW.order_id FOR UPDATE;
+
+    SELECT COALESCE(sum(points), 0) INTO v_restored
+      FROM loyalty_points
+      WHERE order_id = v_order.id AND type = 'earned' AND source = 'redemption';
+
+    IF NOT EXISTS (SELECT 1 FROM bookings WHERE order_id = NEW.order_id AND status <> 'cancelled') THEN
+      v_points := v_order.points_redeemed - v_restored;
+    ELSE
+      v_points := LEAST(
+        COALESCE(
+          round(v_order.points_redeemed * booking_paid_amount(NEW) / NULLIF(v_order.total_amount, 0)::numeric),
+          round(v_order.points_redeemed * NEW.total_amount / NULLIF(v_order.slots_amount, 0)::numeric),
+          0
+        ),
+        v_order.points_redeemed - v_restored
+      );
+    END IF;
+
+    IF v_points > 0 THEN
+      UPDATE users SET loyalty_points = loyalty_points + v_points, updated_at = now()
+        WHERE id = v_order.user_id;
+
+      INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id)
+      VALUES (
+        v_order.user_id,
+        v_points,
+        'earned',
+        'redemption',
+        'Restored from cancelled booking on order ' || v_order.reference,
+        NEW.id,
+        v_order.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Points paid for part of the order in rupiah; the cash share of each booking is what gets refunded
+CREATE OR REPLACE FUNCTION booking_paid_amount(p_booking bookings)
+RETURNS integer AS $$
+DECLARE
+  v_order booking_orders;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_booking.order_id;
+
+  IF v_order.id IS NULL OR v_order.slots_amount = 0 THEN
+    RETURN p_booking.total_amount;
+  END IF;
+
+  v_amount := p_booking.total_amount - round(v_order.discount_amount * p_booking.total_amount / v_order.slots_amount::numeric);
+
+  IF v_order.points_amount > 0 THEN
+    v_amount := v_amount * v_order.total_amount / (v_order.total_amount + v_order.points_amount);
+  END IF;
+
+  RETURN GREATEST(round(v_amount), 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE TRIGGER trigger_restore_points_on_cancel
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION restore_points_on_cancel();
@@ -0,0 +1,193 @@
+/*
+  # Loyalty Points Ledger
+
+  1. Changes
+    - `loyalty_points` becomes the only source of a customer's points; `users.loyalty_points`
+      is a cached copy kept in sync from it
+    - Users can view their own ledger rows
+
+  2. Functions
+    - `loyalty_balance(user)` - Earned minus redeemed minus expired points
+    - `sync_loyalty_balance()` - Trigger refreshing `users.loyalty_points` after every ledger row
+    - `award_booking_points()` - Trigger crediting points once a booking is completed
+    - `redeem_order_points(...)` and `restore_points_on_cancel()` - Redefined to go through the ledger only
+
+  3. Settings
+    - `loyalty_earning`:
+        points_per_hour - points credited per hour of a completed booking
+
+  Completed bookings from before this migration are credited once, then every cached balance is rebuilt.
+*/
+
+INSERT INTO app_settings (key, value) VALUES
+('loyalty_earning', '{"points_per_hour": 10}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_created_at ON loyalty_points(user_id, created_at DESC);
+
+-- A booking earns points once, however often its status changes
+CREATE UNIQUE INDEX IF NOT EXISTS idx_loyalty_points_booking_earned
+  ON loyalty_points(booking_id) WHERE type = 'earned' AND source = 'booking';
+
+CREATE POLICY "Users can view their own loyalty points" ON loyalty_points
+  FOR SELECT USING (auth.uid() = user_id);
+
+CREATE OR REPLACE FUNCTION loyalty_balance(p_user_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE(SUM(CASE WHEN type = 'earned' THEN points ELSE -points END), 0)::integer
+    FROM loyalty_points
+    WHERE user_id = p_user_id;
+$$ LANGUAGE sql STABLE;
+
+CREATE OR REPLACE FUNCTION sync_loyalty_balance()
+RETURNS TRIGGER AS $$
+BEGIN
+  UPDATE users SET loyalty_points = loyalty_balance(NEW.user_id), updated_at = now()
+    WHERE id = NEW.user_id;
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_sync_loyalty_balance
+  AFTER INSERT ON loyalty_points
+  FOR EACH ROW
+  EXECUTE FUNCTION sync_loyalty_balance();
+
+CREATE OR REPLACE FUNCTION award_booking_points()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_points integer := round(
+    NEW.duration_hours * COALESCE((get_setting('loyalty_earning')->>'points_per_hour')::integer, 10)
+  );
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.user_id IS NOT NULL AND v_points > 0 THEN
+    INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id)
+    VALUES (NEW.user_id, v_points, 'earned', 'booking', 'Gaming session ' || NEW.booking_date, NEW.id, NEW.order_id)
+    ON CONFLICT DO NOTHING;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_award_booking_points
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION award_booking_points();
+
+CREATE OR REPLACE FUNCTION redeem_order_points(p_order_id uuid, p_points integer)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+  v_settings jsonb := get_setting('loyalty_redemption');
+  v_rate integer := COALESCE((v_settings->>'rupiah_per_point')::integer, 100);
+  v_max_points integer;
+  v_balance integer;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_order_id FOR UPDATE;
+
+  IF COALESCE(p_points, 0) <= 0 THEN
+    RETURN v_order;
+  ELSIF p_points < COALESCE((v_settings->>'min_points')::integer, 0) THEN
+    RAISE EXCEPTION 'Redeem at least % points', v_settings->>'min_points';
+  END IF;
+
+  v_max_points := floor(
+    v_order.total_amount * COALESCE((v_settings->>'max_percent_per_order')::integer, 100) / 100.0 / v_rate
+  );
+  IF p_points > v_max_points THEN
+    RAISE EXCEPTION 'At most % points can be redeemed on this order', v_max_points;
+  END IF;
+
+  -- Locking the user row keeps two checkouts from spending the same points
+  PERFORM 1 FROM users WHERE id = v_order.user_id FOR UPDATE;
+  v_balance := loyalty_balance(v_order.user_id);
+  IF v_balance < p_points THEN
+    RAISE EXCEPTION 'Not enough loyalty points (balance: %)', v_balance;
+  END IF;
+
+  INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id)
+  VALUES (
+    v_order.user_id,
+    p_points,
+    'redeemed',
+    'redemption',
+    'Redeemed on order ' || v_order.reference,
+    (SELECT id FROM bookings WHERE order_id = v_order.id ORDER BY start_time LIMIT 1),
+    v_order.id
+  );
+
+  UPDATE booking_orders
+    SET points_redeemed = p_points,
+        points_amount = p_points * v_rate,
+        total_amount = total_amount - p_points * v_rate,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Same per-booking shares as before, now written to the ledger only
+CREATE OR REPLACE FUNCTION restore_points_on_cancel()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_order booking_orders;
+  v_restored integer;
+  v_points integer;
+BEGIN
+  IF NEW.status = 'cancelled' AND OLD.status <> 'cancelled' AND NEW.order_id IS NOT NULL THEN
+    SELECT * INTO v_order FROM booking_orders WHERE id = NEW.order_id FOR UPDATE;
+
+    SELECT COALESCE(sum(points), 0) INTO v_restored
+      FROM loyalty_points
+      WHERE order_id = v_order.id AND type = 'earned' AND source = 'redemption';
+
+    IF NOT EXISTS (SELECT 1 FROM bookings WHERE order_id = NEW.order_id AND status <> 'cancelled') THEN
+      v_points := v_order.points_redeemed - v_restored;
+    ELSE
+      v_points := LEAST(
+        COALESCE(
+          round(v_order.points_redeemed * booking_paid_amount(NEW) / NULLIF(v_order.total_amount, 0)::numeric),
+          round(v_order.points_redeemed * NEW.total_amount / NULLIF(v_order.slots_amount, 0)::numeric),
+          0
+        ),
+        v_order.points_redeemed - v_restored
+      );
+    END IF;
+
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id)
+      VALUES (
+        v_order.user_id,
+        v_points,
+        'earned',
+        'redemption',
+        'Restored from cancelled booking on order ' || v_order.reference,
+        NEW.id,
+        v_order.id
+      );
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Credit sessions completed before the ledger existed
+INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id, order_id, created_at)
+SELECT
+  b.user_id,
+  round(b.duration_hours * COALESCE((get_setting('loyalty_earning')->>'points_per_hour')::integer, 10)),
+  'earned',
+  'booking',
+  'Gaming session ' || b.booking_date,
+  b.id,
+  b.order_id,
+  b.updated_at
+FROM bookings b
+WHERE b.status = 'completed' AND b.user_id IS NOT NULL
+ON CONFLICT DO NOTHING;
+
+UPDATE users SET loyalty_points = loyalty_balance(id);
@@ -0,0 +1,186 @@
+/*
+  # Loyalty Points Expiry
+
+  1. Changes
+    - Earned points get `expires_at` from the `loyalty_expiry` setting when they are credited
+    - `loyalty_points.expiry_warned_at` - When the customer was told this lot is about to lapse
+    - `loyalty_points.source` accepts `expiry` for the rows written by the expiry job
+
+  2. Functions
+    - `loyalty_lots(user)` - What is left of each earned lot after redemptions and expiries, soonest to expire first
+    - `expire_loyalty_points()` - Writes an `expired` row for every customer with lapsed points
+    - `warn_expiring_loyalty_points()` - Sends one notification per customer for lots lapsing soon
+    - `process_loyalty_expiry()` - Both of the above; safe to run any number of times
+    - pg_cron job running it every night
+
+  3. Settings
+    - `loyalty_expiry`:
+        expire_after_days - lifetime of earned points
+        warn_days_before  - how early customers are warned
+
+  Redeemed and expired points are taken from the lots that expire soonest (then the oldest),
+  so a lot only lapses with whatever was not spent before it expired. A change to
+  `expire_after_days` can leave an older lot expiring after a newer one.
+*/
+
+INSERT INTO app_settings (key, value) VALUES
+('loyalty_expiry', '{"expire_after_days": 365, "warn_days_before": 30}')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS expiry_warned_at timestamptz;
+
+ALTER TABLE loyalty_points DROP CONSTRAINT IF EXISTS loyalty_points_source_check;
+ALTER TABLE loyalty_points
+  ADD CONSTRAINT loyalty_points_source_check
+  CHECK (source IN ('booking', 'referral', 'event', 'birthday', 'redemption', 'expiry'));
+
+CREATE INDEX IF NOT EXISTS idx_loyalty_points_expires_at ON loyalty_points(expires_at) WHERE type = 'earned';
+
+CREATE OR REPLACE FUNCTION set_loyalty_expiry()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'earned' AND NEW.expires_at IS NULL THEN
+    NEW.expires_at := COALESCE(NEW.created_at, now()) + make_interval(
+      days => COALESCE((get_setting('loyalty_expiry')->>'expire_after_days')::integer, 365)
+    );
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_loyalty_expiry
+  BEFORE INSERT ON loyalty_points
+  FOR EACH ROW
+  EXECUTE FUNCTION set_loyalty_expiry();
+
+UPDATE loyalty_points
+  SET expires_at = created_at + make_interval(
+    days => COALESCE((get_setting('loyalty_expiry')->>'expire_after_days')::integer, 365)
+  )
+  WHERE type = 'earned' AND expires_at IS NULL;
+
+CREATE OR REPLACE FUNCTION loyalty_lots(p_user_id uuid)
+RETURNS TABLE (id uuid, expires_at timestamptz, expiry_warned_at timestamptz, remaining integer) AS $$
+DECLARE
+  v_lot loyalty_points;
+  v_consumed integer;
+  v_taken integer;
+BEGIN
+  SELECT COALESCE(SUM(points), 0) INTO v_consumed
+    FROM loyalty_points lp
+    WHERE lp.user_id = p_user_id AND lp.type IN ('redeemed', 'expired');
+
+  FOR v_lot IN
+    SELECT * FROM loyalty_points lp
+    WHERE lp.user_id = p_user_id AND lp.type = 'earned'
+    ORDER BY lp.expires_at, lp.created_at, lp.id
+  LOOP
+    v_taken := LEAST(v_lot.points, v_consumed);
+    v_consumed := v_consumed - v_taken;
+
+    id := v_lot.id;
+    expires_at := v_lot.expires_at;
+    expiry_warned_at := v_lot.expiry_warned_at;
+    remaining := v_lot.points - v_taken;
+    RETURN NEXT;
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION expire_loyalty_points()
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid;
+  v_points integer;
+  v_total integer := 0;
+BEGIN
+  FOR v_user_id IN
+    SELECT DISTINCT user_id FROM loyalty_points WHERE type = 'earned' AND expires_at <= now()
+  LOOP
+    -- Serialises with redeem_order_points, which locks the same row
+    PERFORM 1 FROM users WHERE id = v_user_id FOR UPDATE;
+
+    SELECT COALESCE(SUM(remaining), 0) INTO v_points
+      FROM loyalty_lots(v_user_id)
+      WHERE expires_at <= now();
+
+    IF v_points > 0 THEN
+      INSERT INTO loyalty_points (user_id, points, type, source, description)
+      VALUES (v_user_id, v_points, 'expired', 'expiry', 'Points expired');
+      v_total := v_total + v_points;
+    END IF;
+  END LOOP;
+
+  RETURN v_total;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION warn_expiring_loyalty_points()
+RETURNS integer AS $$
+DECLARE
+  v_warn_days integer := COALESCE((get_setting('loyalty_expiry')->>'warn_days_before')::integer, 30);
+  v_user_id uuid;
+  v_points integer;
+  v_first_expiry timestamptz;
+  v_warned integer := 0;
+BEGIN
+  IF v_warn_days <= 0 THEN
+    RETURN 0;
+  END IF;
+
+  FOR v_user_id IN
+    SELECT DISTINCT user_id FROM loyalty_points
+    WHERE type = 'earned'
+      AND expiry_warned_at IS NULL
+      AND expires_at > now()
+      AND expires_at <= now() + make_interval(days => v_warn_days)
+  LOOP
+    SELECT COALESCE(SUM(remaining), 0), MIN(expires_at)
+      INTO v_points, v_first_expiry
+      FROM loyalty_lots(v_user_id)
+      WHERE expiry_warned_at IS NULL
+        AND remaining > 0
+        AND expires_at > now()
+        AND expires_at <= now() + make_interval(days => v_warn_days);
+
+    IF v_points > 0 THEN
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (
+        v_user_id,
+        'Poin loyalty akan hangus',
+        v_points || ' poin Anda akan hangus mulai ' || to_char(v_first_expiry, 'DD Mon YYYY') ||
+          '. Pakai poin Anda saat booking berikutnya.',
+        'system',
+        '/dashboard'
+      );
+      v_warned := v_warned + 1;
+    END IF;
+
+    -- Lots already spent are marked too so they are not looked at again
+    UPDATE loyalty_points
+      SET expiry_warned_at = now()
+      WHERE user_id = v_user_id
+        AND type = 'earned'
+        AND expiry_warned_at IS NULL
+        AND expires_at > now()
+        AND expires_at <= now() + make_interval(days => v_warn_days);
+  END LOOP;
+
+  RETURN v_warned;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION process_loyalty_expiry()
+RETURNS jsonb AS $$
+DECLARE
+  v_expired integer;
+  v_warned integer;
+BEGIN
+  v_expired := expire_loyalty_points();
+  v_warned := warn_expiring_loyalty_points();
+  RETURN jsonb_build_object('expired_points', v_expired, 'warned_users', v_warned);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule('process-loyalty-expiry', '15 0 * * *', $$SELECT process_loyalty_expiry()$$);
@@ -0,0 +1,324 @@
+/*
+  # Membership Tier Engine
+
+  1. New Tables
+    - `membership_tiers` - Threshold and benefits of each `users.membership_level`
+    - `membership_tier_history` - Every promotion and demotion with the figure that caused it
+
+  2. Changes
+    - `booking_orders.tier_level` and `booking_orders.tier_discount_amount` - Tier benefits applied to the order
+    - `booking_extras.free_quantity` - Units of an extra given by the tier; they share the row of
+      the same extra bought at checkout and are left out of `total_price`
+
+  3. Functions
+    - `evaluate_membership(user)` - Recomputes a customer's tier, recording and notifying any change
+    - `evaluate_all_memberships()` - Nightly pg_cron job, so tiers drop once activity leaves the window
+    - `apply_tier_benefits(order)` - Tier discount on slot time plus the tier's free extras
+    - `update_booking_extra_total()` - Redefined to charge only the units that are not free
+    - `checkout_booking_order(...)` - Redefined to apply tier benefits after the promotion, before points
+    - `booking_paid_amount(booking)` - Redefined to also take off the booking's share of the tier discount
+    - `booking_window_days(user)` - How far ahead a customer may book
+    - `enforce_booking_window()` - Trigger rejecting bookings beyond that window
+
+  4. Settings
+    - `membership_evaluation`:
+        basis       - `points` (earned points) or `hours` (completed hours)
+        window_days - rolling window the basis is counted over
+    - `booking_window_days` - Days ahead anyone may book; tiers add `priority_booking_days`
+
+  Mirrored in src/lib/membership.ts.
+*/
+
+-- Membership tiers table
+CREATE TABLE IF NOT EXISTS membership_tiers (
+  level text PRIMARY KEY CHECK (level IN ('bronze', 'silver', 'gold', 'platinum')),
+  name text NOT NULL,
+  min_points integer NOT NULL DEFAULT 0 CHECK (min_points >= 0),
+  min_hours numeric(6,1) NOT NULL DEFAULT 0 CHECK (min_hours >= 0),
+  discount_percent integer NOT NULL DEFAULT 0 CHECK (discount_percent >= 0 AND discount_percent <= 100),
+  priority_booking_days integer NOT NULL DEFAULT 0 CHECK (priority_booking_days >= 0),
+  free_extras jsonb NOT NULL DEFAULT '[]'::jsonb,
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Membership tier history table
+CREATE TABLE IF NOT EXISTS membership_tier_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  from_level text,
+  to_level text NOT NULL,
+  direction text NOT NULL CHECK (direction IN ('promotion', 'demotion')),
+  basis text NOT NULL CHECK (basis IN ('points', 'hours')),
+  metric_value numeric NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_membership_tier_history_user_id ON membership_tier_history(user_id, created_at DESC);
+
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS tier_level text;
+ALTER TABLE booking_orders ADD COLUMN IF NOT EXISTS tier_discount_amount integer NOT NULL DEFAULT 0;
+
+ALTER TABLE booking_extras ADD COLUMN IF NOT EXISTS free_quantity integer NOT NULL DEFAULT 0
+  CHECK (free_quantity >= 0);
+
+ALTER TABLE membership_tiers ENABLE ROW LEVEL SECURITY;
+ALTER TABLE membership_tier_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view membership tiers" ON membership_tiers
+  FOR SELECT USING (true);
+
+CREATE POLICY "Users can view their own tier history" ON membership_tier_history
+  FOR SELECT USING (auth.uid() = user_id);
+
+INSERT INTO membership_tiers (level, name, min_points, min_hours, discount_percent, priority_booking_days) VALUES
+('bronze', 'Bronze', 0, 0, 0, 0),
+('silver', 'Silver', 500, 50, 5, 7),
+('gold', 'Gold', 2000, 200, 10, 14),
+('platinum', 'Platinum', 5000, 500, 15, 30)
+ON CONFLICT (level) DO NOTHING;
+
+INSERT INTO app_settings (key, value) VALUES
+('membership_evaluation', '{"basis": "points", "window_days": 365}'),
+('booking_window_days', '30')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION evaluate_membership(p_user_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_settings jsonb := get_setting('membership_evaluation');
+  v_basis text := COALESCE(v_settings->>'basis', 'points');
+  v_window interval := make_interval(days => COALESCE((v_settings->>'window_days')::integer, 365));
+  v_levels text[] := ARRAY['bronze', 'silver', 'gold', 'platinum'];
+  v_metric numeric;
+  v_current text;
+  v_level text;
+  v_tier_name text;
+BEGIN
+  IF v_basis = 'hours' THEN
+    SELECT COALESCE(SUM(duration_hours), 0) INTO v_metric
+      FROM bookings
+      WHERE user_id = p_user_id AND status = 'completed' AND booking_date > CURRENT_DATE - v_window;
+  ELSE
+    -- Restored redemptions are not new activity
+    SELECT COALESCE(SUM(points), 0) INTO v_metric
+      FROM loyalty_points
+      WHERE user_id = p_user_id AND type = 'earned' AND source <> 'redemption' AND created_at > now() - v_window;
+  END IF;
+
+  SELECT level, name INTO v_level, v_tier_name
+    FROM membership_tiers
+    WHERE CASE WHEN v_basis = 'hours' THEN min_hours ELSE min_points END <= v_metric
+    ORDER BY array_position(v_levels, level) DESC
+    LIMIT 1;
+  v_level := COALESCE(v_level, 'bronze');
+
+  SELECT membership_level INTO v_current FROM users WHERE id = p_user_id FOR UPDATE;
+
+  IF v_current IS DISTINCT FROM v_level THEN
+    UPDATE users SET membership_level = v_level, updated_at = now() WHERE id = p_user_id;
+
+    INSERT INTO membership_tier_history (user_id, from_level, to_level, direction, basis, metric_value)
+    VALUES (
+      p_user_id,
+      v_current,
+      v_level,
+      CASE WHEN array_position(v_levels, v_level) > COALESCE(array_position(v_levels, v_current), 0)
+        THEN 'promotion' ELSE 'demotion' END,
+      v_basis,
+      v_metric
+    );
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+      p_user_id,
+      'Level membership berubah',
+      'Level membership Anda sekarang ' || COALESCE(v_tier_name, initcap(v_level)) || '.',
+      'system',
+      '/dashboard'
+    );
+  END IF;
+
+  RETURN v_level;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION evaluate_all_memberships()
+RETURNS integer AS $$
+DECLARE
+  v_user_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_user_id IN SELECT id FROM users WHERE is_active = true LOOP
+    PERFORM evaluate_membership(v_user_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- New points can only move a customer up, so promotions happen right away
+CREATE OR REPLACE FUNCTION evaluate_membership_on_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'earned' AND NEW.source <> 'redemption' THEN
+    PERFORM evaluate_membership(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_membership_on_points
+  AFTER INSERT ON loyalty_points
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_membership_on_points();
+
+SELECT cron.schedule('evaluate-memberships', '30 0 * * *', $$SELECT evaluate_all_memberships()$$);
+
+CREATE OR REPLACE FUNCTION update_booking_extra_total()
+RETURNS TRIGGER AS $$
+BEGIN
+  NEW.total_price = calculate_total_price(NEW.quantity - NEW.free_quantity, NEW.unit_price);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION apply_tier_benefits(p_order_id uuid)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+  v_tier membership_tiers;
+  v_extra jsonb;
+  v_discount integer;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_order_id FOR UPDATE;
+
+  SELECT t.* INTO v_tier
+    FROM membership_tiers t
+    JOIN users u ON u.membership_level = t.level
+    WHERE u.id = v_order.user_id;
+
+  IF v_tier.level IS NULL THEN
+    RETURN v_order;
+  END IF;
+
+  -- Taken off what is left of the slot time after the promotion
+  v_discount := round((v_order.slots_amount - v_order.discount_amount) * v_tier.discount_percent / 100.0);
+
+  -- An extra the customer also bought keeps one row, with the free units added on top
+  FOR v_extra IN SELECT * FROM jsonb_array_elements(v_tier.free_extras) LOOP
+    INSERT INTO booking_extras (booking_id, order_id, extra_id, quantity, free_quantity, unit_price)
+    SELECT
+      (SELECT id FROM bookings WHERE order_id = v_order.id ORDER BY start_time LIMIT 1),
+      v_order.id,
+      e.id,
+      COALESCE((v_extra->>'quantity')::integer, 1),
+      COALESCE((v_extra->>'quantity')::integer, 1),
+      e.price
+    FROM extras e
+    WHERE e.id = (v_extra->>'extra_id')::uuid AND e.is_active = true
+    ON CONFLICT (booking_id, extra_id) DO UPDATE
+      SET quantity = booking_extras.quantity + EXCLUDED.quantity,
+          free_quantity = booking_extras.free_quantity + EXCLUDED.free_quantity;
+  END LOOP;
+
+  UPDATE booking_orders
+    SET tier_level = v_tier.level,
+        tier_discount_amount = v_discount,
+        total_amount = total_amount - v_discount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION checkout_booking_order(
+  p_user_id uuid,
+  p_booking_date date,
+  p_slots jsonb,
+  p_extras jsonb DEFAULT '[]'::jsonb,
+  p_players integer DEFAULT 1,
+  p_notes text DEFAULT NULL,
+  p_customer_name text DEFAULT NULL,
+  p_customer_phone text DEFAULT NULL,
+  p_customer_email text DEFAULT NULL,
+  p_hold_token text DEFAULT NULL,
+  p_promo_code text DEFAULT NULL,
+  p_points integer DEFAULT 0
+)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+BEGIN
+  v_order := create_booking_order(
+    p_user_id, p_booking_date, p_slots, p_extras, p_players, p_notes,
+    p_customer_name, p_customer_phone, p_customer_email, p_hold_token
+  );
+  v_order := apply_order_promotion(v_order.id, p_promo_code);
+  v_order := apply_tier_benefits(v_order.id);
+  RETURN redeem_order_points(v_order.id, p_points);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION booking_paid_amount(p_booking bookings)
+RETURNS integer AS $$
+DECLARE
+  v_order booking_orders;
+  v_amount numeric;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_booking.order_id;
+
+  IF v_order.id IS NULL OR v_order.slots_amount = 0 THEN
+    RETURN p_booking.total_amount;
+  END IF;
+
+  v_amount := p_booking.total_amount - round(
+    (v_order.discount_amount + v_order.tier_discount_amount) * p_booking.total_amount / v_order.slots_amount::numeric
+  );
+
+  -- Points are restored as points, only the cash share is refunded
+  IF v_order.points_amount > 0 THEN
+    v_amount := v_amount * v_order.total_amount / (v_order.total_amount + v_order.points_amount);
+  END IF;
+
+  RETURN GREATEST(round(v_amount), 0);
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION booking_window_days(p_user_id uuid)
+RETURNS integer AS $$
+  SELECT COALESCE((get_setting('booking_window_days') #>> '{}')::integer, 30)
+    + COALESCE((
+      SELECT t.priority_booking_days
+        FROM users u
+        JOIN membership_tiers t ON t.level = u.membership_level
+        WHERE u.id = p_user_id
+    ), 0);
+$$ LANGUAGE sql STABLE;
+
+-- Occurrences of a recurring series are created far ahead on purpose and are exempt
+CREATE OR REPLACE FUNCTION enforce_booking_window()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_days integer;
+BEGIN
+  IF NEW.series_id IS NULL AND NEW.status IN ('pending', 'confirmed') THEN
+    v_days := booking_window_days(NEW.user_id);
+    IF NEW.booking_date > CURRENT_DATE + v_days THEN
+      RAISE EXCEPTION 'Bookings open at most % days ahead', v_days;
+    END IF;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_enforce_booking_window
+  BEFORE INSERT OR UPDATE OF booking_date ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION enforce_booking_window();
+
+SELECT evaluate_all_memberships();
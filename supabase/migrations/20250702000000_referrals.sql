@@ -0,0 +1,209 @@
+/*
+  # Referral Program
+
+  1. New Tables
+    - `referrals` - Who invited whom, and whether the reward was paid out or refused
+
+  2. Changes
+    - `users.referral_code` - Every customer's personal code, filled in on sign-up
+
+  3. Functions
+    - `register_referral(referee, code)` - Links a new account to its referrer; called by the
+      registration endpoint in the same transaction that creates the account
+    - `reward_referral()` - Trigger crediting both sides once the referee's first paid booking is completed
+
+  4. Abuse guards
+    - No referring yourself, an account with the same email (ignoring case and +tags) or the same phone
+    - A phone number can only be referred once
+    - An account can only be referred once, and only within a day of signing up
+    The phone checks run again at reward time, since phones are usually added after sign-up.
+
+  5. Settings
+    - `referral_rewards`:
+        referrer_points - points for the customer who shared the code
+        referee_points  - points for the new customer
+*/
+
+ALTER TABLE users ADD COLUMN IF NOT EXISTS referral_code text UNIQUE;
+
+-- Referrals table
+CREATE TABLE IF NOT EXISTS referrals (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  referrer_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  referee_id uuid NOT NULL UNIQUE REFERENCES users(id) ON DELETE CASCADE,
+  code text NOT NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'rewarded', 'rejected')),
+  rejection_reason text,
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  rewarded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  CHECK (referrer_id <> referee_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_referrals_referrer_id ON referrals(referrer_id);
+
+ALTER TABLE referrals ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view referrals they are part of" ON referrals
+  FOR SELECT USING (auth.uid() = referrer_id OR auth.uid() = referee_id);
+
+INSERT INTO app_settings (key, value) VALUES
+('referral_rewards', '{"referrer_points": 200, "referee_points": 100}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION generate_referral_code()
+RETURNS text AS $$
+DECLARE
+  v_code text;
+BEGIN
+  LOOP
+    v_code := upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8));
+    EXIT WHEN NOT EXISTS (SELECT 1 FROM users WHERE referral_code = v_code);
+  END LOOP;
+
+  RETURN v_code;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION set_referral_code()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.referral_code IS NULL THEN
+    NEW.referral_code := generate_referral_code();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_set_referral_code
+  BEFORE INSERT ON users
+  FOR EACH ROW
+  EXECUTE FUNCTION set_referral_code();
+
+UPDATE users SET referral_code = generate_referral_code() WHERE referral_code IS NULL;
+
+-- "Jo.Doe+1@Mail.com" and "jo.doe@mail.com" are the same mailbox
+CREATE OR REPLACE FUNCTION normalize_email(p_email text)
+RETURNS text AS $$
+  SELECT regexp_replace(lower(btrim(p_email)), '\+[^@]*@', '@');
+$$ LANGUAGE sql IMMUTABLE;
+
+CREATE OR REPLACE FUNCTION normalize_phone(p_phone text)
+RETURNS text AS $$
+  SELECT NULLIF(regexp_replace(regexp_replace(COALESCE(p_phone, ''), '\D', '', 'g'), '^(62|0)', ''), '');
+$$ LANGUAGE sql IMMUTABLE;
+
+-- Why a referral may not be rewarded, or NULL when it is fine
+CREATE OR REPLACE FUNCTION referral_abuse_reason(p_referrer_id uuid, p_referee_id uuid)
+RETURNS text AS $$
+DECLARE
+  v_referrer users;
+  v_referee users;
+BEGIN
+  SELECT * INTO v_referrer FROM users WHERE id = p_referrer_id;
+  SELECT * INTO v_referee FROM users WHERE id = p_referee_id;
+
+  IF p_referrer_id = p_referee_id THEN
+    RETURN 'self-referral';
+  ELSIF normalize_email(v_referrer.email) = normalize_email(v_referee.email) THEN
+    RETURN 'same email';
+  ELSIF normalize_phone(v_referrer.phone) = normalize_phone(v_referee.phone) THEN
+    RETURN 'same phone';
+  ELSIF normalize_phone(v_referee.phone) IS NOT NULL AND EXISTS (
+    SELECT 1 FROM referrals r
+      JOIN users u ON u.id = r.referee_id
+      WHERE r.referee_id <> p_referee_id
+        AND r.status <> 'rejected'
+        AND normalize_phone(u.phone) = normalize_phone(v_referee.phone)
+  ) THEN
+    RETURN 'phone already referred';
+  END IF;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION register_referral(p_referee_id uuid, p_code text)
+RETURNS referrals AS $$
+DECLARE
+  v_referrer_id uuid;
+  v_referee users;
+  v_reason text;
+  v_referral referrals;
+BEGIN
+  SELECT id INTO v_referrer_id FROM users WHERE referral_code = upper(btrim(p_code));
+  SELECT * INTO v_referee FROM users WHERE id = p_referee_id;
+
+  IF v_referrer_id IS NULL THEN
+    RAISE EXCEPTION 'Referral code % does not exist', p_code;
+  ELSIF v_referee.created_at < now() - interval '1 day' THEN
+    RAISE EXCEPTION 'Referral codes can only be used when signing up';
+  ELSIF EXISTS (SELECT 1 FROM referrals WHERE referee_id = p_referee_id) THEN
+    RAISE EXCEPTION 'This account was already referred';
+  END IF;
+
+  v_reason := referral_abuse_reason(v_referrer_id, p_referee_id);
+  IF v_reason IS NOT NULL THEN
+    RAISE EXCEPTION 'Referral code cannot be used for this account (%)', v_reason;
+  END IF;
+
+  INSERT INTO referrals (referrer_id, referee_id, code)
+  VALUES (v_referrer_id, p_referee_id, upper(btrim(p_code)))
+  RETURNING * INTO v_referral;
+
+  RETURN v_referral;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION reward_referral()
+RETURNS TRIGGER AS $$
+DECLARE
+  v_referral referrals;
+  v_rewards jsonb := get_setting('referral_rewards');
+  v_reason text;
+BEGIN
+  IF NEW.status <> 'completed' OR NEW.payment_status <> 'paid' OR NEW.user_id IS NULL
+     OR (OLD.status = 'completed' AND OLD.payment_status = 'paid') THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT * INTO v_referral FROM referrals WHERE referee_id = NEW.user_id AND status = 'pending' FOR UPDATE;
+  IF v_referral.id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  v_reason := referral_abuse_reason(v_referral.referrer_id, v_referral.referee_id);
+  IF v_reason IS NOT NULL THEN
+    UPDATE referrals SET status = 'rejected', rejection_reason = v_reason, booking_id = NEW.id
+      WHERE id = v_referral.id;
+    RETURN NEW;
+  END IF;
+
+  INSERT INTO loyalty_points (user_id, points, type, source, description, booking_id)
+  VALUES
+    (v_referral.referrer_id, COALESCE((v_rewards->>'referrer_points')::integer, 200), 'earned', 'referral',
+      'Friend referral reward', NEW.id),
+    (v_referral.referee_id, COALESCE((v_rewards->>'referee_points')::integer, 100), 'earned', 'referral',
+      'Welcome referral reward', NEW.id);
+
+  UPDATE referrals SET status = 'rewarded', booking_id = NEW.id, rewarded_at = now()
+    WHERE id = v_referral.id;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES
+    (v_referral.referrer_id, 'Bonus referral!',
+      'Teman yang Anda ajak sudah bermain. Anda mendapat ' || COALESCE((v_rewards->>'referrer_points')::integer, 200) || ' poin.',
+      'promotion', '/dashboard'),
+    (v_referral.referee_id, 'Bonus referral!',
+      'Terima kasih sudah bermain di GameZone. Anda mendapat ' || COALESCE((v_rewards->>'referee_points')::integer, 100) || ' poin.',
+      'promotion', '/dashboard');
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE TRIGGER trigger_reward_referral
+  AFTER UPDATE OF status, payment_status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION reward_referral();
@@ -0,0 +1,213 @@
+/*
+  # Birthday Rewards
+
+  1. New Tables
+    - `birthday_rewards` - One row per customer per year, so the reward is only ever granted once a year
+
+  2. Changes
+    - `promotions.user_id` - Promotions that only this customer can redeem; birthday vouchers are
+      single-use `free_hours` promo codes owned by the customer
+
+  3. Functions
+    - `apply_order_promotion(order, code)` - Redefined to refuse a personal code on someone else's order
+    - `grant_birthday_rewards()` - Rewards every customer whose birthday month it is and who was
+      not rewarded yet this year; runs daily so a date of birth added mid-month still counts
+    - pg_cron job running it every morning
+
+  4. Settings
+    - `birthday_reward`:
+        type       - `points` or `voucher`
+        points     - points credited for the `points` type
+        free_hours - hours the `voucher` type gives off a booking
+    Either reward is only valid until the end of the birthday month.
+*/
+
+ALTER TABLE promotions ADD COLUMN IF NOT EXISTS user_id uuid REFERENCES users(id) ON DELETE CASCADE;
+
+-- Birthday rewards table
+CREATE TABLE IF NOT EXISTS birthday_rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reward_year integer NOT NULL,
+  reward_type text NOT NULL CHECK (reward_type IN ('points', 'voucher')),
+  points integer NOT NULL DEFAULT 0,
+  promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  valid_until date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (user_id, reward_year)
+);
+
+ALTER TABLE birthday_rewards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view their own birthday rewards" ON birthday_rewards
+  FOR SELECT USING (auth.uid() = user_id);
+
+INSERT INTO app_settings (key, value) VALUES
+('birthday_reward', '{"type": "points", "points": 250, "free_hours": 1}')
+ON CONFLICT (key) DO NOTHING;
+
+CREATE OR REPLACE FUNCTION apply_order_promotion(p_order_id uuid, p_code text DEFAULT NULL)
+RETURNS booking_orders AS $$
+DECLARE
+  v_order booking_orders;
+  v_promotion promotions;
+  v_total_hours numeric;
+  v_discount integer := 0;
+BEGIN
+  SELECT * INTO v_order FROM booking_orders WHERE id = p_order_id FOR UPDATE;
+  SELECT COALESCE(SUM(duration_hours), 0) INTO v_total_hours FROM bookings WHERE order_id = p_order_id;
+
+  IF p_code IS NOT NULL AND btrim(p_code) <> '' THEN
+    SELECT * INTO v_promotion FROM promotions WHERE upper(code) = upper(btrim(p_code));
+    IF v_promotion.id IS NULL OR (v_promotion.user_id IS NOT NULL AND v_promotion.user_id IS DISTINCT FROM v_order.user_id) THEN
+      RAISE EXCEPTION 'Promo code % does not exist', p_code;
+    END IF;
+
+    v_discount := promotion_discount(v_promotion, v_order.slots_amount, v_total_hours);
+    IF v_discount = 0 THEN
+      RAISE EXCEPTION 'Promo code % needs at least % hours of play', p_code, v_promotion.min_booking_hours;
+    END IF;
+  ELSE
+    -- Best automatic promotion that still has uses left
+    SELECT p.* INTO v_promotion
+      FROM promotions p
+      WHERE p.code IS NULL
+        AND p.user_id IS NULL
+        AND p.is_active = true
+        AND CURRENT_DATE BETWEEN p.valid_from AND p.valid_until
+        AND (p.max_uses IS NULL OR p.current_uses < p.max_uses)
+      ORDER BY promotion_discount(p, v_order.slots_amount, v_total_hours) DESC
+      LIMIT 1;
+
+    IF v_promotion.id IS NULL THEN
+      RETURN v_order;
+    END IF;
+
+    v_discount := promotion_discount(v_promotion, v_order.slots_amount, v_total_hours);
+    IF v_discount = 0 THEN
+      RETURN v_order;
+    END IF;
+  END IF;
+
+  -- Claiming the use and checking max_uses in one statement keeps concurrent checkouts from overshooting
+  UPDATE promotions
+    SET current_uses = current_uses + 1, updated_at = now()
+    WHERE id = v_promotion.id
+      AND is_active = true
+      AND CURRENT_DATE BETWEEN valid_from AND valid_until
+      AND (max_uses IS NULL OR current_uses < max_uses)
+    RETURNING * INTO v_promotion;
+
+  IF NOT FOUND THEN
+    RAISE EXCEPTION 'Promotion is no longer available';
+  END IF;
+
+  INSERT INTO promotion_redemptions (promotion_id, order_id, user_id, discount_amount)
+  VALUES (v_promotion.id, v_order.id, v_order.user_id, v_discount);
+
+  UPDATE booking_orders
+    SET promotion_id = v_promotion.id,
+        discount_amount = v_discount,
+        total_amount = slots_amount + extras_amount - v_discount,
+        updated_at = now()
+    WHERE id = v_order.id
+    RETURNING * INTO v_order;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION grant_birthday_rewards()
+RETURNS integer AS $$
+DECLARE
+  v_settings jsonb := get_setting('birthday_reward');
+  v_type text := COALESCE(v_settings->>'type', 'points');
+  v_points integer := COALESCE((v_settings->>'points')::integer, 250);
+  v_hours integer := COALESCE((v_settings->>'free_hours')::integer, 1);
+  v_month_start date := date_trunc('month', CURRENT_DATE)::date;
+  v_month_end date := (date_trunc('month', CURRENT_DATE) + interval '1 month - 1 day')::date;
+  v_user users;
+  v_reward birthday_rewards;
+  v_promotion_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_user IN
+    SELECT u.* FROM users u
+    WHERE u.is_active = true
+      AND u.date_of_birth IS NOT NULL
+      AND extract(month FROM u.date_of_birth) = extract(month FROM CURRENT_DATE)
+      AND NOT EXISTS (
+        SELECT 1 FROM birthday_rewards br
+        WHERE br.user_id = u.id AND br.reward_year = extract(year FROM CURRENT_DATE)
+      )
+  LOOP
+    -- The unique (user_id, reward_year) row is claimed first, so overlapping runs cannot pay twice
+    INSERT INTO birthday_rewards (user_id, reward_year, reward_type, points, valid_until)
+    VALUES (v_user.id, extract(year FROM CURRENT_DATE), v_type, CASE WHEN v_type = 'points' THEN v_points ELSE 0 END, v_month_end)
+    ON CONFLICT (user_id, reward_year) DO NOTHING
+    RETURNING * INTO v_reward;
+
+    CONTINUE WHEN v_reward.id IS NULL;
+
+    IF v_type = 'voucher' THEN
+      INSERT INTO promotions (
+        title, description, code, user_id, discount_type, discount_value,
+        min_booking_hours, valid_from, valid_until, max_uses
+      )
+      VALUES (
+        'Birthday Voucher',
+        'Gratis ' || v_hours || ' jam di bulan ulang tahun Anda',
+        'BDAY-' || upper(substr(md5(random()::text || v_user.id::text), 1, 8)),
+        v_user.id,
+        'free_hours',
+        v_hours,
+        v_hours,
+        v_month_start,
+        v_month_end,
+        1
+      )
+      RETURNING id INTO v_promotion_id;
+
+      UPDATE birthday_rewards SET promotion_id = v_promotion_id WHERE id = v_reward.id;
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (
+        v_user.id,
+        'Selamat ulang tahun!',
+        'Nikmati voucher gratis ' || v_hours || ' jam dengan kode ' ||
+          (SELECT code FROM promotions WHERE id = v_promotion_id) ||
+          '. Berlaku sampai ' || to_char(v_month_end, 'DD Mon YYYY') || '.',
+        'promotion',
+        '/booking'
+      );
+    ELSE
+      -- Birthday points lapse with the month instead of the usual expiry period
+      INSERT INTO loyalty_points (user_id, points, type, source, description, expires_at)
+      VALUES (
+        v_user.id,
+        v_points,
+        'earned',
+        'birthday',
+        'Birthday reward ' || extract(year FROM CURRENT_DATE),
+        (v_month_end + 1)::timestamptz
+      );
+
+      INSERT INTO notifications (user_id, title, message, type, action_url)
+      VALUES (
+        v_user.id,
+        'Selamat ulang tahun!',
+        'Anda mendapat ' || v_points || ' poin hadiah ulang tahun. Pakai sebelum ' ||
+          to_char(v_month_end, 'DD Mon YYYY') || '.',
+        'promotion',
+        '/dashboard'
+      );
+    END IF;
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule('grant-birthday-rewards', '0 1 * * *', $$SELECT grant_birthday_rewards()$$);
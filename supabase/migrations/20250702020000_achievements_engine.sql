@@ -0,0 +1,330 @@
+/*
+  # Achievements Engine
+
+  1. Changes
+    - `achievements.rule_type`, `rule_params`, `target` - What a customer has to do to unlock it
+    - `achievements.reward_points` - Loyalty points credited on unlock, 0 for none
+    - `user_achievements.points_awarded` - Points actually credited for the unlock
+    - `loyalty_points.source` accepts `achievement`
+    - Users can view their own unlocks
+
+  2. New Tables
+    - `booking_games` - Games played during a session, logged at the counter
+
+  3. Functions
+    - `achievement_progress(user, achievement)` - Current progress and target of one achievement
+    - `evaluate_achievements(user)` - Unlocks everything the customer has reached, crediting points
+      and sending a notification for each
+    - Triggers re-evaluating after a booking completes, a game is logged and an event result is recorded
+    - `log_booking_games(booking, staff, games)` - Sets the games staff saw played during a session
+
+  4. Rules
+    sessions         - completed sessions
+    hours            - hours played in completed sessions
+    longest_session  - hours of the longest completed session
+    night_sessions   - completed sessions starting at or after `rule_params.after` (default 22:00)
+    weekend_sessions - completed sessions on a Saturday or Sunday
+    group_sessions   - completed sessions booked for at least `rule_params.players` players
+    distinct_games   - different games played
+    genre_complete   - every active game of `rule_params.genre` (and `console_type`, if set) played;
+                       the target is the number of such games, so new releases raise it
+    events_joined    - events attended
+    tournament_wins  - completed tournaments finished in first place
+    loyalty_points   - points earned in total, not counting restored redemptions
+*/
+
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS rule_type text NOT NULL DEFAULT 'sessions'
+  CHECK (rule_type IN (
+    'sessions', 'hours', 'longest_session', 'night_sessions', 'weekend_sessions', 'group_sessions',
+    'distinct_games', 'genre_complete', 'events_joined', 'tournament_wins', 'loyalty_points'
+  ));
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS rule_params jsonb NOT NULL DEFAULT '{}'::jsonb;
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS target integer NOT NULL DEFAULT 1 CHECK (target > 0);
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS reward_points integer NOT NULL DEFAULT 0 CHECK (reward_points >= 0);
+ALTER TABLE achievements ADD COLUMN IF NOT EXISTS sort_order integer NOT NULL DEFAULT 0;
+
+ALTER TABLE user_achievements ADD COLUMN IF NOT EXISTS points_awarded integer NOT NULL DEFAULT 0;
+
+ALTER TABLE loyalty_points DROP CONSTRAINT IF EXISTS loyalty_points_source_check;
+ALTER TABLE loyalty_points
+  ADD CONSTRAINT loyalty_points_source_check
+  CHECK (source IN ('booking', 'referral', 'event', 'birthday', 'redemption', 'expiry', 'achievement'));
+
+-- Booking games table
+CREATE TABLE IF NOT EXISTS booking_games (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  booking_id uuid NOT NULL REFERENCES bookings(id) ON DELETE CASCADE,
+  game_id uuid NOT NULL REFERENCES games(id) ON DELETE CASCADE,
+  logged_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (booking_id, game_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_booking_games_game_id ON booking_games(game_id);
+
+ALTER TABLE booking_games ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Users can view games of their own bookings" ON booking_games
+  FOR SELECT USING (EXISTS (SELECT 1 FROM bookings b WHERE b.id = booking_id AND b.user_id = auth.uid()));
+
+CREATE POLICY "Users can view their own achievements" ON user_achievements
+  FOR SELECT USING (auth.uid() = user_id);
+
+UPDATE achievements SET rule_type = 'sessions', target = 1, reward_points = 50, sort_order = 1
+  WHERE name = 'First Timer';
+UPDATE achievements SET rule_type = 'night_sessions', rule_params = '{"after": "22:00"}', target = 5, reward_points = 100, sort_order = 3
+  WHERE name = 'Night Owl';
+UPDATE achievements SET rule_type = 'longest_session', target = 6, reward_points = 150, sort_order = 4
+  WHERE name = 'Marathon Gamer';
+UPDATE achievements SET rule_type = 'group_sessions', rule_params = '{"players": 4}', target = 1, reward_points = 100, sort_order = 5
+  WHERE name = 'Social Gamer';
+UPDATE achievements SET rule_type = 'loyalty_points', target = 5000, reward_points = 500, sort_order = 9
+  WHERE name = 'Loyalty Master';
+UPDATE achievements SET rule_type = 'tournament_wins', target = 1, reward_points = 500, sort_order = 8
+  WHERE name = 'Tournament Champion';
+UPDATE achievements SET rule_type = 'distinct_games', target = 10, reward_points = 200, sort_order = 6
+  WHERE name = 'Game Explorer';
+UPDATE achievements SET rule_type = 'weekend_sessions', target = 5, reward_points = 150, sort_order = 7
+  WHERE name = 'Weekend Warrior';
+
+INSERT INTO achievements (name, description, rule_type, rule_params, target, reward_points, sort_order)
+SELECT v.name, v.description, v.rule_type, v.rule_params::jsonb, v.target, v.reward_points, v.sort_order
+FROM (VALUES
+  ('Regular', 'Complete 10 gaming sessions', 'sessions', '{}', 10, 200, 2),
+  ('RPG Master', 'Play every PS5 RPG in our library', 'genre_complete', '{"genre": "rpg", "console_type": "ps5"}', 1, 300, 10)
+) AS v(name, description, rule_type, rule_params, target, reward_points, sort_order)
+WHERE NOT EXISTS (SELECT 1 FROM achievements a WHERE a.name = v.name);
+
+CREATE OR REPLACE FUNCTION achievement_progress(p_user_id uuid, p_achievement achievements)
+RETURNS TABLE (progress integer, target integer) AS $$
+DECLARE
+  v_params jsonb := p_achievement.rule_params;
+BEGIN
+  target := p_achievement.target;
+
+  CASE p_achievement.rule_type
+    WHEN 'sessions' THEN
+      SELECT count(*) INTO progress FROM bookings WHERE user_id = p_user_id AND status = 'completed';
+    WHEN 'hours' THEN
+      SELECT COALESCE(SUM(duration_hours), 0) INTO progress
+        FROM bookings WHERE user_id = p_user_id AND status = 'completed';
+    WHEN 'longest_session' THEN
+      SELECT COALESCE(MAX(duration_hours), 0) INTO progress
+        FROM bookings WHERE user_id = p_user_id AND status = 'completed';
+    WHEN 'night_sessions' THEN
+      SELECT count(*) INTO progress
+        FROM bookings
+        WHERE user_id = p_user_id AND status = 'completed'
+          AND start_time >= COALESCE(v_params->>'after', '22:00')::time;
+    WHEN 'weekend_sessions' THEN
+      SELECT count(*) INTO progress
+        FROM bookings
+        WHERE user_id = p_user_id AND status = 'completed' AND extract(isodow FROM booking_date) IN (6, 7);
+    WHEN 'group_sessions' THEN
+      SELECT count(*) INTO progress
+        FROM bookings b
+        JOIN booking_orders o ON o.id = b.order_id
+        WHERE b.user_id = p_user_id AND b.status = 'completed'
+          AND o.players >= COALESCE((v_params->>'players')::integer, 4);
+    WHEN 'distinct_games' THEN
+      SELECT count(DISTINCT bg.game_id) INTO progress
+        FROM booking_games bg
+        JOIN bookings b ON b.id = bg.booking_id
+        WHERE b.user_id = p_user_id AND b.status = 'completed';
+    WHEN 'genre_complete' THEN
+      SELECT count(*), count(*) FILTER (WHERE EXISTS (
+          SELECT 1 FROM booking_games bg
+            JOIN bookings b ON b.id = bg.booking_id
+            WHERE bg.game_id = g.id AND b.user_id = p_user_id AND b.status = 'completed'
+        ))
+        INTO target, progress
+        FROM games g
+        WHERE g.is_active = true
+          AND g.genre = v_params->>'genre'
+          AND (v_params->>'console_type' IS NULL OR g.console_type = v_params->>'console_type');
+      -- A genre with no games yet cannot be completed
+      target := GREATEST(target, 1);
+    WHEN 'events_joined' THEN
+      SELECT count(*) INTO progress
+        FROM event_participants
+        WHERE user_id = p_user_id AND status IN ('confirmed', 'completed');
+    WHEN 'tournament_wins' THEN
+      SELECT count(*) INTO progress
+        FROM event_participants ep
+        JOIN events e ON e.id = ep.event_id
+        WHERE ep.user_id = p_user_id AND ep.rank = 1
+          AND e.event_type = 'tournament' AND e.status = 'completed';
+    WHEN 'loyalty_points' THEN
+      SELECT COALESCE(SUM(points), 0) INTO progress
+        FROM loyalty_points
+        WHERE user_id = p_user_id AND type = 'earned' AND source <> 'redemption';
+  END CASE;
+
+  progress := LEAST(COALESCE(progress, 0), target);
+  RETURN NEXT;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION evaluate_achievements(p_user_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_achievement achievements;
+  v_progress integer;
+  v_target integer;
+  v_unlock_id uuid;
+  v_unlocked integer := 0;
+BEGIN
+  FOR v_achievement IN
+    SELECT a.* FROM achievements a
+    WHERE a.is_active = true
+      AND NOT EXISTS (SELECT 1 FROM user_achievements ua WHERE ua.user_id = p_user_id AND ua.achievement_id = a.id)
+    ORDER BY a.sort_order
+  LOOP
+    SELECT progress, target INTO v_progress, v_target FROM achievement_progress(p_user_id, v_achievement);
+    CONTINUE WHEN v_progress < v_target;
+
+    INSERT INTO user_achievements (user_id, achievement_id, points_awarded)
+    VALUES (p_user_id, v_achievement.id, v_achievement.reward_points)
+    ON CONFLICT (user_id, achievement_id) DO NOTHING
+    RETURNING id INTO v_unlock_id;
+
+    CONTINUE WHEN v_unlock_id IS NULL;
+
+    -- The points trigger re-enters this function, so a loyalty_points achievement can unlock right away
+    IF v_achievement.reward_points > 0 THEN
+      INSERT INTO loyalty_points (user_id, points, type, source, description)
+      VALUES (p_user_id, v_achievement.reward_points, 'earned', 'achievement', 'Achievement: ' || v_achievement.name);
+    END IF;
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+      p_user_id,
+      'Achievement terbuka!',
+      'Anda membuka achievement ' || v_achievement.name ||
+        CASE WHEN v_achievement.reward_points > 0
+          THEN ' dan mendapat ' || v_achievement.reward_points || ' poin.' ELSE '.' END,
+      'system',
+      '/dashboard'
+    );
+
+    v_unlocked := v_unlocked + 1;
+  END LOOP;
+
+  RETURN v_unlocked;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_booking()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' AND NEW.user_id IS NOT NULL THEN
+    PERFORM evaluate_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_achievements_on_booking
+  AFTER UPDATE OF status ON bookings
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_booking();
+
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_game()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM evaluate_achievements(user_id) FROM bookings WHERE id = NEW.booking_id AND status = 'completed';
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_achievements_on_game
+  AFTER INSERT ON booking_games
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_game();
+
+/*
+  Replaces the game list of a session with `p_game_ids`. Games already logged keep
+  their row, so re-saving the same list does not re-run the achievement checks;
+  removing a game does not take back an achievement it helped unlock.
+*/
+CREATE OR REPLACE FUNCTION log_booking_games(p_booking_id uuid, p_staff_id uuid, p_game_ids uuid[])
+RETURNS SETOF booking_games AS $$
+DECLARE
+  v_booking bookings;
+BEGIN
+  SELECT * INTO v_booking FROM bookings WHERE id = p_booking_id;
+
+  IF v_booking.id IS NULL THEN
+    RAISE EXCEPTION 'Booking not found';
+  ELSIF v_booking.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Games cannot be logged on a cancelled booking';
+  ELSIF EXISTS (
+    SELECT 1 FROM unnest(COALESCE(p_game_ids, '{}')) AS g(id)
+    WHERE NOT EXISTS (SELECT 1 FROM games WHERE id = g.id)
+  ) THEN
+    RAISE EXCEPTION 'Unknown game';
+  END IF;
+
+  DELETE FROM booking_games
+    WHERE booking_id = p_booking_id AND game_id <> ALL (COALESCE(p_game_ids, '{}'));
+
+  INSERT INTO booking_games (booking_id, game_id, logged_by)
+  SELECT DISTINCT p_booking_id, g.id, p_staff_id
+  FROM unnest(COALESCE(p_game_ids, '{}')) AS g(id)
+  ON CONFLICT (booking_id, game_id) DO NOTHING;
+
+  RETURN QUERY SELECT * FROM booking_games WHERE booking_id = p_booking_id ORDER BY created_at;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff only: the admin API calls it with the service role
+REVOKE EXECUTE ON FUNCTION log_booking_games(uuid, uuid, uuid[]) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_event_result()
+RETURNS TRIGGER AS $$
+BEGIN
+  PERFORM evaluate_achievements(NEW.user_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_achievements_on_event_result
+  AFTER INSERT OR UPDATE OF status, rank ON event_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_event_result();
+
+-- Ranks are usually entered before the event is closed, so closing it counts as a result too
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_event_completed()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.status = 'completed' AND OLD.status <> 'completed' THEN
+    PERFORM evaluate_achievements(user_id) FROM event_participants WHERE event_id = NEW.id;
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_achievements_on_event_completed
+  AFTER UPDATE OF status ON events
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_event_completed();
+
+CREATE OR REPLACE FUNCTION evaluate_achievements_on_points()
+RETURNS TRIGGER AS $$
+BEGIN
+  IF NEW.type = 'earned' AND NEW.source <> 'redemption' THEN
+    PERFORM evaluate_achievements(NEW.user_id);
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_evaluate_achievements_on_points
+  AFTER INSERT ON loyalty_points
+  FOR EACH ROW
+  EXECUTE FUNCTION evaluate_achievements_on_points();
+
+SELECT evaluate_achievements(id) FROM users WHERE is_active = true;
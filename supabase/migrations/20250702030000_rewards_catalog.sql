@@ -0,0 +1,190 @@
+/*
+  # Rewards Catalog
+
+  1. New Tables
+    - `rewards` - Items customers can exchange loyalty points for, with stock and point cost
+    - `reward_vouchers` - One voucher per exchange; staff validate the code and mark it used
+
+  2. Changes
+    - `loyalty_points.voucher_id` - The voucher a `redemption` row paid for
+
+  3. Functions
+    - `redeem_reward(user, reward)` - Spends the points, takes one from stock and issues a voucher
+    - `use_reward_voucher(code, staff)` - Marks an active voucher used, refusing used or expired ones
+    - `cancel_reward_voucher(voucher)` - Gives the points and the stock back for an unused voucher
+
+  4. Reward types
+    free_hours  - `value` hours of play
+    snack       - a snack pack
+    merch       - merchandise
+    event_entry - entry to `event_id`
+*/
+
+-- Rewards table
+CREATE TABLE IF NOT EXISTS rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  description text,
+  reward_type text NOT NULL CHECK (reward_type IN ('free_hours', 'snack', 'merch', 'event_entry')),
+  points_cost integer NOT NULL CHECK (points_cost > 0),
+  value integer,
+  event_id uuid REFERENCES events(id) ON DELETE SET NULL,
+  stock integer CHECK (stock >= 0),
+  valid_days integer NOT NULL DEFAULT 30 CHECK (valid_days > 0),
+  image_url text,
+  is_active boolean DEFAULT true,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  CHECK (reward_type <> 'event_entry' OR event_id IS NOT NULL)
+);
+
+-- Reward vouchers table
+CREATE TABLE IF NOT EXISTS reward_vouchers (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  reward_id uuid NOT NULL REFERENCES rewards(id),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  code text NOT NULL UNIQUE,
+  points_spent integer NOT NULL CHECK (points_spent > 0),
+  status text NOT NULL DEFAULT 'active' CHECK (status IN ('active', 'used', 'cancelled')),
+  expires_at timestamptz NOT NULL,
+  used_at timestamptz,
+  used_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_reward_vouchers_user_id ON reward_vouchers(user_id, created_at DESC);
+
+ALTER TABLE loyalty_points ADD COLUMN IF NOT EXISTS voucher_id uuid REFERENCES reward_vouchers(id) ON DELETE SET NULL;
+
+ALTER TABLE rewards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE reward_vouchers ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view active rewards" ON rewards
+  FOR SELECT USING (is_active = true);
+
+CREATE POLICY "Users can view their own reward vouchers" ON reward_vouchers
+  FOR SELECT USING (auth.uid() = user_id);
+
+INSERT INTO rewards (name, description, reward_type, points_cost, value, stock) VALUES
+('Free 1 Hour Gaming', 'Satu jam main gratis di console mana saja', 'free_hours', 500, 1, NULL),
+('Snack Package', 'Paket snack dan minuman', 'snack', 300, NULL, 100),
+('Gaming Headset Rental', 'Sewa headset gaming untuk satu sesi', 'merch', 200, NULL, 20);
+
+CREATE OR REPLACE FUNCTION redeem_reward(p_user_id uuid, p_reward_id uuid)
+RETURNS reward_vouchers AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_reward rewards;
+  v_balance integer;
+  v_voucher reward_vouchers;
+BEGIN
+  -- Locking the user row keeps a checkout and an exchange from spending the same points
+  PERFORM 1 FROM users WHERE id = v_user_id FOR UPDATE;
+
+  SELECT * INTO v_reward FROM rewards WHERE id = p_reward_id AND is_active = true;
+  IF v_reward.id IS NULL THEN
+    RAISE EXCEPTION 'Reward is not available';
+  END IF;
+
+  v_balance := loyalty_balance(v_user_id);
+  IF v_balance < v_reward.points_cost THEN
+    RAISE EXCEPTION 'Not enough loyalty points (balance: %)', v_balance;
+  END IF;
+
+  -- Taking stock and checking it in one statement keeps concurrent exchanges from overselling
+  UPDATE rewards
+    SET stock = stock - 1, updated_at = now()
+    WHERE id = v_reward.id AND stock IS NOT NULL AND stock > 0;
+
+  IF NOT FOUND AND v_reward.stock IS NOT NULL THEN
+    RAISE EXCEPTION '% is out of stock', v_reward.name;
+  END IF;
+
+  INSERT INTO reward_vouchers (reward_id, user_id, code, points_spent, expires_at)
+  VALUES (
+    v_reward.id,
+    v_user_id,
+    'RW-' || upper(substr(md5(random()::text || clock_timestamp()::text), 1, 8)),
+    v_reward.points_cost,
+    now() + make_interval(days => v_reward.valid_days)
+  )
+  RETURNING * INTO v_voucher;
+
+  INSERT INTO loyalty_points (user_id, points, type, source, description, voucher_id)
+  VALUES (v_user_id, v_reward.points_cost, 'redeemed', 'redemption', 'Reward: ' || v_reward.name, v_voucher.id);
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES (
+    v_user_id,
+    'Voucher reward siap dipakai',
+    'Tunjukkan kode ' || v_voucher.code || ' ke kasir untuk menukar ' || v_reward.name ||
+      '. Berlaku sampai ' || to_char(v_voucher.expires_at, 'DD Mon YYYY') || '.',
+    'promotion',
+    '/dashboard'
+  );
+
+  RETURN v_voucher;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION use_reward_voucher(p_code text, p_staff_id uuid)
+RETURNS reward_vouchers AS $$
+DECLARE
+  v_voucher reward_vouchers;
+BEGIN
+  SELECT * INTO v_voucher FROM reward_vouchers WHERE code = upper(btrim(p_code)) FOR UPDATE;
+
+  IF v_voucher.id IS NULL THEN
+    RAISE EXCEPTION 'Voucher % does not exist', p_code;
+  ELSIF v_voucher.status = 'used' THEN
+    RAISE EXCEPTION 'Voucher % was already used on %', v_voucher.code, to_char(v_voucher.used_at, 'DD Mon YYYY HH24:MI');
+  ELSIF v_voucher.status = 'cancelled' THEN
+    RAISE EXCEPTION 'Voucher % was cancelled', v_voucher.code;
+  ELSIF v_voucher.expires_at < now() THEN
+    RAISE EXCEPTION 'Voucher % expired on %', v_voucher.code, to_char(v_voucher.expires_at, 'DD Mon YYYY');
+  END IF;
+
+  UPDATE reward_vouchers
+    SET status = 'used', used_at = now(), used_by = p_staff_id
+    WHERE id = v_voucher.id
+    RETURNING * INTO v_voucher;
+
+  RETURN v_voucher;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff only: the admin API calls it with the service role
+REVOKE EXECUTE ON FUNCTION use_reward_voucher(text, uuid) FROM PUBLIC, anon, authenticated;
+
+CREATE OR REPLACE FUNCTION cancel_reward_voucher(p_voucher_id uuid)
+RETURNS reward_vouchers AS $$
+DECLARE
+  v_voucher reward_vouchers;
+BEGIN
+  SELECT * INTO v_voucher FROM reward_vouchers WHERE id = p_voucher_id FOR UPDATE;
+
+  IF v_voucher.id IS NULL OR v_voucher.status <> 'active' THEN
+    RAISE EXCEPTION 'Only unused vouchers can be cancelled';
+  END IF;
+
+  UPDATE reward_vouchers SET status = 'cancelled' WHERE id = v_voucher.id RETURNING * INTO v_voucher;
+
+  UPDATE rewards
+    SET stock = stock + 1, updated_at = now()
+    WHERE id = v_voucher.reward_id AND stock IS NOT NULL;
+
+  INSERT INTO loyalty_points (user_id, points, type, source, description, voucher_id)
+  VALUES (
+    v_voucher.user_id,
+    v_voucher.points_spent,
+    'earned',
+    'redemption',
+    'Restored from cancelled voucher ' || v_voucher.code,
+    v_voucher.id
+  );
+
+  RETURN v_voucher;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+REVOKE EXECUTE ON FUNCTION cancel_reward_voucher(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,438 @@
+/*
+  # Tournament Brackets
+
+  1. Changes
+    - `events.bracket_format` - `single_elimination` or `double_elimination` once a bracket is generated
+    - `event_participants.seed` - 1 is the top seed; kept so the bracket can be rebuilt identically
+
+  2. New Tables
+    - `tournament_matches` - Every match of the bracket with its participants, result and the
+      matches its winner and loser move on to
+
+  3. Functions
+    - `bracket_seed_order(size)` - Standard seeding, so top seeds meet as late as possible and get the byes
+    - `generate_tournament_bracket(event, format, seeds)` - Builds the bracket from registered participants
+    - `record_match_result(match, winner, score1, score2)` - Stores a result and moves both players on
+    - `rebuild_tournament_bracket(event)` - Regenerates the bracket and replays every stored result,
+      e.g. after a participant withdraws. Replayed results keep their original `completed_at`
+    - `settle_tournament_match(match)`, `advance_tournament_match(match)` and
+      `finish_tournament_bracket(event, champion)` - Internal steps of the above
+
+  4. Double elimination
+    - Losers of winners round 1 meet in losers round 1; losers of winners round k drop into losers
+      round 2(k-1) in reverse order, to avoid early rematches
+    - The losers bracket champion meets the winners bracket champion in grand final 1; if the losers
+      bracket champion wins, grand final 2 decides the title, otherwise it is skipped
+
+  Mirrored for display in src/lib/brackets.ts.
+*/
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS bracket_format text
+  CHECK (bracket_format IN ('single_elimination', 'double_elimination'));
+
+ALTER TABLE event_participants ADD COLUMN IF NOT EXISTS seed integer CHECK (seed > 0);
+
+-- Tournament matches table
+CREATE TABLE IF NOT EXISTS tournament_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  bracket text NOT NULL CHECK (bracket IN ('winners', 'losers', 'grand_final')),
+  round integer NOT NULL CHECK (round > 0),
+  position integer NOT NULL CHECK (position > 0),
+  participant1_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  participant2_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  score1 integer,
+  score2 integer,
+  winner_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  loser_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  status text NOT NULL DEFAULT 'pending' CHECK (status IN ('pending', 'ready', 'completed', 'bye', 'skipped')),
+  next_match_id uuid REFERENCES tournament_matches(id) ON DELETE SET NULL,
+  next_slot smallint CHECK (next_slot IN (1, 2)),
+  loser_next_match_id uuid REFERENCES tournament_matches(id) ON DELETE SET NULL,
+  loser_next_slot smallint CHECK (loser_next_slot IN (1, 2)),
+  completed_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE (event_id, bracket, round, position)
+);
+
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_next_match_id ON tournament_matches(next_match_id);
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_loser_next_match_id ON tournament_matches(loser_next_match_id);
+
+ALTER TABLE tournament_matches ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view tournament matches" ON tournament_matches
+  FOR SELECT USING (true);
+
+-- [1, 2] -> [1, 4, 2, 3] -> [1, 8, 4, 5, 2, 7, 3, 6]; seeds past the field size are byes
+CREATE OR REPLACE FUNCTION bracket_seed_order(p_size integer)
+RETURNS integer[] AS $$
+DECLARE
+  v_order integer[] := ARRAY[1];
+  v_next integer[];
+  v_size integer := 1;
+  v_seed integer;
+BEGIN
+  WHILE v_size < p_size LOOP
+    v_size := v_size * 2;
+    v_next := ARRAY[]::integer[];
+    FOREACH v_seed IN ARRAY v_order LOOP
+      v_next := v_next || v_seed || (v_size + 1 - v_seed);
+    END LOOP;
+    v_order := v_next;
+  END LOOP;
+
+  RETURN v_order;
+END;
+$$ LANGUAGE plpgsql IMMUTABLE;
+
+-- Marks a match ready once every match feeding it is decided, or a bye if only one player arrived
+CREATE OR REPLACE FUNCTION settle_tournament_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_match tournament_matches;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.status <> 'pending' OR EXISTS (
+    SELECT 1 FROM tournament_matches f
+    WHERE (f.next_match_id = v_match.id OR f.loser_next_match_id = v_match.id)
+      AND f.status IN ('pending', 'ready')
+  ) THEN
+    RETURN;
+  END IF;
+
+  IF v_match.participant1_id IS NOT NULL AND v_match.participant2_id IS NOT NULL THEN
+    UPDATE tournament_matches SET status = 'ready', updated_at = now() WHERE id = v_match.id;
+  ELSE
+    -- Both sides can be empty in the losers bracket when byes meet; nobody moves on then
+    UPDATE tournament_matches
+      SET status = 'bye',
+          winner_id = COALESCE(participant1_id, participant2_id),
+          completed_at = now(),
+          updated_at = now()
+      WHERE id = v_match.id;
+    PERFORM advance_tournament_match(v_match.id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION advance_tournament_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_match tournament_matches;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id;
+
+  IF v_match.next_match_id IS NOT NULL THEN
+    IF v_match.winner_id IS NOT NULL THEN
+      UPDATE tournament_matches
+        SET participant1_id = CASE WHEN v_match.next_slot = 1 THEN v_match.winner_id ELSE participant1_id END,
+            participant2_id = CASE WHEN v_match.next_slot = 2 THEN v_match.winner_id ELSE participant2_id END,
+            updated_at = now()
+        WHERE id = v_match.next_match_id;
+    END IF;
+    PERFORM settle_tournament_match(v_match.next_match_id);
+  END IF;
+
+  IF v_match.loser_next_match_id IS NOT NULL THEN
+    IF v_match.loser_id IS NOT NULL THEN
+      UPDATE tournament_matches
+        SET participant1_id = CASE WHEN v_match.loser_next_slot = 1 THEN v_match.loser_id ELSE participant1_id END,
+            participant2_id = CASE WHEN v_match.loser_next_slot = 2 THEN v_match.loser_id ELSE participant2_id END,
+            updated_at = now()
+        WHERE id = v_match.loser_next_match_id;
+    END IF;
+    PERFORM settle_tournament_match(v_match.loser_next_match_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Players knocked out in the same round share a rank
+CREATE OR REPLACE FUNCTION finish_tournament_bracket(p_event_id uuid, p_champion_id uuid)
+RETURNS void AS $$
+BEGIN
+  WITH eliminated AS (
+    SELECT m.loser_id AS participant_id,
+           CASE WHEN m.bracket = 'grand_final' THEN 1000 ELSE m.round END AS stage
+    FROM tournament_matches m
+    WHERE m.event_id = p_event_id
+      AND m.status = 'completed'
+      AND m.loser_next_match_id IS NULL
+      -- Losing grand final 1 as winners bracket champion is the first loss, not the last
+      AND NOT (m.bracket = 'grand_final' AND m.round = 1 AND m.winner_id = m.participant2_id)
+  )
+  UPDATE event_participants ep
+    SET rank = 2 + (SELECT count(*) FROM eliminated later WHERE later.stage > e.stage),
+        status = 'completed'
+    FROM eliminated e
+    WHERE ep.id = e.participant_id;
+
+  UPDATE event_participants SET rank = 1, status = 'completed' WHERE id = p_champion_id;
+
+  UPDATE events SET status = 'completed', updated_at = now() WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION generate_tournament_bracket(
+  p_event_id uuid,
+  p_format text,
+  p_seeds uuid[] DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_event events;
+  v_players uuid[];
+  v_count integer;
+  v_size integer := 2;
+  v_rounds integer := 1;
+  v_lb_rounds integer := 0;
+  v_order integer[];
+  v_round integer;
+  v_position integer;
+  v_match_id uuid;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event does not exist';
+  ELSIF v_event.event_type <> 'tournament' THEN
+    RAISE EXCEPTION 'Brackets can only be generated for tournaments';
+  ELSIF p_format NOT IN ('single_elimination', 'double_elimination') THEN
+    RAISE EXCEPTION 'Unknown bracket format %', p_format;
+  END IF;
+
+  IF p_seeds IS NOT NULL THEN
+    UPDATE event_participants ep
+      SET seed = s.ord
+      FROM unnest(p_seeds) WITH ORDINALITY AS s(id, ord)
+      WHERE ep.id = s.id AND ep.event_id = p_event_id;
+  END IF;
+
+  -- Unseeded participants follow the seeded ones in registration order
+  SELECT array_agg(id ORDER BY seed NULLS LAST, registration_date, id) INTO v_players
+    FROM event_participants
+    WHERE event_id = p_event_id AND status IN ('registered', 'confirmed', 'completed');
+  v_count := COALESCE(array_length(v_players, 1), 0);
+
+  IF v_count < 2 THEN
+    RAISE EXCEPTION 'A bracket needs at least 2 participants';
+  ELSIF p_format = 'double_elimination' AND v_count < 3 THEN
+    RAISE EXCEPTION 'Double elimination needs at least 3 participants';
+  END IF;
+
+  UPDATE event_participants ep
+    SET seed = s.ord, rank = NULL
+    FROM unnest(v_players) WITH ORDINALITY AS s(id, ord)
+    WHERE ep.id = s.id;
+
+  WHILE v_size < v_count LOOP
+    v_size := v_size * 2;
+    v_rounds := v_rounds + 1;
+  END LOOP;
+
+  DELETE FROM tournament_matches WHERE event_id = p_event_id;
+  UPDATE events SET bracket_format = p_format, updated_at = now() WHERE id = p_event_id;
+
+  FOR v_round IN 1..v_rounds LOOP
+    FOR v_position IN 1..(v_size >> v_round) LOOP
+      INSERT INTO tournament_matches (event_id, bracket, round, position)
+      VALUES (p_event_id, 'winners', v_round, v_position);
+    END LOOP;
+  END LOOP;
+
+  UPDATE tournament_matches m
+    SET next_match_id = n.id, next_slot = CASE WHEN m.position % 2 = 1 THEN 1 ELSE 2 END
+    FROM tournament_matches n
+    WHERE m.event_id = p_event_id AND m.bracket = 'winners'
+      AND n.event_id = p_event_id AND n.bracket = 'winners'
+      AND n.round = m.round + 1 AND n.position = (m.position + 1) / 2;
+
+  IF p_format = 'double_elimination' THEN
+    v_lb_rounds := 2 * (v_rounds - 1);
+
+    FOR v_round IN 1..v_lb_rounds LOOP
+      FOR v_position IN 1..(v_size >> ((v_round + 1) / 2 + 1)) LOOP
+        INSERT INTO tournament_matches (event_id, bracket, round, position)
+        VALUES (p_event_id, 'losers', v_round, v_position);
+      END LOOP;
+    END LOOP;
+
+    INSERT INTO tournament_matches (event_id, bracket, round, position)
+    VALUES (p_event_id, 'grand_final', 1, 1), (p_event_id, 'grand_final', 2, 1);
+
+    SELECT id INTO v_match_id FROM tournament_matches
+      WHERE event_id = p_event_id AND bracket = 'grand_final' AND round = 1;
+
+    UPDATE tournament_matches
+      SET next_match_id = v_match_id, next_slot = 1
+      WHERE event_id = p_event_id AND bracket = 'winners' AND round = v_rounds;
+
+    UPDATE tournament_matches
+      SET next_match_id = v_match_id, next_slot = 2
+      WHERE event_id = p_event_id AND bracket = 'losers' AND round = v_lb_rounds;
+
+    -- Winners round 1 losers pair up in losers round 1
+    UPDATE tournament_matches m
+      SET loser_next_match_id = n.id, loser_next_slot = CASE WHEN m.position % 2 = 1 THEN 1 ELSE 2 END
+      FROM tournament_matches n
+      WHERE m.event_id = p_event_id AND m.bracket = 'winners' AND m.round = 1
+        AND n.event_id = p_event_id AND n.bracket = 'losers' AND n.round = 1
+        AND n.position = (m.position + 1) / 2;
+
+    -- Later winners round losers meet the losers bracket survivors, in reverse order
+    UPDATE tournament_matches m
+      SET loser_next_match_id = n.id, loser_next_slot = 2
+      FROM tournament_matches n
+      WHERE m.event_id = p_event_id AND m.bracket = 'winners' AND m.round > 1
+        AND n.event_id = p_event_id AND n.bracket = 'losers' AND n.round = 2 * (m.round - 1)
+        AND n.position = (v_size >> m.round) + 1 - m.position;
+
+    UPDATE tournament_matches m
+      SET next_match_id = n.id, next_slot = 1
+      FROM tournament_matches n
+      WHERE m.event_id = p_event_id AND m.bracket = 'losers' AND m.round % 2 = 1
+        AND n.event_id = p_event_id AND n.bracket = 'losers'
+        AND n.round = m.round + 1 AND n.position = m.position;
+
+    UPDATE tournament_matches m
+      SET next_match_id = n.id, next_slot = CASE WHEN m.position % 2 = 1 THEN 1 ELSE 2 END
+      FROM tournament_matches n
+      WHERE m.event_id = p_event_id AND m.bracket = 'losers' AND m.round % 2 = 0 AND m.round < v_lb_rounds
+        AND n.event_id = p_event_id AND n.bracket = 'losers'
+        AND n.round = m.round + 1 AND n.position = (m.position + 1) / 2;
+  END IF;
+
+  v_order := bracket_seed_order(v_size);
+  FOR v_position IN 1..(v_size / 2) LOOP
+    UPDATE tournament_matches
+      SET participant1_id = v_players[v_order[2 * v_position - 1]],
+          participant2_id = v_players[v_order[2 * v_position]]
+      WHERE event_id = p_event_id AND bracket = 'winners' AND round = 1 AND position = v_position;
+  END LOOP;
+
+  FOR v_match_id IN
+    SELECT id FROM tournament_matches
+    WHERE event_id = p_event_id AND bracket = 'winners' AND round = 1
+    ORDER BY position
+  LOOP
+    PERFORM settle_tournament_match(v_match_id);
+  END LOOP;
+
+  RETURN (SELECT count(*) FROM tournament_matches WHERE event_id = p_event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- `p_completed_at` is only passed when a rebuild replays a result that was recorded earlier
+CREATE OR REPLACE FUNCTION record_match_result(
+  p_match_id uuid,
+  p_winner_id uuid,
+  p_score1 integer DEFAULT NULL,
+  p_score2 integer DEFAULT NULL,
+  p_completed_at timestamptz DEFAULT NULL
+)
+RETURNS tournament_matches AS $$
+DECLARE
+  v_match tournament_matches;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.id IS NULL THEN
+    RAISE EXCEPTION 'Match does not exist';
+  ELSIF v_match.status <> 'ready' THEN
+    RAISE EXCEPTION 'This match cannot take a result (status: %)', v_match.status;
+  ELSIF p_winner_id IS NULL OR p_winner_id NOT IN (v_match.participant1_id, v_match.participant2_id) THEN
+    RAISE EXCEPTION 'The winner must be one of the two players';
+  END IF;
+
+  UPDATE tournament_matches
+    SET winner_id = p_winner_id,
+        loser_id = CASE WHEN p_winner_id = participant1_id THEN participant2_id ELSE participant1_id END,
+        score1 = p_score1,
+        score2 = p_score2,
+        status = 'completed',
+        completed_at = COALESCE(p_completed_at, now()),
+        updated_at = now()
+    WHERE id = v_match.id
+    RETURNING * INTO v_match;
+
+  IF v_match.bracket = 'grand_final' AND v_match.round = 1 THEN
+    IF v_match.winner_id = v_match.participant2_id THEN
+      -- Both finalists now have one loss
+      UPDATE tournament_matches
+        SET participant1_id = v_match.participant1_id,
+            participant2_id = v_match.participant2_id,
+            status = 'ready',
+            updated_at = now()
+        WHERE event_id = v_match.event_id AND bracket = 'grand_final' AND round = 2;
+    ELSE
+      UPDATE tournament_matches
+        SET status = 'skipped', updated_at = now()
+        WHERE event_id = v_match.event_id AND bracket = 'grand_final' AND round = 2;
+      PERFORM finish_tournament_bracket(v_match.event_id, v_match.winner_id);
+    END IF;
+  ELSIF v_match.bracket = 'grand_final' OR v_match.next_match_id IS NULL THEN
+    PERFORM finish_tournament_bracket(v_match.event_id, v_match.winner_id);
+  ELSE
+    PERFORM advance_tournament_match(v_match.id);
+  END IF;
+
+  RETURN v_match;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION rebuild_tournament_bracket(p_event_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_format text;
+  v_results jsonb;
+  v_result jsonb;
+  v_match_id uuid;
+  v_replayed integer := 0;
+BEGIN
+  SELECT bracket_format INTO v_format FROM events WHERE id = p_event_id;
+  IF v_format IS NULL THEN
+    RAISE EXCEPTION 'This event has no bracket yet';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+      'bracket', bracket, 'round', round, 'position', position,
+      'winner_id', winner_id, 'score1', score1, 'score2', score2, 'completed_at', completed_at
+    ) ORDER BY completed_at, round, position)
+    INTO v_results
+    FROM tournament_matches
+    WHERE event_id = p_event_id AND status = 'completed';
+
+  PERFORM generate_tournament_bracket(p_event_id, v_format);
+
+  FOR v_result IN SELECT * FROM jsonb_array_elements(COALESCE(v_results, '[]'::jsonb)) LOOP
+    SELECT id INTO v_match_id
+      FROM tournament_matches
+      WHERE event_id = p_event_id
+        AND bracket = v_result->>'bracket'
+        AND round = (v_result->>'round')::integer
+        AND position = (v_result->>'position')::integer
+        AND status = 'ready'
+        AND (v_result->>'winner_id')::uuid IN (participant1_id, participant2_id);
+
+    -- Results whose players no longer meet, e.g. after a withdrawal, are dropped
+    IF v_match_id IS NOT NULL THEN
+      PERFORM record_match_result(
+        v_match_id,
+        (v_result->>'winner_id')::uuid,
+        (v_result->>'score1')::integer,
+        (v_result->>'score2')::integer,
+        (v_result->>'completed_at')::timestamptz
+      );
+      v_replayed := v_replayed + 1;
+    END IF;
+  END LOOP;
+
+  RETURN v_replayed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Bracket management is staff only: the admin API calls these with the service role
+REVOKE EXECUTE ON FUNCTION generate_tournament_bracket(uuid, text, uuid[]) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION record_match_result(uuid, uuid, integer, integer, timestamptz) FROM PUBLIC, anon, authenticated;
+REVOKE EXECUTE ON FUNCTION rebuild_tournament_bracket(uuid) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,499 @@
+/*
+  # League Formats
+
+  1. Changes
+    - `events.bracket_format` - Also `round_robin` and `swiss`
+    - `events.group_count` - Number of round-robin groups
+    - `events.swiss_rounds` - Number of Swiss rounds to play
+    - `event_participants.group_number` - The round-robin group a player was drawn into
+    - `tournament_matches.bracket` - Also `group` and `swiss`; league matches may end in a draw,
+      stored as a completed match without a winner
+    - `tournament_matches.group_number` - Group of a round-robin match
+
+  2. Functions
+    - `league_standings(event)` - Standings computed from recorded results
+    - `generate_league_schedule(event, format, seeds, groups, rounds)` - Draws the groups and the
+      full round-robin schedule, or pairs Swiss round 1
+    - `swiss_pairings(event, players)` - Rematch-free pairing of a Swiss round, if there is one
+    - `generate_swiss_round(event)` - Pairs the next Swiss round
+    - `progress_league(event)` and `finish_league(event)` - Internal steps of `record_match_result`
+    - `record_match_result` - Redefined to accept draws in league matches
+
+  3. Standings
+    - Points per `league_points` setting (3 for a win, 1 for a draw by default); a Swiss bye counts as a win
+    - Tiebreakers: points, then Buchholz (Swiss only: sum of the opponents' points), score difference
+      and score for; players still level share a rank
+    - Round-robin standings are ranked per group. The final event rank puts the group winners first,
+      ordered by their record, then the runners-up and so on
+
+  4. Swiss pairing
+    - Round 1 pairs the top half of the seeding against the bottom half
+    - Later rounds pair players in standings order with the highest-placed player they have not met,
+      backtracking when a pair would leave the rest of the field with only rematches; a rematch only
+      happens when every possible pairing has one, and then the greedy pairing is used
+    - With an odd field the lowest-placed player without a bye so far gets one
+*/
+
+INSERT INTO app_settings (key, value) VALUES
+('league_points', '{"win": 3, "draw": 1, "loss": 0}')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_bracket_format_check;
+ALTER TABLE events ADD CONSTRAINT events_bracket_format_check
+  CHECK (bracket_format IN ('single_elimination', 'double_elimination', 'round_robin', 'swiss'));
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS group_count integer CHECK (group_count > 0);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS swiss_rounds integer CHECK (swiss_rounds > 0);
+
+ALTER TABLE event_participants ADD COLUMN IF NOT EXISTS group_number integer CHECK (group_number > 0);
+
+ALTER TABLE tournament_matches DROP CONSTRAINT IF EXISTS tournament_matches_bracket_check;
+ALTER TABLE tournament_matches ADD CONSTRAINT tournament_matches_bracket_check
+  CHECK (bracket IN ('winners', 'losers', 'grand_final', 'group', 'swiss'));
+
+ALTER TABLE tournament_matches ADD COLUMN IF NOT EXISTS group_number integer CHECK (group_number > 0);
+
+CREATE OR REPLACE FUNCTION league_standings(p_event_id uuid)
+RETURNS TABLE (
+  participant_id uuid,
+  group_number integer,
+  played integer,
+  wins integer,
+  draws integer,
+  losses integer,
+  score_for integer,
+  score_against integer,
+  points integer,
+  buchholz integer,
+  rank integer
+) AS $$
+DECLARE
+  v_points jsonb := get_setting('league_points');
+  v_win integer := COALESCE((v_points->>'win')::integer, 3);
+  v_draw integer := COALESCE((v_points->>'draw')::integer, 1);
+  v_loss integer := COALESCE((v_points->>'loss')::integer, 0);
+  v_swiss boolean;
+BEGIN
+  SELECT bracket_format = 'swiss' INTO v_swiss FROM events WHERE id = p_event_id;
+
+  RETURN QUERY
+  WITH sides AS (
+    -- One row per player per decided match; byes have no opponent
+    SELECT m.participant1_id AS player_id, m.participant2_id AS opponent_id,
+           m.score1 AS scored, m.score2 AS conceded, m.winner_id
+    FROM tournament_matches m
+    WHERE m.event_id = p_event_id AND m.bracket IN ('group', 'swiss') AND m.status IN ('completed', 'bye')
+    UNION ALL
+    SELECT m.participant2_id, m.participant1_id, m.score2, m.score1, m.winner_id
+    FROM tournament_matches m
+    WHERE m.event_id = p_event_id AND m.bracket IN ('group', 'swiss') AND m.status = 'completed'
+  ),
+  totals AS (
+    SELECT ep.id AS player_id,
+           ep.group_number AS player_group,
+           ep.seed,
+           count(s.player_id)::integer AS played,
+           count(*) FILTER (WHERE s.winner_id = s.player_id)::integer AS wins,
+           count(*) FILTER (WHERE s.player_id IS NOT NULL AND s.winner_id IS NULL)::integer AS draws,
+           count(*) FILTER (WHERE s.winner_id <> s.player_id)::integer AS losses,
+           COALESCE(sum(s.scored), 0)::integer AS score_for,
+           COALESCE(sum(s.conceded), 0)::integer AS score_against
+    FROM event_participants ep
+    LEFT JOIN sides s ON s.player_id = ep.id
+    WHERE ep.event_id = p_event_id AND ep.seed IS NOT NULL AND ep.status <> 'cancelled'
+    GROUP BY ep.id
+  ),
+  scored AS (
+    SELECT t.*, (t.wins * v_win + t.draws * v_draw + t.losses * v_loss) AS points
+    FROM totals t
+  ),
+  tiebroken AS (
+    SELECT sc.*,
+           COALESCE((
+             SELECT sum(o.points)
+             FROM sides s
+             JOIN scored o ON o.player_id = s.opponent_id
+             WHERE s.player_id = sc.player_id
+           ), 0)::integer AS buchholz
+    FROM scored sc
+  )
+  SELECT tb.player_id, tb.player_group, tb.played, tb.wins, tb.draws, tb.losses,
+         tb.score_for, tb.score_against, tb.points, tb.buchholz,
+         rank() OVER (
+           PARTITION BY tb.player_group
+           ORDER BY tb.points DESC,
+                    CASE WHEN v_swiss THEN tb.buchholz ELSE 0 END DESC,
+                    tb.score_for - tb.score_against DESC,
+                    tb.score_for DESC
+         )::integer
+  FROM tiebroken tb
+  ORDER BY tb.player_group NULLS FIRST, 11, tb.seed;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+/*
+  Pairs `p_players` (in standings order) without rematches, giving each player the
+  highest-placed opponent that still lets everyone below be paired. Returns the pairs
+  flattened as [player, opponent, player, opponent, ...], or NULL if none exists.
+*/
+CREATE OR REPLACE FUNCTION swiss_pairings(p_event_id uuid, p_players uuid[])
+RETURNS uuid[] AS $$
+DECLARE
+  v_count integer := COALESCE(array_length(p_players, 1), 0);
+  v_rest uuid[];
+  i integer;
+BEGIN
+  IF v_count = 0 THEN
+    RETURN ARRAY[]::uuid[];
+  END IF;
+
+  FOR i IN 2..v_count LOOP
+    CONTINUE WHEN EXISTS (
+      SELECT 1 FROM tournament_matches m
+      WHERE m.event_id = p_event_id AND m.bracket = 'swiss'
+        AND ((m.participant1_id = p_players[1] AND m.participant2_id = p_players[i])
+          OR (m.participant1_id = p_players[i] AND m.participant2_id = p_players[1]))
+    );
+
+    v_rest := swiss_pairings(p_event_id, p_players[2:i - 1] || p_players[i + 1:v_count]);
+    IF v_rest IS NOT NULL THEN
+      RETURN ARRAY[p_players[1], p_players[i]] || v_rest;
+    END IF;
+  END LOOP;
+
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql STABLE;
+
+CREATE OR REPLACE FUNCTION generate_swiss_round(p_event_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_round integer;
+  v_players uuid[];
+  v_count integer;
+  v_bye uuid;
+  v_pairs uuid[];
+  v_paired uuid[] := ARRAY[]::uuid[];
+  v_player uuid;
+  v_opponent uuid;
+  v_position integer := 0;
+  i integer;
+BEGIN
+  SELECT COALESCE(max(round), 0) + 1 INTO v_round
+    FROM tournament_matches
+    WHERE event_id = p_event_id AND bracket = 'swiss';
+
+  IF EXISTS (
+    SELECT 1 FROM tournament_matches
+    WHERE event_id = p_event_id AND bracket = 'swiss' AND status = 'ready'
+  ) THEN
+    RAISE EXCEPTION 'Round % is not finished yet', v_round - 1;
+  END IF;
+
+  IF v_round = 1 THEN
+    SELECT array_agg(id ORDER BY seed) INTO v_players
+      FROM event_participants
+      WHERE event_id = p_event_id AND seed IS NOT NULL AND status <> 'cancelled';
+  ELSE
+    SELECT array_agg(s.participant_id ORDER BY s.rank, ep.seed) INTO v_players
+      FROM league_standings(p_event_id) s
+      JOIN event_participants ep ON ep.id = s.participant_id;
+  END IF;
+  v_count := COALESCE(array_length(v_players, 1), 0);
+
+  IF v_count % 2 = 1 THEN
+    SELECT p INTO v_bye
+      FROM unnest(v_players) WITH ORDINALITY AS u(p, ord)
+      WHERE NOT EXISTS (
+        SELECT 1 FROM tournament_matches m
+        WHERE m.event_id = p_event_id AND m.bracket = 'swiss' AND m.status = 'bye' AND m.participant1_id = u.p
+      )
+      ORDER BY ord DESC
+      LIMIT 1;
+    -- Everyone has had a bye already in very long events; start over from the bottom
+    v_bye := COALESCE(v_bye, v_players[v_count]);
+    v_players := array_remove(v_players, v_bye);
+    v_count := v_count - 1;
+  END IF;
+
+  IF v_round = 1 THEN
+    FOR i IN 1..(v_count / 2) LOOP
+      v_position := v_position + 1;
+      INSERT INTO tournament_matches (event_id, bracket, round, position, participant1_id, participant2_id, status)
+      VALUES (p_event_id, 'swiss', v_round, v_position, v_players[i], v_players[i + v_count / 2], 'ready');
+    END LOOP;
+  ELSE
+    v_pairs := swiss_pairings(p_event_id, v_players);
+  END IF;
+
+  IF v_pairs IS NOT NULL THEN
+    FOR i IN 1..(v_count / 2) LOOP
+      v_position := v_position + 1;
+      INSERT INTO tournament_matches (event_id, bracket, round, position, participant1_id, participant2_id, status)
+      VALUES (p_event_id, 'swiss', v_round, v_position, v_pairs[2 * i - 1], v_pairs[2 * i], 'ready');
+    END LOOP;
+  ELSIF v_round > 1 THEN
+    -- Every pairing has a rematch; pair greedily, avoiding them where it still can
+    FOR i IN 1..v_count LOOP
+      v_player := v_players[i];
+      CONTINUE WHEN v_player = ANY(v_paired);
+
+      SELECT p INTO v_opponent
+        FROM unnest(v_players) WITH ORDINALITY AS u(p, ord)
+        WHERE u.ord > i AND NOT (u.p = ANY(v_paired))
+        ORDER BY EXISTS (
+          SELECT 1 FROM tournament_matches m
+          WHERE m.event_id = p_event_id AND m.bracket = 'swiss'
+            AND ((m.participant1_id = v_player AND m.participant2_id = u.p)
+              OR (m.participant1_id = u.p AND m.participant2_id = v_player))
+        ), ord
+        LIMIT 1;
+
+      v_paired := v_paired || v_player || v_opponent;
+      v_position := v_position + 1;
+      INSERT INTO tournament_matches (event_id, bracket, round, position, participant1_id, participant2_id, status)
+      VALUES (p_event_id, 'swiss', v_round, v_position, v_player, v_opponent, 'ready');
+    END LOOP;
+  END IF;
+
+  IF v_bye IS NOT NULL THEN
+    INSERT INTO tournament_matches (event_id, bracket, round, position, participant1_id, winner_id, status, completed_at)
+    VALUES (p_event_id, 'swiss', v_round, v_position + 1, v_bye, v_bye, 'bye', now());
+  END IF;
+
+  RETURN v_round;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION generate_league_schedule(
+  p_event_id uuid,
+  p_format text,
+  p_seeds uuid[] DEFAULT NULL,
+  p_groups integer DEFAULT 1,
+  p_rounds integer DEFAULT NULL
+)
+RETURNS integer AS $$
+DECLARE
+  v_event events;
+  v_players uuid[];
+  v_count integer;
+  v_rounds integer;
+  v_members uuid[];
+  v_size integer;
+  v_group integer;
+  v_round integer;
+  v_position integer;
+  i integer;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id FOR UPDATE;
+
+  IF v_event.id IS NULL THEN
+    RAISE EXCEPTION 'Event does not exist';
+  ELSIF v_event.event_type NOT IN ('tournament', 'competition') THEN
+    RAISE EXCEPTION 'Leagues can only be run for tournaments and competitions';
+  ELSIF p_format NOT IN ('round_robin', 'swiss') THEN
+    RAISE EXCEPTION 'Unknown league format %', p_format;
+  ELSIF p_groups IS NULL OR p_groups < 1 THEN
+    RAISE EXCEPTION 'A round robin needs at least one group';
+  END IF;
+
+  IF p_seeds IS NOT NULL THEN
+    UPDATE event_participants ep
+      SET seed = s.ord
+      FROM unnest(p_seeds) WITH ORDINALITY AS s(id, ord)
+      WHERE ep.id = s.id AND ep.event_id = p_event_id;
+  END IF;
+
+  SELECT array_agg(id ORDER BY seed NULLS LAST, registration_date, id) INTO v_players
+    FROM event_participants
+    WHERE event_id = p_event_id AND status IN ('registered', 'confirmed', 'completed');
+  v_count := COALESCE(array_length(v_players, 1), 0);
+
+  IF p_format = 'round_robin' AND v_count < 2 * p_groups THEN
+    RAISE EXCEPTION 'Every group needs at least 2 participants';
+  ELSIF v_count < 2 THEN
+    RAISE EXCEPTION 'A league needs at least 2 participants';
+  END IF;
+
+  -- Enough rounds to separate a single winner, but never more than a full round robin
+  v_rounds := LEAST(COALESCE(p_rounds, ceil(log(2, v_count::numeric))::integer), v_count - 1);
+  IF p_format = 'swiss' AND v_rounds < 1 THEN
+    RAISE EXCEPTION 'A Swiss event needs at least one round';
+  END IF;
+
+  -- Withdrawn players keep nothing from an earlier draw
+  UPDATE event_participants
+    SET seed = NULL, rank = NULL, group_number = NULL
+    WHERE event_id = p_event_id;
+
+  -- Snake draw: 1, 2, 3 | 6, 5, 4 | 7, 8, 9 ... so every group gets a similar spread of seeds
+  UPDATE event_participants ep
+    SET seed = s.ord,
+        group_number = CASE
+          WHEN p_format = 'swiss' THEN NULL
+          WHEN ((s.ord - 1) / p_groups) % 2 = 0 THEN (s.ord - 1) % p_groups + 1
+          ELSE p_groups - (s.ord - 1) % p_groups
+        END
+    FROM unnest(v_players) WITH ORDINALITY AS s(id, ord)
+    WHERE ep.id = s.id;
+
+  DELETE FROM tournament_matches WHERE event_id = p_event_id;
+  UPDATE events
+    SET bracket_format = p_format,
+        group_count = CASE WHEN p_format = 'round_robin' THEN p_groups END,
+        swiss_rounds = CASE WHEN p_format = 'swiss' THEN v_rounds END,
+        updated_at = now()
+    WHERE id = p_event_id;
+
+  IF p_format = 'swiss' THEN
+    PERFORM generate_swiss_round(p_event_id);
+  ELSE
+    FOR v_group IN 1..p_groups LOOP
+      SELECT array_agg(id ORDER BY seed) INTO v_members
+        FROM event_participants
+        WHERE event_id = p_event_id AND group_number = v_group;
+
+      -- Circle method; with an odd group the empty slot sits out each round
+      IF array_length(v_members, 1) % 2 = 1 THEN
+        v_members := array_append(v_members, NULL);
+      END IF;
+      v_size := array_length(v_members, 1);
+
+      FOR v_round IN 1..(v_size - 1) LOOP
+        SELECT COALESCE(max(position), 0) INTO v_position
+          FROM tournament_matches
+          WHERE event_id = p_event_id AND bracket = 'group' AND round = v_round;
+
+        FOR i IN 1..(v_size / 2) LOOP
+          IF v_members[i] IS NOT NULL AND v_members[v_size + 1 - i] IS NOT NULL THEN
+            v_position := v_position + 1;
+            INSERT INTO tournament_matches (
+              event_id, bracket, group_number, round, position, participant1_id, participant2_id, status
+            )
+            VALUES (
+              p_event_id, 'group', v_group, v_round, v_position, v_members[i], v_members[v_size + 1 - i], 'ready'
+            );
+          END IF;
+        END LOOP;
+
+        -- Everyone but the first player moves one place round the circle
+        v_members := v_members[1:1] || v_members[v_size:v_size] || v_members[2:v_size - 1];
+      END LOOP;
+    END LOOP;
+  END IF;
+
+  RETURN (SELECT count(*) FROM tournament_matches WHERE event_id = p_event_id);
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff only: the admin API calls it with the service role
+REVOKE EXECUTE ON FUNCTION generate_league_schedule(uuid, text, uuid[], integer, integer) FROM PUBLIC, anon, authenticated;
+
+-- Group ranks become one event ranking, so only the best group winner finishes first
+CREATE OR REPLACE FUNCTION finish_league(p_event_id uuid)
+RETURNS void AS $$
+BEGIN
+  UPDATE event_participants ep
+    SET rank = o.overall_rank, score = o.points, status = 'completed'
+    FROM (
+      SELECT s.participant_id, s.points,
+             rank() OVER (
+               ORDER BY s.rank,
+                        s.points DESC,
+                        s.score_for - s.score_against DESC,
+                        s.score_for DESC
+             )::integer AS overall_rank
+      FROM league_standings(p_event_id) s
+    ) o
+    WHERE ep.id = o.participant_id;
+
+  UPDATE events SET status = 'completed', updated_at = now() WHERE id = p_event_id;
+END;
+$$ LANGUAGE plpgsql;
+
+-- Pairs the next Swiss round once the current one is done, and closes the league after the last match
+CREATE OR REPLACE FUNCTION progress_league(p_event_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_event events;
+BEGIN
+  IF EXISTS (SELECT 1 FROM tournament_matches WHERE event_id = p_event_id AND status = 'ready') THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+
+  IF v_event.bracket_format = 'swiss' AND (
+    SELECT max(round) FROM tournament_matches WHERE event_id = p_event_id
+  ) < v_event.swiss_rounds THEN
+    PERFORM generate_swiss_round(p_event_id);
+  ELSE
+    PERFORM finish_league(p_event_id);
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION record_match_result(
+  p_match_id uuid,
+  p_winner_id uuid,
+  p_score1 integer DEFAULT NULL,
+  p_score2 integer DEFAULT NULL,
+  p_completed_at timestamptz DEFAULT NULL
+)
+RETURNS tournament_matches AS $$
+DECLARE
+  v_match tournament_matches;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.id IS NULL THEN
+    RAISE EXCEPTION 'Match does not exist';
+  ELSIF v_match.status <> 'ready' THEN
+    RAISE EXCEPTION 'This match cannot take a result (status: %)', v_match.status;
+  ELSIF p_winner_id IS NULL AND v_match.bracket NOT IN ('group', 'swiss') THEN
+    RAISE EXCEPTION 'Knockout matches cannot end in a draw';
+  ELSIF p_winner_id NOT IN (v_match.participant1_id, v_match.participant2_id) THEN
+    RAISE EXCEPTION 'The winner must be one of the two players';
+  END IF;
+
+  UPDATE tournament_matches
+    SET winner_id = p_winner_id,
+        loser_id = CASE
+          WHEN p_winner_id IS NULL THEN NULL
+          WHEN p_winner_id = participant1_id THEN participant2_id
+          ELSE participant1_id
+        END,
+        score1 = p_score1,
+        score2 = p_score2,
+        status = 'completed',
+        completed_at = COALESCE(p_completed_at, now()),
+        updated_at = now()
+    WHERE id = v_match.id
+    RETURNING * INTO v_match;
+
+  IF v_match.bracket IN ('group', 'swiss') THEN
+    PERFORM progress_league(v_match.event_id);
+  ELSIF v_match.bracket = 'grand_final' AND v_match.round = 1 THEN
+    IF v_match.winner_id = v_match.participant2_id THEN
+      -- Both finalists now have one loss
+      UPDATE tournament_matches
+        SET participant1_id = v_match.participant1_id,
+            participant2_id = v_match.participant2_id,
+            status = 'ready',
+            updated_at = now()
+        WHERE event_id = v_match.event_id AND bracket = 'grand_final' AND round = 2;
+    ELSE
+      UPDATE tournament_matches
+        SET status = 'skipped', updated_at = now()
+        WHERE event_id = v_match.event_id AND bracket = 'grand_final' AND round = 2;
+      PERFORM finish_tournament_bracket(v_match.event_id, v_match.winner_id);
+    END IF;
+  ELSIF v_match.bracket = 'grand_final' OR v_match.next_match_id IS NULL THEN
+    PERFORM finish_tournament_bracket(v_match.event_id, v_match.winner_id);
+  ELSE
+    PERFORM advance_tournament_match(v_match.id);
+  END IF;
+
+  RETURN v_match;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
@@ -0,0 +1,374 @@
+/*
+  # Match Result Reporting
+
+  1. New Tables
+    - `match_reports` - The result each player reports for their match; one per player per match
+    - `match_result_overrides` - Audit trail of every result staff set or corrected, with the result
+      it replaced. Keeps the match's place in the bracket so it survives a bracket rebuild
+
+  2. Changes
+    - `tournament_matches.disputed_at` - Set when the two reports disagree; the match stays `ready`
+      and waits in the dispute queue until staff decide it or the players agree
+
+  3. Functions
+    - `report_match_result(match, user, winner, score1, score2)` - Stores a player's report; matching
+      reports confirm the result through `record_match_result`, conflicting ones open a dispute
+    - `override_match_result(match, staff, winner, score1, score2, reason)` - Staff decide a match or
+      correct a confirmed one. Corrected knockout results are replayed through
+      `rebuild_tournament_bracket`, so later rounds follow the new winner
+    - `refresh_participant_scores(event)` - `event_participants.score` is league points, or matches
+      won in a knockout; kept current by `trigger_refresh_participant_scores`
+    - `rebuild_tournament_bracket(event)` - Redefined to carry match reports, open disputes and
+      override links over to the rebuilt matches that still have the same two players
+*/
+
+ALTER TABLE tournament_matches ADD COLUMN IF NOT EXISTS disputed_at timestamptz;
+
+-- Match reports table
+CREATE TABLE IF NOT EXISTS match_reports (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id uuid NOT NULL REFERENCES tournament_matches(id) ON DELETE CASCADE,
+  participant_id uuid NOT NULL REFERENCES event_participants(id) ON DELETE CASCADE,
+  winner_id uuid REFERENCES event_participants(id) ON DELETE CASCADE,
+  score1 integer CHECK (score1 >= 0),
+  score2 integer CHECK (score2 >= 0),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE(match_id, participant_id)
+);
+
+-- Match result overrides table
+CREATE TABLE IF NOT EXISTS match_result_overrides (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  match_id uuid REFERENCES tournament_matches(id) ON DELETE SET NULL,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  bracket text NOT NULL,
+  round integer NOT NULL,
+  position integer NOT NULL,
+  previous_status text NOT NULL,
+  previous_winner_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  previous_score1 integer,
+  previous_score2 integer,
+  winner_id uuid REFERENCES event_participants(id) ON DELETE SET NULL,
+  score1 integer,
+  score2 integer,
+  reason text,
+  staff_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_match_result_overrides_event_id ON match_result_overrides(event_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_tournament_matches_disputed_at ON tournament_matches(disputed_at)
+  WHERE disputed_at IS NOT NULL;
+
+ALTER TABLE match_reports ENABLE ROW LEVEL SECURITY;
+ALTER TABLE match_result_overrides ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Players can view reports of their matches" ON match_reports
+  FOR SELECT USING (
+    EXISTS (
+      SELECT 1 FROM tournament_matches m
+      JOIN event_participants ep ON ep.id IN (m.participant1_id, m.participant2_id)
+      WHERE m.id = match_reports.match_id AND ep.user_id = auth.uid()
+    )
+  );
+
+CREATE OR REPLACE FUNCTION refresh_participant_scores(p_event_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_format text;
+BEGIN
+  SELECT bracket_format INTO v_format FROM events WHERE id = p_event_id;
+
+  IF v_format IN ('round_robin', 'swiss') THEN
+    UPDATE event_participants ep
+      SET score = s.points
+      FROM league_standings(p_event_id) s
+      WHERE ep.id = s.participant_id AND ep.score IS DISTINCT FROM s.points;
+  ELSE
+    UPDATE event_participants ep
+      SET score = (
+        SELECT count(*) FROM tournament_matches m
+        WHERE m.event_id = p_event_id AND m.status = 'completed' AND m.winner_id = ep.id
+      )
+      WHERE ep.event_id = p_event_id AND ep.seed IS NOT NULL;
+  END IF;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_participant_scores_on_result()
+RETURNS trigger AS $$
+BEGIN
+  PERFORM refresh_participant_scores(NEW.event_id);
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_refresh_participant_scores
+  AFTER INSERT OR UPDATE OF status, winner_id, score1, score2 ON tournament_matches
+  FOR EACH ROW
+  WHEN (NEW.status IN ('completed', 'bye'))
+  EXECUTE FUNCTION refresh_participant_scores_on_result();
+
+CREATE OR REPLACE FUNCTION report_match_result(
+  p_match_id uuid,
+  p_user_id uuid,
+  p_winner_id uuid,
+  p_score1 integer DEFAULT NULL,
+  p_score2 integer DEFAULT NULL
+)
+RETURNS text AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_match tournament_matches;
+  v_reporter event_participants;
+  v_opponent_id uuid;
+  v_other match_reports;
+  v_event_title text;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.id IS NULL OR v_match.status <> 'ready' THEN
+    RAISE EXCEPTION 'This match is not waiting for a result';
+  END IF;
+
+  SELECT * INTO v_reporter
+    FROM event_participants
+    WHERE id IN (v_match.participant1_id, v_match.participant2_id) AND user_id = v_user_id;
+
+  IF v_reporter.id IS NULL THEN
+    RAISE EXCEPTION 'Only the two players can report this match';
+  ELSIF p_winner_id IS NULL AND v_match.bracket NOT IN ('group', 'swiss') THEN
+    RAISE EXCEPTION 'Knockout matches cannot end in a draw';
+  ELSIF p_winner_id NOT IN (v_match.participant1_id, v_match.participant2_id) THEN
+    RAISE EXCEPTION 'The winner must be one of the two players';
+  END IF;
+
+  INSERT INTO match_reports (match_id, participant_id, winner_id, score1, score2)
+  VALUES (v_match.id, v_reporter.id, p_winner_id, p_score1, p_score2)
+  ON CONFLICT (match_id, participant_id) DO UPDATE
+    SET winner_id = EXCLUDED.winner_id,
+        score1 = EXCLUDED.score1,
+        score2 = EXCLUDED.score2,
+        updated_at = now();
+
+  v_opponent_id := CASE WHEN v_reporter.id = v_match.participant1_id
+    THEN v_match.participant2_id ELSE v_match.participant1_id END;
+
+  SELECT * INTO v_other FROM match_reports WHERE match_id = v_match.id AND participant_id = v_opponent_id;
+  SELECT title INTO v_event_title FROM events WHERE id = v_match.event_id;
+
+  IF v_other.id IS NULL THEN
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    SELECT user_id,
+           'Konfirmasi hasil pertandingan',
+           'Lawanmu sudah melaporkan hasil pertandingan di ' || v_event_title || '. Laporkan hasilmu untuk mengonfirmasi.',
+           'event',
+           '/events/' || v_match.event_id
+    FROM event_participants WHERE id = v_opponent_id;
+
+    RETURN 'pending';
+  END IF;
+
+  IF v_other.winner_id IS NOT DISTINCT FROM p_winner_id
+    AND v_other.score1 IS NOT DISTINCT FROM p_score1
+    AND v_other.score2 IS NOT DISTINCT FROM p_score2 THEN
+    PERFORM record_match_result(v_match.id, p_winner_id, p_score1, p_score2);
+    RETURN 'confirmed';
+  END IF;
+
+  UPDATE tournament_matches SET disputed_at = COALESCE(disputed_at, now()), updated_at = now() WHERE id = v_match.id;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT user_id,
+         'Hasil pertandingan diperiksa admin',
+         'Laporan hasil pertandinganmu di ' || v_event_title || ' berbeda dengan lawan. Admin akan memutuskan hasilnya.',
+         'event',
+         '/events/' || v_match.event_id
+  FROM event_participants WHERE id IN (v_match.participant1_id, v_match.participant2_id);
+
+  RETURN 'disputed';
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION rebuild_tournament_bracket(p_event_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_format text;
+  v_results jsonb;
+  v_result jsonb;
+  v_reports jsonb;
+  v_disputes jsonb;
+  v_match_id uuid;
+  v_replayed integer := 0;
+BEGIN
+  SELECT bracket_format INTO v_format FROM events WHERE id = p_event_id;
+  IF v_format IS NULL THEN
+    RAISE EXCEPTION 'This event has no bracket yet';
+  END IF;
+
+  SELECT jsonb_agg(jsonb_build_object(
+      'bracket', bracket, 'round', round, 'position', position,
+      'winner_id', winner_id, 'score1', score1, 'score2', score2, 'completed_at', completed_at
+    ) ORDER BY completed_at, round, position)
+    INTO v_results
+    FROM tournament_matches
+    WHERE event_id = p_event_id AND status = 'completed';
+
+  -- Regenerating the bracket deletes every match, and their reports with them
+  SELECT jsonb_agg(jsonb_build_object(
+      'bracket', m.bracket, 'round', m.round, 'position', m.position,
+      'participant1_id', m.participant1_id, 'participant2_id', m.participant2_id,
+      'participant_id', r.participant_id, 'winner_id', r.winner_id, 'score1', r.score1, 'score2', r.score2,
+      'created_at', r.created_at, 'updated_at', r.updated_at
+    ))
+    INTO v_reports
+    FROM match_reports r
+    JOIN tournament_matches m ON m.id = r.match_id
+    WHERE m.event_id = p_event_id;
+
+  SELECT jsonb_agg(jsonb_build_object(
+      'bracket', bracket, 'round', round, 'position', position,
+      'participant1_id', participant1_id, 'participant2_id', participant2_id, 'disputed_at', disputed_at
+    ))
+    INTO v_disputes
+    FROM tournament_matches
+    WHERE event_id = p_event_id AND disputed_at IS NOT NULL;
+
+  PERFORM generate_tournament_bracket(p_event_id, v_format);
+
+  FOR v_result IN SELECT * FROM jsonb_array_elements(COALESCE(v_results, '[]'::jsonb)) LOOP
+    SELECT id INTO v_match_id
+      FROM tournament_matches
+      WHERE event_id = p_event_id
+        AND bracket = v_result->>'bracket'
+        AND round = (v_result->>'round')::integer
+        AND position = (v_result->>'position')::integer
+        AND status = 'ready'
+        AND (v_result->>'winner_id')::uuid IN (participant1_id, participant2_id);
+
+    -- Results whose players no longer meet, e.g. after a withdrawal, are dropped
+    IF v_match_id IS NOT NULL THEN
+      PERFORM record_match_result(
+        v_match_id,
+        (v_result->>'winner_id')::uuid,
+        (v_result->>'score1')::integer,
+        (v_result->>'score2')::integer,
+        (v_result->>'completed_at')::timestamptz
+      );
+      v_replayed := v_replayed + 1;
+    END IF;
+  END LOOP;
+
+  -- A report or dispute only belongs to the same pairing; a match with new players starts clean
+  INSERT INTO match_reports (match_id, participant_id, winner_id, score1, score2, created_at, updated_at)
+  SELECT m.id, (r->>'participant_id')::uuid, (r->>'winner_id')::uuid, (r->>'score1')::integer,
+         (r->>'score2')::integer, (r->>'created_at')::timestamptz, (r->>'updated_at')::timestamptz
+  FROM jsonb_array_elements(COALESCE(v_reports, '[]'::jsonb)) r
+  JOIN tournament_matches m
+    ON m.event_id = p_event_id
+   AND m.bracket = r->>'bracket'
+   AND m.round = (r->>'round')::integer
+   AND m.position = (r->>'position')::integer
+   AND m.participant1_id = (r->>'participant1_id')::uuid
+   AND m.participant2_id = (r->>'participant2_id')::uuid;
+
+  UPDATE tournament_matches m
+    SET disputed_at = (d->>'disputed_at')::timestamptz
+    FROM jsonb_array_elements(COALESCE(v_disputes, '[]'::jsonb)) d
+    WHERE m.event_id = p_event_id
+      AND m.status = 'ready'
+      AND m.bracket = d->>'bracket'
+      AND m.round = (d->>'round')::integer
+      AND m.position = (d->>'position')::integer
+      AND m.participant1_id = (d->>'participant1_id')::uuid
+      AND m.participant2_id = (d->>'participant2_id')::uuid;
+
+  UPDATE match_result_overrides o
+    SET match_id = m.id
+    FROM tournament_matches m
+    WHERE o.event_id = p_event_id
+      AND o.match_id IS NULL
+      AND m.event_id = p_event_id
+      AND m.bracket = o.bracket
+      AND m.round = o.round
+      AND m.position = o.position;
+
+  RETURN v_replayed;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION override_match_result(
+  p_match_id uuid,
+  p_staff_id uuid,
+  p_winner_id uuid,
+  p_score1 integer DEFAULT NULL,
+  p_score2 integer DEFAULT NULL,
+  p_reason text DEFAULT NULL
+)
+RETURNS tournament_matches AS $$
+DECLARE
+  v_staff_id uuid := request_user_id(p_staff_id);
+  v_match tournament_matches;
+  v_event events;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id FOR UPDATE;
+
+  IF v_match.id IS NULL THEN
+    RAISE EXCEPTION 'Match does not exist';
+  ELSIF v_match.status NOT IN ('ready', 'completed') THEN
+    RAISE EXCEPTION 'This match cannot take a result (status: %)', v_match.status;
+  ELSIF p_winner_id IS NULL AND v_match.bracket NOT IN ('group', 'swiss') THEN
+    RAISE EXCEPTION 'Knockout matches cannot end in a draw';
+  ELSIF p_winner_id NOT IN (v_match.participant1_id, v_match.participant2_id) THEN
+    RAISE EXCEPTION 'The winner must be one of the two players';
+  END IF;
+
+  INSERT INTO match_result_overrides (
+    match_id, event_id, bracket, round, position,
+    previous_status, previous_winner_id, previous_score1, previous_score2,
+    winner_id, score1, score2, reason, staff_id
+  )
+  VALUES (
+    v_match.id, v_match.event_id, v_match.bracket, v_match.round, v_match.position,
+    v_match.status, v_match.winner_id, v_match.score1, v_match.score2,
+    p_winner_id, p_score1, p_score2, p_reason, v_staff_id
+  );
+
+  IF v_match.status = 'ready' THEN
+    RETURN record_match_result(v_match.id, p_winner_id, p_score1, p_score2);
+  END IF;
+
+  UPDATE tournament_matches
+    SET winner_id = p_winner_id,
+        loser_id = CASE
+          WHEN p_winner_id IS NULL THEN NULL
+          WHEN p_winner_id = participant1_id THEN participant2_id
+          ELSE participant1_id
+        END,
+        score1 = p_score1,
+        score2 = p_score2,
+        updated_at = now()
+    WHERE id = v_match.id
+    RETURNING * INTO v_match;
+
+  SELECT * INTO v_event FROM events WHERE id = v_match.event_id;
+
+  IF v_event.bracket_format IN ('round_robin', 'swiss') THEN
+    -- Standings are computed, so only a finished league needs its ranks written again
+    IF v_event.status = 'completed' THEN
+      PERFORM finish_league(v_event.id);
+    END IF;
+  ELSE
+    PERFORM rebuild_tournament_bracket(v_event.id);
+    SELECT * INTO v_match FROM tournament_matches
+      WHERE event_id = v_event.id AND bracket = v_match.bracket
+        AND round = v_match.round AND position = v_match.position;
+  END IF;
+
+  RETURN v_match;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+-- Staff only: the admin API calls it with the service role
+REVOKE EXECUTE ON FUNCTION override_match_result(uuid, uuid, uuid, integer, integer, text) FROM PUBLIC, anon, authenticated;
@@ -0,0 +1,403 @@
+/*
+  # Skill Ratings
+
+  1. New Tables
+    - `seasons` - Named date ranges; ratings are also kept per season
+    - `casual_matches` - One-off matches between customers, logged by staff at the counter
+    - `player_ratings` - Elo rating per player and scope. A scope is all-time (`season_id` NULL) or one
+      season, and overall (`game_id` and `console_type` NULL), one console type, or one game
+    - `rating_history` - Every rating change with the match that caused it
+
+  2. Changes
+    - `events.game_id` - The game a tournament is played on, so its matches count for that game's rating
+
+  3. Functions
+    - `rate_match(...)` - Applies one result to every scope it counts for
+    - `rate_tournament_match(match)` and `rate_casual_match(match)` - Rate a confirmed result
+    - `recompute_ratings()` - Rebuilds every rating from scratch in the order matches were played
+    - `rank_player_ratings(season, game, console)` - Recomputes `current_rank` in one scope
+    - `refresh_leaderboard()` - Fills `leaderboard` from the all-time overall ratings and event finishes
+
+  4. Rating
+    - Elo starting at `rating_settings.initial` (1500). K is `provisional_k_factor` (40) for a player's
+      first `provisional_matches` (10) matches in a scope and `k_factor` (32) after that
+    - A draw scores half a win; byes are not rated
+    - Bracket rebuilds replay results into new match rows. A replayed result is recognised by its
+      place in the bracket and not rated twice; a changed result triggers `recompute_ratings()`
+*/
+
+INSERT INTO app_settings (key, value) VALUES
+('rating_settings', '{"initial": 1500, "k_factor": 32, "provisional_k_factor": 40, "provisional_matches": 10}')
+ON CONFLICT (key) DO NOTHING;
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS game_id uuid REFERENCES games(id) ON DELETE SET NULL;
+
+-- Seasons table
+CREATE TABLE IF NOT EXISTS seasons (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  name text NOT NULL,
+  starts_on date NOT NULL,
+  ends_on date NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  CHECK (ends_on >= starts_on)
+);
+
+-- Casual matches table
+CREATE TABLE IF NOT EXISTS casual_matches (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  game_id uuid NOT NULL REFERENCES games(id),
+  player1_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  player2_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  winner_id uuid REFERENCES users(id) ON DELETE CASCADE,
+  score1 integer CHECK (score1 >= 0),
+  score2 integer CHECK (score2 >= 0),
+  booking_id uuid REFERENCES bookings(id) ON DELETE SET NULL,
+  recorded_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  played_at timestamptz NOT NULL DEFAULT now(),
+  created_at timestamptz DEFAULT now(),
+  CHECK (player1_id <> player2_id),
+  CHECK (winner_id IS NULL OR winner_id IN (player1_id, player2_id))
+);
+
+-- Player ratings table
+CREATE TABLE IF NOT EXISTS player_ratings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  season_id uuid REFERENCES seasons(id) ON DELETE CASCADE,
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE,
+  console_type text CHECK (console_type IN ('ps3', 'ps4', 'ps5')),
+  rating numeric(7,2) NOT NULL,
+  peak_rating numeric(7,2) NOT NULL,
+  matches_played integer NOT NULL DEFAULT 0,
+  wins integer NOT NULL DEFAULT 0,
+  draws integer NOT NULL DEFAULT 0,
+  losses integer NOT NULL DEFAULT 0,
+  current_rank integer,
+  last_played_at timestamptz,
+  updated_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (user_id, season_id, game_id, console_type)
+);
+
+-- Rating history table
+CREATE TABLE IF NOT EXISTS rating_history (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  rating_id uuid NOT NULL REFERENCES player_ratings(id) ON DELETE CASCADE,
+  opponent_id uuid REFERENCES users(id) ON DELETE SET NULL,
+  match_id uuid REFERENCES tournament_matches(id) ON DELETE SET NULL,
+  casual_match_id uuid REFERENCES casual_matches(id) ON DELETE CASCADE,
+  -- Where the match sits in its bracket and who won, so a replay after a rebuild is recognised
+  event_id uuid REFERENCES events(id) ON DELETE CASCADE,
+  match_slot text,
+  match_result text,
+  score numeric(2,1) NOT NULL,
+  rating_before numeric(7,2) NOT NULL,
+  rating_after numeric(7,2) NOT NULL,
+  created_at timestamptz DEFAULT now()
+);
+
+CREATE INDEX IF NOT EXISTS idx_player_ratings_scope ON player_ratings(season_id, game_id, console_type, rating DESC);
+CREATE INDEX IF NOT EXISTS idx_rating_history_rating_id ON rating_history(rating_id, created_at DESC);
+CREATE INDEX IF NOT EXISTS idx_rating_history_match_slot ON rating_history(event_id, match_slot);
+
+ALTER TABLE seasons ENABLE ROW LEVEL SECURITY;
+ALTER TABLE casual_matches ENABLE ROW LEVEL SECURITY;
+ALTER TABLE player_ratings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE rating_history ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view seasons" ON seasons
+  FOR SELECT USING (true);
+
+CREATE POLICY "Players can view their casual matches" ON casual_matches
+  FOR SELECT USING (auth.uid() IN (player1_id, player2_id));
+
+CREATE POLICY "Anyone can view player ratings" ON player_ratings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view rating history" ON rating_history
+  FOR SELECT USING (true);
+
+CREATE OR REPLACE FUNCTION rank_player_ratings(p_season_id uuid, p_game_id uuid, p_console_type text)
+RETURNS void AS $$
+BEGIN
+  UPDATE player_ratings pr
+    SET current_rank = ranked.position
+    FROM (
+      SELECT id, rank() OVER (ORDER BY rating DESC)::integer AS position
+      FROM player_ratings
+      WHERE season_id IS NOT DISTINCT FROM p_season_id
+        AND game_id IS NOT DISTINCT FROM p_game_id
+        AND console_type IS NOT DISTINCT FROM p_console_type
+    ) ranked
+    WHERE pr.id = ranked.id AND pr.current_rank IS DISTINCT FROM ranked.position;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION refresh_leaderboard()
+RETURNS void AS $$
+BEGIN
+  INSERT INTO leaderboard (user_id, tournament_points, tournaments_won, tournaments_participated, current_rank, updated_at)
+  SELECT pr.user_id,
+         round(pr.rating)::integer,
+         (SELECT count(*) FROM event_participants ep JOIN events e ON e.id = ep.event_id
+           WHERE ep.user_id = pr.user_id AND e.status = 'completed' AND ep.rank = 1),
+         (SELECT count(*) FROM event_participants ep JOIN events e ON e.id = ep.event_id
+           WHERE ep.user_id = pr.user_id AND e.status = 'completed' AND ep.status = 'completed'),
+         pr.current_rank,
+         now()
+  FROM player_ratings pr
+  WHERE pr.season_id IS NULL AND pr.game_id IS NULL AND pr.console_type IS NULL
+  ON CONFLICT (user_id) DO UPDATE
+    SET tournament_points = EXCLUDED.tournament_points,
+        tournaments_won = EXCLUDED.tournaments_won,
+        tournaments_participated = EXCLUDED.tournaments_participated,
+        current_rank = EXCLUDED.current_rank,
+        updated_at = now();
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_score is player 1's result: 1 for a win, 0.5 for a draw, 0 for a loss
+CREATE OR REPLACE FUNCTION rate_match(
+  p_player1_id uuid,
+  p_player2_id uuid,
+  p_score numeric,
+  p_game_id uuid,
+  p_played_at timestamptz,
+  p_match_id uuid DEFAULT NULL,
+  p_casual_match_id uuid DEFAULT NULL,
+  p_event_id uuid DEFAULT NULL,
+  p_match_slot text DEFAULT NULL,
+  p_match_result text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_settings jsonb := get_setting('rating_settings');
+  v_initial numeric := COALESCE((v_settings->>'initial')::numeric, 1500);
+  v_k numeric := COALESCE((v_settings->>'k_factor')::numeric, 32);
+  v_provisional_k numeric := COALESCE((v_settings->>'provisional_k_factor')::numeric, 40);
+  v_provisional integer := COALESCE((v_settings->>'provisional_matches')::integer, 10);
+  v_console text;
+  v_season_id uuid;
+  v_scope record;
+  v_rating1 player_ratings;
+  v_rating2 player_ratings;
+  v_expected numeric;
+  v_after1 numeric;
+  v_after2 numeric;
+BEGIN
+  SELECT console_type INTO v_console FROM games WHERE id = p_game_id;
+  SELECT id INTO v_season_id FROM seasons
+    WHERE p_played_at::date BETWEEN starts_on AND ends_on
+    ORDER BY starts_on DESC
+    LIMIT 1;
+
+  -- Without a season or a game the missing scopes collapse into the all-time overall one
+  FOR v_scope IN
+    SELECT DISTINCT s.season_id, g.game_id, g.console_type
+    FROM unnest(ARRAY[NULL, v_season_id]::uuid[]) AS s(season_id)
+    CROSS JOIN (VALUES (NULL::uuid, NULL::text), (NULL::uuid, v_console), (p_game_id, v_console)) AS g(game_id, console_type)
+  LOOP
+    INSERT INTO player_ratings (user_id, season_id, game_id, console_type, rating, peak_rating)
+    VALUES
+      (p_player1_id, v_scope.season_id, v_scope.game_id, v_scope.console_type, v_initial, v_initial),
+      (p_player2_id, v_scope.season_id, v_scope.game_id, v_scope.console_type, v_initial, v_initial)
+    ON CONFLICT (user_id, season_id, game_id, console_type) DO NOTHING;
+
+    SELECT * INTO v_rating1 FROM player_ratings
+      WHERE user_id = p_player1_id
+        AND season_id IS NOT DISTINCT FROM v_scope.season_id
+        AND game_id IS NOT DISTINCT FROM v_scope.game_id
+        AND console_type IS NOT DISTINCT FROM v_scope.console_type
+      FOR UPDATE;
+    SELECT * INTO v_rating2 FROM player_ratings
+      WHERE user_id = p_player2_id
+        AND season_id IS NOT DISTINCT FROM v_scope.season_id
+        AND game_id IS NOT DISTINCT FROM v_scope.game_id
+        AND console_type IS NOT DISTINCT FROM v_scope.console_type
+      FOR UPDATE;
+
+    v_expected := 1 / (1 + power(10, (v_rating2.rating - v_rating1.rating) / 400));
+    v_after1 := v_rating1.rating
+      + (CASE WHEN v_rating1.matches_played < v_provisional THEN v_provisional_k ELSE v_k END) * (p_score - v_expected);
+    v_after2 := v_rating2.rating
+      + (CASE WHEN v_rating2.matches_played < v_provisional THEN v_provisional_k ELSE v_k END) * (v_expected - p_score);
+
+    UPDATE player_ratings
+      SET rating = v_after1,
+          peak_rating = GREATEST(peak_rating, v_after1),
+          matches_played = matches_played + 1,
+          wins = wins + (p_score = 1)::integer,
+          draws = draws + (p_score = 0.5)::integer,
+          losses = losses + (p_score = 0)::integer,
+          last_played_at = GREATEST(last_played_at, p_played_at),
+          updated_at = now()
+      WHERE id = v_rating1.id;
+
+    UPDATE player_ratings
+      SET rating = v_after2,
+          peak_rating = GREATEST(peak_rating, v_after2),
+          matches_played = matches_played + 1,
+          wins = wins + (p_score = 0)::integer,
+          draws = draws + (p_score = 0.5)::integer,
+          losses = losses + (p_score = 1)::integer,
+          last_played_at = GREATEST(last_played_at, p_played_at),
+          updated_at = now()
+      WHERE id = v_rating2.id;
+
+    INSERT INTO rating_history (
+      rating_id, opponent_id, match_id, casual_match_id, event_id, match_slot, match_result,
+      score, rating_before, rating_after, created_at
+    )
+    VALUES
+      (v_rating1.id, p_player2_id, p_match_id, p_casual_match_id, p_event_id, p_match_slot, p_match_result,
+        p_score, v_rating1.rating, v_after1, p_played_at),
+      (v_rating2.id, p_player1_id, p_match_id, p_casual_match_id, p_event_id, p_match_slot, p_match_result,
+        1 - p_score, v_rating2.rating, v_after2, p_played_at);
+
+    PERFORM rank_player_ratings(v_scope.season_id, v_scope.game_id, v_scope.console_type);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rate_tournament_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_match tournament_matches;
+  v_game_id uuid;
+  v_player1_id uuid;
+  v_player2_id uuid;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id;
+
+  IF v_match.status <> 'completed' OR v_match.participant1_id IS NULL OR v_match.participant2_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT game_id INTO v_game_id FROM events WHERE id = v_match.event_id;
+  SELECT user_id INTO v_player1_id FROM event_participants WHERE id = v_match.participant1_id;
+  SELECT user_id INTO v_player2_id FROM event_participants WHERE id = v_match.participant2_id;
+
+  PERFORM rate_match(
+    v_player1_id,
+    v_player2_id,
+    CASE
+      WHEN v_match.winner_id IS NULL THEN 0.5
+      WHEN v_match.winner_id = v_match.participant1_id THEN 1
+      ELSE 0
+    END,
+    v_game_id,
+    COALESCE(v_match.completed_at, now()),
+    p_match_id => v_match.id,
+    p_event_id => v_match.event_id,
+    p_match_slot => v_match.bracket || '-' || v_match.round || '-' || v_match.position,
+    p_match_result => concat_ws(':', v_match.participant1_id, v_match.participant2_id, COALESCE(v_match.winner_id::text, 'draw'))
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rate_casual_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_match casual_matches;
+BEGIN
+  SELECT * INTO v_match FROM casual_matches WHERE id = p_match_id;
+
+  PERFORM rate_match(
+    v_match.player1_id,
+    v_match.player2_id,
+    CASE
+      WHEN v_match.winner_id IS NULL THEN 0.5
+      WHEN v_match.winner_id = v_match.player1_id THEN 1
+      ELSE 0
+    END,
+    v_match.game_id,
+    v_match.played_at,
+    p_casual_match_id => v_match.id
+  );
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION recompute_ratings()
+RETURNS integer AS $$
+DECLARE
+  v_item record;
+  v_rated integer := 0;
+BEGIN
+  DELETE FROM rating_history;
+  DELETE FROM player_ratings;
+
+  FOR v_item IN
+    SELECT 'tournament' AS source, id, completed_at AS played_at
+    FROM tournament_matches
+    WHERE status = 'completed' AND participant1_id IS NOT NULL AND participant2_id IS NOT NULL
+    UNION ALL
+    SELECT 'casual', id, played_at FROM casual_matches
+    ORDER BY played_at
+  LOOP
+    IF v_item.source = 'tournament' THEN
+      PERFORM rate_tournament_match(v_item.id);
+    ELSE
+      PERFORM rate_casual_match(v_item.id);
+    END IF;
+    v_rated := v_rated + 1;
+  END LOOP;
+
+  PERFORM refresh_leaderboard();
+  RETURN v_rated;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION rate_tournament_match_on_result()
+RETURNS trigger AS $$
+DECLARE
+  v_slot text := NEW.bracket || '-' || NEW.round || '-' || NEW.position;
+  v_rated_result text;
+BEGIN
+  IF NEW.participant1_id IS NULL OR NEW.participant2_id IS NULL THEN
+    RETURN NEW;
+  END IF;
+
+  SELECT match_result INTO v_rated_result
+    FROM rating_history
+    WHERE event_id = NEW.event_id AND match_slot = v_slot
+    LIMIT 1;
+
+  IF v_rated_result IS NULL THEN
+    PERFORM rate_tournament_match(NEW.id);
+    PERFORM refresh_leaderboard();
+  ELSIF v_rated_result IS DISTINCT FROM concat_ws(
+    ':', NEW.participant1_id, NEW.participant2_id, COALESCE(NEW.winner_id::text, 'draw')
+  ) THEN
+    -- A corrected result changes every rating computed after it
+    PERFORM recompute_ratings();
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION rate_casual_match_on_change()
+RETURNS trigger AS $$
+BEGIN
+  IF TG_OP = 'INSERT' THEN
+    PERFORM rate_casual_match(NEW.id);
+    PERFORM refresh_leaderboard();
+  ELSE
+    PERFORM recompute_ratings();
+  END IF;
+  RETURN NULL;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_rate_tournament_match
+  AFTER INSERT OR UPDATE OF status, winner_id, participant1_id, participant2_id ON tournament_matches
+  FOR EACH ROW
+  WHEN (NEW.status = 'completed')
+  EXECUTE FUNCTION rate_tournament_match_on_result();
+
+CREATE TRIGGER trigger_rate_casual_match
+  AFTER INSERT OR DELETE ON casual_matches
+  FOR EACH ROW
+  EXECUTE FUNCTION rate_casual_match_on_change();
+
+-- Rate every result recorded before this migration
+SELECT recompute_ratings();
@@ -0,0 +1,370 @@
+/*
+  # Leaderboard Seasons
+
+  1. New Tables
+    - `season_rewards` - What each finishing range of a season wins: loyalty points, a badge and/or a
+      free hours voucher. Ranges are by final overall season rank
+    - `season_standings` - Final standings of a season in every scope, frozen when the season is archived.
+      Later rating corrections or recomputes do not change them
+    - `season_awards` - The reward each player was granted for a season, one per player per season
+
+  2. Changes
+    - `seasons.carry_over` - Share of a player's distance from the initial rating that carries into the
+      season (0 is a full reset, 1 keeps the previous season's rating)
+    - `seasons.min_matches` - Matches a player needs in the season to be ranked in its final standings
+    - `seasons.archived_at` - Set once the season's standings are archived and its rewards granted
+    - `loyalty_points.source` now accepts `season`
+
+  3. Functions
+    - `season_start_rating(user, season, game, console)` - Soft reset: the rating a player starts a season
+      scope on, pulled from their latest earlier season in the same scope towards the initial rating
+    - `rate_match(...)` - Redefined so new season scopes start on `season_start_rating`
+    - `archive_season(season)` - Archives the final standings and grants the season's rewards
+    - `rollover_seasons()` - Archives every season that has ended; pg_cron runs it every night
+*/
+
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS carry_over numeric(3,2) NOT NULL DEFAULT 0.5
+  CHECK (carry_over BETWEEN 0 AND 1);
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS min_matches integer NOT NULL DEFAULT 5 CHECK (min_matches >= 0);
+ALTER TABLE seasons ADD COLUMN IF NOT EXISTS archived_at timestamptz;
+
+-- Season rewards table
+CREATE TABLE IF NOT EXISTS season_rewards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id uuid NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  rank_from integer NOT NULL CHECK (rank_from > 0),
+  rank_to integer NOT NULL,
+  points integer NOT NULL DEFAULT 0 CHECK (points >= 0),
+  free_hours integer NOT NULL DEFAULT 0 CHECK (free_hours >= 0),
+  voucher_valid_days integer NOT NULL DEFAULT 30 CHECK (voucher_valid_days > 0),
+  badge_name text,
+  badge_icon text,
+  created_at timestamptz DEFAULT now(),
+  CHECK (rank_to >= rank_from)
+);
+
+-- Season standings table
+CREATE TABLE IF NOT EXISTS season_standings (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id uuid NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  game_id uuid REFERENCES games(id) ON DELETE CASCADE,
+  console_type text CHECK (console_type IN ('ps3', 'ps4', 'ps5')),
+  -- NULL for players below the season's minimum matches
+  final_rank integer,
+  rating numeric(7,2) NOT NULL,
+  peak_rating numeric(7,2) NOT NULL,
+  matches_played integer NOT NULL,
+  wins integer NOT NULL,
+  draws integer NOT NULL,
+  losses integer NOT NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE NULLS NOT DISTINCT (season_id, user_id, game_id, console_type)
+);
+
+-- Season awards table
+CREATE TABLE IF NOT EXISTS season_awards (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  season_id uuid NOT NULL REFERENCES seasons(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  reward_id uuid REFERENCES season_rewards(id) ON DELETE SET NULL,
+  final_rank integer NOT NULL,
+  points integer NOT NULL DEFAULT 0,
+  badge_name text,
+  badge_icon text,
+  promotion_id uuid REFERENCES promotions(id) ON DELETE SET NULL,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE (season_id, user_id)
+);
+
+CREATE INDEX IF NOT EXISTS idx_season_rewards_season_id ON season_rewards(season_id, rank_from);
+CREATE INDEX IF NOT EXISTS idx_season_standings_scope ON season_standings(season_id, game_id, console_type, final_rank);
+CREATE INDEX IF NOT EXISTS idx_season_awards_user_id ON season_awards(user_id);
+
+ALTER TABLE season_rewards ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_standings ENABLE ROW LEVEL SECURITY;
+ALTER TABLE season_awards ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view season rewards" ON season_rewards
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view season standings" ON season_standings
+  FOR SELECT USING (true);
+
+CREATE POLICY "Anyone can view season awards" ON season_awards
+  FOR SELECT USING (true);
+
+ALTER TABLE loyalty_points DROP CONSTRAINT IF EXISTS loyalty_points_source_check;
+ALTER TABLE loyalty_points
+  ADD CONSTRAINT loyalty_points_source_check
+  CHECK (source IN ('booking', 'referral', 'event', 'birthday', 'redemption', 'expiry', 'achievement', 'season'));
+
+CREATE OR REPLACE FUNCTION season_start_rating(
+  p_user_id uuid,
+  p_season_id uuid,
+  p_game_id uuid,
+  p_console_type text
+)
+RETURNS numeric AS $$
+DECLARE
+  v_initial numeric := COALESCE((get_setting('rating_settings')->>'initial')::numeric, 1500);
+  v_season seasons;
+  v_previous numeric;
+BEGIN
+  SELECT * INTO v_season FROM seasons WHERE id = p_season_id;
+
+  IF v_season.id IS NULL THEN
+    RETURN v_initial;
+  END IF;
+
+  SELECT pr.rating INTO v_previous
+    FROM player_ratings pr
+    JOIN seasons s ON s.id = pr.season_id
+    WHERE pr.user_id = p_user_id
+      AND pr.game_id IS NOT DISTINCT FROM p_game_id
+      AND pr.console_type IS NOT DISTINCT FROM p_console_type
+      AND s.starts_on < v_season.starts_on
+    ORDER BY s.starts_on DESC
+    LIMIT 1;
+
+  RETURN v_initial + (COALESCE(v_previous, v_initial) - v_initial) * v_season.carry_over;
+END;
+$$ LANGUAGE plpgsql;
+
+-- p_score is player 1's result: 1 for a win, 0.5 for a draw, 0 for a loss
+CREATE OR REPLACE FUNCTION rate_match(
+  p_player1_id uuid,
+  p_player2_id uuid,
+  p_score numeric,
+  p_game_id uuid,
+  p_played_at timestamptz,
+  p_match_id uuid DEFAULT NULL,
+  p_casual_match_id uuid DEFAULT NULL,
+  p_event_id uuid DEFAULT NULL,
+  p_match_slot text DEFAULT NULL,
+  p_match_result text DEFAULT NULL
+)
+RETURNS void AS $$
+DECLARE
+  v_settings jsonb := get_setting('rating_settings');
+  v_k numeric := COALESCE((v_settings->>'k_factor')::numeric, 32);
+  v_provisional_k numeric := COALESCE((v_settings->>'provisional_k_factor')::numeric, 40);
+  v_provisional integer := COALESCE((v_settings->>'provisional_matches')::integer, 10);
+  v_console text;
+  v_season_id uuid;
+  v_scope record;
+  v_start1 numeric;
+  v_start2 numeric;
+  v_rating1 player_ratings;
+  v_rating2 player_ratings;
+  v_expected numeric;
+  v_after1 numeric;
+  v_after2 numeric;
+BEGIN
+  SELECT console_type INTO v_console FROM games WHERE id = p_game_id;
+  SELECT id INTO v_season_id FROM seasons
+    WHERE p_played_at::date BETWEEN starts_on AND ends_on
+    ORDER BY starts_on DESC
+    LIMIT 1;
+
+  -- Without a season or a game the missing scopes collapse into the all-time overall one
+  FOR v_scope IN
+    SELECT DISTINCT s.season_id, g.game_id, g.console_type
+    FROM unnest(ARRAY[NULL, v_season_id]::uuid[]) AS s(season_id)
+    CROSS JOIN (VALUES (NULL::uuid, NULL::text), (NULL::uuid, v_console), (p_game_id, v_console)) AS g(game_id, console_type)
+  LOOP
+    v_start1 := season_start_rating(p_player1_id, v_scope.season_id, v_scope.game_id, v_scope.console_type);
+    v_start2 := season_start_rating(p_player2_id, v_scope.season_id, v_scope.game_id, v_scope.console_type);
+
+    INSERT INTO player_ratings (user_id, season_id, game_id, console_type, rating, peak_rating)
+    VALUES
+      (p_player1_id, v_scope.season_id, v_scope.game_id, v_scope.console_type, v_start1, v_start1),
+      (p_player2_id, v_scope.season_id, v_scope.game_id, v_scope.console_type, v_start2, v_start2)
+    ON CONFLICT (user_id, season_id, game_id, console_type) DO NOTHING;
+
+    SELECT * INTO v_rating1 FROM player_ratings
+      WHERE user_id = p_player1_id
+        AND season_id IS NOT DISTINCT FROM v_scope.season_id
+        AND game_id IS NOT DISTINCT FROM v_scope.game_id
+        AND console_type IS NOT DISTINCT FROM v_scope.console_type
+      FOR UPDATE;
+    SELECT * INTO v_rating2 FROM player_ratings
+      WHERE user_id = p_player2_id
+        AND season_id IS NOT DISTINCT FROM v_scope.season_id
+        AND game_id IS NOT DISTINCT FROM v_scope.game_id
+        AND console_type IS NOT DISTINCT FROM v_scope.console_type
+      FOR UPDATE;
+
+    v_expected := 1 / (1 + power(10, (v_rating2.rating - v_rating1.rating) / 400));
+    v_after1 := v_rating1.rating
+      + (CASE WHEN v_rating1.matches_played < v_provisional THEN v_provisional_k ELSE v_k END) * (p_score - v_expected);
+    v_after2 := v_rating2.rating
+      + (CASE WHEN v_rating2.matches_played < v_provisional THEN v_provisional_k ELSE v_k END) * (v_expected - p_score);
+
+    UPDATE player_ratings
+      SET rating = v_after1,
+          peak_rating = GREATEST(peak_rating, v_after1),
+          matches_played = matches_played + 1,
+          wins = wins + (p_score = 1)::integer,
+          draws = draws + (p_score = 0.5)::integer,
+          losses = losses + (p_score = 0)::integer,
+          last_played_at = GREATEST(last_played_at, p_played_at),
+          updated_at = now()
+      WHERE id = v_rating1.id;
+
+    UPDATE player_ratings
+      SET rating = v_after2,
+          peak_rating = GREATEST(peak_rating, v_after2),
+          matches_played = matches_played + 1,
+          wins = wins + (p_score = 0)::integer,
+          draws = draws + (p_score = 0.5)::integer,
+          losses = losses + (p_score = 1)::integer,
+          last_played_at = GREATEST(last_played_at, p_played_at),
+          updated_at = now()
+      WHERE id = v_rating2.id;
+
+    INSERT INTO rating_history (
+      rating_id, opponent_id, match_id, casual_match_id, event_id, match_slot, match_result,
+      score, rating_before, rating_after, created_at
+    )
+    VALUES
+      (v_rating1.id, p_player2_id, p_match_id, p_casual_match_id, p_event_id, p_match_slot, p_match_result,
+        p_score, v_rating1.rating, v_after1, p_played_at),
+      (v_rating2.id, p_player1_id, p_match_id, p_casual_match_id, p_event_id, p_match_slot, p_match_result,
+        1 - p_score, v_rating2.rating, v_after2, p_played_at);
+
+    PERFORM rank_player_ratings(v_scope.season_id, v_scope.game_id, v_scope.console_type);
+  END LOOP;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE OR REPLACE FUNCTION archive_season(p_season_id uuid)
+RETURNS integer AS $$
+DECLARE
+  v_season seasons;
+  v_winner record;
+  v_promotion_id uuid;
+  v_code text;
+  v_count integer := 0;
+BEGIN
+  -- Claiming the season first means overlapping runs cannot archive or reward it twice
+  UPDATE seasons SET archived_at = now()
+    WHERE id = p_season_id AND archived_at IS NULL AND ends_on < CURRENT_DATE
+    RETURNING * INTO v_season;
+
+  IF v_season.id IS NULL THEN
+    RETURN 0;
+  END IF;
+
+  INSERT INTO season_standings (
+    season_id, user_id, game_id, console_type, final_rank,
+    rating, peak_rating, matches_played, wins, draws, losses
+  )
+  SELECT pr.season_id, pr.user_id, pr.game_id, pr.console_type,
+         CASE WHEN pr.matches_played >= v_season.min_matches
+           THEN rank() OVER (
+             PARTITION BY pr.game_id, pr.console_type, pr.matches_played >= v_season.min_matches
+             ORDER BY pr.rating DESC
+           )::integer
+         END,
+         pr.rating, pr.peak_rating, pr.matches_played, pr.wins, pr.draws, pr.losses
+  FROM player_ratings pr
+  WHERE pr.season_id = v_season.id;
+
+  FOR v_winner IN
+    SELECT ss.user_id, ss.final_rank, r.id AS reward_id, r.points, r.free_hours,
+           r.voucher_valid_days, r.badge_name, r.badge_icon
+    FROM season_standings ss
+    JOIN LATERAL (
+      SELECT * FROM season_rewards sr
+      WHERE sr.season_id = v_season.id AND ss.final_rank BETWEEN sr.rank_from AND sr.rank_to
+      ORDER BY sr.rank_from DESC
+      LIMIT 1
+    ) r ON true
+    WHERE ss.season_id = v_season.id
+      AND ss.game_id IS NULL AND ss.console_type IS NULL
+    ORDER BY ss.final_rank
+  LOOP
+    v_promotion_id := NULL;
+
+    IF v_winner.points > 0 THEN
+      INSERT INTO loyalty_points (user_id, points, type, source, description)
+      VALUES (v_winner.user_id, v_winner.points, 'earned', 'season', v_season.name || ' finish #' || v_winner.final_rank);
+    END IF;
+
+    IF v_winner.free_hours > 0 THEN
+      v_code := 'SEASON-' || upper(substr(md5(random()::text || v_winner.user_id::text), 1, 8));
+
+      INSERT INTO promotions (
+        title, description, code, user_id, discount_type, discount_value,
+        min_booking_hours, valid_from, valid_until, max_uses
+      )
+      VALUES (
+        v_season.name || ' Reward',
+        'Gratis ' || v_winner.free_hours || ' jam untuk peringkat #' || v_winner.final_rank || ' ' || v_season.name,
+        v_code,
+        v_winner.user_id,
+        'free_hours',
+        v_winner.free_hours,
+        v_winner.free_hours,
+        CURRENT_DATE,
+        CURRENT_DATE + v_winner.voucher_valid_days,
+        1
+      )
+      RETURNING id INTO v_promotion_id;
+    END IF;
+
+    INSERT INTO season_awards (
+      season_id, user_id, reward_id, final_rank, points, badge_name, badge_icon, promotion_id
+    )
+    VALUES (
+      v_season.id, v_winner.user_id, v_winner.reward_id, v_winner.final_rank,
+      v_winner.points, v_winner.badge_name, v_winner.badge_icon, v_promotion_id
+    );
+
+    INSERT INTO notifications (user_id, title, message, type, action_url)
+    VALUES (
+      v_winner.user_id,
+      'Hadiah ' || v_season.name,
+      'Selamat! Anda finis di peringkat #' || v_winner.final_rank || ' ' || v_season.name || '.' ||
+        CASE WHEN v_winner.points > 0 THEN ' ' || v_winner.points || ' poin sudah ditambahkan.' ELSE '' END ||
+        CASE WHEN v_winner.badge_name IS NOT NULL THEN ' Lencana ' || v_winner.badge_name || ' sudah Anda dapatkan.' ELSE '' END ||
+        CASE WHEN v_promotion_id IS NOT NULL
+          THEN ' Voucher gratis ' || v_winner.free_hours || ' jam: ' || v_code ||
+            ', berlaku sampai ' || to_char(CURRENT_DATE + v_winner.voucher_valid_days, 'DD Mon YYYY') || '.'
+          ELSE ''
+        END,
+      'promotion',
+      '/leaderboard?season=' || v_season.id
+    );
+
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION rollover_seasons()
+RETURNS integer AS $$
+DECLARE
+  v_season_id uuid;
+  v_count integer := 0;
+BEGIN
+  FOR v_season_id IN
+    SELECT id FROM seasons
+    WHERE archived_at IS NULL AND ends_on < CURRENT_DATE
+    ORDER BY ends_on
+  LOOP
+    PERFORM archive_season(v_season_id);
+    v_count := v_count + 1;
+  END LOOP;
+
+  RETURN v_count;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+SELECT cron.schedule('rollover-seasons', '5 0 * * *', $$SELECT rollover_seasons()$$);
+
+-- Ratings of existing seasons start from the soft reset as well
+SELECT recompute_ratings();
@@ -0,0 +1,398 @@
+/*
+  # Event Teams
+
+  1. New Tables
+    - `teams` - A team formed for one event, led by its captain
+    - `team_members` - Roster and invitations; the captain is an accepted member of their own team.
+      A player can only be on one team per event
+
+  2. Changes
+    - `events.min_team_size` / `events.max_team_size` - Roster limits of a team event; both NULL for
+      individual events
+    - `event_participants.team_id` - Set when a team registered; the row's `user_id` is the captain, who
+      also reports the team's match results
+    - `event_participants.entry_fee` - Fee charged for the registration: once per team in team events
+    - Team events only accept registrations through `register_team`
+
+  3. Functions
+    - `create_team(event, captain, name)` - Starts a team for a team event
+    - `invite_team_member(team, captain, email or name)` - Invites a player by email or full name
+    - `respond_team_invite(member, user, accept)` - The invited player joins or declines
+    - `remove_team_member(team, actor, user)` - The captain drops a player or cancels an invite, or a
+      player leaves; a registered team cannot drop below the minimum roster
+    - `disband_team(team, captain)` - The captain drops a team that has not registered yet
+    - `register_team(team, captain)` - Registers the team as one participant once its roster fits the event
+    - `rate_tournament_match(match)` - Redefined to skip team events; ratings are per player
+*/
+
+ALTER TABLE events ADD COLUMN IF NOT EXISTS min_team_size integer CHECK (min_team_size > 0);
+ALTER TABLE events ADD COLUMN IF NOT EXISTS max_team_size integer;
+ALTER TABLE events DROP CONSTRAINT IF EXISTS events_team_size_check;
+ALTER TABLE events
+  ADD CONSTRAINT events_team_size_check
+  CHECK ((min_team_size IS NULL) = (max_team_size IS NULL) AND max_team_size >= min_team_size);
+
+-- Teams table
+CREATE TABLE IF NOT EXISTS teams (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  name text NOT NULL,
+  captain_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'forming' CHECK (status IN ('forming', 'registered')),
+  created_at timestamptz DEFAULT now(),
+  updated_at timestamptz DEFAULT now()
+);
+
+-- Team members table
+CREATE TABLE IF NOT EXISTS team_members (
+  id uuid PRIMARY KEY DEFAULT gen_random_uuid(),
+  team_id uuid NOT NULL REFERENCES teams(id) ON DELETE CASCADE,
+  event_id uuid NOT NULL REFERENCES events(id) ON DELETE CASCADE,
+  user_id uuid NOT NULL REFERENCES users(id) ON DELETE CASCADE,
+  status text NOT NULL DEFAULT 'invited' CHECK (status IN ('invited', 'accepted', 'declined')),
+  invited_by uuid REFERENCES users(id) ON DELETE SET NULL,
+  responded_at timestamptz,
+  created_at timestamptz DEFAULT now(),
+  UNIQUE(team_id, user_id)
+);
+
+ALTER TABLE event_participants ADD COLUMN IF NOT EXISTS team_id uuid REFERENCES teams(id) ON DELETE CASCADE;
+ALTER TABLE event_participants ADD COLUMN IF NOT EXISTS entry_fee integer NOT NULL DEFAULT 0;
+
+CREATE UNIQUE INDEX IF NOT EXISTS idx_teams_event_name ON teams(event_id, lower(name));
+CREATE UNIQUE INDEX IF NOT EXISTS idx_team_members_one_team ON team_members(event_id, user_id) WHERE status = 'accepted';
+CREATE INDEX IF NOT EXISTS idx_team_members_user_id ON team_members(user_id, status);
+
+ALTER TABLE teams ENABLE ROW LEVEL SECURITY;
+ALTER TABLE team_members ENABLE ROW LEVEL SECURITY;
+
+CREATE POLICY "Anyone can view teams" ON teams
+  FOR SELECT USING (true);
+
+CREATE POLICY "Players can view their team rosters" ON team_members
+  FOR SELECT USING (
+    user_id = auth.uid()
+    OR EXISTS (
+      SELECT 1 FROM team_members tm
+      WHERE tm.team_id = team_members.team_id AND tm.user_id = auth.uid() AND tm.status = 'accepted'
+    )
+  );
+
+CREATE OR REPLACE FUNCTION check_team_registration()
+RETURNS trigger AS $$
+DECLARE
+  v_max_team_size integer;
+BEGIN
+  SELECT max_team_size INTO v_max_team_size FROM events WHERE id = NEW.event_id;
+
+  IF v_max_team_size IS NOT NULL AND NEW.team_id IS NULL THEN
+    RAISE EXCEPTION 'This is a team event; register as a team';
+  ELSIF v_max_team_size IS NULL AND NEW.team_id IS NOT NULL THEN
+    RAISE EXCEPTION 'This event does not take teams';
+  END IF;
+
+  RETURN NEW;
+END;
+$$ LANGUAGE plpgsql;
+
+CREATE TRIGGER trigger_check_team_registration
+  BEFORE INSERT ON event_participants
+  FOR EACH ROW
+  EXECUTE FUNCTION check_team_registration();
+
+CREATE OR REPLACE FUNCTION create_team(p_event_id uuid, p_captain_id uuid, p_name text)
+RETURNS teams AS $$
+DECLARE
+  v_captain_id uuid := request_user_id(p_captain_id);
+  v_event events;
+  v_team teams;
+BEGIN
+  SELECT * INTO v_event FROM events WHERE id = p_event_id;
+
+  IF v_event.id IS NULL OR v_event.max_team_size IS NULL THEN
+    RAISE EXCEPTION 'This event does not take teams';
+  ELSIF v_event.status <> 'upcoming' THEN
+    RAISE EXCEPTION 'Registration for this event is closed';
+  ELSIF COALESCE(trim(p_name), '') = '' THEN
+    RAISE EXCEPTION 'Team name cannot be empty';
+  ELSIF EXISTS (
+    SELECT 1 FROM team_members WHERE event_id = p_event_id AND user_id = v_captain_id AND status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'You are already on a team for this event';
+  END IF;
+
+  INSERT INTO teams (event_id, name, captain_id)
+  VALUES (p_event_id, trim(p_name), v_captain_id)
+  RETURNING * INTO v_team;
+
+  INSERT INTO team_members (team_id, event_id, user_id, status, invited_by, responded_at)
+  VALUES (v_team.id, p_event_id, v_captain_id, 'accepted', v_captain_id, now());
+
+  RETURN v_team;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION invite_team_member(p_team_id uuid, p_captain_id uuid, p_identifier text)
+RETURNS team_members AS $$
+DECLARE
+  v_captain_id uuid := request_user_id(p_captain_id);
+  v_team teams;
+  v_event events;
+  v_user_id uuid;
+  v_matches integer;
+  v_member team_members;
+BEGIN
+  SELECT * INTO v_team FROM teams WHERE id = p_team_id FOR UPDATE;
+  SELECT * INTO v_event FROM events WHERE id = v_team.event_id;
+
+  IF v_team.id IS NULL THEN
+    RAISE EXCEPTION 'Team does not exist';
+  ELSIF v_team.captain_id IS DISTINCT FROM v_captain_id THEN
+    RAISE EXCEPTION 'Only the captain can invite players';
+  END IF;
+
+  -- Emails are unique; a full name only works when exactly one player has it
+  SELECT min(id::text)::uuid, count(*) INTO v_user_id, v_matches
+    FROM users
+    WHERE lower(email) = lower(trim(p_identifier))
+       OR (lower(full_name) = lower(trim(p_identifier))
+           AND NOT EXISTS (SELECT 1 FROM users WHERE lower(email) = lower(trim(p_identifier))));
+
+  IF v_matches = 0 THEN
+    RAISE EXCEPTION 'No player found with that email or name';
+  ELSIF v_matches > 1 THEN
+    RAISE EXCEPTION 'More than one player has that name; invite them by email';
+  ELSIF EXISTS (
+    SELECT 1 FROM team_members WHERE event_id = v_team.event_id AND user_id = v_user_id AND status = 'accepted'
+  ) THEN
+    RAISE EXCEPTION 'That player is already on a team for this event';
+  END IF;
+
+  -- Open invites hold a roster spot so a full team cannot over-invite
+  IF (SELECT count(*) FROM team_members WHERE team_id = v_team.id AND status IN ('invited', 'accepted'))
+    >= v_event.max_team_size THEN
+    RAISE EXCEPTION 'The roster is full (% players)', v_event.max_team_size;
+  END IF;
+
+  INSERT INTO team_members (team_id, event_id, user_id, invited_by)
+  VALUES (v_team.id, v_team.event_id, v_user_id, v_captain_id)
+  ON CONFLICT (team_id, user_id) DO UPDATE
+    SET status = 'invited', invited_by = EXCLUDED.invited_by, responded_at = NULL, created_at = now()
+    WHERE team_members.status = 'declined'
+  RETURNING * INTO v_member;
+
+  IF v_member.id IS NULL THEN
+    RAISE EXCEPTION 'That player is already on this team or invited';
+  END IF;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES (
+    v_user_id,
+    'Undangan tim',
+    'Anda diundang bergabung dengan tim ' || v_team.name || ' untuk ' || v_event.title || '.',
+    'event',
+    '/events/' || v_event.id
+  );
+
+  RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION respond_team_invite(p_member_id uuid, p_user_id uuid, p_accept boolean)
+RETURNS team_members AS $$
+DECLARE
+  v_user_id uuid := request_user_id(p_user_id);
+  v_member team_members;
+  v_team teams;
+  v_user_name text;
+BEGIN
+  SELECT * INTO v_member FROM team_members WHERE id = p_member_id FOR UPDATE;
+
+  IF v_member.id IS NULL OR v_member.user_id IS DISTINCT FROM v_user_id OR v_member.status <> 'invited' THEN
+    RAISE EXCEPTION 'This invitation is no longer open';
+  END IF;
+
+  SELECT * INTO v_team FROM teams WHERE id = v_member.team_id;
+
+  -- The one-team-per-event index rejects accepting a second team
+  UPDATE team_members
+    SET status = CASE WHEN p_accept THEN 'accepted' ELSE 'declined' END,
+        responded_at = now()
+    WHERE id = v_member.id
+    RETURNING * INTO v_member;
+
+  IF p_accept THEN
+    -- Other invites for the same event lapse once the player picked a team
+    UPDATE team_members
+      SET status = 'declined', responded_at = now()
+      WHERE event_id = v_member.event_id AND user_id = v_user_id AND status = 'invited';
+  END IF;
+
+  SELECT full_name INTO v_user_name FROM users WHERE id = v_user_id;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  VALUES (
+    v_team.captain_id,
+    CASE WHEN p_accept THEN 'Undangan tim diterima' ELSE 'Undangan tim ditolak' END,
+    v_user_name || CASE WHEN p_accept THEN ' bergabung dengan tim ' ELSE ' menolak undangan tim ' END ||
+      v_team.name || '.',
+    'event',
+    '/events/' || v_team.event_id
+  );
+
+  RETURN v_member;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION remove_team_member(p_team_id uuid, p_actor_id uuid, p_user_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_actor_id uuid := request_user_id(p_actor_id);
+  v_team teams;
+  v_event events;
+  v_member team_members;
+BEGIN
+  SELECT * INTO v_team FROM teams WHERE id = p_team_id FOR UPDATE;
+  SELECT * INTO v_event FROM events WHERE id = v_team.event_id;
+  SELECT * INTO v_member FROM team_members WHERE team_id = p_team_id AND user_id = p_user_id;
+
+  IF v_member.id IS NULL OR v_member.status = 'declined' THEN
+    RAISE EXCEPTION 'That player is not on this team';
+  ELSIF v_actor_id IS NULL OR v_actor_id NOT IN (v_team.captain_id, p_user_id) THEN
+    RAISE EXCEPTION 'Only the captain can remove other players';
+  ELSIF p_user_id = v_team.captain_id THEN
+    RAISE EXCEPTION 'The captain cannot leave the team';
+  ELSIF v_team.status = 'registered' AND v_member.status = 'accepted'
+    AND (SELECT count(*) FROM team_members WHERE team_id = p_team_id AND status = 'accepted') <= v_event.min_team_size THEN
+    RAISE EXCEPTION 'A registered team needs at least % players', v_event.min_team_size;
+  END IF;
+
+  DELETE FROM team_members WHERE id = v_member.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION disband_team(p_team_id uuid, p_captain_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_captain_id uuid := request_user_id(p_captain_id);
+  v_team teams;
+BEGIN
+  SELECT * INTO v_team FROM teams WHERE id = p_team_id FOR UPDATE;
+
+  IF v_team.id IS NULL THEN
+    RAISE EXCEPTION 'Team does not exist';
+  ELSIF v_team.captain_id IS DISTINCT FROM v_captain_id THEN
+    RAISE EXCEPTION 'Only the captain can disband the team';
+  ELSIF v_team.status = 'registered' THEN
+    RAISE EXCEPTION 'A registered team cannot be disbanded';
+  END IF;
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT tm.user_id,
+         'Tim dibubarkan',
+         'Tim ' || v_team.name || ' dibubarkan oleh kapten.',
+         'event',
+         '/events/' || v_team.event_id
+  FROM team_members tm
+  WHERE tm.team_id = v_team.id AND tm.status IN ('invited', 'accepted') AND tm.user_id <> v_captain_id;
+
+  DELETE FROM teams WHERE id = v_team.id;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION register_team(p_team_id uuid, p_captain_id uuid)
+RETURNS event_participants AS $$
+DECLARE
+  v_captain_id uuid := request_user_id(p_captain_id);
+  v_team teams;
+  v_event events;
+  v_roster integer;
+  v_participant event_participants;
+BEGIN
+  SELECT * INTO v_team FROM teams WHERE id = p_team_id FOR UPDATE;
+  -- Locking the event serialises registrations, so the last spot cannot be taken twice
+  SELECT * INTO v_event FROM events WHERE id = v_team.event_id FOR UPDATE;
+
+  IF v_team.id IS NULL THEN
+    RAISE EXCEPTION 'Team does not exist';
+  ELSIF v_team.captain_id IS DISTINCT FROM v_captain_id THEN
+    RAISE EXCEPTION 'Only the captain can register the team';
+  ELSIF v_team.status = 'registered' THEN
+    RAISE EXCEPTION 'This team is already registered';
+  ELSIF v_event.status <> 'upcoming' THEN
+    RAISE EXCEPTION 'Registration for this event is closed';
+  END IF;
+
+  SELECT count(*) INTO v_roster FROM team_members WHERE team_id = v_team.id AND status = 'accepted';
+
+  IF v_roster < v_event.min_team_size OR v_roster > v_event.max_team_size THEN
+    RAISE EXCEPTION 'A team needs % to % players; this one has %',
+      v_event.min_team_size, v_event.max_team_size, v_roster;
+  ELSIF v_event.max_participants IS NOT NULL AND (
+    SELECT count(*) FROM event_participants WHERE event_id = v_event.id AND status <> 'cancelled'
+  ) >= v_event.max_participants THEN
+    RAISE EXCEPTION 'Sorry, this event is full';
+  END IF;
+
+  INSERT INTO event_participants (event_id, user_id, team_id, entry_fee)
+  VALUES (v_event.id, v_team.captain_id, v_team.id, COALESCE(v_event.entry_fee, 0))
+  RETURNING * INTO v_participant;
+
+  UPDATE teams SET status = 'registered', updated_at = now() WHERE id = v_team.id;
+
+  -- Invites still open at registration lapse; the roster is what registered
+  UPDATE team_members SET status = 'declined', responded_at = now()
+    WHERE team_id = v_team.id AND status = 'invited';
+
+  INSERT INTO notifications (user_id, title, message, type, action_url)
+  SELECT user_id,
+         'Tim terdaftar',
+         'Tim ' || v_team.name || ' sudah terdaftar di ' || v_event.title || '.',
+         'event',
+         '/events/' || v_event.id
+  FROM team_members WHERE team_id = v_team.id AND status = 'accepted';
+
+  RETURN v_participant;
+END;
+$$ LANGUAGE plpgsql SECURITY DEFINER;
+
+CREATE OR REPLACE FUNCTION rate_tournament_match(p_match_id uuid)
+RETURNS void AS $$
+DECLARE
+  v_match tournament_matches;
+  v_event events;
+  v_player1_id uuid;
+  v_player2_id uuid;
+BEGIN
+  SELECT * INTO v_match FROM tournament_matches WHERE id = p_match_id;
+
+  IF v_match.status <> 'completed' OR v_match.participant1_id IS NULL OR v_match.participant2_id IS NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT * INTO v_event FROM events WHERE id = v_match.event_id;
+
+  IF v_event.max_team_size IS NOT NULL THEN
+    RETURN;
+  END IF;
+
+  SELECT user_id INTO v_player1_id FROM event_participants WHERE id = v_match.participant1_id;
+  SELECT user_id INTO v_player2_id FROM event_participants WHERE id = v_match.participant2_id;
+
+  PERFORM rate_match(
+    v_player1_id,
+    v_player2_id,
+    CASE
+      WHEN v_match.winner_id IS NULL THEN 0.5
+      WHEN v_match.winner_id = v_match.participant1_id THEN 1
+      ELSE 0
+    END,
+    v_event.game_id,
+    COALESCE(v_match.completed_at, now()),
+    p_match_id => v_match.id,
+    p_event_id => v_match.event_id,
+    p_match_slot => v_match.bracket || '-' || v_match.round || '-' || v_match.position,
+    p_match_result => concat_ws(':', v_match.participant1_id, v_match.participant2_id, COALESCE(v_match.winner_id::text, 'draw'))
+  );
+END;
+$$ LANGUAGE plpgsql;